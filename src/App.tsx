@@ -1,83 +1,153 @@
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { Session } from '@supabase/supabase-js'
 import './App.css'
-import { CATEGORY_ORDER, DEFAULT_TARGETS } from './constants'
 import {
+  DEFAULT_CATEGORY_CATALOG,
+  REQUIRED_FIELDS,
+} from './constants'
+import {
+  applyDatasetUpdate,
   createDataset,
+  deleteDataset,
+  findDatasetBySourceHash,
   getCurrentSession,
   insertFlights,
   currentUserIsAdmin,
   isSupabaseConfigured,
   listDatasets,
+  listMappingProfiles,
   loadDataset,
   markFlightOperated,
   onAuthChange,
+  renameDataset,
   requestOtp,
-  runAutoAssignment,
   saveCategoryTargets,
+  saveShiftCapacity,
   saveDatasetSettings,
+  saveMappingProfile,
+  setDatasetArchived,
   signOut,
-  subscribeRealtime,
   verifyOtp,
 } from './lib/supabase'
-import type { AppMode, CategoryProgress, DatasetSummary, FlightRecord } from './types'
-import { parseFlightsCsv } from './utils/csv'
+import {
+  isNetworkError,
+  listOperatedOutbox,
+  saveCachedSnapshot,
+} from './lib/offline'
+import { AutoAssignModal } from './components/AutoAssignModal'
+import { CategoryCatalogModal } from './components/CategoryCatalogModal'
+import { CategoryCatalogTable } from './components/CategoryCatalogTable'
+import { CategoryLabel } from './components/CategoryLabel'
+import { ClassificationRulesModal } from './components/ClassificationRulesModal'
+import { ClassificationRulesTable } from './components/ClassificationRulesTable'
+import { DatasetAdminTable } from './components/DatasetAdminTable'
+import { DatasetUpdateModal } from './components/DatasetUpdateModal'
+import { DeleteDatasetModal } from './components/DeleteDatasetModal'
+import { DuplicateUploadModal } from './components/DuplicateUploadModal'
+import { FlightHistoryDrawer } from './components/FlightHistoryDrawer'
+import { FlightsTable } from './components/FlightsTable'
+import { ForecastTable } from './components/ForecastTable'
+import { MappingModal } from './components/MappingModal'
+import { MarkConflictsModal } from './components/MarkConflictsModal'
+import { MyFlightsView } from './components/MyFlightsView'
+import { OffShiftModal } from './components/OffShiftModal'
+import { OperatorBalancePanel } from './components/OperatorBalancePanel'
+import { OverrideModal } from './components/OverrideModal'
+import { ReversalRequestModal } from './components/ReversalRequestModal'
+import { ReversalsPanel } from './components/ReversalsPanel'
+import { RunsView } from './components/RunsView'
+import { RestoreRunModal } from './components/RestoreRunModal'
+import { SheetChoiceModal } from './components/SheetChoiceModal'
+import { ShiftCapacityGrid } from './components/ShiftCapacityGrid'
+import { TargetRuleModal } from './components/TargetRuleModal'
+import { TargetRulesList } from './components/TargetRulesList'
+import { ValidationReportModal } from './components/ValidationReportModal'
+import { VerifyRunModal } from './components/VerifyRunModal'
+import { useAssignmentRuns } from './hooks/useAssignmentRuns'
+import { useAutoAssign } from './hooks/useAutoAssign'
+import { useCategoryCatalog } from './hooks/useCategoryCatalog'
+import { useCategoryForecast } from './hooks/useCategoryForecast'
+import { useClassificationRules } from './hooks/useClassificationRules'
+import { useDatasetAdmin } from './hooks/useDatasetAdmin'
+import { useDatasetRealtime } from './hooks/useDatasetRealtime'
+import { useFlightFilters } from './hooks/useFlightFilters'
+import { useFlightHistory } from './hooks/useFlightHistory'
+import { useOperatedOutbox } from './hooks/useOperatedOutbox'
+import { useOperatedReversals } from './hooks/useOperatedReversals'
+import { useOperatorAssignments } from './hooks/useOperatorAssignments'
+import { useOperatorPresence } from './hooks/useOperatorPresence'
+import { useRunRestore } from './hooks/useRunRestore'
+import { useRunVerification } from './hooks/useRunVerification'
+import { useServiceFlagOverride } from './hooks/useServiceFlagOverride'
+import { useTargetRuleEditor } from './hooks/useTargetRuleEditor'
+import type {
+  AppMode,
+  CategoryDefinition,
+  CategoryProgress,
+  ColumnMapping,
+  CsvMappingProfile,
+  DatasetSnapshot,
+  DatasetSummary,
+  DuplicateUpload,
+  FlightRecord,
+  ImportOptions,
+  ImportSource,
+  MappingDraft,
+  OperatedOutboxEntry,
+  ParsedCsvResult,
+  PendingImport,
+  PendingUpdate,
+  RealtimeEvent,
+  SheetChoice,
+  TargetRule,
+} from './types'
+import { listShiftSlots } from './utils/capacity'
+import {
+  BUILTIN_MAPPING_PROFILE,
+  applyCategoryOverrides,
+  detectMappingProfile,
+  parseFlightRows,
+  suggestColumnMapping,
+} from './utils/csv'
+import { isIsoDate, parseCsvDateToIso, toLocalTime } from './utils/dates'
+import { applyFlightDiff, diffFlights } from './utils/diff'
+import { downloadCsvFile, escapeCsvCell, toSafeFileToken } from './utils/download'
+import { formatDatasetDate, formatDateTime, getErrorMessage } from './utils/format'
+import { buildImportPreview, describeImportSource, readImportSource } from './utils/import'
+import {
+  buildDefaultTargets,
+  getDefaultTarget,
+  listActiveCategories,
+  sortCategories,
+} from './utils/categories'
+import { applyOperatedOutbox, buildOperatedUpdate } from './utils/outbox'
 import { buildCategoryProgress, buildInitialTargets } from './utils/progress'
-
-const PAGE_SIZE = 120
+import {
+  applyFlightRealtimeEvent,
+  applyReversalRealtimeEvent,
+  applyTargetRealtimeEvent,
+} from './utils/realtime'
+import { applyTargetRule, clampPercent, describeTargetRule, resolveTargetRule } from './utils/targets'
+
+const FORECAST_REFRESH_MS = 60_000
+const SNAPSHOT_CACHE_DELAY_MS = 2_000
 const GUEST_TEST_CSV_URL = '/output_tables/test_flights.csv'
 const GUEST_TEST_CSV_FILE_NAME = 'test_flights.csv'
 
-const CATEGORY_INDEX = new Map<string, number>(CATEGORY_ORDER.map((category, index) => [category, index]))
-
-const sortCategories = (categories: string[]): string[] => {
-  return [...categories].sort((a, b) => {
-    const aIndex = CATEGORY_INDEX.get(a) ?? Number.POSITIVE_INFINITY
-    const bIndex = CATEGORY_INDEX.get(b) ?? Number.POSITIVE_INFINITY
-    if (aIndex !== bIndex) {
-      return aIndex - bIndex
-    }
-    return a.localeCompare(b)
-  })
-}
-
-const clampPercent = (value: number): number => {
-  if (!Number.isFinite(value)) {
-    return 0
-  }
-  return Math.max(0, Math.min(100, Number(value.toFixed(2))))
-}
-
 const mergeTargets = (
   categories: string[],
   incomingTargets: Record<string, number>,
+  catalog: CategoryDefinition[],
 ): Record<string, number> => {
-  const uniqueCategories = sortCategories([...new Set([...categories, ...Object.keys(incomingTargets)])])
+  const uniqueCategories = sortCategories([...new Set([...categories, ...Object.keys(incomingTargets)])], catalog)
   return Object.fromEntries(
-    uniqueCategories.map((category) => [category, clampPercent(incomingTargets[category] ?? DEFAULT_TARGETS[category] ?? 0)]),
+    uniqueCategories.map((category) => [
+      category,
+      clampPercent(incomingTargets[category] ?? getDefaultTarget(catalog, category)),
+    ]),
   )
 }
 
-const getErrorMessage = (error: unknown): string => {
-  if (error instanceof Error) {
-    return error.message
-  }
-  return 'Ha ocurrido un error inesperado'
-}
-
-const formatDateTime = (value: string | null): string => {
-  if (!value) {
-    return '--'
-  }
-  const date = new Date(value)
-  return Number.isNaN(date.getTime()) ? '--' : date.toLocaleString('es-ES')
-}
-
-const formatDatasetDate = (value: string): string => {
-  const date = new Date(value)
-  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('es-ES')
-}
-
 const realtimeLabel = (status: string): string => {
   switch (status) {
     case 'SUBSCRIBED':
@@ -93,9 +163,13 @@ const realtimeLabel = (status: string): string => {
   }
 }
 
-const hashFile = async (file: File): Promise<string> => {
-  const arrayBuffer = await file.arrayBuffer()
-  const digest = await crypto.subtle.digest('SHA-256', arrayBuffer)
+const hashImportSource = async (file: File, source: ImportSource): Promise<string> => {
+  const fileBytes = new Uint8Array(await file.arrayBuffer())
+  const sheetBytes = new TextEncoder().encode(source.format === 'xlsx' ? `\u0000${source.sheetName ?? ''}` : '')
+  const payload = new Uint8Array(fileBytes.length + sheetBytes.length)
+  payload.set(fileBytes)
+  payload.set(sheetBytes, fileBytes.length)
+  const digest = await crypto.subtle.digest('SHA-256', payload)
   return Array.from(new Uint8Array(digest))
     .map((byte) => byte.toString(16).padStart(2, '0'))
     .join('')
@@ -111,56 +185,6 @@ const buildGuestSeedCsvFile = async (): Promise<File> => {
   return new File([csvBlob], GUEST_TEST_CSV_FILE_NAME, { type: 'text/csv' })
 }
 
-const buildIsoDate = (year: string, month: string, day: string): string => {
-  const normalizedYear = year.padStart(4, '0')
-  const normalizedMonth = month.padStart(2, '0')
-  const normalizedDay = day.padStart(2, '0')
-  const iso = `${normalizedYear}-${normalizedMonth}-${normalizedDay}`
-
-  const candidate = new Date(`${iso}T00:00:00Z`)
-  if (Number.isNaN(candidate.getTime())) {
-    return ''
-  }
-
-  if (
-    candidate.getUTCFullYear() !== Number(normalizedYear) ||
-    candidate.getUTCMonth() + 1 !== Number(normalizedMonth) ||
-    candidate.getUTCDate() !== Number(normalizedDay)
-  ) {
-    return ''
-  }
-
-  return iso
-}
-
-const parseCsvDateToIso = (input: string): string => {
-  const value = input.trim()
-  if (!value) {
-    return ''
-  }
-
-  const isoMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
-  if (isoMatch) {
-    return buildIsoDate(isoMatch[1], isoMatch[2], isoMatch[3])
-  }
-
-  const slashMatch = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
-  if (slashMatch) {
-    return buildIsoDate(slashMatch[3], slashMatch[2], slashMatch[1])
-  }
-
-  const dashMatch = value.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/)
-  if (dashMatch) {
-    return buildIsoDate(dashMatch[3], dashMatch[2], dashMatch[1])
-  }
-
-  return ''
-}
-
-const isIsoDate = (value: string): boolean => {
-  return /^\d{4}-\d{2}-\d{2}$/.test(value)
-}
-
 const normalizeWorkDate = (value: string | null): string => {
   if (!value) {
     return ''
@@ -190,101 +214,7 @@ const inferWorkDate = (flights: FlightRecord[]): string => {
   return getAvailableWorkDays(flights)[0]?.iso ?? ''
 }
 
-const buildOperatedUpdate = (flight: FlightRecord, operatorEmail: string): FlightRecord => {
-  return {
-    ...flight,
-    operated: true,
-    operatedAt: new Date().toISOString(),
-    operatedByEmail: operatorEmail,
-  }
-}
-
-const hashString = (input: string): number => {
-  let hash = 0
-  for (let index = 0; index < input.length; index += 1) {
-    hash = (hash * 31 + input.charCodeAt(index)) >>> 0
-  }
-  return hash
-}
-
-const buildGuestAutoAssignment = (
-  flights: FlightRecord[],
-  targets: Record<string, number>,
-  workDateIso: string,
-): {
-  updatedFlights: FlightRecord[]
-  seed: string
-  summaryLines: string[]
-  updatedCount: number
-} => {
-  const seed = crypto.randomUUID().slice(0, 8)
-  const dayFlights = flights.filter((flight) => parseCsvDateToIso(flight.fecha) === workDateIso)
-  const byCategory = new Map<string, FlightRecord[]>()
-
-  for (const flight of dayFlights) {
-    const bucket = byCategory.get(flight.categoriaClasificacion)
-    if (bucket) {
-      bucket.push(flight)
-    } else {
-      byCategory.set(flight.categoriaClasificacion, [flight])
-    }
-  }
-
-  const attendIds = new Set<string>()
-  const summaryLines: string[] = []
-
-  for (const [category, categoryFlights] of byCategory.entries()) {
-    const targetPercent = clampPercent(targets[category] ?? DEFAULT_TARGETS[category] ?? 0)
-    const total = categoryFlights.length
-    const minimumRequiredRaw = Math.ceil((total * targetPercent) / 100)
-    const minimumRequired = Math.min(total, minimumRequiredRaw)
-
-    const rankedFlights = [...categoryFlights].sort((a, b) => {
-      const aHash = hashString(`${seed}|${a.flightKey}`)
-      const bHash = hashString(`${seed}|${b.flightKey}`)
-      if (aHash !== bHash) {
-        return aHash - bHash
-      }
-      return a.flightKey.localeCompare(b.flightKey)
-    })
-
-    for (let index = 0; index < minimumRequired; index += 1) {
-      const selectedFlight = rankedFlights[index]
-      if (selectedFlight) {
-        attendIds.add(selectedFlight.id)
-      }
-    }
-
-    summaryLines.push(`${category}: ${minimumRequired}/${total} (${targetPercent}%)`)
-  }
-
-  const runId = `guest-${crypto.randomUUID()}`
-  const timestamp = new Date().toISOString()
-
-  const updatedFlights = flights.map((flight) => {
-    if (parseCsvDateToIso(flight.fecha) !== workDateIso) {
-      return flight
-    }
-    const shouldAttend = attendIds.has(flight.id)
-    return {
-      ...flight,
-      serviceFlag: shouldAttend ? ('ATENDER' as const) : ('NO_ATENDER' as const),
-      serviceFlagSource: 'auto' as const,
-      serviceFlagUpdatedAt: timestamp,
-      serviceFlagUpdatedByEmail: 'guest-test',
-      serviceFlagRunId: runId,
-    }
-  })
-
-  return {
-    updatedFlights,
-    seed,
-    summaryLines,
-    updatedCount: dayFlights.length,
-  }
-}
-
-type MainView = 'operacion' | 'stats'
+type MainView = 'operacion' | 'mis_vuelos' | 'stats' | 'runs' | 'datasets'
 
 interface CategoryStatsSnapshot {
   category: string
@@ -359,14 +289,6 @@ const toPercent = (value: number, total: number): string => {
   return `${((value / total) * 100).toFixed(1)}%`
 }
 
-const escapeCsvCell = (value: string | number): string => {
-  const raw = String(value)
-  if (raw.includes(',') || raw.includes('"') || raw.includes('\n')) {
-    return `"${raw.replace(/"/g, '""')}"`
-  }
-  return raw
-}
-
 const buildStatsCsv = (rows: StatsExportRow[]): string => {
   const headers = [
     'scope',
@@ -401,18 +323,15 @@ const buildStatsCsv = (rows: StatsExportRow[]): string => {
   return [headers.join(','), ...lines].join('\r\n')
 }
 
-const toSafeFileToken = (value: string): string => {
-  const normalized = value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-    .toLowerCase()
-
-  return normalized || 'dataset'
-}
-
-function GroupedBarsChart({ stats, maxValue }: { stats: CategoryStatsSnapshot[]; maxValue: number }) {
+function GroupedBarsChart({
+  stats,
+  maxValue,
+  catalog,
+}: {
+  stats: CategoryStatsSnapshot[]
+  maxValue: number
+  catalog: CategoryDefinition[]
+}) {
   return (
     <div className="stats-bars" role="list">
       {stats.map((item) => {
@@ -421,7 +340,9 @@ function GroupedBarsChart({ stats, maxValue }: { stats: CategoryStatsSnapshot[];
 
         return (
           <article key={item.category} className="stats-bars__row" role="listitem">
-            <div className="stats-bars__label">{item.category}</div>
+            <div className="stats-bars__label">
+              <CategoryLabel category={item.category} catalog={catalog} />
+            </div>
             <div className="stats-bars__tracks">
               <div className="stats-bars__track-label">
                 <span>Vuelos</span>
@@ -446,7 +367,7 @@ function GroupedBarsChart({ stats, maxValue }: { stats: CategoryStatsSnapshot[];
   )
 }
 
-function StackedBarsChart({ stats }: { stats: CategoryStatsSnapshot[] }) {
+function StackedBarsChart({ stats, catalog }: { stats: CategoryStatsSnapshot[]; catalog: CategoryDefinition[] }) {
   return (
     <div className="stats-stacked" role="list">
       {stats.map((item) => {
@@ -457,7 +378,9 @@ function StackedBarsChart({ stats }: { stats: CategoryStatsSnapshot[] }) {
 
         return (
           <article key={item.category} className="stats-stacked__row" role="listitem">
-            <div className="stats-stacked__label">{item.category}</div>
+            <div className="stats-stacked__label">
+              <CategoryLabel category={item.category} catalog={catalog} />
+            </div>
             <div className="stats-stacked__bar" aria-hidden="true">
               <span className="stats-segment stats-segment--attend" style={{ width: `${attendWidth}%` }} />
               <span className="stats-segment stats-segment--grounded" style={{ width: `${noAttendWidth}%` }} />
@@ -489,8 +412,13 @@ function App() {
   const [activeDatasetName, setActiveDatasetName] = useState('')
 
   const [flights, setFlights] = useState<FlightRecord[]>([])
-  const [targets, setTargets] = useState<Record<string, number>>({ ...DEFAULT_TARGETS })
-  const [draftTargets, setDraftTargets] = useState<Record<string, number>>({ ...DEFAULT_TARGETS })
+  const [targets, setTargets] = useState<Record<string, number>>(() => buildDefaultTargets(DEFAULT_CATEGORY_CATALOG))
+  const [draftTargets, setDraftTargets] = useState<Record<string, number>>(() =>
+    buildDefaultTargets(DEFAULT_CATEGORY_CATALOG),
+  )
+  const [shiftCapacity, setShiftCapacity] = useState<Record<string, number>>({})
+  const [targetRules, setTargetRules] = useState<TargetRule[]>([])
+  const [draftShiftCapacity, setDraftShiftCapacity] = useState<Record<string, number>>({})
 
   const [workDate, setWorkDate] = useState('')
   const [draftWorkDate, setDraftWorkDate] = useState('')
@@ -498,29 +426,69 @@ function App() {
 
   const [targetsOpen, setTargetsOpen] = useState(true)
   const [activeView, setActiveView] = useState<MainView>('operacion')
-  const [query, setQuery] = useState('')
-  const [categoryFilter, setCategoryFilter] = useState('all')
-  const [serviceFlagFilter, setServiceFlagFilter] = useState<'all' | 'ATENDER' | 'NO_ATENDER'>('all')
-  const [currentPage, setCurrentPage] = useState(1)
 
   const [confirmFlight, setConfirmFlight] = useState<FlightRecord | null>(null)
-  const [confirmAutoAssign, setConfirmAutoAssign] = useState(false)
   const [uploadBusy, setUploadBusy] = useState(false)
   const [markBusy, setMarkBusy] = useState(false)
+  const [clock, setClock] = useState(() => new Date())
   const [targetsBusy, setTargetsBusy] = useState(false)
-  const [autoAssignBusy, setAutoAssignBusy] = useState(false)
-  const [loadingDataset, setLoadingDataset] = useState(false)
+
+  const [mappingProfiles, setMappingProfiles] = useState<CsvMappingProfile[]>([])
+  const [mappingDraft, setMappingDraft] = useState<MappingDraft | null>(null)
+  const [mappingBusy, setMappingBusy] = useState(false)
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const [sheetChoice, setSheetChoice] = useState<SheetChoice | null>(null)
+  const [uploadTarget, setUploadTarget] = useState<'new' | 'update'>('new')
+  const [pendingUpdate, setPendingUpdate] = useState<PendingUpdate | null>(null)
+  const [duplicateUpload, setDuplicateUpload] = useState<DuplicateUpload | null>(null)
+  const [updateBusy, setUpdateBusy] = useState(false)
 
   const [notice, setNotice] = useState('')
   const [error, setError] = useState('')
-  const [realtimeStatus, setRealtimeStatus] = useState('LOCAL')
+  const categoryCatalogEditor = useCategoryCatalog({
+    enabled: mode === 'supabase' && Boolean(session),
+    onNotice: setNotice,
+    onError: setError,
+  })
+  const categoryCatalog = categoryCatalogEditor.catalog
+  const classificationRuleEditor = useClassificationRules({
+    enabled: mode === 'supabase' && Boolean(session),
+    categoryCatalog,
+    onNotice: setNotice,
+    onError: setError,
+  })
+  const classificationRules = classificationRuleEditor.rules
+  const markOutbox = useOperatedOutbox({
+    enabled: mode === 'supabase',
+    canReplay: Boolean(session),
+    setFlights,
+    onNotice: setNotice,
+    onError: setError,
+  })
+  const { isOnline, outbox: operatedOutbox } = markOutbox
+  const categoryCatalogRef = useRef(categoryCatalog)
+  const datasetAdmin = useDatasetAdmin({
+    enabled: mode === 'supabase' && Boolean(session) && isAdminUser,
+    visible: activeView === 'datasets',
+    onError: setError,
+  })
+  const operatedReversals = useOperatedReversals({
+    mode,
+    userEmail: session?.user.email ?? null,
+    flights,
+    setFlights,
+    onNotice: setNotice,
+    onError: setError,
+  })
+  const { reversals, setReversals, pendingReversals, pendingReversalByFlight } = operatedReversals
+  const flightHistory = useFlightHistory({ mode, onError: setError })
 
   const categories = useMemo(() => {
     const categoriesFromFlights = flights.map((flight) => flight.categoriaClasificacion)
     const targetCategories = Object.keys(draftTargets)
-    const merged = [...new Set([...categoriesFromFlights, ...targetCategories, ...CATEGORY_ORDER])]
-    return sortCategories(merged)
-  }, [flights, draftTargets])
+    const merged = [...new Set([...categoriesFromFlights, ...targetCategories, ...listActiveCategories(categoryCatalog)])]
+    return sortCategories(merged, categoryCatalog)
+  }, [categoryCatalog, flights, draftTargets])
 
   const availableWorkDays = useMemo(() => getAvailableWorkDays(flights), [flights])
 
@@ -545,45 +513,67 @@ function App() {
     return flights.filter((flight) => parseCsvDateToIso(flight.fecha) === selectedWorkDate)
   }, [flights, selectedWorkDate])
 
-  const progressTargets = parametersLocked ? targets : draftTargets
+  const activeTargetRule = useMemo(() => resolveTargetRule(targetRules, selectedWorkDate), [selectedWorkDate, targetRules])
+
+  const targetRuleEditor = useTargetRuleEditor({
+    activeDatasetId,
+    workDate: selectedWorkDate,
+    targets,
+    setTargetRules,
+    onNotice: setNotice,
+    onError: setError,
+  })
+
+  const progressTargets = useMemo(
+    () => applyTargetRule(parametersLocked ? targets : draftTargets, activeTargetRule),
+    [activeTargetRule, draftTargets, parametersLocked, targets],
+  )
+
+  const shiftSlots = useMemo(() => {
+    return [...new Set([...listShiftSlots(dayScopedFlights), ...Object.keys(draftShiftCapacity)])].sort()
+  }, [dayScopedFlights, draftShiftCapacity])
 
   const progress = useMemo<CategoryProgress[]>(() => {
-    return buildCategoryProgress(dayScopedFlights, progressTargets)
-  }, [dayScopedFlights, progressTargets])
-
-  const filteredFlights = useMemo(() => {
-    const normalizedQuery = query.trim().toUpperCase()
-    return dayScopedFlights.filter((flight) => {
-      if (categoryFilter !== 'all' && flight.categoriaClasificacion !== categoryFilter) {
-        return false
-      }
-      if (serviceFlagFilter !== 'all' && flight.serviceFlag !== serviceFlagFilter) {
-        return false
-      }
-      if (!normalizedQuery) {
-        return true
-      }
-      const searchable = [
-        flight.vuelo,
-        flight.dscia,
-        flight.cia,
-        flight.cdocia,
-        flight.fecha,
-        flight.hora,
-        flight.categoriaClasificacion,
-      ]
-        .join(' ')
-        .toUpperCase()
-      return searchable.includes(normalizedQuery)
-    })
-  }, [dayScopedFlights, categoryFilter, serviceFlagFilter, query])
+    return buildCategoryProgress(dayScopedFlights, progressTargets, categoryCatalog)
+  }, [categoryCatalog, dayScopedFlights, progressTargets])
+
+  const categoryForecast = useCategoryForecast({
+    flights: dayScopedFlights,
+    progress,
+    workDate: selectedWorkDate,
+    now: clock,
+  })
 
-  const totalPages = Math.max(1, Math.ceil(filteredFlights.length / PAGE_SIZE))
-  const currentPageSafe = Math.min(currentPage, totalPages)
-  const visibleFlights = useMemo(() => {
-    const from = (currentPageSafe - 1) * PAGE_SIZE
-    return filteredFlights.slice(from, from + PAGE_SIZE)
-  }, [filteredFlights, currentPageSafe])
+  const flightFilters = useFlightFilters(dayScopedFlights)
+
+  const serviceFlagOverride = useServiceFlagOverride({
+    mode,
+    userEmail: session?.user.email ?? null,
+    flights,
+    setFlights,
+    targets: progressTargets,
+    categoryCatalog,
+    onNotice: setNotice,
+    onError: setError,
+  })
+
+  const operatorPresence = useOperatorPresence({
+    flights,
+    userEmail: session?.user.email ?? null,
+    now: clock,
+    onNotice: setNotice,
+  })
+  const { flightClaims, summary: onlineOperatorSummary, onlineEmails } = operatorPresence
+
+  const operatorAssignments = useOperatorAssignments({
+    enabled: mode === 'supabase' && Boolean(session),
+    dayFlights: dayScopedFlights,
+    userEmail: session?.user.email ?? null,
+    onlineEmails,
+    setFlights,
+    onNotice: setNotice,
+    onError: setError,
+  })
 
   const totalOperated = useMemo(() => dayScopedFlights.filter((flight) => flight.operated).length, [dayScopedFlights])
   const totalAttendAssigned = useMemo(
@@ -599,7 +589,7 @@ function App() {
     const categorySeed =
       categories.length > 0
         ? categories
-        : sortCategories([...new Set(dayScopedFlights.map((flight) => flight.categoriaClasificacion))])
+        : sortCategories([...new Set(dayScopedFlights.map((flight) => flight.categoriaClasificacion))], categoryCatalog)
 
     const buildCategoryMap = (): Map<string, CategoryStatsSnapshot> => {
       return new Map(categorySeed.map((category) => [category, createEmptyCategoryStats(category)]))
@@ -618,7 +608,7 @@ function App() {
       }
     }
 
-    const orderedCategories = sortCategories([...new Set([...categorySeed, ...categoryMap.keys()])])
+    const orderedCategories = sortCategories([...new Set([...categorySeed, ...categoryMap.keys()])], categoryCatalog)
     const categoriesStats = orderedCategories.map(
       (category) => categoryMap.get(category) ?? createEmptyCategoryStats(category),
     )
@@ -657,7 +647,7 @@ function App() {
       exportRows,
       maxCategoryScale: getCategoryScaleMax(categoriesStats),
     }
-  }, [categories, dayScopedFlights, selectedWorkDate, selectedWorkDateLabel])
+  }, [categories, categoryCatalog, dayScopedFlights, selectedWorkDate, selectedWorkDateLabel])
 
   useEffect(() => {
     if (availableWorkDays.length === 0) {
@@ -672,8 +662,9 @@ function App() {
   }, [availableWorkDays, availableWorkDayValues])
 
   useEffect(() => {
-    setCurrentPage(1)
-  }, [query, categoryFilter, serviceFlagFilter, dayScopedFlights.length])
+    const timer = window.setInterval(() => setClock(new Date()), FORECAST_REFRESH_MS)
+    return () => window.clearInterval(timer)
+  }, [])
 
   useEffect(() => {
     if (mode !== 'supabase' || !supabaseConfigured) {
@@ -746,6 +737,52 @@ function App() {
     setDatasets(nextDatasets)
   }, [mode, session])
 
+  const assignmentRunsHistory = useAssignmentRuns({
+    enabled: mode === 'supabase' && Boolean(session),
+    visible: activeView === 'runs',
+    activeDatasetId,
+    workDate: selectedWorkDate,
+    onError: setError,
+  })
+  const { runs: assignmentRuns, setRuns: setAssignmentRuns, refresh: refreshAssignmentRuns } = assignmentRunsHistory
+
+  const runRestore = useRunRestore({
+    activeDatasetId,
+    flights,
+    setFlights,
+    onRunsChanged: refreshAssignmentRuns,
+    onNotice: setNotice,
+    onError: setError,
+  })
+  const autoAssign = useAutoAssign({
+    mode,
+    isAdminUser,
+    activeDatasetId,
+    workDate: selectedWorkDate,
+    workDateRaw: availableWorkDays.find((day) => day.iso === selectedWorkDate)?.label ?? selectedWorkDate,
+    parametersLocked,
+    dayFlightCount: dayScopedFlights.length,
+    flights,
+    setFlights,
+    targets: applyTargetRule(targets, activeTargetRule),
+    categoryCatalog,
+    shiftCapacity,
+    onRunsChanged: refreshAssignmentRuns,
+    onNotice: setNotice,
+    onError: setError,
+  })
+  const runVerification = useRunVerification({
+    mode,
+    isAdminUser,
+    activeDatasetId,
+    workDate: selectedWorkDate,
+    setAssignmentRuns,
+    onNotice: setNotice,
+    onError: setError,
+  })
+
+  const flightsById = useMemo(() => new Map(flights.map((flight) => [flight.id, flight])), [flights])
+
   useEffect(() => {
     if (mode !== 'supabase' || !session) {
       setDatasets([])
@@ -757,85 +794,157 @@ function App() {
   }, [mode, session, refreshDatasets])
 
   useEffect(() => {
-    if (mode !== 'supabase' || !session || !activeDatasetId) {
-      setRealtimeStatus('LOCAL')
+    if (mode !== 'supabase' || !session) {
+      setMappingProfiles([])
       return
     }
 
-    let active = true
-    setLoadingDataset(true)
-
-    void loadDataset(activeDatasetId)
-      .then((datasetState) => {
-        if (!active) {
-          return
-        }
+    let cancelled = false
 
-        setFlights(datasetState.flights)
-        const mergedTargets = mergeTargets(
-          datasetState.flights.map((flight) => flight.categoriaClasificacion),
-          datasetState.targets,
-        )
-        const resolvedWorkDate = normalizeWorkDate(datasetState.workDate) || inferWorkDate(datasetState.flights)
-        setTargets(mergedTargets)
-        setDraftTargets(mergedTargets)
-        setWorkDate(resolvedWorkDate)
-        setDraftWorkDate(resolvedWorkDate)
-        setParametersLocked(datasetState.hasSavedConfig)
-      })
-      .catch((loadError) => {
-        if (active) {
-          setError(getErrorMessage(loadError))
+    void listMappingProfiles()
+      .then((profiles) => {
+        if (!cancelled) {
+          setMappingProfiles(profiles)
         }
       })
-      .finally(() => {
-        if (active) {
-          setLoadingDataset(false)
+      .catch((profilesError) => {
+        if (!cancelled) {
+          setError((currentError) => currentError || getErrorMessage(profilesError))
         }
       })
 
-    const unsubscribeRealtime = subscribeRealtime(
-      activeDatasetId,
-      (updatedFlight) => {
-        setFlights((currentFlights) => {
-          const existingIndex = currentFlights.findIndex((flight) => flight.id === updatedFlight.id)
-          if (existingIndex === -1) {
-            return currentFlights
-          }
-          const nextFlights = [...currentFlights]
-          nextFlights[existingIndex] = updatedFlight
-          return nextFlights
-        })
-      },
-      (updatedTargets) => {
+    return () => {
+      cancelled = true
+    }
+  }, [mode, session])
+
+  const applyDatasetSnapshot = (snapshot: DatasetSnapshot): void => {
+    setFlights(snapshot.flights)
+    void listOperatedOutbox()
+      .then((outbox) => setFlights((currentFlights) => applyOperatedOutbox(currentFlights, outbox)))
+      .catch(() => undefined)
+    setReversals(snapshot.reversals)
+    const mergedTargets = mergeTargets(
+      snapshot.flights.map((flight) => flight.categoriaClasificacion),
+      snapshot.targets,
+      categoryCatalogRef.current,
+    )
+    const resolvedWorkDate = normalizeWorkDate(snapshot.workDate) || inferWorkDate(snapshot.flights)
+    setTargets(mergedTargets)
+    setDraftTargets(mergedTargets)
+    setShiftCapacity(snapshot.shiftCapacity)
+    setDraftShiftCapacity(snapshot.shiftCapacity)
+    setTargetRules(snapshot.targetRules)
+    setWorkDate(resolvedWorkDate)
+    setDraftWorkDate(resolvedWorkDate)
+    setParametersLocked(snapshot.hasSavedConfig)
+  }
+
+  const handleRealtimeEvent = (event: RealtimeEvent): void => {
+    switch (event.type) {
+      case 'flight_upserted':
+      case 'flight_deleted':
+        setFlights((currentFlights) => applyFlightRealtimeEvent(currentFlights, event))
+        break
+      case 'target_upserted':
+      case 'target_deleted':
         setTargets((currentTargets) => {
-          const nextRawTargets = { ...currentTargets, ...updatedTargets }
-          const merged = mergeTargets(Object.keys(nextRawTargets), nextRawTargets)
+          const nextRawTargets = applyTargetRealtimeEvent(currentTargets, event)
+          const merged = mergeTargets(Object.keys(nextRawTargets), nextRawTargets, categoryCatalogRef.current)
           setDraftTargets(merged)
           return merged
         })
-      },
-      (nextWorkDate) => {
-        setWorkDate(nextWorkDate)
-        setDraftWorkDate(nextWorkDate)
+        break
+      case 'settings_upserted':
+        setWorkDate(event.workDate)
+        setDraftWorkDate(event.workDate)
         setParametersLocked(true)
-      },
-      (status) => {
-        setRealtimeStatus(status)
-      },
-    )
+        break
+      case 'settings_deleted':
+        setParametersLocked(false)
+        break
+      case 'reversal_upserted':
+      case 'reversal_deleted':
+        setReversals((currentReversals) => applyReversalRealtimeEvent(currentReversals, event))
+        break
+      case 'presence':
+        operatorPresence.setOperators(event.operators)
+        break
+      case 'status':
+        if (event.status !== 'SUBSCRIBED') {
+          operatorPresence.setOperators([])
+        }
+        break
+    }
+  }
 
-    return () => {
-      active = false
-      unsubscribeRealtime()
+  const datasetRealtime = useDatasetRealtime({
+    enabled: mode === 'supabase' && Boolean(session),
+    datasetId: activeDatasetId,
+    userEmail: session?.user.email ?? '',
+    claim: operatorPresence.myClaim,
+    onSnapshot: applyDatasetSnapshot,
+    onEvent: handleRealtimeEvent,
+    onReset: operatorPresence.reset,
+    onNotice: setNotice,
+    onError: setError,
+  })
+  const { status: realtimeStatus, loading: loadingDataset, offlineSnapshotAt } = datasetRealtime
+
+  useEffect(() => {
+    categoryCatalogRef.current = categoryCatalog
+    setTargets((currentTargets) => mergeTargets(Object.keys(currentTargets), currentTargets, categoryCatalog))
+    setDraftTargets((currentTargets) => mergeTargets(Object.keys(currentTargets), currentTargets, categoryCatalog))
+  }, [categoryCatalog])
+
+  useEffect(() => {
+    if (mode !== 'supabase' || !activeDatasetId || loadingDataset || offlineSnapshotAt || flights.length === 0) {
+      return
     }
-  }, [activeDatasetId, mode, session])
+
+    const timer = window.setTimeout(() => {
+      void saveCachedSnapshot({
+        datasetId: activeDatasetId,
+        datasetName: activeDatasetName,
+        snapshot: {
+          flights,
+          targets,
+          shiftCapacity,
+          targetRules,
+          workDate,
+          hasSavedConfig: parametersLocked,
+          reversals,
+        },
+        savedAt: new Date().toISOString(),
+      }).catch((cacheError) => {
+        setError((currentError) => currentError || `No se pudo guardar la copia local: ${getErrorMessage(cacheError)}`)
+      })
+    }, SNAPSHOT_CACHE_DELAY_MS)
+
+    return () => window.clearTimeout(timer)
+  }, [
+    activeDatasetId,
+    activeDatasetName,
+    flights,
+    loadingDataset,
+    mode,
+    offlineSnapshotAt,
+    parametersLocked,
+    reversals,
+    shiftCapacity,
+    targetRules,
+    targets,
+    workDate,
+  ])
 
   const resetWorkspace = (nextMode: AppMode): void => {
     setMode(nextMode)
     setFlights([])
-    setTargets({ ...DEFAULT_TARGETS })
-    setDraftTargets({ ...DEFAULT_TARGETS })
+    setTargets(buildDefaultTargets(categoryCatalog))
+    setDraftTargets(buildDefaultTargets(categoryCatalog))
+    setShiftCapacity({})
+    setTargetRules([])
+    setDraftShiftCapacity({})
     setWorkDate('')
     setDraftWorkDate('')
     setParametersLocked(false)
@@ -843,12 +952,20 @@ function App() {
     setActiveDatasetName('')
     setNotice('')
     setError('')
-    setCategoryFilter('all')
-    setServiceFlagFilter('all')
-    setQuery('')
+    flightFilters.resetFilters()
     setActiveView('operacion')
-    setRealtimeStatus('LOCAL')
     setIsAdminUser(nextMode === 'guest')
+    setMappingProfiles([])
+    setMappingDraft(null)
+    setPendingImport(null)
+    setSheetChoice(null)
+    setPendingUpdate(null)
+    setDuplicateUpload(null)
+    operatedReversals.reset()
+    flightHistory.reset()
+    serviceFlagOverride.setDraft(null)
+    setUploadTarget('new')
+    datasetAdmin.reset()
   }
 
   const handleRequestOtp = async (): Promise<void> => {
@@ -904,30 +1021,108 @@ function App() {
       setDatasets([])
       setActiveDatasetId(null)
       setFlights([])
-      setTargets({ ...DEFAULT_TARGETS })
-      setDraftTargets({ ...DEFAULT_TARGETS })
+      setTargets(buildDefaultTargets(categoryCatalog))
+      setDraftTargets(buildDefaultTargets(categoryCatalog))
+      setShiftCapacity({})
+      setTargetRules([])
+      setDraftShiftCapacity({})
       setWorkDate('')
       setDraftWorkDate('')
       setParametersLocked(false)
       setActiveView('operacion')
-      setServiceFlagFilter('all')
+      flightFilters.setServiceFlagFilter('all')
     } catch (signOutError) {
       setError(getErrorMessage(signOutError))
     }
   }
 
+  const handleOpenManagedDataset = (dataset: DatasetSummary): void => {
+    setActiveDatasetId(dataset.id)
+    setActiveDatasetName(dataset.name)
+    setActiveView('operacion')
+  }
+
+  const runDatasetAdminAction = async (action: () => Promise<void>, successNotice: string): Promise<boolean> => {
+    setError('')
+
+    try {
+      await datasetAdmin.runAction(action)
+      setNotice(successNotice)
+      await refreshDatasets()
+      return true
+    } catch (adminError) {
+      setError(getErrorMessage(adminError))
+      return false
+    }
+  }
+
+  const handleConfirmDatasetRename = async (): Promise<void> => {
+    const { renameDraft } = datasetAdmin
+    if (!renameDraft) {
+      return
+    }
+
+    const name = renameDraft.name.trim()
+    if (!name) {
+      setError('El nombre del dataset no puede estar vacio')
+      return
+    }
+
+    const renamed = await runDatasetAdminAction(() => renameDataset(renameDraft.id, name), `Dataset renombrado a ${name}`)
+    if (!renamed) {
+      return
+    }
+
+    if (renameDraft.id === activeDatasetId) {
+      setActiveDatasetName(name)
+    }
+    datasetAdmin.setRenameDraft(null)
+  }
+
+  const handleToggleDatasetArchived = async (dataset: DatasetSummary): Promise<void> => {
+    const archive = !dataset.archivedAt
+    await runDatasetAdminAction(
+      () => setDatasetArchived(dataset.id, archive),
+      archive ? `Dataset ${dataset.name} archivado` : `Dataset ${dataset.name} restaurado`,
+    )
+  }
+
+  const handleConfirmDatasetDelete = async (): Promise<void> => {
+    const { datasetToDelete } = datasetAdmin
+    if (!datasetToDelete) {
+      return
+    }
+
+    const deleted = await runDatasetAdminAction(
+      () => deleteDataset(datasetToDelete.id),
+      `Dataset ${datasetToDelete.name} eliminado`,
+    )
+    if (!deleted) {
+      return
+    }
+
+    if (datasetToDelete.id === activeDatasetId) {
+      handleDatasetSelect('')
+      setActiveView('datasets')
+    }
+    datasetAdmin.setDatasetToDelete(null)
+  }
+
   const handleDatasetSelect = (datasetId: string): void => {
     if (!datasetId) {
       setActiveDatasetId(null)
       setActiveDatasetName('')
       setFlights([])
-      setTargets({ ...DEFAULT_TARGETS })
-      setDraftTargets({ ...DEFAULT_TARGETS })
+      setTargets(buildDefaultTargets(categoryCatalog))
+      setDraftTargets(buildDefaultTargets(categoryCatalog))
+      setShiftCapacity({})
+      setTargetRules([])
+      setDraftShiftCapacity({})
       setWorkDate('')
       setDraftWorkDate('')
       setParametersLocked(false)
       setActiveView('operacion')
-      setServiceFlagFilter('all')
+      flightFilters.setServiceFlagFilter('all')
       return
     }
 
@@ -936,8 +1131,114 @@ function App() {
     setActiveDatasetName(selectedDataset?.name ?? '')
   }
 
+  const commitParsedFlights = useCallback(
+    async (
+      file: File,
+      source: ImportSource,
+      profile: CsvMappingProfile,
+      parsed: ParsedCsvResult,
+      options?: ImportOptions,
+    ): Promise<void> => {
+      if (options?.updateActive) {
+        setPendingUpdate({ file, source, parsed, diff: diffFlights(flights, parsed.flights) })
+        return
+      }
+
+      const initialTargets = mergeTargets(
+        parsed.categories,
+        buildInitialTargets(parsed.categories, categoryCatalog),
+        categoryCatalog,
+      )
+      const initialWorkDate = inferWorkDate(parsed.flights)
+      const profileLabel =
+        profile.id === BUILTIN_MAPPING_PROFILE.id
+          ? ` (${describeImportSource(source)})`
+          : ` (${describeImportSource(source)}, plantilla ${profile.name})`
+      const droppedLabel =
+        parsed.report.droppedRows > 0 ? `, ${parsed.report.droppedRows} filas descartadas` : ''
+
+      if (mode === 'guest') {
+        setFlights(parsed.flights)
+        setTargets(initialTargets)
+        setDraftTargets(initialTargets)
+        setShiftCapacity({})
+        setTargetRules([])
+        setDraftShiftCapacity({})
+        setWorkDate(initialWorkDate)
+        setDraftWorkDate(initialWorkDate)
+        setParametersLocked(false)
+        setActiveDatasetName(file.name)
+        setActiveDatasetId(null)
+        setNotice(
+          options?.autoGuestSeed
+            ? `Dataset de prueba cargado automaticamente en modo guest: ${parsed.flights.length} vuelos`
+            : `Archivo cargado en modo guest: ${parsed.flights.length} vuelos${droppedLabel}${profileLabel}`,
+        )
+        return
+      }
+
+      const sourceHash = await hashImportSource(file, source)
+      const existingDataset = await findDatasetBySourceHash(sourceHash, initialWorkDate)
+      if (existingDataset) {
+        setDuplicateUpload({ fileName: file.name, dataset: existingDataset, concurrent: false })
+        return
+      }
+
+      const creation = await createDataset(file.name, sourceHash, initialWorkDate)
+      if (!creation.created) {
+        setDuplicateUpload({ fileName: file.name, dataset: creation.dataset, concurrent: true })
+        await refreshDatasets()
+        return
+      }
+
+      const datasetId = creation.dataset.id
+      const flightsWithDataset = parsed.flights.map((flight) => ({
+        ...flight,
+        datasetId,
+      }))
+
+      await insertFlights(datasetId, flightsWithDataset)
+
+      setActiveDatasetId(datasetId)
+      setActiveDatasetName(file.name)
+      setFlights(flightsWithDataset)
+      setTargets(initialTargets)
+      setDraftTargets(initialTargets)
+      setShiftCapacity({})
+      setTargetRules([])
+      setDraftShiftCapacity({})
+      setWorkDate(initialWorkDate)
+      setDraftWorkDate(initialWorkDate)
+      setParametersLocked(false)
+      setNotice(
+        `Dataset subido: ${parsed.flights.length} vuelos${droppedLabel}${profileLabel}. Guarda parametros para bloquear configuracion.`,
+      )
+
+      await refreshDatasets()
+    },
+    [categoryCatalog, flights, mode, refreshDatasets],
+  )
+
+  const importFlightsFile = useCallback(
+    async (file: File, source: ImportSource, profile: CsvMappingProfile, options?: ImportOptions): Promise<void> => {
+      const parsed = parseFlightRows(source, profile.mapping, categoryCatalog, classificationRules)
+
+      if (parsed.report.issues.length > 0 && !options?.autoGuestSeed) {
+        setPendingImport({ file, source, profile, parsed, options, categoryOverrides: {} })
+        return
+      }
+
+      if (parsed.flights.length === 0) {
+        throw new Error('No se han detectado vuelos validos en el CSV')
+      }
+
+      await commitParsedFlights(file, source, profile, parsed, options)
+    },
+    [categoryCatalog, classificationRules, commitParsedFlights],
+  )
+
   const handleFileSelected = useCallback(
-    async (file: File | null, options?: { autoGuestSeed?: boolean }): Promise<void> => {
+    async (file: File | null, options?: ImportOptions): Promise<void> => {
       if (!file) {
         return
       }
@@ -947,68 +1248,200 @@ function App() {
       setNotice('')
 
       try {
-        const parsed = await parseFlightsCsv(file)
-        if (parsed.flights.length === 0) {
-          throw new Error('No se han detectado vuelos validos en el CSV')
-        }
+        if (mode === 'supabase') {
+          if (!isAdminUser) {
+            throw new Error('Solo administradores pueden subir CSV en Supabase')
+          }
 
-        const initialTargets = mergeTargets(parsed.categories, buildInitialTargets(parsed.categories))
-        const initialWorkDate = inferWorkDate(parsed.flights)
-
-        if (mode === 'guest') {
-          setFlights(parsed.flights)
-          setTargets(initialTargets)
-          setDraftTargets(initialTargets)
-          setWorkDate(initialWorkDate)
-          setDraftWorkDate(initialWorkDate)
-          setParametersLocked(false)
-          setActiveDatasetName(file.name)
-          setActiveDatasetId(null)
-          setNotice(
-            options?.autoGuestSeed
-              ? `Dataset de prueba cargado automaticamente en modo guest: ${parsed.flights.length} vuelos`
-              : `Archivo cargado en modo guest: ${parsed.flights.length} vuelos`,
-          )
-          return
+          if (!session?.user.email) {
+            throw new Error('Necesitas iniciar sesion OTP antes de subir un CSV')
+          }
         }
 
-        if (!isAdminUser) {
-          throw new Error('Solo administradores pueden subir CSV en Supabase')
+        const source = await readImportSource(file, { sheetName: options?.sheetName })
+        if (source.format === 'xlsx' && source.sheetNames.length > 1 && !options?.sheetName) {
+          setSheetChoice({
+            file,
+            sheetNames: source.sheetNames,
+            sheetName: source.sheetName ?? source.sheetNames[0],
+            options,
+          })
+          return
         }
 
-        if (!session?.user.email) {
-          throw new Error('Necesitas iniciar sesion OTP antes de subir un CSV')
+        const preview = buildImportPreview(source)
+        const detectedProfile = detectMappingProfile(preview.headers, mappingProfiles)
+
+        if (!detectedProfile) {
+          const suggestedColumns = suggestColumnMapping(preview.headers, mappingProfiles)
+          setMappingDraft({
+            file,
+            source,
+            preview,
+            options,
+            profileId: null,
+            name: '',
+            columns: suggestedColumns,
+          })
+          setNotice('Las columnas del CSV no coinciden con ninguna plantilla. Revisa la asignacion antes de cargarlo.')
+          return
         }
 
-        const sourceHash = await hashFile(file)
-        const datasetId = await createDataset(file.name, sourceHash)
-        const flightsWithDataset = parsed.flights.map((flight) => ({
-          ...flight,
-          datasetId,
-        }))
-
-        await insertFlights(datasetId, flightsWithDataset)
-
-        setActiveDatasetId(datasetId)
-        setActiveDatasetName(file.name)
-        setFlights(flightsWithDataset)
-        setTargets(initialTargets)
-        setDraftTargets(initialTargets)
-        setWorkDate(initialWorkDate)
-        setDraftWorkDate(initialWorkDate)
-        setParametersLocked(false)
-        setNotice(`Dataset subido: ${parsed.flights.length} vuelos. Guarda parametros para bloquear configuracion.`)
-
-        await refreshDatasets()
+        await importFlightsFile(file, source, detectedProfile, options)
       } catch (uploadError) {
         setError(getErrorMessage(uploadError))
       } finally {
         setUploadBusy(false)
       }
     },
-    [isAdminUser, mode, refreshDatasets, session?.user.email],
+    [importFlightsFile, isAdminUser, mappingProfiles, mode, session?.user.email],
   )
 
+  const handleConfirmSheetChoice = (): void => {
+    if (!sheetChoice) {
+      return
+    }
+
+    const { file, sheetName, options } = sheetChoice
+    setSheetChoice(null)
+    void handleFileSelected(file, { ...options, sheetName })
+  }
+
+  const handleConfirmPendingImport = async (): Promise<void> => {
+    if (!pendingImport) {
+      return
+    }
+
+    if (pendingImport.parsed.flights.length === 0) {
+      setError('No se han detectado vuelos validos en el CSV')
+      return
+    }
+
+    setUploadBusy(true)
+    setError('')
+
+    try {
+      await commitParsedFlights(
+        pendingImport.file,
+        pendingImport.source,
+        pendingImport.profile,
+        applyCategoryOverrides(pendingImport.parsed, pendingImport.categoryOverrides, categoryCatalog),
+        pendingImport.options,
+      )
+      setPendingImport(null)
+    } catch (uploadError) {
+      setError(getErrorMessage(uploadError))
+    } finally {
+      setUploadBusy(false)
+    }
+  }
+
+  const handleOpenDuplicateDataset = (): void => {
+    if (!duplicateUpload) {
+      return
+    }
+
+    setActiveDatasetId(duplicateUpload.dataset.id)
+    setActiveDatasetName(duplicateUpload.dataset.name)
+    setNotice(`Abierto el dataset existente ${duplicateUpload.dataset.name}`)
+    setDuplicateUpload(null)
+    void refreshDatasets()
+  }
+
+  const handleConfirmDatasetUpdate = async (): Promise<void> => {
+    if (!pendingUpdate) {
+      return
+    }
+
+    const { file, source, parsed, diff } = pendingUpdate
+    const keptLabel = diff.keptOperated.length > 0 ? `, ${diff.keptOperated.length} operados conservados` : ''
+    const diffLabel =
+      `${diff.added.length} nuevos, ${diff.removed.length} eliminados, ` +
+      `${diff.changed.length} modificados${keptLabel}`
+
+    setUpdateBusy(true)
+    setError('')
+
+    try {
+      if (mode === 'guest') {
+        setFlights((currentFlights) => applyFlightDiff(currentFlights, parsed.flights))
+        setNotice(`Dataset actualizado en modo guest con ${file.name}: ${diffLabel}`)
+      } else {
+        if (!activeDatasetId) {
+          throw new Error('Selecciona un dataset antes de actualizarlo')
+        }
+
+        const sourceHash = await hashImportSource(file, source)
+        const result = await applyDatasetUpdate(activeDatasetId, parsed.flights, file.name, sourceHash)
+        const datasetState = await loadDataset(activeDatasetId)
+        setFlights(datasetState.flights)
+        setNotice(
+          `Dataset actualizado con ${file.name}: ${result.addedFlights} nuevos, ${result.removedFlights} eliminados, ${result.changedFlights} modificados${keptLabel}`,
+        )
+      }
+
+      setTargets((currentTargets) => mergeTargets(parsed.categories, currentTargets, categoryCatalog))
+      setDraftTargets((currentTargets) => mergeTargets(parsed.categories, currentTargets, categoryCatalog))
+      setPendingUpdate(null)
+    } catch (updateError) {
+      setError(getErrorMessage(updateError))
+    } finally {
+      setUpdateBusy(false)
+    }
+  }
+
+  const handleConfirmMappingDraft = async (): Promise<void> => {
+    if (!mappingDraft) {
+      return
+    }
+
+    const profileName = mappingDraft.name.trim()
+    if (!profileName) {
+      setError('Indica un nombre para la plantilla de columnas')
+      return
+    }
+
+    const missingFields = REQUIRED_FIELDS.filter((field) => !mappingDraft.columns[field])
+    if (missingFields.length > 0) {
+      setError(`Asigna las columnas requeridas: ${missingFields.join(', ')}`)
+      return
+    }
+
+    const existingProfile = mappingProfiles.find((profile) => profile.id === mappingDraft.profileId)
+    const mapping: ColumnMapping = { ...(existingProfile?.mapping ?? {}) }
+    for (const [field, header] of Object.entries(mappingDraft.columns)) {
+      mapping[field] = [...new Set([header, ...(mapping[field] ?? [])])]
+    }
+
+    setMappingBusy(true)
+    setError('')
+
+    try {
+      const savedProfile =
+        mode === 'supabase'
+          ? await saveMappingProfile({ id: existingProfile?.id ?? null, name: profileName, mapping })
+          : {
+              id: existingProfile?.id ?? `guest-${crypto.randomUUID()}`,
+              name: profileName,
+              mapping,
+              updatedAt: new Date().toISOString(),
+            }
+
+      setMappingProfiles((currentProfiles) => [
+        savedProfile,
+        ...currentProfiles.filter((profile) => profile.id !== savedProfile.id),
+      ])
+      setMappingDraft(null)
+      setUploadBusy(true)
+      await importFlightsFile(mappingDraft.file, mappingDraft.source, savedProfile, mappingDraft.options)
+    } catch (mappingError) {
+      setError(getErrorMessage(mappingError))
+    } finally {
+      setMappingBusy(false)
+      setUploadBusy(false)
+    }
+  }
+
   useEffect(() => {
     if (mode !== 'guest' || flights.length > 0 || activeDatasetName) {
       return
@@ -1053,6 +1486,7 @@ function App() {
 
     if (parametersLocked) {
       setDraftTargets(targets)
+      setDraftShiftCapacity(shiftCapacity)
       setDraftWorkDate(workDate)
       setParametersLocked(false)
       setNotice('Modo modificacion activado. Ajusta parametros y vuelve a guardar.')
@@ -1069,8 +1503,8 @@ function App() {
       return
     }
 
-    const seedCategories = categories.length > 0 ? categories : [...CATEGORY_ORDER]
-    const nextTargets = mergeTargets(seedCategories, draftTargets)
+    const seedCategories = categories.length > 0 ? categories : listActiveCategories(categoryCatalog)
+    const nextTargets = mergeTargets(seedCategories, draftTargets, categoryCatalog)
 
     setTargetsBusy(true)
     setError('')
@@ -1083,6 +1517,7 @@ function App() {
 
         await Promise.all([
           saveCategoryTargets(activeDatasetId, nextTargets),
+          saveShiftCapacity(activeDatasetId, draftShiftCapacity),
           saveDatasetSettings(activeDatasetId, draftWorkDate),
         ])
         setNotice('Parametros guardados y bloqueados para el equipo')
@@ -1092,6 +1527,7 @@ function App() {
 
       setTargets(nextTargets)
       setDraftTargets(nextTargets)
+      setShiftCapacity(draftShiftCapacity)
       setWorkDate(draftWorkDate)
       setParametersLocked(true)
     } catch (targetsError) {
@@ -1101,79 +1537,9 @@ function App() {
     }
   }
 
-  const handleOpenAutoAssignModal = (): void => {
-    if (mode === 'supabase' && !isAdminUser) {
-      setError('Solo administradores pueden autoasignar vuelos')
-      return
-    }
-
-    if (!selectedWorkDate) {
-      setError('Selecciona un dia valido antes de autoasignar')
-      return
-    }
-    if (!parametersLocked) {
-      setError('Guarda los parametros primero para autoasignar')
-      return
-    }
-    if (dayScopedFlights.length === 0) {
-      setError('No hay vuelos para el dia seleccionado')
-      return
-    }
-    setConfirmAutoAssign(true)
-  }
-
-  const handleConfirmAutoAssign = async (): Promise<void> => {
-    if (mode === 'supabase' && !isAdminUser) {
-      setError('Solo administradores pueden autoasignar vuelos')
-      setConfirmAutoAssign(false)
-      return
-    }
-
-    if (!selectedWorkDate) {
-      setError('Dia de trabajo invalido')
-      return
-    }
-
-    setAutoAssignBusy(true)
-    setError('')
-
-    try {
-      if (mode === 'guest') {
-        const guestResult = buildGuestAutoAssignment(flights, targets, selectedWorkDate)
-        setFlights(guestResult.updatedFlights)
-        setNotice(
-          `Autoasignacion local aplicada (${guestResult.updatedCount} vuelos). Seed ${guestResult.seed}. ${guestResult.summaryLines.join(' · ')}`,
-        )
-        setConfirmAutoAssign(false)
-        return
-      }
-
-      if (!activeDatasetId) {
-        throw new Error('Selecciona un dataset antes de autoasignar')
-      }
-
-      const selectedWorkDateRaw = availableWorkDays.find((day) => day.iso === selectedWorkDate)?.label ?? selectedWorkDate
-      const result = await runAutoAssignment(activeDatasetId, selectedWorkDateRaw)
-
-      const datasetState = await loadDataset(activeDatasetId)
-      setFlights(datasetState.flights)
-
-      const summaryLabel = result.summary
-        .map((item) => `${item.category}: ${item.assignedCount}/${item.total}`)
-        .join(' · ')
-      setNotice(
-        `Autoasignacion aplicada para ${result.workDate} (${result.updatedFlights} vuelos, seed ${result.seed}). ${summaryLabel}`,
-      )
-      setConfirmAutoAssign(false)
-    } catch (autoError) {
-      setError(getErrorMessage(autoError))
-    } finally {
-      setAutoAssignBusy(false)
-    }
-  }
-
   const handleOpenMarkModal = (flight: FlightRecord): void => {
     if (flight.operated) {
+      operatedReversals.openRequest(flight)
       return
     }
     setConfirmFlight(flight)
@@ -1195,7 +1561,7 @@ function App() {
             flight.id === confirmFlight.id ? buildOperatedUpdate(flight, operator) : flight,
           ),
         )
-        setNotice(`Vuelo ${confirmFlight.vuelo} confirmado como operado (guest)`) 
+        setNotice(`Vuelo ${confirmFlight.vuelo} confirmado como operado (guest)`)
         setConfirmFlight(null)
         return
       }
@@ -1204,14 +1570,46 @@ function App() {
         throw new Error('No hay sesion OTP activa')
       }
 
-      const updatedFlight = await markFlightOperated(confirmFlight.id, session.user.email)
+      const operatorEmail = session.user.email
+      const operatedAt = new Date().toISOString()
+      const queueMark = async (): Promise<void> => {
+        const entry: OperatedOutboxEntry = {
+          id: crypto.randomUUID(),
+          datasetId: confirmFlight.datasetId ?? activeDatasetId ?? '',
+          flightId: confirmFlight.id,
+          vuelo: confirmFlight.vuelo,
+          operatorEmail,
+          operatedAt,
+          queuedAt: new Date().toISOString(),
+        }
+        await markOutbox.queue(entry)
+        setNotice(`Sin conexion: vuelo ${confirmFlight.vuelo} marcado en local, se enviara al recuperar la red`)
+        setConfirmFlight(null)
+      }
+
+      if (!isOnline) {
+        await queueMark()
+        return
+      }
+
+      let updatedFlight: FlightRecord | null
+      try {
+        updatedFlight = await markFlightOperated(confirmFlight.id, operatorEmail, operatedAt)
+      } catch (markError) {
+        if (!isNetworkError(markError)) {
+          throw markError
+        }
+        await queueMark()
+        return
+      }
+
       if (!updatedFlight) {
-        setNotice(`El vuelo ${confirmFlight.vuelo} ya fue marcado por otro operador`) 
+        setNotice(`El vuelo ${confirmFlight.vuelo} ya fue marcado por otro operador`)
       } else {
         setFlights((currentFlights) =>
           currentFlights.map((flight) => (flight.id === updatedFlight.id ? updatedFlight : flight)),
         )
-        setNotice(`Vuelo ${updatedFlight.vuelo} marcado como operado`) 
+        setNotice(`Vuelo ${updatedFlight.vuelo} marcado como operado`)
       }
 
       setConfirmFlight(null)
@@ -1229,27 +1627,22 @@ function App() {
     }
 
     const csvContent = buildStatsCsv(statsSnapshot.exportRows)
-    const blob = new Blob([`\uFEFF${csvContent}`], { type: 'text/csv;charset=utf-8;' })
-    const url = URL.createObjectURL(blob)
-    const link = document.createElement('a')
     const sourceName = activeDatasetName || activeDatasetId || 'stats-vuelos'
     const safeSource = toSafeFileToken(sourceName)
     const workDayToken = toSafeFileToken(statsSnapshot.dateIso || selectedWorkDate || 'dia')
     const today = new Date().toISOString().slice(0, 10)
     const fileName = `stats-${safeSource}-${workDayToken}-${today}.csv`
 
-    link.href = url
-    link.download = fileName
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    URL.revokeObjectURL(url)
+    downloadCsvFile(fileName, csvContent)
 
     setError('')
     setNotice(`Stats exportadas para ${statsSnapshot.dateLabel}: ${fileName}`)
   }
 
   const showAuthGate = mode === 'supabase' && !session
+  const canManageDatasets = mode === 'supabase' && Boolean(session) && isAdminUser
+  const canUpdateActiveDataset = flights.length > 0 && (mode === 'guest' || Boolean(activeDatasetId))
+  const effectiveUploadTarget = canUpdateActiveDataset ? uploadTarget : 'new'
   const canManageConfig = mode === 'guest' || isAdminUser
   const uploadDisabled = uploadBusy || (mode === 'supabase' && (!session || !isAdminUser))
   const parametersActionLabel = !canManageConfig
@@ -1261,7 +1654,7 @@ function App() {
         : 'Guardar parametros'
   const parametersActionDisabled = !canManageConfig || targetsBusy || (!parametersLocked && flights.length === 0)
   const autoAssignDisabled =
-    autoAssignBusy ||
+    autoAssign.busy ||
     !parametersLocked ||
     !selectedWorkDate ||
     dayScopedFlights.length === 0 ||
@@ -1269,6 +1662,7 @@ function App() {
     !canManageConfig
   const confirmFlightIsNoAttend = confirmFlight?.serviceFlag === 'NO_ATENDER'
   const confirmFlightIsAttend = confirmFlight?.serviceFlag === 'ATENDER'
+  const confirmFlightClaim = confirmFlight ? (flightClaims.get(confirmFlight.id) ?? null) : null
 
   return (
     <div className="app-shell">
@@ -1300,6 +1694,13 @@ function App() {
           {mode === 'supabase' && realtimeStatus !== 'LOCAL' ? (
             <span className="status-chip">{realtimeLabel(realtimeStatus)}</span>
           ) : null}
+          {mode === 'supabase' && (!isOnline || offlineSnapshotAt || operatedOutbox.length > 0) ? (
+            <span className={isOnline ? 'status-chip status-chip--pending' : 'status-chip status-chip--offline'}>
+              {isOnline ? 'Conectado' : 'Sin conexion'}
+              {offlineSnapshotAt ? ` · copia local ${formatDateTime(offlineSnapshotAt)}` : ''}
+              {operatedOutbox.length > 0 ? ` · ${operatedOutbox.length} marcas pendientes` : ''}
+            </span>
+          ) : null}
           {mode === 'supabase' && session?.user.email ? (
             <>
               <span className="status-chip status-chip--user">{session.user.email}</span>
@@ -1487,6 +1888,9 @@ function App() {
               <div className="banner-summary">
                 <span>CSV: {activeDatasetName || 'Sin archivo cargado'}</span>
                 <span>Dia activo: {selectedWorkDateLabel}</span>
+                <span>
+                  Objetivos: {activeTargetRule ? `regla ${activeTargetRule.name} (${describeTargetRule(activeTargetRule)})` : 'por defecto'}
+                </span>
                 <span>{parametersLocked ? 'Configuracion bloqueada' : 'Configuracion editable'}</span>
               </div>
             </div>
@@ -1522,18 +1926,30 @@ function App() {
                     <div className="file-input">
                       <input
                         type="file"
-                        accept=".csv,text/csv"
+                        accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
                         disabled={uploadDisabled}
                         onChange={(event) => {
                           const selectedFile = event.target.files?.[0] ?? null
-                          void handleFileSelected(selectedFile)
+                          void handleFileSelected(selectedFile, { updateActive: effectiveUploadTarget === 'update' })
                           event.currentTarget.value = ''
                         }}
                       />
-                      <span>{uploadBusy ? 'Procesando...' : flights.length === 0 ? 'Seleccionar CSV' : 'Cambiar CSV'}</span>
+                      <span>{uploadBusy ? 'Procesando...' : flights.length === 0 ? 'Seleccionar CSV o Excel' : 'Cambiar archivo'}</span>
                     </div>
                   </label>
 
+                  <label>
+                    Modo de carga
+                    <select
+                      value={effectiveUploadTarget}
+                      onChange={(event) => setUploadTarget(event.target.value as 'new' | 'update')}
+                      disabled={uploadDisabled || !canUpdateActiveDataset}
+                    >
+                      <option value="new">Nuevo dataset</option>
+                      <option value="update">Actualizar dataset activo</option>
+                    </select>
+                  </label>
+
                   <label>
                     Dia de trabajo
                     <select
@@ -1563,11 +1979,22 @@ function App() {
                   <button
                     type="button"
                     className="danger-btn"
-                    onClick={handleOpenAutoAssignModal}
+                    onClick={autoAssign.openModal}
                     disabled={autoAssignDisabled}
                   >
-                    {autoAssignBusy ? 'Autoasignando...' : 'Autoasignar'}
+                    {autoAssign.busy ? 'Autoasignando...' : 'Autoasignar'}
                   </button>
+
+                  {canManageDatasets ? (
+                    <button
+                      type="button"
+                      className="secondary-btn"
+                      onClick={() => void runVerification.openModal()}
+                      disabled={runVerification.busy || !activeDatasetId || !selectedWorkDate}
+                    >
+                      Verificar ejecucion
+                    </button>
+                  ) : null}
                 </div>
 
                 <p className="banner-hint">
@@ -1607,6 +2034,24 @@ function App() {
                     </label>
                   ))}
                 </div>
+
+                {mode === 'supabase' && activeDatasetId ? (
+                  <TargetRulesList
+                    rules={targetRules}
+                    activeRuleId={activeTargetRule?.id ?? null}
+                    canManage={canManageConfig}
+                    onEdit={targetRuleEditor.open}
+                  />
+                ) : null}
+
+                {shiftSlots.length > 0 ? (
+                  <ShiftCapacityGrid
+                    slots={shiftSlots}
+                    capacity={draftShiftCapacity}
+                    disabled={parametersLocked || targetsBusy || !canManageConfig}
+                    onChange={setDraftShiftCapacity}
+                  />
+                ) : null}
               </div>
             ) : null}
           </section>
@@ -1619,6 +2064,16 @@ function App() {
             >
               Operacion
             </button>
+            {mode === 'supabase' && session ? (
+              <button
+                type="button"
+                className={activeView === 'mis_vuelos' ? 'view-switch__btn active' : 'view-switch__btn'}
+                onClick={() => setActiveView('mis_vuelos')}
+                disabled={flights.length === 0}
+              >
+                Mis vuelos
+              </button>
+            ) : null}
             <button
               type="button"
               className={activeView === 'stats' ? 'view-switch__btn active' : 'view-switch__btn'}
@@ -1627,9 +2082,61 @@ function App() {
             >
               Stats
             </button>
+            {mode === 'supabase' && session ? (
+              <button
+                type="button"
+                className={activeView === 'runs' ? 'view-switch__btn active' : 'view-switch__btn'}
+                onClick={() => setActiveView('runs')}
+                disabled={!activeDatasetId}
+              >
+                Ejecuciones
+              </button>
+            ) : null}
+            {canManageDatasets ? (
+              <button
+                type="button"
+                className={activeView === 'datasets' ? 'view-switch__btn active' : 'view-switch__btn'}
+                onClick={() => setActiveView('datasets')}
+              >
+                Datasets
+              </button>
+            ) : null}
           </section>
 
-          {flights.length === 0 ? (
+          {activeView === 'runs' && mode === 'supabase' && session ? (
+            <RunsView
+              history={assignmentRunsHistory}
+              flightsById={flightsById}
+              workDate={selectedWorkDate}
+              isAdminUser={isAdminUser}
+              onRefresh={() =>
+                void refreshAssignmentRuns().catch((refreshError) => {
+                  setError(getErrorMessage(refreshError))
+                })
+              }
+              onVerify={(runId) => void runVerification.openModal(runId)}
+              onRestore={runRestore.setRun}
+            />
+          ) : activeView === 'datasets' && canManageDatasets ? (
+            <>
+              <DatasetAdminTable
+                admin={datasetAdmin}
+                activeDatasetId={activeDatasetId}
+                onOpen={handleOpenManagedDataset}
+                onConfirmRename={() => void handleConfirmDatasetRename()}
+                onToggleArchived={(dataset) => void handleToggleDatasetArchived(dataset)}
+              />
+              <CategoryCatalogTable
+                catalog={categoryCatalog}
+                onEdit={() => categoryCatalogEditor.setDraft(categoryCatalog)}
+              />
+              <ClassificationRulesTable
+                rules={classificationRules}
+                catalog={categoryCatalog}
+                onEdit={classificationRuleEditor.openEditor}
+              />
+            </>
+          ) : flights.length === 0 ? (
             <section className="empty-state">
               <h2>Sube un CSV para empezar</h2>
               <p>Los parametros y la carga de archivo estan en el banner superior.</p>
@@ -1660,140 +2167,61 @@ function App() {
                 })}
               </section>
 
-              <section className="table-card">
-                <div className="table-toolbar">
-                  <div className="toolbar-main">
-                    <strong>
-                      {totalOperated} operados de {dayScopedFlights.length}
-                    </strong>
-                    <span>
-                      {loadingDataset
-                        ? 'Cargando dataset...'
-                        : `${filteredFlights.length} vuelos visibles (${selectedWorkDateLabel})`}
-                    </span>
-                    <span>Etiquetas: {totalAttendAssigned} ATENDER · {totalNoAttendAssigned} NO ATENDER</span>
-                  </div>
-                  <div className="toolbar-filters">
-                    <input
-                      type="search"
-                      value={query}
-                      placeholder="Buscar por vuelo, compania o hora"
-                      onChange={(event) => setQuery(event.target.value)}
-                    />
-                    <select value={categoryFilter} onChange={(event) => setCategoryFilter(event.target.value)}>
-                      <option value="all">Todas las categorias</option>
-                      {categories.map((category) => (
-                        <option key={category} value={category}>
-                          {category}
-                        </option>
-                      ))}
-                    </select>
-                    <select
-                      value={serviceFlagFilter}
-                      onChange={(event) =>
-                        setServiceFlagFilter(event.target.value as 'all' | 'ATENDER' | 'NO_ATENDER')
-                      }
-                    >
-                      <option value="all">Todas las etiquetas</option>
-                      <option value="ATENDER">ATENDER</option>
-                      <option value="NO_ATENDER">NO ATENDER</option>
-                    </select>
-                  </div>
-                </div>
-
-                <div className="table-wrap">
-                  <table>
-                    <thead>
-                      <tr>
-                        <th>Operado</th>
-                        <th>Hora</th>
-                        <th>Compania</th>
-                        <th>Vuelo</th>
-                        <th>Tipo</th>
-                        <th>Categoria</th>
-                        <th>Etiqueta</th>
-                        <th>Marcado por</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {visibleFlights.map((flight) => (
-                        <tr key={flight.id} className={flight.operated ? 'row-operated' : ''}>
-                          <td>
-                            <button
-                              type="button"
-                              className={
-                                flight.operated
-                                  ? 'operate-btn operate-btn--locked'
-                                  : flight.serviceFlag === 'NO_ATENDER'
-                                    ? 'operate-btn operate-btn--alert'
-                                    : flight.serviceFlag === 'ATENDER'
-                                      ? 'operate-btn operate-btn--attend'
-                                      : 'operate-btn'
-                              }
-                              disabled={flight.operated || markBusy}
-                              onClick={() => handleOpenMarkModal(flight)}
-                            >
-                              {flight.operated ? 'Operado' : 'Marcar'}
-                            </button>
-                          </td>
-                          <td>
-                            {flight.fecha} {flight.hora}
-                          </td>
-                          <td>
-                            <span className="cell-code">{flight.cia}</span> {flight.dscia}
-                          </td>
-                          <td>{flight.vuelo}</td>
-                          <td>{flight.tipo}</td>
-                          <td>{flight.categoriaClasificacion}</td>
-                          <td>
-                            {flight.serviceFlag ? (
-                              <span
-                                className={
-                                  flight.serviceFlag === 'ATENDER'
-                                    ? 'service-badge service-badge--attend'
-                                    : 'service-badge service-badge--no-attend'
-                                }
-                              >
-                                {flight.serviceFlag}
-                              </span>
-                            ) : (
-                              <span className="service-badge service-badge--none">Sin etiqueta</span>
-                            )}
-                            <small>{flight.serviceFlagUpdatedByEmail ?? '--'}</small>
-                          </td>
-                          <td>
-                            {flight.operatedByEmail ?? '--'}
-                            <small>{formatDateTime(flight.operatedAt)}</small>
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
+              <ForecastTable forecast={categoryForecast} now={clock} />
 
-                <div className="pagination">
-                  <button
-                    type="button"
-                    className="secondary-btn"
-                    onClick={() => setCurrentPage((page) => Math.max(1, page - 1))}
-                    disabled={currentPageSafe <= 1}
-                  >
-                    Anterior
-                  </button>
-                  <span>
-                    Pagina {currentPageSafe} de {totalPages}
-                  </span>
-                  <button
-                    type="button"
-                    className="secondary-btn"
-                    onClick={() => setCurrentPage((page) => Math.min(totalPages, page + 1))}
-                    disabled={currentPageSafe >= totalPages}
-                  >
-                    Siguiente
-                  </button>
-                </div>
-              </section>
+              {mode === 'supabase' && operatorAssignments.balance.length > 0 ? (
+                <OperatorBalancePanel
+                  assignments={operatorAssignments}
+                  onlineEmails={onlineEmails}
+                  isAdminUser={isAdminUser}
+                  workDateLabel={selectedWorkDateLabel}
+                />
+              ) : null}
+
+              {isAdminUser && pendingReversals.length > 0 ? (
+                <ReversalsPanel
+                  reversals={pendingReversals}
+                  flights={flights}
+                  busy={operatedReversals.busy}
+                  onResolve={(reversal, approve) => void operatedReversals.resolve(reversal, approve)}
+                />
+              ) : null}
+
+              <FlightsTable
+                mode={mode}
+                filters={flightFilters}
+                categories={categories}
+                dayFlightCount={dayScopedFlights.length}
+                totalOperated={totalOperated}
+                totalAttendAssigned={totalAttendAssigned}
+                totalNoAttendAssigned={totalNoAttendAssigned}
+                loadingDataset={loadingDataset}
+                workDateLabel={selectedWorkDateLabel}
+                onlineOperatorSummary={onlineOperatorSummary}
+                isAdminUser={isAdminUser}
+                ownEmail={session?.user.email ?? null}
+                markBusy={markBusy}
+                assignBusy={operatorAssignments.busy}
+                operators={operatorAssignments.operators}
+                flightClaims={flightClaims}
+                pendingReversalByFlight={pendingReversalByFlight}
+                onMark={handleOpenMarkModal}
+                onClaim={operatorPresence.claim}
+                onReleaseClaim={operatorPresence.release}
+                onOverride={serviceFlagOverride.open}
+                onAssign={operatorAssignments.assign}
+                onOpenHistory={(flight) => void flightHistory.open(flight)}
+              />
             </>
+          ) : activeView === 'mis_vuelos' ? (
+            <MyFlightsView
+              flights={operatorAssignments.myFlights}
+              userEmail={session?.user.email ?? null}
+              workDateLabel={selectedWorkDateLabel}
+              markBusy={markBusy}
+              pendingReversalByFlight={pendingReversalByFlight}
+              onMark={handleOpenMarkModal}
+            />
           ) : (
             <section className="stats-card">
               <div className="stats-toolbar">
@@ -1846,12 +2274,16 @@ function App() {
                     <div className="stats-chart-grid">
                       <section className="stats-chart-card">
                         <h4>Barras por categoria</h4>
-                        <GroupedBarsChart stats={statsSnapshot.categories} maxValue={statsSnapshot.maxCategoryScale} />
+                        <GroupedBarsChart
+                          stats={statsSnapshot.categories}
+                          maxValue={statsSnapshot.maxCategoryScale}
+                          catalog={categoryCatalog}
+                        />
                       </section>
 
                       <section className="stats-chart-card">
                         <h4>Stacked por categoria</h4>
-                        <StackedBarsChart stats={statsSnapshot.categories} />
+                        <StackedBarsChart stats={statsSnapshot.categories} catalog={categoryCatalog} />
                       </section>
                     </div>
                   </article>
@@ -1872,6 +2304,12 @@ function App() {
                 como <strong>NO ATENDER</strong> por autoasignacion.
               </p>
             ) : null}
+            {confirmFlightClaim && confirmFlightClaim.operatorEmail !== session?.user.email ? (
+              <p className="modal-warning">
+                <strong>{confirmFlightClaim.operatorEmail}</strong> esta atendiendo este vuelo desde las{' '}
+                {toLocalTime(new Date(confirmFlightClaim.claimedAt))}.
+              </p>
+            ) : null}
             {confirmFlightIsAttend ? (
               <p className="modal-info">
                 Este vuelo esta etiquetado como <strong>ATENDER</strong>.
@@ -1881,7 +2319,7 @@ function App() {
               Vas a marcar como <strong>operado</strong> el vuelo <strong>{confirmFlight.vuelo}</strong> de{' '}
               <strong>{confirmFlight.dscia}</strong>.
             </p>
-            <p>Esta accion es irreversible. Un vuelo operado no puede desmarcarse.</p>
+            <p>Un vuelo operado solo puede desmarcarse con una solicitud de reversion aprobada por un administrador.</p>
             <div className="modal-actions">
               <button type="button" className="secondary-btn" onClick={() => setConfirmFlight(null)} disabled={markBusy}>
                 Cancelar
@@ -1894,33 +2332,148 @@ function App() {
         </div>
       ) : null}
 
-      {confirmAutoAssign ? (
-        <div className="modal-backdrop" role="presentation" onClick={() => !autoAssignBusy && setConfirmAutoAssign(false)}>
-          <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
-            <h2>Confirmar autoasignacion</h2>
-            <p>
-              Se asignaran de forma aleatoria y compartida etiquetas <strong>ATENDER</strong> /{' '}
-              <strong>NO ATENDER</strong> para el dia <strong>{selectedWorkDateLabel}</strong>.
-            </p>
-            <p>
-              El calculo se hace por categoria usando redondeo al entero superior y nunca supera el porcentaje
-              configurado.
-            </p>
-            <div className="modal-actions">
-              <button
-                type="button"
-                className="secondary-btn"
-                onClick={() => setConfirmAutoAssign(false)}
-                disabled={autoAssignBusy}
-              >
-                Cancelar
-              </button>
-              <button type="button" className="danger-btn" onClick={() => void handleConfirmAutoAssign()} disabled={autoAssignBusy}>
-                {autoAssignBusy ? 'Autoasignando...' : 'Confirmar autoasignacion'}
-              </button>
-            </div>
-          </div>
-        </div>
+      {operatorAssignments.offShiftOperator ? (
+        <OffShiftModal
+          assignments={operatorAssignments}
+          operator={operatorAssignments.offShiftOperator}
+          workDateLabel={selectedWorkDateLabel}
+        />
+      ) : null}
+
+      {markOutbox.conflicts.length > 0 ? (
+        <MarkConflictsModal conflicts={markOutbox.conflicts} onClose={markOutbox.clearConflicts} />
+      ) : null}
+
+      {serviceFlagOverride.draft && serviceFlagOverride.preview ? (
+        <OverrideModal
+          draft={serviceFlagOverride.draft}
+          preview={serviceFlagOverride.preview}
+          busy={serviceFlagOverride.busy}
+          onChange={serviceFlagOverride.setDraft}
+          onCancel={() => serviceFlagOverride.setDraft(null)}
+          onConfirm={() => void serviceFlagOverride.confirm()}
+        />
+      ) : null}
+
+      {runVerification.open ? (
+        <VerifyRunModal verifier={runVerification} runs={assignmentRuns} workDateLabel={selectedWorkDateLabel} />
+      ) : null}
+
+      {categoryCatalogEditor.draft ? (
+        <CategoryCatalogModal editor={categoryCatalogEditor} draft={categoryCatalogEditor.draft} />
+      ) : null}
+
+      {classificationRuleEditor.draft ? (
+        <ClassificationRulesModal
+          editor={classificationRuleEditor}
+          draft={classificationRuleEditor.draft}
+          catalog={categoryCatalog}
+        />
+      ) : null}
+
+      {targetRuleEditor.draft ? (
+        <TargetRuleModal
+          editor={targetRuleEditor}
+          draft={targetRuleEditor.draft}
+          categories={categories}
+          defaultTargets={targets}
+        />
+      ) : null}
+
+      {runRestore.run && runRestore.preview ? (
+        <RestoreRunModal
+          run={runRestore.run}
+          preview={runRestore.preview}
+          flightsById={flightsById}
+          workDateLabel={selectedWorkDateLabel}
+          busy={runRestore.busy}
+          onCancel={() => runRestore.setRun(null)}
+          onConfirm={() => void runRestore.confirm()}
+        />
+      ) : null}
+
+      {flightHistory.flight ? (
+        <FlightHistoryDrawer
+          mode={mode}
+          flight={flightHistory.flight}
+          events={flightHistory.events}
+          loading={flightHistory.loading}
+          onClose={flightHistory.close}
+        />
+      ) : null}
+
+      {operatedReversals.reversalFlight ? (
+        <ReversalRequestModal
+          flight={operatedReversals.reversalFlight}
+          busy={operatedReversals.busy}
+          onCancel={() => operatedReversals.setReversalFlight(null)}
+          onConfirm={(reason) => void operatedReversals.confirmRequest(reason)}
+        />
+      ) : null}
+
+      {mappingDraft ? (
+        <MappingModal
+          draft={mappingDraft}
+          profiles={mappingProfiles}
+          busy={mappingBusy}
+          onChange={setMappingDraft}
+          onCancel={() => setMappingDraft(null)}
+          onConfirm={() => void handleConfirmMappingDraft()}
+        />
+      ) : null}
+
+      {sheetChoice ? (
+        <SheetChoiceModal
+          choice={sheetChoice}
+          onChange={setSheetChoice}
+          onCancel={() => setSheetChoice(null)}
+          onConfirm={handleConfirmSheetChoice}
+        />
+      ) : null}
+
+      {pendingImport ? (
+        <ValidationReportModal
+          pendingImport={pendingImport}
+          categoryCatalog={categoryCatalog}
+          busy={uploadBusy}
+          onChange={setPendingImport}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={() => void handleConfirmPendingImport()}
+        />
+      ) : null}
+
+      {datasetAdmin.datasetToDelete ? (
+        <DeleteDatasetModal
+          dataset={datasetAdmin.datasetToDelete}
+          busy={datasetAdmin.busy}
+          onCancel={() => datasetAdmin.setDatasetToDelete(null)}
+          onConfirm={() => void handleConfirmDatasetDelete()}
+        />
+      ) : null}
+
+      {duplicateUpload ? (
+        <DuplicateUploadModal
+          duplicate={duplicateUpload}
+          onCancel={() => setDuplicateUpload(null)}
+          onOpenExisting={handleOpenDuplicateDataset}
+        />
+      ) : null}
+      {pendingUpdate ? (
+        <DatasetUpdateModal
+          pendingUpdate={pendingUpdate}
+          datasetName={activeDatasetName}
+          busy={updateBusy}
+          onCancel={() => setPendingUpdate(null)}
+          onConfirm={() => void handleConfirmDatasetUpdate()}
+        />
+      ) : null}
+
+      {autoAssign.open ? (
+        <AutoAssignModal
+          assign={autoAssign}
+          workDateLabel={selectedWorkDateLabel}
+          hasShiftCapacity={Object.keys(shiftCapacity).length > 0}
+        />
       ) : null}
     </div>
   )
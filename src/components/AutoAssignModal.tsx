@@ -0,0 +1,72 @@
+import type { AutoAssign } from '../hooks/useAutoAssign'
+import { StrategyFields } from './StrategyFields'
+
+interface AutoAssignModalProps {
+  assign: AutoAssign
+  workDateLabel: string
+  hasShiftCapacity: boolean
+}
+
+export function AutoAssignModal({ assign, workDateLabel, hasShiftCapacity }: AutoAssignModalProps) {
+  const { busy, strategy, fromTime } = assign
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && assign.setOpen(false)}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Confirmar autoasignacion</h2>
+        <p>
+          Se asignaran de forma aleatoria y compartida etiquetas <strong>ATENDER</strong> / <strong>NO ATENDER</strong>{' '}
+          para el dia <strong>{workDateLabel}</strong>.
+        </p>
+        <p>
+          El calculo se hace por categoria usando redondeo al entero superior y nunca supera el porcentaje configurado.
+        </p>
+        <StrategyFields
+          strategy={strategy}
+          bucketMinutes={assign.bucketMinutes}
+          weightsText={assign.weightsText}
+          disabled={busy}
+          onStrategyChange={assign.setStrategy}
+          onBucketMinutesChange={assign.setBucketMinutes}
+          onWeightsTextChange={assign.setWeightsText}
+        />
+        <label className="modal-check">
+          <input
+            type="checkbox"
+            checked={assign.respectLocked}
+            onChange={(event) => assign.setRespectLocked(event.target.checked)}
+            disabled={busy}
+          />
+          Respetar vuelos operados (quedan como ATENDER) y etiquetas manuales; solo se sortea la cuota restante entre los
+          vuelos pendientes
+        </label>
+        <label className="modal-check">
+          <input
+            type="checkbox"
+            checked={assign.respectCapacity}
+            onChange={(event) => assign.setRespectCapacity(event.target.checked)}
+            disabled={busy || !hasShiftCapacity}
+          />
+          Respetar la capacidad de equipos por franja y repartir los vuelos ATENDER a lo largo del dia
+        </label>
+        <label className="modal-field">
+          Sortear solo vuelos desde
+          <input type="time" value={fromTime} onChange={(event) => assign.setFromTime(event.target.value)} disabled={busy} />
+        </label>
+        <p>
+          {fromTime
+            ? `Los vuelos anteriores a las ${fromTime} no se modifican y cuentan como atendidos solo si estan operados; la cuota restante se reparte entre los vuelos posteriores.`
+            : 'Sin hora de corte: se sortean todos los vuelos del dia.'}
+        </p>
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={() => assign.setOpen(false)} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" className="danger-btn" onClick={() => void assign.confirm()} disabled={busy}>
+            {busy ? 'Autoasignando...' : 'Confirmar autoasignacion'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
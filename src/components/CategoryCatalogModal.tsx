@@ -0,0 +1,106 @@
+import type { CategoryCatalog } from '../hooks/useCategoryCatalog'
+import type { CategoryDefinition } from '../types'
+import { clampPercent } from '../utils/targets'
+
+interface CategoryCatalogModalProps {
+  editor: CategoryCatalog
+  draft: CategoryDefinition[]
+}
+
+export function CategoryCatalogModal({ editor, draft }: CategoryCatalogModalProps) {
+  const { busy, changeDraft } = editor
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && editor.setDraft(null)}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Catalogo de categorias</h2>
+        <p>
+          El orden y el color se usan en el progreso y las graficas; el objetivo por defecto se aplica a los datasets
+          nuevos. Las categorias inactivas no se proponen y se avisan como desconocidas al subir un CSV.
+        </p>
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Orden</th>
+                <th>Codigo</th>
+                <th>Nombre</th>
+                <th>Objetivo %</th>
+                <th>Color</th>
+                <th>Activa</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((category, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="number"
+                      step={1}
+                      value={category.displayOrder}
+                      onChange={(event) =>
+                        changeDraft(index, { displayOrder: Math.floor(Number(event.target.value) || 0) })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={category.code}
+                      onChange={(event) => changeDraft(index, { code: event.target.value })}
+                      disabled={index < editor.catalog.length}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={category.label}
+                      onChange={(event) => changeDraft(index, { label: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.5}
+                      value={category.defaultTarget}
+                      onChange={(event) =>
+                        changeDraft(index, { defaultTarget: clampPercent(Number(event.target.value)) })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="color"
+                      value={category.color}
+                      onChange={(event) => changeDraft(index, { color: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={category.active}
+                      onChange={(event) => changeDraft(index, { active: event.target.checked })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={editor.addCategory} disabled={busy}>
+            Anadir categoria
+          </button>
+          <button type="button" className="secondary-btn" onClick={() => editor.setDraft(null)} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={() => void editor.save()} disabled={busy}>
+            {busy ? 'Guardando...' : 'Guardar catalogo'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
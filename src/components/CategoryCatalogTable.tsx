@@ -0,0 +1,51 @@
+import type { CategoryDefinition } from '../types'
+
+interface CategoryCatalogTableProps {
+  catalog: CategoryDefinition[]
+  onEdit: () => void
+}
+
+export function CategoryCatalogTable({ catalog, onEdit }: CategoryCatalogTableProps) {
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>Catalogo de categorias</strong>
+          <span>Orden, objetivo por defecto y color de cada categoria del CSV</span>
+        </div>
+        <div className="toolbar-filters">
+          <button type="button" className="secondary-btn" onClick={onEdit}>
+            Editar catalogo
+          </button>
+        </div>
+      </div>
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Orden</th>
+              <th>Codigo</th>
+              <th>Nombre</th>
+              <th>Objetivo</th>
+              <th>Estado</th>
+            </tr>
+          </thead>
+          <tbody>
+            {catalog.map((category) => (
+              <tr key={category.code} className={category.active ? '' : 'row-archived'}>
+                <td>{category.displayOrder}</td>
+                <td>
+                  <span className="category-swatch" style={{ background: category.color }} />
+                  {category.code}
+                </td>
+                <td>{category.label}</td>
+                <td>{category.defaultTarget}%</td>
+                <td>{category.active ? 'Activa' : 'Inactiva'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
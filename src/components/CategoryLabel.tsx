@@ -0,0 +1,11 @@
+import type { CategoryDefinition } from '../types'
+
+export function CategoryLabel({ category, catalog }: { category: string; catalog: CategoryDefinition[] }) {
+  const definition = catalog.find((item) => item.code === category)
+  return (
+    <>
+      <span className="category-swatch" style={{ background: definition?.color }} />
+      <span title={category}>{definition?.label ?? category}</span>
+    </>
+  )
+}
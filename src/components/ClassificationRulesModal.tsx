@@ -0,0 +1,160 @@
+import type { ClassificationRules } from '../hooks/useClassificationRules'
+import type { CategoryDefinition, ClassificationRule, ClassificationRuleDraft } from '../types'
+import { listActiveCategories } from '../utils/categories'
+import { BLOCK_TIME_LABELS, EEE_SCOPE_LABELS } from '../utils/classifier'
+
+interface ClassificationRulesModalProps {
+  editor: ClassificationRules
+  draft: ClassificationRuleDraft[]
+  catalog: CategoryDefinition[]
+}
+
+export function ClassificationRulesModal({ editor, draft, catalog }: ClassificationRulesModalProps) {
+  const { busy, changeDraft } = editor
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && editor.setDraft(null)}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Reglas de clasificacion</h2>
+        <p>
+          Se aplican en orden de prioridad a las filas sin CATEGORIA_CLASIFICACION y gana la primera que encaja. Los
+          campos vacios aceptan cualquier valor; separa varios valores con comas. La duracion de bloque se lee de la
+          columna TIEMPO_BLOQUE (HH:MM o minutos).
+        </p>
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Prioridad</th>
+                <th>Nombre</th>
+                <th>Tipo</th>
+                <th>DSTPAPTO</th>
+                <th>Pais</th>
+                <th>EEE</th>
+                <th>Bloque</th>
+                <th>Categoria</th>
+                <th>Activa</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((rule, index) => (
+                <tr key={rule.id}>
+                  <td>
+                    <input
+                      type="number"
+                      step={1}
+                      value={rule.priority}
+                      onChange={(event) =>
+                        changeDraft(index, { priority: Math.floor(Number(event.target.value) || 0) })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={rule.name}
+                      onChange={(event) => changeDraft(index, { name: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={rule.tipos}
+                      placeholder="pax, cargo"
+                      onChange={(event) => changeDraft(index, { tipos: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={rule.airportTypes}
+                      placeholder="PENINSULAR"
+                      onChange={(event) => changeDraft(index, { airportTypes: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={rule.countries}
+                      placeholder="ES"
+                      onChange={(event) => changeDraft(index, { countries: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      value={rule.eee}
+                      onChange={(event) => changeDraft(index, { eee: event.target.value as ClassificationRule['eee'] })}
+                    >
+                      {Object.entries(EEE_SCOPE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <select
+                      value={rule.blockTime}
+                      onChange={(event) =>
+                        changeDraft(index, { blockTime: event.target.value as ClassificationRule['blockTime'] })
+                      }
+                    >
+                      {Object.entries(BLOCK_TIME_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <select
+                      value={rule.category}
+                      onChange={(event) => changeDraft(index, { category: event.target.value })}
+                    >
+                      {[...new Set([rule.category, ...listActiveCategories(catalog)])]
+                        .filter(Boolean)
+                        .map((category) => (
+                          <option key={category} value={category}>
+                            {category}
+                          </option>
+                        ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={rule.active}
+                      onChange={(event) => changeDraft(index, { active: event.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className="secondary-btn table-action-btn"
+                      onClick={() => editor.removeRule(index)}
+                      disabled={busy}
+                    >
+                      Quitar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={editor.addRule} disabled={busy}>
+            Anadir regla
+          </button>
+          <button type="button" className="secondary-btn" onClick={() => editor.setDraft(null)} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={() => void editor.save()} disabled={busy}>
+            {busy ? 'Guardando...' : 'Guardar reglas'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
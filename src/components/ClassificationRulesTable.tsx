@@ -0,0 +1,53 @@
+import type { CategoryDefinition, ClassificationRule } from '../types'
+import { describeClassificationRule } from '../utils/classifier'
+import { CategoryLabel } from './CategoryLabel'
+
+interface ClassificationRulesTableProps {
+  rules: ClassificationRule[]
+  catalog: CategoryDefinition[]
+  onEdit: () => void
+}
+
+export function ClassificationRulesTable({ rules, catalog, onEdit }: ClassificationRulesTableProps) {
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>Reglas de clasificacion</strong>
+          <span>Asignan la categoria a las filas del CSV que llegan sin CATEGORIA_CLASIFICACION</span>
+        </div>
+        <div className="toolbar-filters">
+          <button type="button" className="secondary-btn" onClick={onEdit}>
+            Editar reglas
+          </button>
+        </div>
+      </div>
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Prioridad</th>
+              <th>Nombre</th>
+              <th>Condiciones</th>
+              <th>Categoria</th>
+              <th>Estado</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.id} className={rule.active ? '' : 'row-archived'}>
+                <td>{rule.priority}</td>
+                <td>{rule.name}</td>
+                <td>{describeClassificationRule(rule)}</td>
+                <td>
+                  <CategoryLabel category={rule.category} catalog={catalog} />
+                </td>
+                <td>{rule.active ? 'Activa' : 'Inactiva'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
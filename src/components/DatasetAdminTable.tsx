@@ -0,0 +1,177 @@
+import type { DatasetAdmin } from '../hooks/useDatasetAdmin'
+import type { DatasetSummary } from '../types'
+import { formatDatasetDate } from '../utils/format'
+
+interface DatasetAdminTableProps {
+  admin: DatasetAdmin
+  activeDatasetId: string | null
+  onOpen: (dataset: DatasetSummary) => void
+  onConfirmRename: () => void
+  onToggleArchived: (dataset: DatasetSummary) => void
+}
+
+export function DatasetAdminTable({ admin, activeDatasetId, onOpen, onConfirmRename, onToggleArchived }: DatasetAdminTableProps) {
+  const { filtersDraft, setFiltersDraft, page, pageIndex, totalPages, busy, renameDraft, setRenameDraft } = admin
+
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>{page.total} datasets</strong>
+          <span>{busy ? 'Cargando datasets...' : 'Los datasets archivados no aparecen en el selector'}</span>
+        </div>
+        <div className="toolbar-filters">
+          <input
+            type="search"
+            value={filtersDraft.search}
+            placeholder="Buscar por nombre"
+            onChange={(event) => setFiltersDraft((current) => ({ ...current, search: event.target.value }))}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                admin.applyFilters()
+              }
+            }}
+          />
+          <input
+            type="date"
+            value={filtersDraft.fromDate}
+            aria-label="Subido desde"
+            onChange={(event) => setFiltersDraft((current) => ({ ...current, fromDate: event.target.value }))}
+          />
+          <input
+            type="date"
+            value={filtersDraft.toDate}
+            aria-label="Subido hasta"
+            onChange={(event) => setFiltersDraft((current) => ({ ...current, toDate: event.target.value }))}
+          />
+          <label className="toolbar-check">
+            <input
+              type="checkbox"
+              checked={filtersDraft.includeArchived}
+              onChange={(event) => setFiltersDraft((current) => ({ ...current, includeArchived: event.target.checked }))}
+            />
+            Incluir archivados
+          </label>
+          <button type="button" className="secondary-btn" onClick={admin.applyFilters} disabled={busy}>
+            Buscar
+          </button>
+        </div>
+      </div>
+
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Nombre</th>
+              <th>Subido</th>
+              <th>Estado</th>
+              <th>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {page.datasets.map((dataset) => (
+              <tr key={dataset.id} className={dataset.archivedAt ? 'row-archived' : ''}>
+                <td>
+                  {renameDraft?.id === dataset.id ? (
+                    <input
+                      type="text"
+                      value={renameDraft.name}
+                      autoFocus
+                      onChange={(event) => setRenameDraft({ id: dataset.id, name: event.target.value })}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') {
+                          onConfirmRename()
+                        }
+                        if (event.key === 'Escape') {
+                          setRenameDraft(null)
+                        }
+                      }}
+                    />
+                  ) : (
+                    <>
+                      {dataset.name}
+                      {dataset.id === activeDatasetId ? <small>Dataset activo</small> : null}
+                    </>
+                  )}
+                </td>
+                <td>{formatDatasetDate(dataset.createdAt)}</td>
+                <td>{dataset.archivedAt ? `Archivado ${formatDatasetDate(dataset.archivedAt)}` : 'Activo'}</td>
+                <td>
+                  <div className="dataset-actions">
+                    {renameDraft?.id === dataset.id ? (
+                      <>
+                        <button type="button" onClick={onConfirmRename} disabled={busy}>
+                          Guardar
+                        </button>
+                        <button type="button" className="secondary-btn" onClick={() => setRenameDraft(null)}>
+                          Cancelar
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button type="button" className="secondary-btn" onClick={() => onOpen(dataset)} disabled={busy}>
+                          Abrir
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary-btn"
+                          onClick={() => setRenameDraft({ id: dataset.id, name: dataset.name })}
+                          disabled={busy}
+                        >
+                          Renombrar
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary-btn"
+                          onClick={() => onToggleArchived(dataset)}
+                          disabled={busy}
+                        >
+                          {dataset.archivedAt ? 'Restaurar' : 'Archivar'}
+                        </button>
+                        <button
+                          type="button"
+                          className="danger-btn"
+                          onClick={() => admin.setDatasetToDelete(dataset)}
+                          disabled={busy}
+                        >
+                          Eliminar
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {page.datasets.length === 0 ? (
+              <tr>
+                <td colSpan={4}>{busy ? 'Cargando...' : 'No hay datasets con esos filtros'}</td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="pagination">
+        <button
+          type="button"
+          className="secondary-btn"
+          onClick={() => admin.setPageIndex((current) => Math.max(1, current - 1))}
+          disabled={pageIndex <= 1 || busy}
+        >
+          Anterior
+        </button>
+        <span>
+          Pagina {Math.min(pageIndex, totalPages)} de {totalPages}
+        </span>
+        <button
+          type="button"
+          className="secondary-btn"
+          onClick={() => admin.setPageIndex((current) => Math.min(totalPages, current + 1))}
+          disabled={pageIndex >= totalPages || busy}
+        >
+          Siguiente
+        </button>
+      </div>
+    </section>
+  )
+}
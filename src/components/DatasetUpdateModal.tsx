@@ -0,0 +1,89 @@
+import type { FlightRecord, PendingUpdate } from '../types'
+
+const DIFF_PREVIEW_LIMIT = 50
+
+interface DatasetUpdateModalProps {
+  pendingUpdate: PendingUpdate
+  datasetName: string
+  busy: boolean
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+function DiffSection({ title, flights }: { title: string; flights: FlightRecord[] }) {
+  if (flights.length === 0) {
+    return null
+  }
+
+  return (
+    <section className="diff-section">
+      <h3>
+        {title} ({flights.length})
+      </h3>
+      <ul>
+        {flights.slice(0, DIFF_PREVIEW_LIMIT).map((flight) => (
+          <li key={flight.flightKey}>
+            <span className="cell-code">{flight.vuelo}</span> {flight.fecha} {flight.hora} · {flight.dscia} ·{' '}
+            {flight.categoriaClasificacion}
+            {flight.operated ? ' · operado' : ''}
+          </li>
+        ))}
+      </ul>
+      {flights.length > DIFF_PREVIEW_LIMIT ? <p>Y {flights.length - DIFF_PREVIEW_LIMIT} mas...</p> : null}
+    </section>
+  )
+}
+
+export function DatasetUpdateModal({ pendingUpdate, datasetName, busy, onCancel, onConfirm }: DatasetUpdateModalProps) {
+  const { diff } = pendingUpdate
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && onCancel()}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Actualizar dataset activo</h2>
+        <p>
+          Cambios de <strong>{pendingUpdate.file.name}</strong> respecto a <strong>{datasetName}</strong>:{' '}
+          <strong>{diff.added.length}</strong> nuevos, <strong>{diff.removed.length}</strong> eliminados,{' '}
+          <strong>{diff.changed.length}</strong> modificados y {diff.unchanged} sin cambios.
+        </p>
+        <p className="modal-info">
+          Los vuelos que se mantienen conservan su estado operado y su etiqueta ATENDER/NO ATENDER.
+        </p>
+        {diff.keptOperated.length > 0 ? (
+          <p className="modal-warning">
+            {diff.keptOperated.length} vuelos ya marcados como operados no aparecen en el nuevo archivo: se conservan en
+            el dataset con su marca y su historial.
+          </p>
+        ) : null}
+
+        <DiffSection title="Nuevos" flights={diff.added} />
+        <DiffSection title="Eliminados" flights={diff.removed} />
+        <DiffSection title="Operados conservados" flights={diff.keptOperated} />
+        {diff.changed.length > 0 ? (
+          <section className="diff-section">
+            <h3>Modificados ({diff.changed.length})</h3>
+            <ul>
+              {diff.changed.slice(0, DIFF_PREVIEW_LIMIT).map((change) => (
+                <li key={change.after.flightKey}>
+                  <span className="cell-code">{change.after.vuelo}</span> {change.after.fecha} {change.after.hora} ·{' '}
+                  {change.fields
+                    .map((field) => `${String(field)}: ${String(change.before[field]) || '--'} → ${String(change.after[field]) || '--'}`)
+                    .join(' · ')}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={onConfirm} disabled={busy}>
+            {busy ? 'Aplicando...' : 'Aplicar cambios'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import type { DatasetSummary } from '../types'
+import { formatDatasetDate } from '../utils/format'
+
+interface DeleteDatasetModalProps {
+  dataset: DatasetSummary
+  busy: boolean
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export function DeleteDatasetModal({ dataset, busy, onCancel, onConfirm }: DeleteDatasetModalProps) {
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && onCancel()}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Eliminar dataset</h2>
+        <p>
+          Se eliminara <strong>{dataset.name}</strong> ({formatDatasetDate(dataset.createdAt)}) junto con sus vuelos,
+          parametros y autoasignaciones.
+        </p>
+        <p className="modal-warning">Esta accion no se puede deshacer. Si solo quieres ocultarlo, archivalo.</p>
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" className="danger-btn" onClick={onConfirm} disabled={busy}>
+            {busy ? 'Eliminando...' : 'Eliminar definitivamente'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import type { DuplicateUpload } from '../types'
+import { formatDatasetDate } from '../utils/format'
+
+interface DuplicateUploadModalProps {
+  duplicate: DuplicateUpload
+  onCancel: () => void
+  onOpenExisting: () => void
+}
+
+export function DuplicateUploadModal({ duplicate, onCancel, onOpenExisting }: DuplicateUploadModalProps) {
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onCancel}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Archivo ya cargado</h2>
+        <p>
+          <strong>{duplicate.fileName}</strong> es identico al dataset <strong>{duplicate.dataset.name}</strong> subido
+          el {formatDatasetDate(duplicate.dataset.createdAt)}.
+        </p>
+        {duplicate.concurrent ? (
+          <p className="modal-warning">Otro administrador acaba de subir el mismo archivo. No se ha creado un dataset nuevo.</p>
+        ) : null}
+        <p>Abre el dataset existente para que todo el equipo siga trabajando sobre el mismo estado.</p>
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel}>
+            Cancelar
+          </button>
+          <button type="button" onClick={onOpenExisting}>
+            Abrir dataset existente
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
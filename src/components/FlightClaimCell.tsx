@@ -0,0 +1,37 @@
+import type { FlightClaim, FlightRecord } from '../types'
+import { toLocalTime } from '../utils/dates'
+
+interface FlightClaimCellProps {
+  flight: FlightRecord
+  claim: FlightClaim | null
+  ownEmail: string | null
+  onClaim: (flight: FlightRecord) => void
+  onRelease: () => void
+}
+
+export function FlightClaimCell({ flight, claim, ownEmail, onClaim, onRelease }: FlightClaimCellProps) {
+  if (flight.operated || !ownEmail) {
+    return null
+  }
+
+  if (!claim) {
+    return (
+      <button type="button" className="secondary-btn table-action-btn" onClick={() => onClaim(flight)}>
+        Lo cojo
+      </button>
+    )
+  }
+
+  if (claim.operatorEmail !== ownEmail) {
+    return <small className="flight-claim">En curso: {claim.operatorEmail}</small>
+  }
+
+  return (
+    <>
+      <small className="flight-claim">Lo atiendes tu hasta las {toLocalTime(new Date(claim.expiresAt))}</small>
+      <button type="button" className="secondary-btn table-action-btn" onClick={onRelease}>
+        Soltar
+      </button>
+    </>
+  )
+}
@@ -0,0 +1,91 @@
+import type { AppMode, FlightEvent, FlightEventType, FlightRecord } from '../types'
+import { formatDateTime } from '../utils/format'
+
+const FLIGHT_EVENT_LABELS: Record<FlightEventType, string> = {
+  created: 'Alta en el dataset',
+  operated: 'Marcado como operado',
+  operated_reverted: 'Operado revertido',
+  service_flag: 'Cambio de etiqueta',
+  assigned: 'Asignacion de operador',
+  fields_updated: 'Datos actualizados',
+  deleted: 'Eliminado del dataset',
+}
+
+const formatEventValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '--'
+  }
+  return String(value)
+}
+
+const describeFlightEvent = (event: FlightEvent): string => {
+  const { oldValues, newValues } = event
+  switch (event.eventType) {
+    case 'operated':
+      return `Por ${formatEventValue(newValues.operated_by_email)}`
+    case 'operated_reverted':
+      return `Marca original de ${formatEventValue(oldValues.operated_by_email)} (${formatDateTime(
+        typeof oldValues.operated_at === 'string' ? oldValues.operated_at : null,
+      )}). Motivo: ${formatEventValue(newValues.reason)}`
+    case 'service_flag':
+      return `${formatEventValue(oldValues.service_flag)} → ${formatEventValue(newValues.service_flag)} (${formatEventValue(
+        newValues.service_flag_source,
+      )})`
+    case 'assigned':
+      return `${formatEventValue(oldValues.assigned_to_email)} → ${formatEventValue(newValues.assigned_to_email)}`
+    case 'fields_updated':
+      return Object.keys(newValues)
+        .map((field) => `${field}: ${formatEventValue(oldValues[field])} → ${formatEventValue(newValues[field])}`)
+        .join(' · ')
+    default:
+      return formatEventValue(newValues.flight_key ?? oldValues.flight_key)
+  }
+}
+
+interface FlightHistoryDrawerProps {
+  mode: AppMode
+  flight: FlightRecord
+  events: FlightEvent[]
+  loading: boolean
+  onClose: () => void
+}
+
+export function FlightHistoryDrawer({ mode, flight, events, loading, onClose }: FlightHistoryDrawerProps) {
+  return (
+    <div className="modal-backdrop modal-backdrop--drawer" role="presentation" onClick={onClose}>
+      <aside className="history-drawer" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <div className="history-drawer__header">
+          <div>
+            <h2>Historial del vuelo {flight.vuelo}</h2>
+            <p>
+              {flight.dscia} · {flight.fecha} {flight.hora} · {flight.categoriaClasificacion}
+            </p>
+          </div>
+          <button type="button" className="secondary-btn" onClick={onClose}>
+            Cerrar
+          </button>
+        </div>
+        {mode !== 'supabase' ? (
+          <p className="history-drawer__empty">El historial de cambios solo se registra en modo Supabase.</p>
+        ) : loading ? (
+          <p className="history-drawer__empty">Cargando historial...</p>
+        ) : events.length === 0 ? (
+          <p className="history-drawer__empty">Sin cambios registrados.</p>
+        ) : (
+          <ol className="history-list">
+            {events.map((event) => (
+              <li key={event.id}>
+                <strong>{FLIGHT_EVENT_LABELS[event.eventType]}</strong>
+                <p>{describeFlightEvent(event)}</p>
+                <small>
+                  {formatDateTime(event.createdAt)} · {event.actorEmail ?? 'sistema'}
+                  {event.runId ? ` · autoasignacion ${event.runId.slice(0, 8)}` : ''}
+                </small>
+              </li>
+            ))}
+          </ol>
+        )}
+      </aside>
+    </div>
+  )
+}
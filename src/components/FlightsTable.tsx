@@ -0,0 +1,272 @@
+import type { FlightFilters, ServiceFlagFilter } from '../hooks/useFlightFilters'
+import type {
+  AppMode,
+  CategorySource,
+  FlightClaim,
+  FlightRecord,
+  OperatedReversal,
+  OperatorAccount,
+} from '../types'
+import { formatDateTime } from '../utils/format'
+import { FlightClaimCell } from './FlightClaimCell'
+import { ServiceFlagBadge } from './ServiceFlagBadge'
+
+const CATEGORY_SOURCE_LABELS: Record<CategorySource, string> = {
+  file: 'Del CSV',
+  auto: 'Clasificada por regla',
+  manual: 'Clasificada a mano',
+}
+
+interface FlightsTableProps {
+  mode: AppMode
+  filters: FlightFilters
+  categories: string[]
+  dayFlightCount: number
+  totalOperated: number
+  totalAttendAssigned: number
+  totalNoAttendAssigned: number
+  loadingDataset: boolean
+  workDateLabel: string
+  onlineOperatorSummary: string[]
+  isAdminUser: boolean
+  ownEmail: string | null
+  markBusy: boolean
+  assignBusy: boolean
+  operators: OperatorAccount[]
+  flightClaims: Map<string, FlightClaim>
+  pendingReversalByFlight: Map<string, OperatedReversal>
+  onMark: (flight: FlightRecord) => void
+  onClaim: (flight: FlightRecord) => void
+  onReleaseClaim: () => void
+  onOverride: (flight: FlightRecord) => void
+  onAssign: (flight: FlightRecord, email: string | null) => void
+  onOpenHistory: (flight: FlightRecord) => void
+}
+
+export function FlightsTable({
+  mode,
+  filters,
+  categories,
+  dayFlightCount,
+  totalOperated,
+  totalAttendAssigned,
+  totalNoAttendAssigned,
+  loadingDataset,
+  workDateLabel,
+  onlineOperatorSummary,
+  isAdminUser,
+  ownEmail,
+  markBusy,
+  assignBusy,
+  operators,
+  flightClaims,
+  pendingReversalByFlight,
+  onMark,
+  onClaim,
+  onReleaseClaim,
+  onOverride,
+  onAssign,
+  onOpenHistory,
+}: FlightsTableProps) {
+  const { currentPage, totalPages, setCurrentPage } = filters
+
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>
+            {totalOperated} operados de {dayFlightCount}
+          </strong>
+          <span>
+            {loadingDataset
+              ? 'Cargando dataset...'
+              : `${filters.filteredFlights.length} vuelos visibles (${workDateLabel})`}
+          </span>
+          <span>Etiquetas: {totalAttendAssigned} ATENDER · {totalNoAttendAssigned} NO ATENDER</span>
+          {mode === 'supabase' && onlineOperatorSummary.length > 0 ? (
+            <span>En linea: {onlineOperatorSummary.join(' · ')}</span>
+          ) : null}
+        </div>
+        <div className="toolbar-filters">
+          <input
+            type="search"
+            value={filters.query}
+            placeholder="Buscar por vuelo, compania, destino o avion"
+            onChange={(event) => filters.setQuery(event.target.value)}
+          />
+          <select value={filters.categoryFilter} onChange={(event) => filters.setCategoryFilter(event.target.value)}>
+            <option value="all">Todas las categorias</option>
+            {categories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.serviceFlagFilter}
+            onChange={(event) => filters.setServiceFlagFilter(event.target.value as ServiceFlagFilter)}
+          >
+            <option value="all">Todas las etiquetas</option>
+            <option value="ATENDER">ATENDER</option>
+            <option value="NO_ATENDER">NO ATENDER</option>
+          </select>
+          <select value={filters.airportFilter} onChange={(event) => filters.setAirportFilter(event.target.value)}>
+            <option value="all">Todos los aeropuertos</option>
+            {filters.airportOptions.map((airport) => (
+              <option key={airport.code} value={airport.code}>
+                {airport.code} {airport.label}
+              </option>
+            ))}
+          </select>
+          <select value={filters.aircraftFilter} onChange={(event) => filters.setAircraftFilter(event.target.value)}>
+            <option value="all">Todos los aviones</option>
+            {filters.aircraftOptions.map((aircraft) => (
+              <option key={aircraft} value={aircraft}>
+                {aircraft}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Operado</th>
+              <th>Hora</th>
+              <th>Compania</th>
+              <th>Vuelo</th>
+              <th>Origen/Destino</th>
+              <th>Avion</th>
+              <th>Tipo</th>
+              <th>Categoria</th>
+              <th>Etiqueta</th>
+              {mode === 'supabase' ? <th>Asignado a</th> : null}
+              <th>Marcado por</th>
+              <th>Historial</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filters.visibleFlights.map((flight) => (
+              <tr
+                key={flight.id}
+                className={flight.operated ? 'row-operated' : flightClaims.has(flight.id) ? 'row-claimed' : ''}
+              >
+                <td>
+                  <button
+                    type="button"
+                    className={
+                      flight.operated
+                        ? 'operate-btn operate-btn--locked'
+                        : flight.serviceFlag === 'NO_ATENDER'
+                          ? 'operate-btn operate-btn--alert'
+                          : flight.serviceFlag === 'ATENDER'
+                            ? 'operate-btn operate-btn--attend'
+                            : 'operate-btn'
+                    }
+                    disabled={markBusy || pendingReversalByFlight.has(flight.id)}
+                    onClick={() => onMark(flight)}
+                  >
+                    {flight.operated ? 'Operado' : 'Marcar'}
+                  </button>
+                  {pendingReversalByFlight.has(flight.id) ? <small>Reversion pendiente</small> : null}
+                  <FlightClaimCell
+                    flight={flight}
+                    claim={flightClaims.get(flight.id) ?? null}
+                    ownEmail={mode === 'supabase' ? ownEmail : null}
+                    onClaim={onClaim}
+                    onRelease={onReleaseClaim}
+                  />
+                </td>
+                <td>
+                  {flight.fecha} {flight.hora}
+                </td>
+                <td>
+                  <span className="cell-code">{flight.cia}</span> {flight.dscia}
+                </td>
+                <td>{flight.vuelo}</td>
+                <td>
+                  <span className="cell-code">{flight.orgNxt || '--'}</span> {flight.dsapto}
+                  <small>{[flight.dstpapto, flight.dspais].filter(Boolean).join(' · ') || '--'}</small>
+                </td>
+                <td>{flight.avo || '--'}</td>
+                <td>
+                  {flight.tipo}
+                  <small>{flight.dsmotivo || '--'}</small>
+                </td>
+                <td>
+                  {flight.categoriaClasificacion}
+                  {flight.categorySource !== 'file' ? <small>{CATEGORY_SOURCE_LABELS[flight.categorySource]}</small> : null}
+                </td>
+                <td>
+                  <ServiceFlagBadge flag={flight.serviceFlag} />
+                  <small>
+                    {flight.serviceFlagSource === 'manual' ? 'Manual · ' : ''}
+                    {flight.serviceFlagUpdatedByEmail ?? '--'}
+                  </small>
+                  {isAdminUser && !flight.operated ? (
+                    <button type="button" className="secondary-btn table-action-btn" onClick={() => onOverride(flight)}>
+                      Cambiar
+                    </button>
+                  ) : null}
+                </td>
+                {mode === 'supabase' ? (
+                  <td>
+                    {isAdminUser && !flight.operated && flight.serviceFlag === 'ATENDER' ? (
+                      <select
+                        value={flight.assignedToEmail ?? ''}
+                        onChange={(event) => onAssign(flight, event.target.value || null)}
+                        disabled={assignBusy}
+                      >
+                        <option value="">Sin asignar</option>
+                        {operators.map((operator) => (
+                          <option key={operator.email} value={operator.email}>
+                            {operator.email}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      (flight.assignedToEmail ?? '--')
+                    )}
+                  </td>
+                ) : null}
+                <td>
+                  {flight.operatedByEmail ?? '--'}
+                  <small>{formatDateTime(flight.operatedAt)}</small>
+                </td>
+                <td>
+                  <button type="button" className="secondary-btn table-action-btn" onClick={() => onOpenHistory(flight)}>
+                    Ver
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="pagination">
+        <button
+          type="button"
+          className="secondary-btn"
+          onClick={() => setCurrentPage((page) => Math.max(1, page - 1))}
+          disabled={currentPage <= 1}
+        >
+          Anterior
+        </button>
+        <span>
+          Pagina {currentPage} de {totalPages}
+        </span>
+        <button
+          type="button"
+          className="secondary-btn"
+          onClick={() => setCurrentPage((page) => Math.min(totalPages, page + 1))}
+          disabled={currentPage >= totalPages}
+        >
+          Siguiente
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,73 @@
+import type { CategoryForecastView } from '../hooks/useCategoryForecast'
+import type { ForecastStatus } from '../types'
+import { toLocalTime } from '../utils/dates'
+
+const FORECAST_STATUS_LABELS: Record<ForecastStatus, string> = {
+  achieved: 'Cumplida',
+  on_track: 'En camino',
+  at_risk: 'En riesgo',
+  unreachable: 'Inalcanzable',
+}
+
+interface ForecastTableProps {
+  forecast: CategoryForecastView
+  now: Date
+}
+
+export function ForecastTable({ forecast, now }: ForecastTableProps) {
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>Prevision de cierre</strong>
+          <span>
+            {forecast.minutes >= 24 * 60
+              ? 'Dia cerrado: todos los vuelos han pasado'
+              : `Proyeccion desde las ${toLocalTime(now)} con la tasa de operados de los vuelos ya pasados`}
+          </span>
+        </div>
+      </div>
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Categoria</th>
+              <th>Operados</th>
+              <th>Pendientes</th>
+              <th>Tasa</th>
+              <th>Proyeccion</th>
+              <th>Estado</th>
+              <th>Hora limite</th>
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.items.map((item) => (
+              <tr key={item.category}>
+                <td>{item.category}</td>
+                <td>
+                  {item.operated} / {item.minimumRequired}
+                </td>
+                <td>{item.pendingFlights}</td>
+                <td>
+                  {item.operatedRate === null ? '--' : `${(item.operatedRate * 100).toFixed(0)}%`}
+                  {item.rateSource === 'day' ? <small>media del dia</small> : null}
+                </td>
+                <td>{item.projectedOperated}</td>
+                <td>
+                  <span className={`forecast-status forecast-status--${item.status}`}>
+                    {FORECAST_STATUS_LABELS[item.status]}
+                  </span>
+                </td>
+                <td>
+                  {item.deadline
+                    ? `${item.minimumRequired - item.operated} mas, empezando a mas tardar a las ${item.deadline}`
+                    : '--'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,133 @@
+import { OPTIONAL_FIELDS, REQUIRED_FIELDS } from '../constants'
+import type { CsvMappingProfile, MappingDraft } from '../types'
+import { resolveColumnMapping } from '../utils/csv'
+
+interface MappingModalProps {
+  draft: MappingDraft
+  profiles: CsvMappingProfile[]
+  busy: boolean
+  onChange: (draft: MappingDraft) => void
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export function MappingModal({ draft, profiles, busy, onChange, onCancel, onConfirm }: MappingModalProps) {
+  const handleProfileSelect = (profileId: string): void => {
+    const profile = profiles.find((item) => item.id === profileId)
+    if (!profile) {
+      onChange({ ...draft, profileId: null, name: '' })
+      return
+    }
+
+    const { resolved } = resolveColumnMapping(draft.preview.headers, profile.mapping)
+    onChange({
+      ...draft,
+      profileId: profile.id,
+      name: profile.name,
+      columns: { ...draft.columns, ...resolved },
+    })
+  }
+
+  const handleColumnChange = (field: string, header: string): void => {
+    const nextColumns = { ...draft.columns }
+    if (header) {
+      nextColumns[field] = header
+    } else {
+      delete nextColumns[field]
+    }
+    onChange({ ...draft, columns: nextColumns })
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && onCancel()}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Asignar columnas del CSV</h2>
+        <p>
+          El archivo <strong>{draft.file.name}</strong> no coincide con ninguna plantilla guardada. Asigna cada campo a
+          una columna del archivo y guarda la plantilla para reutilizarla en proximas cargas.
+        </p>
+
+        <div className="mapping-form">
+          <label>
+            Plantilla
+            <select value={draft.profileId ?? ''} onChange={(event) => handleProfileSelect(event.target.value)} disabled={busy}>
+              <option value="">Nueva plantilla</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  Editar: {profile.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Nombre
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(event) => onChange({ ...draft, name: event.target.value })}
+              placeholder="Export AODB 2026"
+              disabled={busy}
+            />
+          </label>
+        </div>
+
+        <div className="mapping-grid">
+          {[...REQUIRED_FIELDS, ...OPTIONAL_FIELDS].map((field) => {
+            const isRequired = (REQUIRED_FIELDS as readonly string[]).includes(field)
+            return (
+              <label
+                key={field}
+                className={isRequired && !draft.columns[field] ? 'mapping-field mapping-field--missing' : 'mapping-field'}
+              >
+                {field}
+                {isRequired ? ' *' : ''}
+                <select
+                  value={draft.columns[field] ?? ''}
+                  onChange={(event) => handleColumnChange(field, event.target.value)}
+                  disabled={busy}
+                >
+                  <option value="">{isRequired ? 'Sin asignar' : 'No importar'}</option>
+                  {draft.preview.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )
+          })}
+        </div>
+
+        <div className="table-wrap mapping-preview">
+          <table>
+            <thead>
+              <tr>
+                {draft.preview.headers.map((header) => (
+                  <th key={header}>{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {draft.preview.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {draft.preview.headers.map((header) => (
+                    <td key={header}>{row[header] ?? ''}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={onConfirm} disabled={busy}>
+            {busy ? 'Guardando...' : 'Guardar plantilla y cargar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
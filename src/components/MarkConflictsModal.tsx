@@ -0,0 +1,40 @@
+import type { OperatedMarkConflict } from '../types'
+import { formatDateTime } from '../utils/format'
+
+interface MarkConflictsModalProps {
+  conflicts: OperatedMarkConflict[]
+  onClose: () => void
+}
+
+export function MarkConflictsModal({ conflicts, onClose }: MarkConflictsModalProps) {
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onClose}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Marcas sin conexion no aplicadas</h2>
+        <p className="modal-warning">
+          Estas marcas de operado se guardaron sin conexion y no se pudieron aplicar al recuperar la red.
+        </p>
+        <ul className="history-list">
+          {conflicts.map((conflict) => (
+            <li key={conflict.entry.id}>
+              <strong>Vuelo {conflict.entry.vuelo}</strong>
+              <p>
+                {conflict.reason === 'already_operated' && conflict.operatedByEmail
+                  ? `Ya marcado por ${conflict.operatedByEmail} el ${formatDateTime(conflict.operatedAt)}`
+                  : (conflict.message ?? 'No se pudo aplicar la marca')}
+              </p>
+              <small>
+                Tu marca: {formatDateTime(conflict.entry.operatedAt)} · {conflict.entry.operatorEmail}
+              </small>
+            </li>
+          ))}
+        </ul>
+        <div className="modal-actions">
+          <button type="button" onClick={onClose}>
+            Entendido
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import type { FlightRecord, OperatedReversal } from '../types'
+import { formatDateTime } from '../utils/format'
+
+interface MyFlightsViewProps {
+  flights: FlightRecord[]
+  userEmail: string | null
+  workDateLabel: string
+  markBusy: boolean
+  pendingReversalByFlight: Map<string, OperatedReversal>
+  onMark: (flight: FlightRecord) => void
+}
+
+export function MyFlightsView({
+  flights,
+  userEmail,
+  workDateLabel,
+  markBusy,
+  pendingReversalByFlight,
+  onMark,
+}: MyFlightsViewProps) {
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>Mis vuelos</strong>
+          <span>
+            {flights.filter((flight) => !flight.operated).length} pendientes de {flights.length} asignados a {userEmail}{' '}
+            ({workDateLabel})
+          </span>
+        </div>
+      </div>
+      {flights.length === 0 ? (
+        <p className="stats-empty">No tienes vuelos asignados para {workDateLabel}.</p>
+      ) : (
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Operado</th>
+                <th>Hora</th>
+                <th>Compania</th>
+                <th>Vuelo</th>
+                <th>Origen/Destino</th>
+                <th>Categoria</th>
+                <th>Asignado por</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flights.map((flight) => (
+                <tr key={flight.id} className={flight.operated ? 'row-operated' : ''}>
+                  <td>
+                    <button
+                      type="button"
+                      className={
+                        flight.operated ? 'operate-btn operate-btn--locked' : 'operate-btn operate-btn--attend'
+                      }
+                      disabled={markBusy || pendingReversalByFlight.has(flight.id)}
+                      onClick={() => onMark(flight)}
+                    >
+                      {flight.operated ? 'Operado' : 'Marcar'}
+                    </button>
+                  </td>
+                  <td>
+                    {flight.fecha} {flight.hora}
+                  </td>
+                  <td>
+                    <span className="cell-code">{flight.cia}</span> {flight.dscia}
+                  </td>
+                  <td>{flight.vuelo}</td>
+                  <td>
+                    <span className="cell-code">{flight.orgNxt || '--'}</span> {flight.dsapto}
+                    <small>{[flight.dstpapto, flight.dspais].filter(Boolean).join(' · ') || '--'}</small>
+                  </td>
+                  <td>{flight.categoriaClasificacion}</td>
+                  <td>
+                    {flight.assignedByEmail ?? '--'}
+                    <small>{formatDateTime(flight.assignedAt)}</small>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
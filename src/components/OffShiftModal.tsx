@@ -0,0 +1,48 @@
+import type { OperatorAssignments } from '../hooks/useOperatorAssignments'
+
+interface OffShiftModalProps {
+  assignments: OperatorAssignments
+  operator: string
+  workDateLabel: string
+}
+
+export function OffShiftModal({ assignments, operator, workDateLabel }: OffShiftModalProps) {
+  const { busy, offShiftPlan } = assignments
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && assignments.setOffShiftOperator(null)}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Operador fuera de turno</h2>
+        <p>
+          Los vuelos pendientes de <strong>{operator}</strong> para {workDateLabel} se reasignan al resto de operadores,
+          empezando por los conectados con menos carga.
+        </p>
+        {offShiftPlan.length > 0 ? (
+          <ul className="history-list">
+            {[...new Set(offShiftPlan.map((item) => item.email))].map((email) => (
+              <li key={email}>
+                <strong>{email}</strong>
+                <p>{offShiftPlan.filter((item) => item.email === email).length} vuelos</p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="modal-warning">No hay otros operadores: los vuelos quedaran sin asignar.</p>
+        )}
+        <div className="modal-actions">
+          <button
+            type="button"
+            className="secondary-btn"
+            onClick={() => assignments.setOffShiftOperator(null)}
+            disabled={busy}
+          >
+            Cancelar
+          </button>
+          <button type="button" onClick={() => void assignments.confirmOffShift()} disabled={busy}>
+            {busy ? 'Reasignando...' : 'Reasignar vuelos'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
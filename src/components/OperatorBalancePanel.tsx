@@ -0,0 +1,79 @@
+import type { OperatorAssignments } from '../hooks/useOperatorAssignments'
+
+interface OperatorBalancePanelProps {
+  assignments: OperatorAssignments
+  onlineEmails: Set<string>
+  isAdminUser: boolean
+  workDateLabel: string
+}
+
+export function OperatorBalancePanel({
+  assignments,
+  onlineEmails,
+  isAdminUser,
+  workDateLabel,
+}: OperatorBalancePanelProps) {
+  const { busy, unassignedAttendFlights } = assignments
+
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>Reparto por operador</strong>
+          <span>
+            {unassignedAttendFlights.length} vuelos ATENDER pendientes sin asignar ({workDateLabel})
+          </span>
+        </div>
+        {isAdminUser ? (
+          <div className="toolbar-filters">
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={assignments.distributeUnassigned}
+              disabled={busy || unassignedAttendFlights.length === 0}
+            >
+              {busy ? 'Asignando...' : 'Repartir sin asignar'}
+            </button>
+          </div>
+        ) : null}
+      </div>
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Operador</th>
+              <th>Estado</th>
+              <th>Asignados</th>
+              <th>Operados</th>
+              <th>Pendientes</th>
+              {isAdminUser ? <th>Acciones</th> : null}
+            </tr>
+          </thead>
+          <tbody>
+            {assignments.balance.map((balance) => (
+              <tr key={balance.email}>
+                <td>{balance.email}</td>
+                <td>{onlineEmails.has(balance.email) ? 'En linea' : 'Desconectado'}</td>
+                <td>{balance.assigned}</td>
+                <td>{balance.operated}</td>
+                <td>{balance.pending}</td>
+                {isAdminUser ? (
+                  <td>
+                    <button
+                      type="button"
+                      className="secondary-btn table-action-btn"
+                      onClick={() => assignments.setOffShiftOperator(balance.email)}
+                      disabled={busy || balance.pending === 0}
+                    >
+                      Fuera de turno
+                    </button>
+                  </td>
+                ) : null}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,65 @@
+import type { OverrideDraft, ServiceFlag, ServiceFlagOverridePreview } from '../types'
+
+interface OverrideModalProps {
+  draft: OverrideDraft
+  preview: ServiceFlagOverridePreview
+  busy: boolean
+  onChange: (draft: OverrideDraft) => void
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export function OverrideModal({ draft, preview, busy, onChange, onCancel, onConfirm }: OverrideModalProps) {
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && onCancel()}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Cambiar etiqueta manualmente</h2>
+        <p>
+          Vuelo <strong>{draft.flight.vuelo}</strong> de <strong>{draft.flight.dscia}</strong> ({draft.flight.fecha}{' '}
+          {draft.flight.hora}), categoria <strong>{preview.category}</strong>.
+        </p>
+        <label className="modal-field">
+          Nueva etiqueta
+          <select
+            value={draft.serviceFlag}
+            onChange={(event) => onChange({ ...draft, serviceFlag: event.target.value as ServiceFlag, swapFlightId: '' })}
+            disabled={busy}
+          >
+            <option value="ATENDER">ATENDER</option>
+            <option value="NO_ATENDER">NO ATENDER</option>
+          </select>
+        </label>
+        <p className={preview.attendAfter < preview.requiredCount ? 'modal-warning' : 'modal-info'}>
+          ATENDER en la categoria: {preview.attendBefore} → <strong>{preview.attendAfter}</strong> de {preview.total}{' '}
+          (minimo exigido {preview.requiredCount}).
+        </p>
+        {preview.swapCandidates.length > 0 ? (
+          <label className="modal-field">
+            {draft.serviceFlag === 'ATENDER' ? 'Compensar pasando a NO ATENDER otro vuelo' : 'Compensar pasando a ATENDER otro vuelo'}
+            <select
+              value={draft.swapFlightId}
+              onChange={(event) => onChange({ ...draft, swapFlightId: event.target.value })}
+              disabled={busy}
+            >
+              <option value="">Sin compensar</option>
+              {preview.swapCandidates.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.hora} · {candidate.vuelo} · {candidate.dscia}
+                  {candidate.serviceFlagSource === 'manual' ? ' (manual)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={onConfirm} disabled={busy || draft.serviceFlag === draft.flight.serviceFlag}>
+            {busy ? 'Guardando...' : 'Aplicar etiqueta'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
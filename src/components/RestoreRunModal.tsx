@@ -0,0 +1,69 @@
+import type { AssignmentRun, AssignmentRunRestorePreview, FlightRecord } from '../types'
+import { formatDateTime } from '../utils/format'
+import { ServiceFlagBadge } from './ServiceFlagBadge'
+
+interface RestoreRunModalProps {
+  run: AssignmentRun
+  preview: AssignmentRunRestorePreview
+  flightsById: Map<string, FlightRecord>
+  workDateLabel: string
+  busy: boolean
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export function RestoreRunModal({
+  run,
+  preview,
+  flightsById,
+  workDateLabel,
+  busy,
+  onCancel,
+  onConfirm,
+}: RestoreRunModalProps) {
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && onCancel()}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Restaurar ejecucion</h2>
+        <p>
+          Vuelve a aplicar las etiquetas de la ejecucion del {formatDateTime(run.createdAt)} (seed {run.seed}) en el dia{' '}
+          {workDateLabel}. La restauracion queda registrada como una nueva ejecucion.
+        </p>
+        {preview.keptOperated > 0 ? (
+          <p className="modal-info">{preview.keptOperated} vuelos ya operados conservan su etiqueta actual.</p>
+        ) : null}
+        {preview.changes.length === 0 ? (
+          <p className="modal-warning">Las etiquetas actuales ya coinciden con esta ejecucion.</p>
+        ) : (
+          <>
+            <p>{preview.changes.length} vuelos cambiaran de etiqueta:</p>
+            <ul className="history-list">
+              {preview.changes.map((change) => {
+                const flight = flightsById.get(change.flightId)
+                return (
+                  <li key={change.flightId}>
+                    <strong>
+                      {flight?.vuelo ?? change.flightKey} · {flight?.hora ?? '--'} ·{' '}
+                      {flight?.categoriaClasificacion ?? '--'}
+                    </strong>
+                    <p>
+                      <ServiceFlagBadge flag={change.before} /> → <ServiceFlagBadge flag={change.after} />
+                    </p>
+                  </li>
+                )
+              })}
+            </ul>
+          </>
+        )}
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" className="danger-btn" onClick={onConfirm} disabled={busy}>
+            {busy ? 'Restaurando...' : 'Restaurar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
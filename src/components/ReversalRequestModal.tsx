@@ -0,0 +1,44 @@
+import { useState } from 'react'
+import type { FlightRecord } from '../types'
+import { formatDateTime } from '../utils/format'
+
+interface ReversalRequestModalProps {
+  flight: FlightRecord
+  busy: boolean
+  onCancel: () => void
+  onConfirm: (reason: string) => void
+}
+
+export function ReversalRequestModal({ flight, busy, onCancel, onConfirm }: ReversalRequestModalProps) {
+  const [reason, setReason] = useState('')
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && onCancel()}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Solicitar reversion de operado</h2>
+        <p>
+          El vuelo <strong>{flight.vuelo}</strong> de <strong>{flight.dscia}</strong> fue marcado como operado por{' '}
+          <strong>{flight.operatedByEmail ?? '--'}</strong> ({formatDateTime(flight.operatedAt)}).
+        </p>
+        <p>Un administrador debe aprobar la solicitud. La marca original y la reversion quedan registradas.</p>
+        <label className="modal-field">
+          Motivo
+          <textarea
+            value={reason}
+            rows={3}
+            placeholder="Ej.: marcado por error al seleccionar el vuelo contiguo"
+            onChange={(event) => setReason(event.target.value)}
+          />
+        </label>
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={() => onConfirm(reason)} disabled={busy || reason.trim() === ''}>
+            {busy ? 'Enviando...' : 'Solicitar reversion'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
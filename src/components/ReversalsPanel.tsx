@@ -0,0 +1,47 @@
+import type { FlightRecord, OperatedReversal } from '../types'
+import { formatDateTime } from '../utils/format'
+
+interface ReversalsPanelProps {
+  reversals: OperatedReversal[]
+  flights: FlightRecord[]
+  busy: boolean
+  onResolve: (reversal: OperatedReversal, approve: boolean) => void
+}
+
+export function ReversalsPanel({ reversals, flights, busy, onResolve }: ReversalsPanelProps) {
+  return (
+    <section className="table-card reversal-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>Reversiones pendientes</strong>
+          <span>{reversals.length} solicitudes para desmarcar vuelos operados</span>
+        </div>
+      </div>
+      <ul className="reversal-list">
+        {reversals.map((reversal) => {
+          const flight = flights.find((item) => item.id === reversal.flightId)
+          return (
+            <li key={reversal.id}>
+              <div>
+                <strong>{flight ? `${flight.vuelo} · ${flight.dscia} · ${flight.fecha} ${flight.hora}` : reversal.flightId}</strong>
+                <p>
+                  Operado por {reversal.operatedByEmail} ({formatDateTime(reversal.operatedAt)}) · Solicita{' '}
+                  {reversal.requestedByEmail} ({formatDateTime(reversal.requestedAt)})
+                </p>
+                <p>Motivo: {reversal.reason}</p>
+              </div>
+              <div className="dataset-actions">
+                <button type="button" className="secondary-btn" onClick={() => onResolve(reversal, false)} disabled={busy}>
+                  Rechazar
+                </button>
+                <button type="button" className="danger-btn" onClick={() => onResolve(reversal, true)} disabled={busy}>
+                  Aprobar y desmarcar
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
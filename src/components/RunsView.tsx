@@ -0,0 +1,215 @@
+import type { AssignmentRuns } from '../hooks/useAssignmentRuns'
+import type { AssignmentRun, FlightRecord } from '../types'
+import { describeAssignmentSummary } from '../utils/autoAssignment'
+import { formatDateTime } from '../utils/format'
+import { ASSIGNMENT_STRATEGIES } from '../utils/strategies'
+import { ServiceFlagBadge } from './ServiceFlagBadge'
+
+interface RunsViewProps {
+  history: AssignmentRuns
+  flightsById: Map<string, FlightRecord>
+  workDate: string
+  isAdminUser: boolean
+  onRefresh: () => void
+  onVerify: (runId: string) => void
+  onRestore: (run: AssignmentRun) => void
+}
+
+export function RunsView({
+  history,
+  flightsById,
+  workDate,
+  isAdminUser,
+  onRefresh,
+  onVerify,
+  onRestore,
+}: RunsViewProps) {
+  const {
+    runs,
+    busy,
+    openRunId,
+    setOpenRunId,
+    openRun,
+    diffBaseRunId,
+    setDiffBaseRunId,
+    diffCompareRunId,
+    setDiffCompareRunId,
+    runDiff,
+  } = history
+
+  return (
+    <section className="table-card">
+      <div className="table-toolbar">
+        <div className="toolbar-main">
+          <strong>{runs.length} ejecuciones</strong>
+          <span>{busy ? 'Cargando ejecuciones...' : `Autoasignaciones del ${workDate || '--'}`}</span>
+        </div>
+        <div className="toolbar-filters">
+          <button type="button" className="secondary-btn" onClick={onRefresh} disabled={busy}>
+            Recargar
+          </button>
+        </div>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="run-empty">No hay ejecuciones registradas para este dia.</p>
+      ) : (
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Fecha</th>
+                <th>Usuario</th>
+                <th>Estrategia</th>
+                <th>Seed</th>
+                <th>Resumen</th>
+                <th>Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id}>
+                  <td>
+                    {formatDateTime(run.createdAt)}
+                    {run.restoredFromRunId ? <small>Restaura {run.restoredFromRunId.slice(0, 8)}</small> : null}
+                  </td>
+                  <td>{run.createdByEmail ?? '--'}</td>
+                  <td>{ASSIGNMENT_STRATEGIES[run.strategy].label}</td>
+                  <td>{run.seed}</td>
+                  <td>
+                    {run.summary.map(describeAssignmentSummary).join(' · ')}
+                    <small>{run.updatedFlights} vuelos actualizados</small>
+                  </td>
+                  <td>
+                    <div className="dataset-actions">
+                      <button
+                        type="button"
+                        onClick={() => setOpenRunId((current) => (current === run.id ? null : run.id))}
+                      >
+                        {openRunId === run.id ? 'Ocultar' : 'Ver vuelos'}
+                      </button>
+                      {isAdminUser ? (
+                        <button type="button" onClick={() => onVerify(run.id)}>
+                          Verificar
+                        </button>
+                      ) : null}
+                      {isAdminUser ? (
+                        <button type="button" onClick={() => onRestore(run)} disabled={!run.resultFlags}>
+                          Restaurar
+                        </button>
+                      ) : null}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {openRun ? (
+        <div className="run-detail">
+          <h3>
+            Ejecucion {openRun.id.slice(0, 8)} · {formatDateTime(openRun.createdAt)}
+          </h3>
+          {openRun.resultFlags ? (
+            <div className="table-wrap">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Vuelo</th>
+                    <th>Hora</th>
+                    <th>Compania</th>
+                    <th>Categoria</th>
+                    <th>Resultado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {openRun.resultFlags.map((flag) => {
+                    const flight = flightsById.get(flag.id)
+                    return (
+                      <tr key={flag.id}>
+                        <td>{flight?.vuelo ?? flag.flightKey}</td>
+                        <td>{flight?.hora ?? '--'}</td>
+                        <td>{flight?.cdocia ?? '--'}</td>
+                        <td>{flight?.categoriaClasificacion ?? '--'}</td>
+                        <td>
+                          <ServiceFlagBadge flag={flag.serviceFlag} />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="run-empty">Ejecucion sin detalle de vuelos.</p>
+          )}
+        </div>
+      ) : null}
+
+      {runs.length > 1 ? (
+        <div className="run-detail">
+          <h3>Comparar ejecuciones</h3>
+          <div className="run-compare">
+            <label className="modal-field">
+              Base
+              <select value={diffBaseRunId} onChange={(event) => setDiffBaseRunId(event.target.value)}>
+                {runs.map((run) => (
+                  <option key={run.id} value={run.id}>
+                    {formatDateTime(run.createdAt)} · seed {run.seed}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="modal-field">
+              Comparar con
+              <select value={diffCompareRunId} onChange={(event) => setDiffCompareRunId(event.target.value)}>
+                {runs.map((run) => (
+                  <option key={run.id} value={run.id}>
+                    {formatDateTime(run.createdAt)} · seed {run.seed}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {runDiff === null || runDiff.length === 0 ? (
+            <p className="run-empty">Las ejecuciones seleccionadas asignan los mismos vuelos.</p>
+          ) : (
+            <div className="table-wrap">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Vuelo</th>
+                    <th>Hora</th>
+                    <th>Categoria</th>
+                    <th>Antes</th>
+                    <th>Despues</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runDiff.map((change) => {
+                    const flight = flightsById.get(change.flightId)
+                    return (
+                      <tr key={change.flightId}>
+                        <td>{flight?.vuelo ?? change.flightKey}</td>
+                        <td>{flight?.hora ?? '--'}</td>
+                        <td>{flight?.categoriaClasificacion ?? '--'}</td>
+                        <td>
+                          <ServiceFlagBadge flag={change.before} />
+                        </td>
+                        <td>
+                          <ServiceFlagBadge flag={change.after} />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </section>
+  )
+}
@@ -0,0 +1,12 @@
+import type { ServiceFlag } from '../types'
+
+export function ServiceFlagBadge({ flag }: { flag: ServiceFlag | null }) {
+  if (!flag) {
+    return <span className="service-badge service-badge--none">Sin etiqueta</span>
+  }
+  return (
+    <span className={flag === 'ATENDER' ? 'service-badge service-badge--attend' : 'service-badge service-badge--no-attend'}>
+      {flag}
+    </span>
+  )
+}
@@ -0,0 +1,40 @@
+import type { SheetChoice } from '../types'
+
+interface SheetChoiceModalProps {
+  choice: SheetChoice
+  onChange: (choice: SheetChoice) => void
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export function SheetChoiceModal({ choice, onChange, onCancel, onConfirm }: SheetChoiceModalProps) {
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onCancel}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Seleccionar hoja del Excel</h2>
+        <p>
+          El archivo <strong>{choice.file.name}</strong> tiene {choice.sheetNames.length} hojas. Elige la que contiene
+          los vuelos.
+        </p>
+        <label>
+          Hoja
+          <select value={choice.sheetName} onChange={(event) => onChange({ ...choice, sheetName: event.target.value })}>
+            {choice.sheetNames.map((sheetName) => (
+              <option key={sheetName} value={sheetName}>
+                {sheetName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={onCancel}>
+            Cancelar
+          </button>
+          <button type="button" onClick={onConfirm}>
+            Cargar hoja
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
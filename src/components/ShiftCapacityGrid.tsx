@@ -0,0 +1,39 @@
+interface ShiftCapacityGridProps {
+  slots: string[]
+  capacity: Record<string, number>
+  disabled: boolean
+  onChange: (capacity: Record<string, number>) => void
+}
+
+export function ShiftCapacityGrid({ slots, capacity, disabled, onChange }: ShiftCapacityGridProps) {
+  const handleSlotChange = (slot: string, rawValue: string): void => {
+    const nextCapacity = { ...capacity }
+    if (rawValue.trim() === '') {
+      delete nextCapacity[slot]
+    } else {
+      nextCapacity[slot] = Math.max(0, Math.floor(Number(rawValue) || 0))
+    }
+    onChange(nextCapacity)
+  }
+
+  return (
+    <div className="capacity-section">
+      <strong>Equipos por franja de 30 min (vacio = sin limite)</strong>
+      <div className="capacity-grid">
+        {slots.map((slot) => (
+          <label key={slot} className="capacity-control">
+            {slot}
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={capacity[slot] ?? ''}
+              onChange={(event) => handleSlotChange(slot, event.target.value)}
+              disabled={disabled}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
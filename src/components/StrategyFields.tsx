@@ -0,0 +1,69 @@
+import type { AssignmentStrategyId } from '../types'
+import { ASSIGNMENT_STRATEGIES, DEFAULT_BUCKET_MINUTES } from '../utils/strategies'
+
+interface StrategyFieldsProps {
+  strategy: AssignmentStrategyId
+  bucketMinutes: number
+  weightsText: string
+  disabled: boolean
+  onStrategyChange: (strategy: AssignmentStrategyId) => void
+  onBucketMinutesChange: (bucketMinutes: number) => void
+  onWeightsTextChange: (weightsText: string) => void
+}
+
+export function StrategyFields({
+  strategy,
+  bucketMinutes,
+  weightsText,
+  disabled,
+  onStrategyChange,
+  onBucketMinutesChange,
+  onWeightsTextChange,
+}: StrategyFieldsProps) {
+  return (
+    <>
+      <label className="modal-field">
+        Estrategia
+        <select
+          value={strategy}
+          onChange={(event) => onStrategyChange(event.target.value as AssignmentStrategyId)}
+          disabled={disabled}
+        >
+          {Object.entries(ASSIGNMENT_STRATEGIES).map(([strategyId, item]) => (
+            <option key={strategyId} value={strategyId}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p>{ASSIGNMENT_STRATEGIES[strategy].description}</p>
+      {strategy === 'hour_stratified' ? (
+        <label className="modal-field">
+          Minutos por franja
+          <input
+            type="number"
+            min={15}
+            step={15}
+            value={bucketMinutes}
+            onChange={(event) =>
+              onBucketMinutesChange(Math.max(15, Math.floor(Number(event.target.value) || DEFAULT_BUCKET_MINUTES)))
+            }
+            disabled={disabled}
+          />
+        </label>
+      ) : null}
+      {strategy === 'destination_weighted' ? (
+        <label className="modal-field">
+          Pesos por destino (una linea DSAPTO=peso)
+          <textarea
+            rows={4}
+            value={weightsText}
+            placeholder={'MADRID-BARAJAS=2\nLONDRES-HEATHROW=0.5'}
+            onChange={(event) => onWeightsTextChange(event.target.value)}
+            disabled={disabled}
+          />
+        </label>
+      ) : null}
+    </>
+  )
+}
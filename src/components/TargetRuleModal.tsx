@@ -0,0 +1,117 @@
+import type { TargetRuleEditor } from '../hooks/useTargetRuleEditor'
+import type { TargetRuleDraft } from '../types'
+import { WEEKDAY_LABELS, clampPercent } from '../utils/targets'
+
+interface TargetRuleModalProps {
+  editor: TargetRuleEditor
+  draft: TargetRuleDraft
+  categories: string[]
+  defaultTargets: Record<string, number>
+}
+
+export function TargetRuleModal({ editor, draft, categories, defaultTargets }: TargetRuleModalProps) {
+  const { busy, setDraft } = editor
+
+  const handleTargetChange = (category: string, rawValue: string): void => {
+    const nextTargets = { ...draft.targets }
+    if (rawValue.trim() === '') {
+      delete nextTargets[category]
+    } else {
+      nextTargets[category] = clampPercent(Number(rawValue))
+    }
+    setDraft({ ...draft, targets: nextTargets })
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && setDraft(null)}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>{draft.id ? 'Editar regla de objetivos' : 'Nueva regla de objetivos'}</h2>
+        <p>
+          Los rangos de fechas tienen prioridad sobre los dias de la semana. Las categorias sin porcentaje en la regla
+          usan el valor por defecto.
+        </p>
+        <label className="modal-field">
+          Nombre
+          <input
+            type="text"
+            value={draft.name}
+            placeholder="Fin de semana, huelga..."
+            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+          />
+        </label>
+        <label className="modal-field">
+          Aplicar por
+          <select
+            value={draft.kind}
+            onChange={(event) => setDraft({ ...draft, kind: event.target.value as TargetRuleDraft['kind'] })}
+          >
+            <option value="weekday">Dias de la semana</option>
+            <option value="date_range">Rango de fechas</option>
+          </select>
+        </label>
+        {draft.kind === 'weekday' ? (
+          <div className="rule-weekdays">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <label key={label} className="modal-check">
+                <input
+                  type="checkbox"
+                  checked={draft.weekdays.includes(index + 1)}
+                  onChange={() => editor.toggleWeekday(index + 1)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <div className="rule-weekdays">
+            <label className="modal-field">
+              Desde
+              <input
+                type="date"
+                value={draft.startDate}
+                onChange={(event) => setDraft({ ...draft, startDate: event.target.value })}
+              />
+            </label>
+            <label className="modal-field">
+              Hasta
+              <input
+                type="date"
+                value={draft.endDate}
+                onChange={(event) => setDraft({ ...draft, endDate: event.target.value })}
+              />
+            </label>
+          </div>
+        )}
+        <div className="rule-targets">
+          {categories.map((category) => (
+            <label key={category} className="capacity-control">
+              {category}
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                value={draft.targets[category] ?? ''}
+                placeholder={String(defaultTargets[category] ?? 0)}
+                onChange={(event) => handleTargetChange(category, event.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="modal-actions">
+          {draft.id ? (
+            <button type="button" className="danger-btn" onClick={() => void editor.remove()} disabled={busy}>
+              Eliminar
+            </button>
+          ) : null}
+          <button type="button" className="secondary-btn" onClick={() => setDraft(null)} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={() => void editor.save()} disabled={busy}>
+            {busy ? 'Guardando...' : 'Guardar regla'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import type { TargetRule } from '../types'
+import { describeTargetRule } from '../utils/targets'
+
+interface TargetRulesListProps {
+  rules: TargetRule[]
+  activeRuleId: string | null
+  canManage: boolean
+  onEdit: (rule: TargetRule | null) => void
+}
+
+export function TargetRulesList({ rules, activeRuleId, canManage, onEdit }: TargetRulesListProps) {
+  return (
+    <div className="capacity-section">
+      <strong>Reglas de objetivos (sustituyen los porcentajes por defecto en los dias que cubren)</strong>
+      {rules.length === 0 ? (
+        <p className="banner-hint">Sin reglas: se aplican los porcentajes por defecto todos los dias.</p>
+      ) : (
+        <ul className="rule-list">
+          {rules.map((rule) => (
+            <li key={rule.id} className={rule.id === activeRuleId ? 'rule-list__item active' : 'rule-list__item'}>
+              <span>
+                <strong>{rule.name}</strong> · {rule.kind === 'weekday' ? 'Dias' : 'Fechas'} {describeTargetRule(rule)}
+                {rule.id === activeRuleId ? ' · activa' : ''}
+              </span>
+              {canManage ? (
+                <button type="button" className="secondary-btn" onClick={() => onEdit(rule)}>
+                  Editar
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canManage ? (
+        <div>
+          <button type="button" className="secondary-btn" onClick={() => onEdit(null)}>
+            Nueva regla
+          </button>
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+import { useMemo } from 'react'
+import type { CategoryDefinition, PendingImport } from '../types'
+import { listActiveCategories, listUnknownCategories } from '../utils/categories'
+import { downloadCsvFile, toSafeFileToken } from '../utils/download'
+import { buildValidationReportCsv, describeCsvIssue } from '../utils/validationReport'
+
+const VALIDATION_PREVIEW_LIMIT = 200
+
+const formatBlockMinutes = (minutes: number | null): string => {
+  if (minutes === null) {
+    return '--'
+  }
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}`
+}
+
+interface ValidationReportModalProps {
+  pendingImport: PendingImport
+  categoryCatalog: CategoryDefinition[]
+  busy: boolean
+  onChange: (pendingImport: PendingImport) => void
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export function ValidationReportModal({
+  pendingImport,
+  categoryCatalog,
+  busy,
+  onChange,
+  onCancel,
+  onConfirm,
+}: ValidationReportModalProps) {
+  const flightsById = useMemo(
+    () => new Map(pendingImport.parsed.flights.map((flight) => [flight.id, flight])),
+    [pendingImport.parsed],
+  )
+
+  const unknownCategories = useMemo(
+    () => listUnknownCategories(pendingImport.parsed.categories, categoryCatalog),
+    [categoryCatalog, pendingImport.parsed],
+  )
+
+  const handleCategoryOverride = (flightId: string, category: string): void => {
+    onChange({ ...pendingImport, categoryOverrides: { ...pendingImport.categoryOverrides, [flightId]: category } })
+  }
+
+  const handleDownload = (): void => {
+    const csvContent = buildValidationReportCsv(pendingImport.parsed.report.issues)
+    downloadCsvFile(`validacion-${toSafeFileToken(pendingImport.file.name)}.csv`, csvContent)
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && onCancel()}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Informe de validacion del CSV</h2>
+        <p>
+          <strong>{pendingImport.file.name}</strong>: {pendingImport.parsed.report.totalRows} filas leidas,{' '}
+          <strong>{pendingImport.parsed.report.acceptedRows}</strong> vuelos validos y{' '}
+          <strong>{pendingImport.parsed.report.droppedRows}</strong> filas descartadas.
+        </p>
+        {pendingImport.parsed.report.droppedRows > 0 ? (
+          <p className="modal-warning">
+            Las filas descartadas no se cargaran y no contaran en la base de calculo de los minimos del dia.
+          </p>
+        ) : null}
+        {unknownCategories.length > 0 ? (
+          <p className="modal-warning">
+            Categorias que no estan en el catalogo: {unknownCategories.join(', ')}. Se cargaran con objetivo 0% y al
+            final del orden hasta que un administrador las anada al catalogo.
+          </p>
+        ) : null}
+        {pendingImport.parsed.classifications.length > 0 ? (
+          <>
+            <p className="modal-info">
+              {pendingImport.parsed.classifications.length} filas sin CATEGORIA_CLASIFICACION se han clasificado con las
+              reglas. Revisa la categoria propuesta y corrigela antes de cargar si hace falta.
+            </p>
+            <div className="table-wrap validation-report">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Fila</th>
+                    <th>Vuelo</th>
+                    <th>Destino</th>
+                    <th>Bloque</th>
+                    <th>Regla</th>
+                    <th>Categoria</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pendingImport.parsed.classifications.slice(0, VALIDATION_PREVIEW_LIMIT).map((classification) => {
+                    const flight = flightsById.get(classification.flightId)
+                    if (!flight) {
+                      return null
+                    }
+                    const selectedCategory =
+                      pendingImport.categoryOverrides[flight.id] ?? flight.categoriaClasificacion
+                    return (
+                      <tr key={flight.id}>
+                        <td>{classification.row}</td>
+                        <td>
+                          {flight.vuelo}
+                          <small>
+                            {flight.fecha} {flight.hora} · {flight.tipo}
+                          </small>
+                        </td>
+                        <td>
+                          {flight.dsapto || '--'}
+                          <small>{[flight.dstpapto, flight.cdpais].filter(Boolean).join(' · ') || '--'}</small>
+                        </td>
+                        <td>{formatBlockMinutes(classification.blockMinutes)}</td>
+                        <td>{classification.ruleName}</td>
+                        <td>
+                          <select
+                            value={selectedCategory}
+                            onChange={(event) => handleCategoryOverride(flight.id, event.target.value)}
+                            disabled={busy}
+                          >
+                            {[...new Set([flight.categoriaClasificacion, ...listActiveCategories(categoryCatalog)])].map(
+                              (category) => (
+                                <option key={category} value={category}>
+                                  {category}
+                                </option>
+                              ),
+                            )}
+                          </select>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {pendingImport.parsed.classifications.length > VALIDATION_PREVIEW_LIMIT ? (
+              <p>
+                Mostrando {VALIDATION_PREVIEW_LIMIT} de {pendingImport.parsed.classifications.length} filas
+                clasificadas; el resto se cargara con la categoria propuesta.
+              </p>
+            ) : null}
+          </>
+        ) : null}
+
+        <div className="table-wrap validation-report">
+          <table>
+            <thead>
+              <tr>
+                <th>Fila</th>
+                <th>Columna</th>
+                <th>Problema</th>
+                <th>Valor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pendingImport.parsed.report.issues.slice(0, VALIDATION_PREVIEW_LIMIT).map((issue, index) => (
+                <tr
+                  key={`${issue.row}-${issue.column}-${index}`}
+                  className={issue.severity === 'error' ? 'validation-row--error' : 'validation-row--warning'}
+                >
+                  <td>{issue.row || '--'}</td>
+                  <td>{issue.column || '--'}</td>
+                  <td>
+                    {describeCsvIssue(issue)}
+                    <small>{issue.severity === 'error' ? 'Fila descartada' : 'Aviso, se carga igualmente'}</small>
+                  </td>
+                  <td>{issue.value || '--'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {pendingImport.parsed.report.issues.length > VALIDATION_PREVIEW_LIMIT ? (
+          <p>
+            Mostrando {VALIDATION_PREVIEW_LIMIT} de {pendingImport.parsed.report.issues.length} incidencias. Descarga
+            el informe para verlas todas.
+          </p>
+        ) : null}
+
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={handleDownload}>
+            Descargar informe CSV
+          </button>
+          <button type="button" className="secondary-btn" onClick={onCancel} disabled={busy}>
+            Cancelar
+          </button>
+          <button type="button" onClick={onConfirm} disabled={busy || pendingImport.parsed.flights.length === 0}>
+            {busy ? 'Cargando...' : `Cargar ${pendingImport.parsed.flights.length} vuelos`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import type { RunVerification } from '../hooks/useRunVerification'
+import type { AssignmentRun } from '../types'
+import { downloadJsonFile } from '../utils/download'
+import { formatDateTime } from '../utils/format'
+import { ASSIGNMENT_STRATEGIES } from '../utils/strategies'
+
+const VERIFICATION_MISMATCH_LIMIT = 50
+
+interface VerifyRunModalProps {
+  verifier: RunVerification
+  runs: AssignmentRun[]
+  workDateLabel: string
+}
+
+export function VerifyRunModal({ verifier, runs, workDateLabel }: VerifyRunModalProps) {
+  const { busy, runId, verification } = verifier
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !busy && verifier.setOpen(false)}>
+      <div className="modal modal--wide" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+        <h2>Verificar autoasignacion</h2>
+        <p>
+          Recalcula la seleccion con el seed, la estrategia y el snapshot de vuelos guardados en la ejecucion y la compara
+          con las etiquetas que escribio. El informe queda registrado con tu usuario y una firma SHA-256.
+        </p>
+        <label className="modal-field">
+          Ejecucion del dia {workDateLabel}
+          <select
+            value={runId}
+            onChange={(event) => verifier.selectRun(event.target.value)}
+            disabled={busy || runs.length === 0}
+          >
+            {runs.length === 0 ? <option value="">Sin ejecuciones para este dia</option> : null}
+            {runs.map((run) => (
+              <option key={run.id} value={run.id}>
+                {formatDateTime(run.createdAt)} · {ASSIGNMENT_STRATEGIES[run.strategy].label} · seed {run.seed} ·{' '}
+                {run.updatedFlights} vuelos
+              </option>
+            ))}
+          </select>
+        </label>
+        {verification ? (
+          <>
+            <p className={verification.status === 'verified' ? 'modal-info' : 'modal-warning'}>
+              {verification.status === 'verified'
+                ? `Verificada: las ${verification.report.matchedFlights} etiquetas escritas coinciden con el recalculo desde el seed.`
+                : `No verificada: ${verification.report.mismatchedFlights} etiquetas no coinciden y ${verification.report.unexpectedFlights} vuelos tienen la ejecucion sin que el recalculo los incluya.`}
+            </p>
+            {verification.report.restoredFromRunId ? (
+              <p>
+                Ejecucion restaurada: se comparan las etiquetas que escribio la restauracion con el resultado guardado de la
+                ejecucion {verification.report.restoredFromRunId.slice(0, 8)} · {verification.report.skippedFlights ?? 0}{' '}
+                vuelos omitidos por estar operados o eliminados.
+              </p>
+            ) : null}
+            <p>
+              {verification.report.checkedFlights} vuelos comprobados · {verification.report.expectedAttend} ATENDER
+              esperados · {verification.report.supersededFlights} modificados despues (comprobados con el historial)
+            </p>
+            <p className="verification-signature">
+              Firma SHA-256 <code>{verification.reportDigest}</code>
+              <br />
+              {verification.verifiedByEmail} · {formatDateTime(verification.verifiedAt)}
+            </p>
+            {verification.report.mismatches.length > 0 ? (
+              <ul className="history-list">
+                {verification.report.mismatches.slice(0, VERIFICATION_MISMATCH_LIMIT).map((mismatch) => (
+                  <li key={mismatch.flightKey}>
+                    <strong>{mismatch.vuelo ?? mismatch.flightKey}</strong>
+                    <p>
+                      Esperado {mismatch.expected ?? '--'} · escrito {mismatch.actual ?? '--'}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </>
+        ) : null}
+        <div className="modal-actions">
+          <button type="button" className="secondary-btn" onClick={() => verifier.setOpen(false)} disabled={busy}>
+            Cerrar
+          </button>
+          <button
+            type="button"
+            className="secondary-btn"
+            onClick={() => verification && downloadJsonFile(`verificacion-${verification.runId.slice(0, 8)}.json`, verification)}
+            disabled={!verification}
+          >
+            Descargar informe
+          </button>
+          <button type="button" onClick={() => void verifier.verify()} disabled={busy || !runId}>
+            {busy ? 'Verificando...' : 'Verificar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
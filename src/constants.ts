@@ -1,19 +1,41 @@
-export const CATEGORY_ORDER = [
-  '5.3 DOMESTICO NO PENINSULAR',
-  '5.4 INTERNACIONAL / PENINSULAR >5H',
-  '5.5 DOMESTICO PENINSULAR <=5H',
-  '5.6 OTROS VUELOS',
-] as const
+import type { CategoryDefinition, ClassificationRule } from './types'
 
-export const DEFAULT_TARGETS: Record<string, number> = {
-  '5.3 DOMESTICO NO PENINSULAR': 74,
-  '5.4 INTERNACIONAL / PENINSULAR >5H': 54,
-  '5.5 DOMESTICO PENINSULAR <=5H': 31,
-  '5.6 OTROS VUELOS': 100,
-}
+export const DEFAULT_CATEGORY_CATALOG: CategoryDefinition[] = [
+  {
+    code: '5.3 DOMESTICO NO PENINSULAR',
+    label: 'Domestico no peninsular',
+    displayOrder: 1,
+    defaultTarget: 74,
+    color: '#e0a84f',
+    active: true,
+  },
+  {
+    code: '5.4 INTERNACIONAL / PENINSULAR >5H',
+    label: 'Internacional / peninsular >5h',
+    displayOrder: 2,
+    defaultTarget: 54,
+    color: '#5fa8d3',
+    active: true,
+  },
+  {
+    code: '5.5 DOMESTICO PENINSULAR <=5H',
+    label: 'Domestico peninsular <=5h',
+    displayOrder: 3,
+    defaultTarget: 31,
+    color: '#7cc47f',
+    active: true,
+  },
+  {
+    code: '5.6 OTROS VUELOS',
+    label: 'Otros vuelos',
+    displayOrder: 4,
+    defaultTarget: 100,
+    color: '#b48ead',
+    active: true,
+  },
+]
 
 export const REQUIRED_FIELDS = [
-  'CATEGORIA_CLASIFICACION',
   'tipo',
   'FECHA',
   'HORA',
@@ -22,3 +44,90 @@ export const REQUIRED_FIELDS = [
   'CDOCIA',
   'VUELO',
 ] as const
+
+export const OPTIONAL_FIELDS = [
+  'CATEGORIA_CLASIFICACION',
+  'AVO',
+  'AST',
+  'DSMOTIVO',
+  'ORG/NXT',
+  'PRV/FIN',
+  'DSAPTO',
+  'DSTPAPTO',
+  'CDPAIS',
+  'DSPAIS',
+  'DSACLASE',
+  'TIEMPO_BLOQUE',
+] as const
+
+export const BLOCK_TIME_THRESHOLD_MINUTES = 300
+
+export const EEE_COUNTRY_CODES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU', 'IE',
+  'IS', 'IT', 'LI', 'LT', 'LU', 'LV', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+]
+
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRule[] = [
+  {
+    id: '5c1a0000-0000-4000-8000-000000000010',
+    name: 'Carga y otros',
+    priority: 10,
+    category: '5.6 OTROS VUELOS',
+    tipos: ['CARGO', 'OTROS'],
+    airportTypes: [],
+    countries: [],
+    eee: 'any',
+    blockTime: 'any',
+    active: true,
+  },
+  {
+    id: '5c1a0000-0000-4000-8000-000000000020',
+    name: 'Islas, Ceuta y Melilla',
+    priority: 20,
+    category: '5.3 DOMESTICO NO PENINSULAR',
+    tipos: [],
+    airportTypes: ['INTER-BALEAR', 'INTER-CANARIO', 'CEUTA', 'MELILLA'],
+    countries: ['ES'],
+    eee: 'any',
+    blockTime: 'any',
+    active: true,
+  },
+  {
+    id: '5c1a0000-0000-4000-8000-000000000030',
+    name: 'Peninsular de mas de 5h',
+    priority: 30,
+    category: '5.4 INTERNACIONAL / PENINSULAR >5H',
+    tipos: [],
+    airportTypes: ['PENINSULAR'],
+    countries: [],
+    eee: 'any',
+    blockTime: 'over_5h',
+    active: true,
+  },
+  {
+    id: '5c1a0000-0000-4000-8000-000000000040',
+    name: 'Peninsular',
+    priority: 40,
+    category: '5.5 DOMESTICO PENINSULAR <=5H',
+    tipos: [],
+    airportTypes: ['PENINSULAR'],
+    countries: [],
+    eee: 'any',
+    blockTime: 'any',
+    active: true,
+  },
+  {
+    id: '5c1a0000-0000-4000-8000-000000000050',
+    name: 'Internacional',
+    priority: 50,
+    category: '5.4 INTERNACIONAL / PENINSULAR >5H',
+    tipos: [],
+    airportTypes: ['ESPACIO ECONOMICO EUROPEO', 'INTERNACIONAL'],
+    countries: [],
+    eee: 'any',
+    blockTime: 'any',
+    active: true,
+  },
+]
+
+export const FLIGHT_CLAIM_TTL_MINUTES = 10
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { listAssignmentRuns } from '../lib/supabase'
+import type { AssignmentRun } from '../types'
+import { getErrorMessage } from '../utils/format'
+import { diffAssignmentRuns } from '../utils/runs'
+
+interface AssignmentRunsOptions {
+  enabled: boolean
+  visible: boolean
+  activeDatasetId: string | null
+  workDate: string
+  onError: (message: string) => void
+}
+
+export function useAssignmentRuns({ enabled, visible, activeDatasetId, workDate, onError }: AssignmentRunsOptions) {
+  const [runs, setRuns] = useState<AssignmentRun[]>([])
+  const [busy, setBusy] = useState(false)
+  const [openRunId, setOpenRunId] = useState<string | null>(null)
+  const [diffBaseRunId, setDiffBaseRunId] = useState('')
+  const [diffCompareRunId, setDiffCompareRunId] = useState('')
+
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!enabled || !activeDatasetId || !workDate) {
+      setRuns([])
+      return
+    }
+
+    setBusy(true)
+    try {
+      const nextRuns = await listAssignmentRuns(activeDatasetId, workDate)
+      setRuns(nextRuns)
+      setDiffCompareRunId(nextRuns[0]?.id ?? '')
+      setDiffBaseRunId(nextRuns[1]?.id ?? '')
+    } finally {
+      setBusy(false)
+    }
+  }, [activeDatasetId, enabled, workDate])
+
+  useEffect(() => {
+    if (!visible) {
+      return
+    }
+    void refresh().catch((refreshError) => {
+      onError(getErrorMessage(refreshError))
+    })
+  }, [onError, refresh, visible])
+
+  const openRun = useMemo(() => runs.find((run) => run.id === openRunId) ?? null, [runs, openRunId])
+  const runDiff = useMemo(() => {
+    const base = runs.find((run) => run.id === diffBaseRunId)
+    const compare = runs.find((run) => run.id === diffCompareRunId)
+    return base && compare ? diffAssignmentRuns(base, compare) : null
+  }, [runs, diffBaseRunId, diffCompareRunId])
+
+  return {
+    runs,
+    setRuns,
+    busy,
+    refresh,
+    openRunId,
+    setOpenRunId,
+    openRun,
+    diffBaseRunId,
+    setDiffBaseRunId,
+    diffCompareRunId,
+    setDiffCompareRunId,
+    runDiff,
+  }
+}
+
+export type AssignmentRuns = ReturnType<typeof useAssignmentRuns>
@@ -0,0 +1,226 @@
+import { useState, type Dispatch, type SetStateAction } from 'react'
+import { loadDataset, runAutoAssignment } from '../lib/supabase'
+import type {
+  AppMode,
+  AssignmentStrategyId,
+  AutoAssignmentOptions,
+  AutoAssignmentSummary,
+  CategoryDefinition,
+  FlightRecord,
+} from '../types'
+import { decideAutoAssignment, describeAssignmentSummary } from '../utils/autoAssignment'
+import { getDefaultTarget } from '../utils/categories'
+import { parseCsvDateToIso, toLocalIsoDate, toLocalTime } from '../utils/dates'
+import { getErrorMessage } from '../utils/format'
+import { ASSIGNMENT_STRATEGIES, DEFAULT_BUCKET_MINUTES, parseDestinationWeights } from '../utils/strategies'
+import { clampPercent } from '../utils/targets'
+
+interface AutoAssignWorkspace {
+  mode: AppMode
+  isAdminUser: boolean
+  activeDatasetId: string | null
+  workDate: string
+  workDateRaw: string
+  parametersLocked: boolean
+  dayFlightCount: number
+  flights: FlightRecord[]
+  setFlights: Dispatch<SetStateAction<FlightRecord[]>>
+  targets: Record<string, number>
+  categoryCatalog: CategoryDefinition[]
+  shiftCapacity: Record<string, number>
+  onRunsChanged: () => Promise<void>
+  onNotice: (message: string) => void
+  onError: (message: string) => void
+}
+
+const buildGuestAutoAssignment = (
+  flights: FlightRecord[],
+  targets: Record<string, number>,
+  catalog: CategoryDefinition[],
+  shiftCapacity: Record<string, number>,
+  workDateIso: string,
+  options: AutoAssignmentOptions,
+): {
+  updatedFlights: FlightRecord[]
+  seed: string
+  summary: AutoAssignmentSummary[]
+  updatedCount: number
+} => {
+  const seed = crypto.randomUUID().slice(0, 8)
+  const { nextFlags, summary } = decideAutoAssignment(
+    flights.filter((flight) => parseCsvDateToIso(flight.fecha) === workDateIso),
+    (category) => clampPercent(targets[category] ?? getDefaultTarget(catalog, category)),
+    shiftCapacity,
+    seed,
+    options,
+  )
+
+  const runId = `guest-${crypto.randomUUID()}`
+  const timestamp = new Date().toISOString()
+
+  const updatedFlights = flights.map((flight) => {
+    const serviceFlag = nextFlags.get(flight.id)
+    if (!serviceFlag) {
+      return flight
+    }
+    return {
+      ...flight,
+      serviceFlag,
+      serviceFlagSource: 'auto' as const,
+      serviceFlagUpdatedAt: timestamp,
+      serviceFlagUpdatedByEmail: 'guest-test',
+      serviceFlagRunId: runId,
+    }
+  })
+
+  return {
+    updatedFlights,
+    seed,
+    summary,
+    updatedCount: nextFlags.size,
+  }
+}
+
+export function useAutoAssign({
+  mode,
+  isAdminUser,
+  activeDatasetId,
+  workDate,
+  workDateRaw,
+  parametersLocked,
+  dayFlightCount,
+  flights,
+  setFlights,
+  targets,
+  categoryCatalog,
+  shiftCapacity,
+  onRunsChanged,
+  onNotice,
+  onError,
+}: AutoAssignWorkspace) {
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [respectLocked, setRespectLocked] = useState(true)
+  const [fromTime, setFromTime] = useState('')
+  const [respectCapacity, setRespectCapacity] = useState(false)
+  const [strategy, setStrategy] = useState<AssignmentStrategyId>('uniform')
+  const [bucketMinutes, setBucketMinutes] = useState(DEFAULT_BUCKET_MINUTES)
+  const [weightsText, setWeightsText] = useState('')
+
+  const openModal = (): void => {
+    if (mode === 'supabase' && !isAdminUser) {
+      onError('Solo administradores pueden autoasignar vuelos')
+      return
+    }
+
+    if (!workDate) {
+      onError('Selecciona un dia valido antes de autoasignar')
+      return
+    }
+    if (!parametersLocked) {
+      onError('Guarda los parametros primero para autoasignar')
+      return
+    }
+    if (dayFlightCount === 0) {
+      onError('No hay vuelos para el dia seleccionado')
+      return
+    }
+    const now = new Date()
+    setFromTime(workDate === toLocalIsoDate(now) ? toLocalTime(now) : '')
+    setRespectCapacity(Object.keys(shiftCapacity).length > 0)
+    setOpen(true)
+  }
+
+  const confirm = async (): Promise<void> => {
+    if (mode === 'supabase' && !isAdminUser) {
+      onError('Solo administradores pueden autoasignar vuelos')
+      setOpen(false)
+      return
+    }
+
+    if (!workDate) {
+      onError('Dia de trabajo invalido')
+      return
+    }
+
+    const assignmentOptions: AutoAssignmentOptions = {
+      respectLocked,
+      fromTime: fromTime || null,
+      respectCapacity,
+      strategy,
+      strategyParams:
+        strategy === 'hour_stratified'
+          ? { bucketMinutes }
+          : strategy === 'destination_weighted'
+            ? { weights: parseDestinationWeights(weightsText) }
+            : {},
+    }
+    const strategyLabel = ASSIGNMENT_STRATEGIES[strategy].label
+
+    setBusy(true)
+    onError('')
+
+    try {
+      if (mode === 'guest') {
+        const guestResult = buildGuestAutoAssignment(
+          flights,
+          targets,
+          categoryCatalog,
+          shiftCapacity,
+          workDate,
+          assignmentOptions,
+        )
+        setFlights(guestResult.updatedFlights)
+        onNotice(
+          `Autoasignacion local aplicada (${guestResult.updatedCount} vuelos, ${strategyLabel}). Seed ${guestResult.seed}. ${guestResult.summary.map(describeAssignmentSummary).join(' · ')}`,
+        )
+        setOpen(false)
+        return
+      }
+
+      if (!activeDatasetId) {
+        throw new Error('Selecciona un dataset antes de autoasignar')
+      }
+
+      const result = await runAutoAssignment(activeDatasetId, workDateRaw, assignmentOptions)
+
+      const datasetState = await loadDataset(activeDatasetId)
+      setFlights(datasetState.flights)
+      void onRunsChanged().catch((runsError) => {
+        onError(getErrorMessage(runsError))
+      })
+
+      const summaryLabel = result.summary.map(describeAssignmentSummary).join(' · ')
+      onNotice(
+        `Autoasignacion aplicada para ${result.workDate} (${result.updatedFlights} vuelos, ${strategyLabel}, seed ${result.seed}). ${summaryLabel}`,
+      )
+      setOpen(false)
+    } catch (autoError) {
+      onError(getErrorMessage(autoError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return {
+    open,
+    setOpen,
+    busy,
+    respectLocked,
+    setRespectLocked,
+    fromTime,
+    setFromTime,
+    respectCapacity,
+    setRespectCapacity,
+    strategy,
+    setStrategy,
+    bucketMinutes,
+    setBucketMinutes,
+    weightsText,
+    setWeightsText,
+    openModal,
+    confirm,
+  }
+}
+
+export type AutoAssign = ReturnType<typeof useAutoAssign>
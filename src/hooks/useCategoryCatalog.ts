@@ -0,0 +1,109 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react'
+import { DEFAULT_CATEGORY_CATALOG } from '../constants'
+import { listCategories, saveCategories } from '../lib/supabase'
+import type { CategoryDefinition } from '../types'
+import { getErrorMessage } from '../utils/format'
+
+interface CategoryCatalogOptions {
+  enabled: boolean
+  onNotice: (message: string) => void
+  onError: Dispatch<SetStateAction<string>>
+}
+
+export function useCategoryCatalog({ enabled, onNotice, onError }: CategoryCatalogOptions) {
+  const [catalog, setCatalog] = useState<CategoryDefinition[]>(DEFAULT_CATEGORY_CATALOG)
+  const [draft, setDraft] = useState<CategoryDefinition[] | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) {
+      setCatalog(DEFAULT_CATEGORY_CATALOG)
+      return
+    }
+
+    let cancelled = false
+
+    void listCategories()
+      .then((loaded) => {
+        if (!cancelled && loaded.length > 0) {
+          setCatalog(loaded)
+        }
+      })
+      .catch((catalogError) => {
+        if (!cancelled) {
+          onError((currentError) => currentError || getErrorMessage(catalogError))
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, onError])
+
+  const changeDraft = (index: number, patch: Partial<CategoryDefinition>): void => {
+    setDraft((current) =>
+      current
+        ? current.map((category, itemIndex) => (itemIndex === index ? { ...category, ...patch } : category))
+        : current,
+    )
+  }
+
+  const addCategory = (): void => {
+    setDraft((current) =>
+      current
+        ? [
+            ...current,
+            {
+              code: '',
+              label: '',
+              displayOrder: current.reduce((max, category) => Math.max(max, category.displayOrder), 0) + 1,
+              defaultTarget: 0,
+              color: '#9aa4b2',
+              active: true,
+            },
+          ]
+        : current,
+    )
+  }
+
+  const save = async (): Promise<void> => {
+    if (!draft) {
+      return
+    }
+
+    const codes = draft.map((category) => category.code.trim())
+    if (codes.some((code) => !code)) {
+      onError('Todas las categorias necesitan un codigo')
+      return
+    }
+    if (new Set(codes).size !== codes.length) {
+      onError('Hay codigos de categoria repetidos')
+      return
+    }
+
+    setBusy(true)
+    onError('')
+
+    try {
+      const saved = await saveCategories(
+        draft.map((category) => ({ ...category, label: category.label.trim() || category.code.trim() })),
+      )
+      const savedCodes = new Set(saved.map((category) => category.code))
+      setCatalog(
+        [...catalog.filter((category) => !savedCodes.has(category.code)), ...saved].sort(
+          (a, b) => a.displayOrder - b.displayOrder || a.code.localeCompare(b.code),
+        ),
+      )
+      setDraft(null)
+      onNotice(`Catalogo de categorias guardado (${saved.length} categorias)`)
+    } catch (catalogError) {
+      onError(getErrorMessage(catalogError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return { catalog, draft, setDraft, busy, changeDraft, addCategory, save }
+}
+
+export type CategoryCatalog = ReturnType<typeof useCategoryCatalog>
@@ -0,0 +1,27 @@
+import { useMemo } from 'react'
+import type { CategoryProgress, FlightRecord } from '../types'
+import { toLocalIsoDate } from '../utils/dates'
+import { buildCategoryForecast } from '../utils/progress'
+
+interface CategoryForecastOptions {
+  flights: FlightRecord[]
+  progress: CategoryProgress[]
+  workDate: string
+  now: Date
+}
+
+export function useCategoryForecast({ flights, progress, workDate, now }: CategoryForecastOptions) {
+  const minutes = useMemo(() => {
+    const today = toLocalIsoDate(now)
+    if (!workDate || workDate === today) {
+      return now.getHours() * 60 + now.getMinutes()
+    }
+    return workDate < today ? 24 * 60 : 0
+  }, [now, workDate])
+
+  const items = useMemo(() => buildCategoryForecast(flights, progress, minutes), [flights, minutes, progress])
+
+  return { minutes, items }
+}
+
+export type CategoryForecastView = ReturnType<typeof useCategoryForecast>
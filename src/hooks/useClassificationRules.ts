@@ -0,0 +1,133 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react'
+import { DEFAULT_CLASSIFICATION_RULES } from '../constants'
+import { listClassificationRules, saveClassificationRules } from '../lib/supabase'
+import type { CategoryDefinition, ClassificationRule, ClassificationRuleDraft } from '../types'
+import { listActiveCategories } from '../utils/categories'
+import { parseRuleValues, sortClassificationRules } from '../utils/classifier'
+import { getErrorMessage } from '../utils/format'
+
+interface ClassificationRulesOptions {
+  enabled: boolean
+  categoryCatalog: CategoryDefinition[]
+  onNotice: (message: string) => void
+  onError: Dispatch<SetStateAction<string>>
+}
+
+const toClassificationRuleDraft = (rule: ClassificationRule): ClassificationRuleDraft => ({
+  ...rule,
+  tipos: rule.tipos.join(', '),
+  airportTypes: rule.airportTypes.join(', '),
+  countries: rule.countries.join(', '),
+})
+
+const fromClassificationRuleDraft = (draft: ClassificationRuleDraft): ClassificationRule => ({
+  ...draft,
+  name: draft.name.trim(),
+  tipos: parseRuleValues(draft.tipos),
+  airportTypes: parseRuleValues(draft.airportTypes),
+  countries: parseRuleValues(draft.countries),
+})
+
+export function useClassificationRules({ enabled, categoryCatalog, onNotice, onError }: ClassificationRulesOptions) {
+  const [rules, setRules] = useState<ClassificationRule[]>(DEFAULT_CLASSIFICATION_RULES)
+  const [draft, setDraft] = useState<ClassificationRuleDraft[] | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) {
+      setRules(DEFAULT_CLASSIFICATION_RULES)
+      return
+    }
+
+    let cancelled = false
+
+    void listClassificationRules()
+      .then((loaded) => {
+        if (!cancelled && loaded.length > 0) {
+          setRules(loaded)
+        }
+      })
+      .catch((rulesError) => {
+        if (!cancelled) {
+          onError((currentError) => currentError || getErrorMessage(rulesError))
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, onError])
+
+  const openEditor = (): void => {
+    setDraft(rules.map(toClassificationRuleDraft))
+  }
+
+  const changeDraft = (index: number, patch: Partial<ClassificationRuleDraft>): void => {
+    setDraft((current) =>
+      current ? current.map((rule, itemIndex) => (itemIndex === index ? { ...rule, ...patch } : rule)) : current,
+    )
+  }
+
+  const addRule = (): void => {
+    setDraft((current) =>
+      current
+        ? [
+            ...current,
+            {
+              id: crypto.randomUUID(),
+              name: '',
+              priority: current.reduce((max, rule) => Math.max(max, rule.priority), 0) + 10,
+              category: listActiveCategories(categoryCatalog)[0] ?? '',
+              tipos: '',
+              airportTypes: '',
+              countries: '',
+              eee: 'any',
+              blockTime: 'any',
+              active: true,
+            },
+          ]
+        : current,
+    )
+  }
+
+  const removeRule = (index: number): void => {
+    setDraft((current) => (current ? current.filter((_, itemIndex) => itemIndex !== index) : current))
+  }
+
+  const save = async (): Promise<void> => {
+    if (!draft) {
+      return
+    }
+
+    const nextRules = draft.map(fromClassificationRuleDraft)
+    if (nextRules.length === 0) {
+      onError('Debe quedar al menos una regla; desactivala si no quieres usarla')
+      return
+    }
+    if (nextRules.some((rule) => !rule.name || !rule.category)) {
+      onError('Todas las reglas necesitan nombre y categoria')
+      return
+    }
+
+    const keptIds = new Set(nextRules.map((rule) => rule.id))
+    const removedIds = rules.map((rule) => rule.id).filter((ruleId) => !keptIds.has(ruleId))
+
+    setBusy(true)
+    onError('')
+
+    try {
+      const saved = await saveClassificationRules(nextRules, removedIds)
+      setRules(sortClassificationRules(saved))
+      setDraft(null)
+      onNotice(`Reglas de clasificacion guardadas (${saved.length} reglas)`)
+    } catch (rulesError) {
+      onError(getErrorMessage(rulesError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return { rules, draft, setDraft, busy, openEditor, changeDraft, addRule, removeRule, save }
+}
+
+export type ClassificationRules = ReturnType<typeof useClassificationRules>
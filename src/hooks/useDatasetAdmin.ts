@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react'
+import { searchDatasets } from '../lib/supabase'
+import type { DatasetPage, DatasetSearchFilters, DatasetSummary } from '../types'
+import { getErrorMessage } from '../utils/format'
+
+const DATASET_PAGE_SIZE = 20
+
+const EMPTY_DATASET_FILTERS: DatasetSearchFilters = {
+  search: '',
+  fromDate: '',
+  toDate: '',
+  includeArchived: true,
+}
+
+interface DatasetAdminOptions {
+  enabled: boolean
+  visible: boolean
+  onError: (message: string) => void
+}
+
+export function useDatasetAdmin({ enabled, visible, onError }: DatasetAdminOptions) {
+  const [filtersDraft, setFiltersDraft] = useState<DatasetSearchFilters>(EMPTY_DATASET_FILTERS)
+  const [filters, setFilters] = useState<DatasetSearchFilters>(EMPTY_DATASET_FILTERS)
+  const [pageIndex, setPageIndex] = useState(1)
+  const [page, setPage] = useState<DatasetPage>({ datasets: [], total: 0 })
+  const [busy, setBusy] = useState(false)
+  const [renameDraft, setRenameDraft] = useState<{ id: string; name: string } | null>(null)
+  const [datasetToDelete, setDatasetToDelete] = useState<DatasetSummary | null>(null)
+
+  const refreshPage = useCallback(async (): Promise<void> => {
+    if (!enabled) {
+      setPage({ datasets: [], total: 0 })
+      return
+    }
+
+    setBusy(true)
+    try {
+      const nextPage = await searchDatasets(filters, pageIndex, DATASET_PAGE_SIZE)
+      setPage(nextPage)
+    } finally {
+      setBusy(false)
+    }
+  }, [enabled, filters, pageIndex])
+
+  useEffect(() => {
+    if (!visible) {
+      return
+    }
+    void refreshPage().catch((refreshError) => {
+      onError(getErrorMessage(refreshError))
+    })
+  }, [onError, refreshPage, visible])
+
+  const applyFilters = (): void => {
+    setFilters(filtersDraft)
+    setPageIndex(1)
+  }
+
+  const runAction = async (action: () => Promise<void>): Promise<void> => {
+    setBusy(true)
+    try {
+      await action()
+      await refreshPage()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const reset = (): void => {
+    setFiltersDraft(EMPTY_DATASET_FILTERS)
+    setFilters(EMPTY_DATASET_FILTERS)
+    setPageIndex(1)
+    setRenameDraft(null)
+    setDatasetToDelete(null)
+  }
+
+  return {
+    filtersDraft,
+    setFiltersDraft,
+    page,
+    pageIndex,
+    setPageIndex,
+    totalPages: Math.max(1, Math.ceil(page.total / DATASET_PAGE_SIZE)),
+    busy,
+    renameDraft,
+    setRenameDraft,
+    datasetToDelete,
+    setDatasetToDelete,
+    applyFilters,
+    refreshPage,
+    runAction,
+    reset,
+  }
+}
+
+export type DatasetAdmin = ReturnType<typeof useDatasetAdmin>
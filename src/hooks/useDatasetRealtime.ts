@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react'
+import { isNetworkError, loadCachedSnapshot } from '../lib/offline'
+import { loadDatasetSnapshot, subscribeRealtime } from '../lib/supabase'
+import type { DatasetSnapshot, FlightClaim, RealtimeEvent, RealtimeStatus, RealtimeSubscription } from '../types'
+import { formatDateTime, getErrorMessage } from '../utils/format'
+
+interface DatasetRealtimeOptions {
+  enabled: boolean
+  datasetId: string | null
+  userEmail: string
+  claim: FlightClaim | null
+  onSnapshot: (snapshot: DatasetSnapshot) => void
+  onEvent: (event: RealtimeEvent) => void
+  onReset: () => void
+  onNotice: (message: string) => void
+  onError: (message: string) => void
+}
+
+export function useDatasetRealtime({
+  enabled,
+  datasetId,
+  userEmail,
+  claim,
+  onSnapshot,
+  onEvent,
+  onReset,
+  onNotice,
+  onError,
+}: DatasetRealtimeOptions) {
+  const [status, setStatus] = useState<RealtimeStatus | 'LOCAL'>('LOCAL')
+  const [loadedDatasetId, setLoadedDatasetId] = useState<string | null>(null)
+  const [offlineSnapshotAt, setOfflineSnapshotAt] = useState<string | null>(null)
+  const subscriptionRef = useRef<RealtimeSubscription | null>(null)
+  const handlersRef = useRef({ onSnapshot, onEvent, onReset })
+
+  useEffect(() => {
+    handlersRef.current = { onSnapshot, onEvent, onReset }
+  })
+
+  useEffect(() => {
+    if (!enabled || !datasetId) {
+      return
+    }
+
+    let active = true
+
+    const applyCachedSnapshot = async (loadError: unknown): Promise<void> => {
+      const cached = isNetworkError(loadError) ? await loadCachedSnapshot(datasetId) : null
+      if (!active) {
+        return
+      }
+      if (!cached) {
+        onError(getErrorMessage(loadError))
+        return
+      }
+      handlersRef.current.onSnapshot(cached.snapshot)
+      setOfflineSnapshotAt(cached.savedAt)
+      onNotice(`Sin conexion: mostrando la copia local guardada el ${formatDateTime(cached.savedAt)}`)
+    }
+
+    void loadDatasetSnapshot(datasetId)
+      .then((snapshot) => {
+        if (active) {
+          handlersRef.current.onSnapshot(snapshot)
+          setOfflineSnapshotAt(null)
+        }
+      })
+      .catch((loadError) => applyCachedSnapshot(loadError))
+      .catch((cacheError) => {
+        if (active) {
+          onError(getErrorMessage(cacheError))
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setLoadedDatasetId(datasetId)
+        }
+      })
+
+    const subscription = subscribeRealtime(datasetId, userEmail, (event) => {
+      switch (event.type) {
+        case 'snapshot':
+          handlersRef.current.onSnapshot(event.snapshot)
+          setOfflineSnapshotAt(null)
+          onNotice('Conexion realtime recuperada: datos del dataset resincronizados')
+          return
+        case 'snapshot_failed':
+          onError(`No se pudo resincronizar el dataset: ${getErrorMessage(event.error)}`)
+          return
+        case 'status':
+          setStatus(event.status)
+          break
+      }
+      handlersRef.current.onEvent(event)
+    })
+    subscriptionRef.current = subscription
+
+    return () => {
+      active = false
+      subscriptionRef.current = null
+      subscription.unsubscribe()
+      setStatus('LOCAL')
+      setLoadedDatasetId(null)
+      handlersRef.current.onReset()
+    }
+  }, [datasetId, enabled, userEmail, onNotice, onError])
+
+  useEffect(() => {
+    subscriptionRef.current?.updateClaim(claim)
+  }, [claim])
+
+  const loading = enabled && Boolean(datasetId) && loadedDatasetId !== datasetId
+
+  return { status, loading, offlineSnapshotAt }
+}
@@ -0,0 +1,120 @@
+import { useMemo, useState } from 'react'
+import type { FlightRecord } from '../types'
+
+const PAGE_SIZE = 120
+
+export type ServiceFlagFilter = 'all' | 'ATENDER' | 'NO_ATENDER'
+
+export function useFlightFilters(dayScopedFlights: FlightRecord[]) {
+  const [query, setQuery] = useState('')
+  const [categoryFilter, setCategoryFilter] = useState('all')
+  const [serviceFlagFilter, setServiceFlagFilter] = useState<ServiceFlagFilter>('all')
+  const [airportFilter, setAirportFilter] = useState('all')
+  const [aircraftFilter, setAircraftFilter] = useState('all')
+  const [page, setPage] = useState({ filterKey: '', value: 1 })
+
+  const airportOptions = useMemo(() => {
+    const map = new Map<string, string>()
+    for (const flight of dayScopedFlights) {
+      if (flight.orgNxt && !map.has(flight.orgNxt)) {
+        map.set(flight.orgNxt, flight.dsapto)
+      }
+    }
+    return [...map.entries()]
+      .map(([code, label]) => ({ code, label }))
+      .sort((a, b) => a.code.localeCompare(b.code))
+  }, [dayScopedFlights])
+
+  const aircraftOptions = useMemo(() => {
+    const values = new Set(dayScopedFlights.map((flight) => flight.avo).filter(Boolean))
+    return [...values].sort((a, b) => a.localeCompare(b))
+  }, [dayScopedFlights])
+
+  const filteredFlights = useMemo(() => {
+    const normalizedQuery = query.trim().toUpperCase()
+    return dayScopedFlights.filter((flight) => {
+      if (categoryFilter !== 'all' && flight.categoriaClasificacion !== categoryFilter) {
+        return false
+      }
+      if (serviceFlagFilter !== 'all' && flight.serviceFlag !== serviceFlagFilter) {
+        return false
+      }
+      if (airportFilter !== 'all' && flight.orgNxt !== airportFilter) {
+        return false
+      }
+      if (aircraftFilter !== 'all' && flight.avo !== aircraftFilter) {
+        return false
+      }
+      if (!normalizedQuery) {
+        return true
+      }
+      const searchable = [
+        flight.vuelo,
+        flight.dscia,
+        flight.cia,
+        flight.cdocia,
+        flight.fecha,
+        flight.hora,
+        flight.categoriaClasificacion,
+        flight.avo,
+        flight.dsmotivo,
+        flight.orgNxt,
+        flight.prvFin,
+        flight.dsapto,
+        flight.dstpapto,
+        flight.cdpais,
+        flight.dspais,
+        flight.dsaclase,
+      ]
+        .join(' ')
+        .toUpperCase()
+      return searchable.includes(normalizedQuery)
+    })
+  }, [dayScopedFlights, categoryFilter, serviceFlagFilter, airportFilter, aircraftFilter, query])
+
+  const filterKey = [query, categoryFilter, serviceFlagFilter, airportFilter, aircraftFilter, dayScopedFlights.length].join(
+    '\u0000',
+  )
+  const currentPage = page.filterKey === filterKey ? page.value : 1
+  const totalPages = Math.max(1, Math.ceil(filteredFlights.length / PAGE_SIZE))
+  const currentPageSafe = Math.min(currentPage, totalPages)
+  const visibleFlights = useMemo(() => {
+    const from = (currentPageSafe - 1) * PAGE_SIZE
+    return filteredFlights.slice(from, from + PAGE_SIZE)
+  }, [filteredFlights, currentPageSafe])
+
+  const setCurrentPage = (update: (page: number) => number): void => {
+    setPage({ filterKey, value: update(currentPage) })
+  }
+
+  const resetFilters = (): void => {
+    setCategoryFilter('all')
+    setServiceFlagFilter('all')
+    setAirportFilter('all')
+    setAircraftFilter('all')
+    setQuery('')
+  }
+
+  return {
+    query,
+    setQuery,
+    categoryFilter,
+    setCategoryFilter,
+    serviceFlagFilter,
+    setServiceFlagFilter,
+    airportFilter,
+    setAirportFilter,
+    aircraftFilter,
+    setAircraftFilter,
+    airportOptions,
+    aircraftOptions,
+    filteredFlights,
+    visibleFlights,
+    currentPage: currentPageSafe,
+    totalPages,
+    setCurrentPage,
+    resetFilters,
+  }
+}
+
+export type FlightFilters = ReturnType<typeof useFlightFilters>
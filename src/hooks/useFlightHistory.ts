@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { listFlightEvents } from '../lib/supabase'
+import type { AppMode, FlightEvent, FlightRecord } from '../types'
+import { getErrorMessage } from '../utils/format'
+
+interface FlightHistoryOptions {
+  mode: AppMode
+  onError: (message: string) => void
+}
+
+export function useFlightHistory({ mode, onError }: FlightHistoryOptions) {
+  const [flight, setFlight] = useState<FlightRecord | null>(null)
+  const [events, setEvents] = useState<FlightEvent[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const open = async (nextFlight: FlightRecord): Promise<void> => {
+    setFlight(nextFlight)
+    setEvents([])
+
+    if (mode !== 'supabase') {
+      return
+    }
+
+    setLoading(true)
+    try {
+      const nextEvents = await listFlightEvents(nextFlight.id)
+      setEvents(nextEvents)
+    } catch (historyError) {
+      onError(getErrorMessage(historyError))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const close = (): void => {
+    setFlight(null)
+  }
+
+  const reset = (): void => {
+    setFlight(null)
+    setEvents([])
+  }
+
+  return { flight, events, loading, open, close, reset }
+}
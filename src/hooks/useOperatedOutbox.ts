@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useState, type Dispatch, type SetStateAction } from 'react'
+import { enqueueOperatedMark, isNetworkError, listOperatedOutbox, removeOperatedMark } from '../lib/offline'
+import { getFlight, markFlightOperated } from '../lib/supabase'
+import type { FlightRecord, OperatedMarkConflict, OperatedOutboxEntry } from '../types'
+import { getErrorMessage } from '../utils/format'
+import { applyOperatedOutbox } from '../utils/outbox'
+
+const OUTBOX_REPLAY_DELAY_MS = 5_000
+
+interface OperatedOutboxOptions {
+  enabled: boolean
+  canReplay: boolean
+  setFlights: Dispatch<SetStateAction<FlightRecord[]>>
+  onNotice: (message: string) => void
+  onError: Dispatch<SetStateAction<string>>
+}
+
+export function useOperatedOutbox({ enabled, canReplay, setFlights, onNotice, onError }: OperatedOutboxOptions) {
+  const [isOnline, setIsOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine))
+  const [outbox, setOutbox] = useState<OperatedOutboxEntry[]>([])
+  const [replaying, setReplaying] = useState(false)
+  const [conflicts, setConflicts] = useState<OperatedMarkConflict[]>([])
+
+  useEffect(() => {
+    const handleOnline = (): void => setIsOnline(true)
+    const handleOffline = (): void => setIsOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let cancelled = false
+    void listOperatedOutbox()
+      .then((entries) => {
+        if (!cancelled) {
+          setOutbox(entries)
+        }
+      })
+      .catch((outboxError) => {
+        if (!cancelled) {
+          onError((currentError) => currentError || getErrorMessage(outboxError))
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, onError])
+
+  const replay = useCallback(
+    async (entries: OperatedOutboxEntry[]): Promise<void> => {
+      setReplaying(true)
+      const nextConflicts: OperatedMarkConflict[] = []
+      let sentCount = 0
+
+      try {
+        for (const entry of entries) {
+          try {
+            const updatedFlight = await markFlightOperated(entry.flightId, entry.operatorEmail, entry.operatedAt)
+            const serverFlight = updatedFlight ?? (await getFlight(entry.flightId))
+            if (updatedFlight || serverFlight?.operatedByEmail === entry.operatorEmail) {
+              sentCount += 1
+            } else {
+              nextConflicts.push({
+                entry,
+                reason: 'already_operated',
+                operatedByEmail: serverFlight?.operatedByEmail ?? null,
+                operatedAt: serverFlight?.operatedAt ?? null,
+                message: serverFlight ? null : 'El vuelo ya no existe en el dataset',
+              })
+            }
+            if (serverFlight) {
+              setFlights((currentFlights) =>
+                currentFlights.map((flight) => (flight.id === serverFlight.id ? serverFlight : flight)),
+              )
+            }
+          } catch (replayError) {
+            if (isNetworkError(replayError)) {
+              break
+            }
+            nextConflicts.push({
+              entry,
+              reason: 'failed',
+              operatedByEmail: null,
+              operatedAt: null,
+              message: getErrorMessage(replayError),
+            })
+          }
+
+          await removeOperatedMark(entry.id)
+          setOutbox((currentOutbox) => currentOutbox.filter((item) => item.id !== entry.id))
+        }
+      } catch (outboxError) {
+        onError(getErrorMessage(outboxError))
+      } finally {
+        setReplaying(false)
+      }
+
+      if (nextConflicts.length > 0) {
+        setConflicts((currentConflicts) => [...currentConflicts, ...nextConflicts])
+      }
+      if (sentCount > 0) {
+        onNotice(`${sentCount} marcas de operado pendientes enviadas al recuperar la conexion`)
+      }
+    },
+    [onError, onNotice, setFlights],
+  )
+
+  useEffect(() => {
+    if (!enabled || !canReplay || !isOnline || replaying || outbox.length === 0) {
+      return
+    }
+
+    const timer = window.setTimeout(() => void replay(outbox), OUTBOX_REPLAY_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [canReplay, enabled, isOnline, outbox, replay, replaying])
+
+  const queue = async (entry: OperatedOutboxEntry): Promise<void> => {
+    await enqueueOperatedMark(entry)
+    setOutbox((currentOutbox) => [...currentOutbox, entry])
+    setFlights((currentFlights) => applyOperatedOutbox(currentFlights, [entry]))
+  }
+
+  const clearConflicts = (): void => {
+    setConflicts([])
+  }
+
+  return { isOnline, outbox, conflicts, clearConflicts, queue }
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState, type Dispatch, type SetStateAction } from 'react'
+import { requestOperatedReversal, resolveOperatedReversal } from '../lib/supabase'
+import type { AppMode, FlightRecord, OperatedReversal } from '../types'
+import { getErrorMessage } from '../utils/format'
+import { upsertOperatedReversal } from '../utils/realtime'
+
+interface OperatedReversalsOptions {
+  mode: AppMode
+  userEmail: string | null
+  flights: FlightRecord[]
+  setFlights: Dispatch<SetStateAction<FlightRecord[]>>
+  onNotice: (message: string) => void
+  onError: (message: string) => void
+}
+
+const buildOperatedReversalUpdate = (flight: FlightRecord): FlightRecord => {
+  return {
+    ...flight,
+    operated: false,
+    operatedAt: null,
+    operatedByEmail: null,
+  }
+}
+
+export function useOperatedReversals({ mode, userEmail, flights, setFlights, onNotice, onError }: OperatedReversalsOptions) {
+  const [reversals, setReversals] = useState<OperatedReversal[]>([])
+  const [reversalFlight, setReversalFlight] = useState<FlightRecord | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const pendingReversals = useMemo(() => reversals.filter((reversal) => reversal.status === 'pending'), [reversals])
+  const pendingReversalByFlight = useMemo(
+    () => new Map(pendingReversals.map((reversal) => [reversal.flightId, reversal])),
+    [pendingReversals],
+  )
+
+  const openRequest = (flight: FlightRecord): void => {
+    if (!pendingReversalByFlight.has(flight.id)) {
+      setReversalFlight(flight)
+    }
+  }
+
+  const confirmRequest = async (reasonDraft: string): Promise<void> => {
+    if (!reversalFlight) {
+      return
+    }
+
+    const reason = reasonDraft.trim()
+    if (!reason) {
+      onError('Indica el motivo de la reversion')
+      return
+    }
+
+    setBusy(true)
+    onError('')
+
+    try {
+      if (mode === 'guest') {
+        const requestedAt = new Date().toISOString()
+        const guestReversal: OperatedReversal = {
+          id: `guest-reversal-${reversalFlight.id}-${Date.now()}`,
+          flightId: reversalFlight.id,
+          datasetId: reversalFlight.datasetId ?? '',
+          reason,
+          status: 'pending',
+          operatedAt: reversalFlight.operatedAt ?? requestedAt,
+          operatedByEmail: reversalFlight.operatedByEmail ?? 'guest-test',
+          requestedAt,
+          requestedByEmail: userEmail ?? 'guest-test',
+          resolvedAt: null,
+          resolvedByEmail: null,
+        }
+        setReversals((currentReversals) => upsertOperatedReversal(currentReversals, guestReversal))
+      } else {
+        const createdReversal = await requestOperatedReversal(reversalFlight.id, reason)
+        setReversals((currentReversals) => upsertOperatedReversal(currentReversals, createdReversal))
+      }
+
+      onNotice(`Reversion del vuelo ${reversalFlight.vuelo} solicitada. Un administrador debe aprobarla.`)
+      setReversalFlight(null)
+    } catch (reversalError) {
+      onError(getErrorMessage(reversalError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const resolve = async (reversal: OperatedReversal, approve: boolean): Promise<void> => {
+    setBusy(true)
+    onError('')
+
+    const flight = flights.find((item) => item.id === reversal.flightId)
+    const flightLabel = flight?.vuelo ?? reversal.flightId
+
+    try {
+      if (mode === 'guest') {
+        setReversals((currentReversals) =>
+          upsertOperatedReversal(currentReversals, {
+            ...reversal,
+            status: approve ? 'approved' : 'rejected',
+            resolvedAt: new Date().toISOString(),
+            resolvedByEmail: userEmail ?? 'guest-test',
+          }),
+        )
+      } else {
+        const resolvedReversal = await resolveOperatedReversal(reversal.id, approve)
+        setReversals((currentReversals) => upsertOperatedReversal(currentReversals, resolvedReversal))
+      }
+
+      if (approve) {
+        setFlights((currentFlights) =>
+          currentFlights.map((item) => (item.id === reversal.flightId ? buildOperatedReversalUpdate(item) : item)),
+        )
+      }
+
+      onNotice(approve ? `Vuelo ${flightLabel} desmarcado como operado` : `Reversion del vuelo ${flightLabel} rechazada`)
+    } catch (resolveError) {
+      onError(getErrorMessage(resolveError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const reset = (): void => {
+    setReversals([])
+    setReversalFlight(null)
+  }
+
+  return {
+    reversals,
+    setReversals,
+    pendingReversals,
+    pendingReversalByFlight,
+    reversalFlight,
+    setReversalFlight,
+    busy,
+    openRequest,
+    confirmRequest,
+    resolve,
+    reset,
+  }
+}
+
+export type OperatedReversals = ReturnType<typeof useOperatedReversals>
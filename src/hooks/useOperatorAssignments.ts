@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useState, type Dispatch, type SetStateAction } from 'react'
+import { assignFlights, listOperators } from '../lib/supabase'
+import type { FlightAssignment, FlightRecord, OperatorAccount } from '../types'
+import { buildOperatorBalance, planBalancedAssignments } from '../utils/assignments'
+import { getErrorMessage } from '../utils/format'
+
+interface OperatorAssignmentsOptions {
+  enabled: boolean
+  dayFlights: FlightRecord[]
+  userEmail: string | null
+  onlineEmails: Set<string>
+  setFlights: Dispatch<SetStateAction<FlightRecord[]>>
+  onNotice: (message: string) => void
+  onError: Dispatch<SetStateAction<string>>
+}
+
+export function useOperatorAssignments({
+  enabled,
+  dayFlights,
+  userEmail,
+  onlineEmails,
+  setFlights,
+  onNotice,
+  onError,
+}: OperatorAssignmentsOptions) {
+  const [operators, setOperators] = useState<OperatorAccount[]>([])
+  const [busy, setBusy] = useState(false)
+  const [offShiftOperator, setOffShiftOperator] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!enabled) {
+      setOperators([])
+      return
+    }
+
+    let cancelled = false
+
+    void listOperators()
+      .then((loadedOperators) => {
+        if (!cancelled) {
+          setOperators(loadedOperators)
+        }
+      })
+      .catch((operatorsError) => {
+        if (!cancelled) {
+          onError((currentError) => currentError || getErrorMessage(operatorsError))
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, onError])
+
+  const balance = useMemo(
+    () =>
+      buildOperatorBalance(
+        dayFlights,
+        operators.map((operator) => operator.email),
+      ),
+    [dayFlights, operators],
+  )
+
+  const unassignedAttendFlights = useMemo(
+    () =>
+      dayFlights.filter((flight) => flight.serviceFlag === 'ATENDER' && !flight.operated && !flight.assignedToEmail),
+    [dayFlights],
+  )
+
+  const myFlights = useMemo(() => {
+    if (!userEmail) {
+      return []
+    }
+    return dayFlights
+      .filter((flight) => flight.assignedToEmail === userEmail)
+      .sort((a, b) => Number(a.operated) - Number(b.operated))
+  }, [dayFlights, userEmail])
+
+  const offShiftPlan = useMemo(() => {
+    if (!offShiftOperator) {
+      return []
+    }
+    const pendingFlights = dayFlights.filter(
+      (flight) => flight.assignedToEmail === offShiftOperator && !flight.operated,
+    )
+    const candidates = balance.filter((item) => item.email !== offShiftOperator)
+    const onlineCandidates = candidates.filter((item) => onlineEmails.has(item.email))
+    return planBalancedAssignments(pendingFlights, onlineCandidates.length > 0 ? onlineCandidates : candidates)
+  }, [balance, dayFlights, offShiftOperator, onlineEmails])
+
+  const runAssignments = async (assignments: FlightAssignment[], successNotice: string): Promise<boolean> => {
+    setBusy(true)
+    onError('')
+
+    try {
+      const updatedFlights = await assignFlights(assignments)
+      const updatedById = new Map(updatedFlights.map((item) => [item.id, item]))
+      setFlights((currentFlights) => currentFlights.map((item) => updatedById.get(item.id) ?? item))
+      onNotice(successNotice)
+      return true
+    } catch (assignError) {
+      onError(getErrorMessage(assignError))
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const assign = (flight: FlightRecord, email: string | null): void => {
+    void runAssignments(
+      [{ flightId: flight.id, email }],
+      email ? `Vuelo ${flight.vuelo} asignado a ${email}` : `Vuelo ${flight.vuelo} sin operador asignado`,
+    )
+  }
+
+  const distributeUnassigned = (): void => {
+    const candidates = balance.filter((item) => onlineEmails.has(item.email))
+    const assignments = planBalancedAssignments(unassignedAttendFlights, candidates.length > 0 ? candidates : balance)
+    if (assignments.length === 0) {
+      onError('No hay vuelos ATENDER sin asignar u operadores disponibles')
+      return
+    }
+    const operatorCount = new Set(assignments.map((item) => item.email)).size
+    void runAssignments(
+      assignments,
+      `${assignments.length} vuelos ATENDER repartidos entre ${operatorCount} operadores`,
+    )
+  }
+
+  const confirmOffShift = async (): Promise<void> => {
+    if (!offShiftOperator) {
+      return
+    }
+    const assigned = await runAssignments(
+      offShiftPlan.length > 0
+        ? offShiftPlan
+        : dayFlights
+            .filter((flight) => flight.assignedToEmail === offShiftOperator && !flight.operated)
+            .map((flight) => ({ flightId: flight.id, email: null })),
+      offShiftPlan.length > 0
+        ? `${offShiftPlan.length} vuelos de ${offShiftOperator} reasignados`
+        : `Vuelos pendientes de ${offShiftOperator} sin operador asignado`,
+    )
+    if (assigned) {
+      setOffShiftOperator(null)
+    }
+  }
+
+  return {
+    operators,
+    balance,
+    unassignedAttendFlights,
+    myFlights,
+    busy,
+    offShiftOperator,
+    setOffShiftOperator,
+    offShiftPlan,
+    assign,
+    distributeUnassigned,
+    confirmOffShift,
+  }
+}
+
+export type OperatorAssignments = ReturnType<typeof useOperatorAssignments>
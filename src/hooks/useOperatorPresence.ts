@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useState } from 'react'
+import { FLIGHT_CLAIM_TTL_MINUTES } from '../constants'
+import type { FlightClaim, FlightRecord, OperatorPresence } from '../types'
+
+interface OperatorPresenceOptions {
+  flights: FlightRecord[]
+  userEmail: string | null
+  now: Date
+  onNotice: (message: string) => void
+}
+
+export function useOperatorPresence({ flights, userEmail, now, onNotice }: OperatorPresenceOptions) {
+  const [operators, setOperators] = useState<OperatorPresence[]>([])
+  const [storedClaim, setStoredClaim] = useState<FlightClaim | null>(null)
+
+  // A claim ends as soon as its flight is confirmed as operated, whoever confirmed it.
+  const myClaim = useMemo(
+    () =>
+      storedClaim && !flights.some((flight) => flight.id === storedClaim.flightId && flight.operated)
+        ? storedClaim
+        : null,
+    [storedClaim, flights],
+  )
+
+  useEffect(() => {
+    if (!myClaim) {
+      return
+    }
+
+    const timer = window.setTimeout(() => setStoredClaim(null), new Date(myClaim.expiresAt).getTime() - Date.now())
+    return () => window.clearTimeout(timer)
+  }, [myClaim])
+
+  const flightClaims = useMemo(() => {
+    const nowTime = now.getTime()
+    const claims = new Map<string, FlightClaim>()
+    const candidates = [
+      ...operators.flatMap((operator) => (operator.claim ? [operator.claim] : [])),
+      ...(myClaim ? [myClaim] : []),
+    ]
+    for (const claim of candidates) {
+      const current = claims.get(claim.flightId)
+      if (new Date(claim.expiresAt).getTime() > nowTime && (!current || claim.claimedAt < current.claimedAt)) {
+        claims.set(claim.flightId, claim)
+      }
+    }
+    return claims
+  }, [now, myClaim, operators])
+
+  const summary = useMemo(() => {
+    const labels = new Map<string, string>()
+    for (const operator of operators) {
+      const claimedFlight = operator.claim ? flights.find((flight) => flight.id === operator.claim?.flightId) : null
+      const current = labels.get(operator.email)
+      if (!current || claimedFlight) {
+        labels.set(operator.email, claimedFlight ? `${operator.email} (${claimedFlight.vuelo})` : operator.email)
+      }
+    }
+    return [...labels.values()].sort((a, b) => a.localeCompare(b))
+  }, [flights, operators])
+
+  const onlineEmails = useMemo(() => new Set(operators.map((operator) => operator.email)), [operators])
+
+  const claim = (flight: FlightRecord): void => {
+    if (!userEmail) {
+      return
+    }
+    const claimedAt = new Date()
+    setStoredClaim({
+      flightId: flight.id,
+      operatorEmail: userEmail,
+      claimedAt: claimedAt.toISOString(),
+      expiresAt: new Date(claimedAt.getTime() + FLIGHT_CLAIM_TTL_MINUTES * 60_000).toISOString(),
+    })
+    onNotice(`Vuelo ${flight.vuelo} reservado para ti durante ${FLIGHT_CLAIM_TTL_MINUTES} minutos`)
+  }
+
+  const release = (): void => {
+    setStoredClaim(null)
+  }
+
+  const reset = (): void => {
+    setStoredClaim(null)
+    setOperators([])
+  }
+
+  return { operators, setOperators, myClaim, flightClaims, summary, onlineEmails, claim, release, reset }
+}
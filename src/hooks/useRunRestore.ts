@@ -0,0 +1,54 @@
+import { useMemo, useState, type Dispatch, type SetStateAction } from 'react'
+import { loadDataset, restoreAssignmentRun } from '../lib/supabase'
+import type { AssignmentRun, FlightRecord } from '../types'
+import { getErrorMessage } from '../utils/format'
+import { buildRunRestorePreview } from '../utils/runs'
+
+interface RunRestoreOptions {
+  activeDatasetId: string | null
+  flights: FlightRecord[]
+  setFlights: Dispatch<SetStateAction<FlightRecord[]>>
+  onRunsChanged: () => Promise<void>
+  onNotice: (message: string) => void
+  onError: (message: string) => void
+}
+
+export function useRunRestore({
+  activeDatasetId,
+  flights,
+  setFlights,
+  onRunsChanged,
+  onNotice,
+  onError,
+}: RunRestoreOptions) {
+  const [run, setRun] = useState<AssignmentRun | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const preview = useMemo(() => (run ? buildRunRestorePreview(run, flights) : null), [flights, run])
+
+  const confirm = async (): Promise<void> => {
+    if (!run || !activeDatasetId) {
+      return
+    }
+
+    setBusy(true)
+    onError('')
+
+    try {
+      const result = await restoreAssignmentRun(run.id)
+      const datasetState = await loadDataset(activeDatasetId)
+      setFlights(datasetState.flights)
+      await onRunsChanged()
+      onNotice(
+        `Ejecucion ${run.id.slice(0, 8)} restaurada para ${result.workDate} (${result.updatedFlights} vuelos cambiados, seed ${result.seed})`,
+      )
+      setRun(null)
+    } catch (restoreError) {
+      onError(getErrorMessage(restoreError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return { run, setRun, preview, busy, confirm }
+}
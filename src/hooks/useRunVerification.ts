@@ -0,0 +1,88 @@
+import { useState, type Dispatch, type SetStateAction } from 'react'
+import { listAssignmentRuns, verifyAssignmentRun } from '../lib/supabase'
+import type { AppMode, AssignmentRun, AssignmentVerification } from '../types'
+import { getErrorMessage } from '../utils/format'
+
+interface RunVerificationOptions {
+  mode: AppMode
+  isAdminUser: boolean
+  activeDatasetId: string | null
+  workDate: string
+  setAssignmentRuns: Dispatch<SetStateAction<AssignmentRun[]>>
+  onNotice: (message: string) => void
+  onError: (message: string) => void
+}
+
+export function useRunVerification({
+  mode,
+  isAdminUser,
+  activeDatasetId,
+  workDate,
+  setAssignmentRuns,
+  onNotice,
+  onError,
+}: RunVerificationOptions) {
+  const [open, setOpen] = useState(false)
+  const [runId, setRunId] = useState('')
+  const [verification, setVerification] = useState<AssignmentVerification | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const openModal = async (selectedRunId?: string): Promise<void> => {
+    if (mode !== 'supabase' || !isAdminUser || !activeDatasetId || !workDate) {
+      return
+    }
+
+    setVerification(null)
+    onError('')
+    setOpen(true)
+
+    if (selectedRunId) {
+      setRunId(selectedRunId)
+      return
+    }
+
+    setBusy(true)
+
+    try {
+      const runs = await listAssignmentRuns(activeDatasetId, workDate)
+      setAssignmentRuns(runs)
+      setRunId(runs[0]?.id ?? '')
+    } catch (runsError) {
+      onError(getErrorMessage(runsError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const selectRun = (nextRunId: string): void => {
+    setRunId(nextRunId)
+    setVerification(null)
+  }
+
+  const verify = async (): Promise<void> => {
+    if (!runId) {
+      return
+    }
+
+    setBusy(true)
+    onError('')
+
+    try {
+      const result = await verifyAssignmentRun(runId)
+      setVerification(result)
+      onNotice(
+        result.status === 'verified'
+          ? `Ejecucion ${runId.slice(0, 8)} verificada: ${result.report.matchedFlights} vuelos coinciden con el seed`
+          : `Ejecucion ${runId.slice(0, 8)} con ${result.report.mismatchedFlights + result.report.unexpectedFlights} discrepancias`,
+      )
+    } catch (verifyError) {
+      onError(getErrorMessage(verifyError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return { open, setOpen, runId, selectRun, verification, busy, openModal, verify }
+}
+
+export type RunVerification = ReturnType<typeof useRunVerification>
@@ -0,0 +1,110 @@
+import { useMemo, useState, type Dispatch, type SetStateAction } from 'react'
+import { setManualServiceFlag } from '../lib/supabase'
+import type { AppMode, CategoryDefinition, FlightRecord, OverrideDraft, ServiceFlag } from '../types'
+import { getErrorMessage } from '../utils/format'
+import { buildOverridePreview } from '../utils/override'
+
+interface ServiceFlagOverrideOptions {
+  mode: AppMode
+  userEmail: string | null
+  flights: FlightRecord[]
+  setFlights: Dispatch<SetStateAction<FlightRecord[]>>
+  targets: Record<string, number>
+  categoryCatalog: CategoryDefinition[]
+  onNotice: (message: string) => void
+  onError: (message: string) => void
+}
+
+const buildManualFlagUpdate = (flight: FlightRecord, serviceFlag: ServiceFlag, operatorEmail: string): FlightRecord => {
+  return {
+    ...flight,
+    serviceFlag,
+    serviceFlagSource: 'manual',
+    serviceFlagUpdatedAt: new Date().toISOString(),
+    serviceFlagUpdatedByEmail: operatorEmail,
+    serviceFlagRunId: null,
+  }
+}
+
+export function useServiceFlagOverride({
+  mode,
+  userEmail,
+  flights,
+  setFlights,
+  targets,
+  categoryCatalog,
+  onNotice,
+  onError,
+}: ServiceFlagOverrideOptions) {
+  const [draft, setDraft] = useState<OverrideDraft | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const preview = useMemo(() => {
+    if (!draft) {
+      return null
+    }
+    return buildOverridePreview(
+      flights,
+      draft.flight,
+      draft.serviceFlag,
+      targets,
+      draft.swapFlightId || null,
+      categoryCatalog,
+    )
+  }, [categoryCatalog, draft, flights, targets])
+
+  const open = (flight: FlightRecord): void => {
+    setDraft({
+      flight,
+      serviceFlag: flight.serviceFlag === 'ATENDER' ? 'NO_ATENDER' : 'ATENDER',
+      swapFlightId: '',
+    })
+  }
+
+  const confirm = async (): Promise<void> => {
+    if (!draft) {
+      return
+    }
+
+    const { flight, serviceFlag } = draft
+    const swapFlight = preview?.swapFlight ?? null
+    const swapFlag: ServiceFlag = serviceFlag === 'ATENDER' ? 'NO_ATENDER' : 'ATENDER'
+
+    setBusy(true)
+    onError('')
+
+    try {
+      if (mode === 'guest') {
+        const operator = userEmail ?? 'guest-test'
+        setFlights((currentFlights) =>
+          currentFlights.map((item) => {
+            if (item.id === flight.id) {
+              return buildManualFlagUpdate(item, serviceFlag, operator)
+            }
+            if (swapFlight && item.id === swapFlight.id) {
+              return buildManualFlagUpdate(item, swapFlag, operator)
+            }
+            return item
+          }),
+        )
+      } else {
+        const updatedFlights = await setManualServiceFlag(flight.id, serviceFlag, swapFlight?.id ?? null)
+        const updatedById = new Map(updatedFlights.map((item) => [item.id, item]))
+        setFlights((currentFlights) => currentFlights.map((item) => updatedById.get(item.id) ?? item))
+      }
+
+      onNotice(
+        swapFlight
+          ? `Vuelo ${flight.vuelo} marcado ${serviceFlag} y ${swapFlight.vuelo} compensado como ${swapFlag}`
+          : `Vuelo ${flight.vuelo} marcado ${serviceFlag} manualmente`,
+      )
+      setDraft(null)
+    } catch (overrideError) {
+      onError(getErrorMessage(overrideError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return { draft, setDraft, preview, busy, open, confirm }
+}
@@ -0,0 +1,125 @@
+import { useState, type Dispatch, type SetStateAction } from 'react'
+import { deleteTargetRule, saveTargetRule } from '../lib/supabase'
+import type { TargetRule, TargetRuleDraft } from '../types'
+import { isIsoDate } from '../utils/dates'
+import { getErrorMessage } from '../utils/format'
+
+interface TargetRuleEditorOptions {
+  activeDatasetId: string | null
+  workDate: string
+  targets: Record<string, number>
+  setTargetRules: Dispatch<SetStateAction<TargetRule[]>>
+  onNotice: (message: string) => void
+  onError: (message: string) => void
+}
+
+export function useTargetRuleEditor({
+  activeDatasetId,
+  workDate,
+  targets,
+  setTargetRules,
+  onNotice,
+  onError,
+}: TargetRuleEditorOptions) {
+  const [draft, setDraft] = useState<TargetRuleDraft | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const open = (rule: TargetRule | null): void => {
+    setDraft(
+      rule
+        ? {
+            id: rule.id,
+            name: rule.name,
+            kind: rule.kind,
+            weekdays: rule.weekdays,
+            startDate: rule.startDate ?? '',
+            endDate: rule.endDate ?? '',
+            targets: rule.targets,
+          }
+        : {
+            id: null,
+            name: '',
+            kind: 'weekday',
+            weekdays: [6, 7],
+            startDate: workDate,
+            endDate: workDate,
+            targets: { ...targets },
+          },
+    )
+  }
+
+  const toggleWeekday = (weekday: number): void => {
+    setDraft((current) =>
+      current
+        ? {
+            ...current,
+            weekdays: current.weekdays.includes(weekday)
+              ? current.weekdays.filter((item) => item !== weekday)
+              : [...current.weekdays, weekday].sort((a, b) => a - b),
+          }
+        : current,
+    )
+  }
+
+  const save = async (): Promise<void> => {
+    if (!draft || !activeDatasetId) {
+      return
+    }
+    if (!draft.name.trim()) {
+      onError('Indica un nombre para la regla')
+      return
+    }
+    if (draft.kind === 'weekday' && draft.weekdays.length === 0) {
+      onError('Selecciona al menos un dia de la semana')
+      return
+    }
+    if (
+      draft.kind === 'date_range' &&
+      (!isIsoDate(draft.startDate) || !isIsoDate(draft.endDate) || draft.startDate > draft.endDate)
+    ) {
+      onError('El rango de fechas no es valido')
+      return
+    }
+
+    setBusy(true)
+    onError('')
+
+    try {
+      const saved = await saveTargetRule(activeDatasetId, draft)
+      setTargetRules((current) =>
+        [...current.filter((rule) => rule.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)),
+      )
+      setDraft(null)
+      onNotice(`Regla de objetivos ${saved.name} guardada`)
+    } catch (ruleError) {
+      onError(getErrorMessage(ruleError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const remove = async (): Promise<void> => {
+    if (!draft?.id) {
+      return
+    }
+
+    const ruleId = draft.id
+    setBusy(true)
+    onError('')
+
+    try {
+      await deleteTargetRule(ruleId)
+      setTargetRules((current) => current.filter((rule) => rule.id !== ruleId))
+      setDraft(null)
+      onNotice(`Regla de objetivos ${draft.name} eliminada`)
+    } catch (ruleError) {
+      onError(getErrorMessage(ruleError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return { draft, setDraft, busy, open, toggleWeekday, save, remove }
+}
+
+export type TargetRuleEditor = ReturnType<typeof useTargetRuleEditor>
@@ -0,0 +1,84 @@
+import type { CachedDatasetSnapshot, OperatedOutboxEntry } from '../types'
+
+const DB_NAME = 'vuelos-offline'
+const DB_VERSION = 1
+const SNAPSHOT_STORE = 'dataset_snapshots'
+const OUTBOX_STORE = 'operated_outbox'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Error en la cache local'))
+  })
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('El navegador no permite guardar datos sin conexion'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const database = request.result
+        if (!database.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          database.createObjectStore(SNAPSHOT_STORE, { keyPath: 'datasetId' })
+        }
+        if (!database.objectStoreNames.contains(OUTBOX_STORE)) {
+          database.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error ?? new Error('No se pudo abrir la cache local'))
+      }
+    })
+  }
+  return databasePromise
+}
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openDatabase()
+  return requestToPromise(run(database.transaction(storeName, mode).objectStore(storeName)))
+}
+
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true
+  }
+  const message = error && typeof error === 'object' ? (error as { message?: unknown }).message : null
+  return typeof message === 'string' && /failed to fetch|networkerror|load failed|network request failed/i.test(message)
+}
+
+export async function saveCachedSnapshot(cached: CachedDatasetSnapshot): Promise<void> {
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.put(cached))
+}
+
+export async function loadCachedSnapshot(datasetId: string): Promise<CachedDatasetSnapshot | null> {
+  const cached = await withStore<CachedDatasetSnapshot | undefined>(SNAPSHOT_STORE, 'readonly', (store) =>
+    store.get(datasetId),
+  )
+  return cached ?? null
+}
+
+export async function listOperatedOutbox(): Promise<OperatedOutboxEntry[]> {
+  const entries = await withStore<OperatedOutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll())
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+}
+
+export async function enqueueOperatedMark(entry: OperatedOutboxEntry): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry))
+}
+
+export async function removeOperatedMark(entryId: string): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(entryId))
+}
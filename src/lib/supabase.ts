@@ -1,10 +1,63 @@
-import { createClient, type AuthChangeEvent, type Session, type SupabaseClient } from '@supabase/supabase-js'
-import type { AutoAssignmentResult, AutoAssignmentSummary, DatasetSummary, FlightRecord } from '../types'
+import {
+  createClient,
+  type AuthChangeEvent,
+  type RealtimeChannel,
+  type RealtimePostgresChangesPayload,
+  type RealtimePostgresDeletePayload,
+  type Session,
+  type SupabaseClient,
+} from '@supabase/supabase-js'
+import type {
+  AssignmentRun,
+  AssignmentRunFlag,
+  AssignmentStrategyId,
+  AssignmentStrategyParams,
+  AssignmentVerification,
+  AssignmentVerificationReport,
+  AssignmentVerificationStatus,
+  AutoAssignmentOptions,
+  AutoAssignmentResult,
+  AutoAssignmentSummary,
+  CategoryDefinition,
+  CategorySource,
+  ClassificationRule,
+  ColumnMapping,
+  CsvMappingProfile,
+  DatasetCreationResult,
+  DatasetPage,
+  DatasetSearchFilters,
+  DatasetSnapshot,
+  DatasetSummary,
+  DatasetUpdateResult,
+  FlightAssignment,
+  FlightClaim,
+  FlightEvent,
+  FlightEventType,
+  FlightRecord,
+  OperatedReversal,
+  OperatedReversalStatus,
+  OperatorAccount,
+  OperatorPresence,
+  RealtimeEvent,
+  RealtimeStatus,
+  RealtimeSubscription,
+  ServiceFlag,
+  TargetRule,
+  TargetRuleDraft,
+} from '../types'
 
 interface DatasetRow {
   id: string
   name: string
   created_at: string
+  archived_at: string | null
+}
+
+interface CreateDatasetRpcRow {
+  dataset_id: string
+  dataset_name: string
+  created_at: string
+  created: boolean
 }
 
 interface FlightRow {
@@ -12,6 +65,7 @@ interface FlightRow {
   dataset_id: string
   flight_key: string
   categoria_clasificacion: string
+  categoria_source: CategorySource
   tipo: string
   fecha: string
   hora: string
@@ -19,6 +73,16 @@ interface FlightRow {
   dscia: string
   cdocia: string
   vuelo: string
+  avo: string
+  ast: string
+  dsmotivo: string
+  org_nxt: string
+  prv_fin: string
+  dsapto: string
+  dstpapto: string
+  cdpais: string
+  dspais: string
+  dsaclase: string
   operated: boolean
   operated_at: string | null
   operated_by_email: string | null
@@ -27,6 +91,9 @@ interface FlightRow {
   service_flag_updated_at: string | null
   service_flag_updated_by_email: string | null
   service_flag_run_id: string | null
+  assigned_to_email: string | null
+  assigned_at: string | null
+  assigned_by_email: string | null
 }
 
 interface CategoryTargetRow {
@@ -34,10 +101,97 @@ interface CategoryTargetRow {
   target_percent: number
 }
 
+interface CategoryTargetKeyRow {
+  dataset_id: string
+  category: string
+}
+
+interface ShiftCapacityRow {
+  slot_start: string
+  teams: number
+}
+
+interface CategoryRow {
+  code: string
+  label: string
+  display_order: number
+  default_target: number
+  color: string
+  active: boolean
+}
+
+interface ClassificationRuleRow {
+  id: string
+  name: string
+  priority: number
+  category: string
+  tipos: string[] | null
+  airport_types: string[] | null
+  countries: string[] | null
+  eee: ClassificationRule['eee']
+  block_time: ClassificationRule['blockTime']
+  active: boolean
+}
+
+interface TargetRuleRow {
+  id: string
+  dataset_id: string
+  name: string
+  kind: TargetRule['kind']
+  weekdays: number[] | null
+  start_date: string | null
+  end_date: string | null
+  targets: Record<string, number> | null
+  updated_at: string
+}
+
 interface DatasetSettingsRow {
   work_date: string
 }
 
+interface DatasetSettingsKeyRow {
+  dataset_id: string
+}
+
+interface CsvMappingProfileRow {
+  id: string
+  name: string
+  mapping: ColumnMapping | null
+  updated_at: string
+}
+
+interface OperatedReversalRow {
+  id: string
+  flight_id: string
+  dataset_id: string
+  reason: string
+  status: OperatedReversalStatus
+  operated_at: string
+  operated_by_email: string
+  requested_at: string
+  requested_by_email: string
+  resolved_at: string | null
+  resolved_by_email: string | null
+}
+
+interface FlightEventRow {
+  id: number
+  flight_id: string
+  event_type: FlightEventType
+  old_values: Record<string, unknown> | null
+  new_values: Record<string, unknown> | null
+  actor_email: string | null
+  run_id: string | null
+  created_at: string
+}
+
+interface DatasetUpdateRpcRow {
+  update_id: string
+  added_flights: number
+  removed_flights: number
+  changed_flights: number
+}
+
 interface AutoAssignmentRpcRow {
   run_id: string
   seed: string
@@ -46,7 +200,60 @@ interface AutoAssignmentRpcRow {
   summary: AutoAssignmentSummary[]
 }
 
-type RealtimeStatus = 'SUBSCRIBED' | 'CLOSED' | 'CHANNEL_ERROR' | 'TIMED_OUT'
+interface AssignmentRunRow {
+  id: string
+  dataset_id: string
+  work_date: string
+  seed: string
+  strategy: AssignmentStrategyId
+  strategy_params: AssignmentStrategyParams | null
+  summary_json: AutoAssignmentSummary[] | null
+  updated_flights: number
+  result_flags: AssignmentRunFlag[] | null
+  restored_from_run_id: string | null
+  created_at: string
+  created_by_email: string | null
+}
+
+interface AssignmentVerificationRow {
+  id: string
+  run_id: string
+  status: AssignmentVerificationStatus
+  report: AssignmentVerificationReport
+  report_digest: string
+  verified_by_email: string
+  verified_at: string
+}
+
+interface OperatorRow {
+  email: string
+  is_admin: boolean
+}
+
+interface PresencePayload {
+  email: string
+  online_at: string
+  claim: FlightClaim | null
+}
+
+const REALTIME_RESUBSCRIBE_MS = 3000
+
+const DATASET_COLUMNS = 'id,name,created_at,archived_at'
+
+const OPERATED_REVERSAL_COLUMNS =
+  'id,flight_id,dataset_id,reason,status,operated_at,operated_by_email,requested_at,requested_by_email,resolved_at,resolved_by_email'
+
+const CATEGORY_COLUMNS = 'code,label,display_order,default_target,color,active'
+
+const CLASSIFICATION_RULE_COLUMNS = 'id,name,priority,category,tipos,airport_types,countries,eee,block_time,active'
+
+const TARGET_RULE_COLUMNS = 'id,dataset_id,name,kind,weekdays,start_date,end_date,targets,updated_at'
+
+const ASSIGNMENT_RUN_COLUMNS =
+  'id,dataset_id,work_date,seed,strategy,strategy_params,summary_json,updated_flights,result_flags,restored_from_run_id,created_at,created_by_email'
+
+const FLIGHT_COLUMNS =
+  'id,dataset_id,flight_key,categoria_clasificacion,categoria_source,tipo,fecha,hora,cia,dscia,cdocia,vuelo,avo,ast,dsmotivo,org_nxt,prv_fin,dsapto,dstpapto,cdpais,dspais,dsaclase,operated,operated_at,operated_by_email,service_flag,service_flag_source,service_flag_updated_at,service_flag_updated_by_email,service_flag_run_id,assigned_to_email,assigned_at,assigned_by_email'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL?.trim() ?? ''
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY?.trim() ?? ''
@@ -58,6 +265,7 @@ const mapFlightRow = (row: FlightRow): FlightRecord => ({
   datasetId: row.dataset_id,
   flightKey: row.flight_key,
   categoriaClasificacion: row.categoria_clasificacion,
+  categorySource: row.categoria_source ?? 'file',
   tipo: row.tipo,
   fecha: row.fecha,
   hora: row.hora,
@@ -65,6 +273,16 @@ const mapFlightRow = (row: FlightRow): FlightRecord => ({
   dscia: row.dscia,
   cdocia: row.cdocia,
   vuelo: row.vuelo,
+  avo: row.avo,
+  ast: row.ast,
+  dsmotivo: row.dsmotivo,
+  orgNxt: row.org_nxt,
+  prvFin: row.prv_fin,
+  dsapto: row.dsapto,
+  dstpapto: row.dstpapto,
+  cdpais: row.cdpais,
+  dspais: row.dspais,
+  dsaclase: row.dsaclase,
   operated: row.operated,
   operatedAt: row.operated_at,
   operatedByEmail: row.operated_by_email,
@@ -73,10 +291,131 @@ const mapFlightRow = (row: FlightRow): FlightRecord => ({
   serviceFlagUpdatedAt: row.service_flag_updated_at,
   serviceFlagUpdatedByEmail: row.service_flag_updated_by_email,
   serviceFlagRunId: row.service_flag_run_id,
+  assignedToEmail: row.assigned_to_email,
+  assignedAt: row.assigned_at,
+  assignedByEmail: row.assigned_by_email,
+})
+
+const mapDatasetRow = (row: DatasetRow): DatasetSummary => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at,
+  archivedAt: row.archived_at,
+})
+
+const mapOperatedReversalRow = (row: OperatedReversalRow): OperatedReversal => ({
+  id: row.id,
+  flightId: row.flight_id,
+  datasetId: row.dataset_id,
+  reason: row.reason,
+  status: row.status,
+  operatedAt: row.operated_at,
+  operatedByEmail: row.operated_by_email,
+  requestedAt: row.requested_at,
+  requestedByEmail: row.requested_by_email,
+  resolvedAt: row.resolved_at,
+  resolvedByEmail: row.resolved_by_email,
+})
+
+const mapAssignmentRunRow = (row: AssignmentRunRow): AssignmentRun => ({
+  id: row.id,
+  datasetId: row.dataset_id,
+  workDate: row.work_date,
+  seed: row.seed,
+  strategy: row.strategy,
+  strategyParams: row.strategy_params ?? {},
+  summary: Array.isArray(row.summary_json) ? row.summary_json : [],
+  updatedFlights: Number(row.updated_flights ?? 0),
+  resultFlags: Array.isArray(row.result_flags) ? row.result_flags : null,
+  restoredFromRunId: row.restored_from_run_id,
+  createdAt: row.created_at,
+  createdByEmail: row.created_by_email,
+})
+
+const mapAssignmentVerificationRow = (row: AssignmentVerificationRow): AssignmentVerification => ({
+  id: row.id,
+  runId: row.run_id,
+  status: row.status,
+  report: row.report,
+  reportDigest: row.report_digest,
+  verifiedByEmail: row.verified_by_email,
+  verifiedAt: row.verified_at,
+})
+
+const mapMappingProfileRow = (row: CsvMappingProfileRow): CsvMappingProfile => ({
+  id: row.id,
+  name: row.name,
+  mapping: row.mapping ?? {},
+  updatedAt: row.updated_at,
+})
+
+const mapCategoryRow = (row: CategoryRow): CategoryDefinition => ({
+  code: row.code,
+  label: row.label,
+  displayOrder: Number(row.display_order ?? 0),
+  defaultTarget: Number(row.default_target ?? 0),
+  color: row.color,
+  active: row.active,
+})
+
+const mapClassificationRuleRow = (row: ClassificationRuleRow): ClassificationRule => ({
+  id: row.id,
+  name: row.name,
+  priority: Number(row.priority ?? 0),
+  category: row.category,
+  tipos: row.tipos ?? [],
+  airportTypes: row.airport_types ?? [],
+  countries: row.countries ?? [],
+  eee: row.eee,
+  blockTime: row.block_time,
+  active: row.active,
+})
+
+const mapTargetRuleRow = (row: TargetRuleRow): TargetRule => ({
+  id: row.id,
+  datasetId: row.dataset_id,
+  name: row.name,
+  kind: row.kind,
+  weekdays: row.weekdays ?? [],
+  startDate: row.start_date,
+  endDate: row.end_date,
+  targets: row.targets ?? {},
+  updatedAt: row.updated_at,
+})
+
+const toFlightPayload = (flight: FlightRecord) => ({
+  flight_key: flight.flightKey,
+  categoria_clasificacion: flight.categoriaClasificacion,
+  categoria_source: flight.categorySource,
+  tipo: flight.tipo,
+  fecha: flight.fecha,
+  hora: flight.hora,
+  cia: flight.cia,
+  dscia: flight.dscia,
+  cdocia: flight.cdocia,
+  vuelo: flight.vuelo,
+  avo: flight.avo,
+  ast: flight.ast,
+  dsmotivo: flight.dsmotivo,
+  org_nxt: flight.orgNxt,
+  prv_fin: flight.prvFin,
+  dsapto: flight.dsapto,
+  dstpapto: flight.dstpapto,
+  cdpais: flight.cdpais,
+  dspais: flight.dspais,
+  dsaclase: flight.dsaclase,
 })
 
 const normalizeEmail = (email: string): string => email.trim().toLowerCase()
 
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, (match) => `\\${match}`)
+
+const toDayStartIso = (isoDate: string, dayOffset = 0): string => {
+  const date = new Date(`${isoDate}T00:00:00`)
+  date.setDate(date.getDate() + dayOffset)
+  return date.toISOString()
+}
+
 const isMissingTableError = (error: unknown): boolean => {
   if (!error || typeof error !== 'object') {
     return false
@@ -198,7 +537,8 @@ export async function listDatasets(limit = 15): Promise<DatasetSummary[]> {
   const supabase = getSupabaseClient()
   const { data, error } = await supabase
     .from('datasets')
-    .select('id,name,created_at')
+    .select(DATASET_COLUMNS)
+    .is('archived_at', null)
     .order('created_at', { ascending: false })
     .limit(limit)
 
@@ -207,26 +547,272 @@ export async function listDatasets(limit = 15): Promise<DatasetSummary[]> {
   }
 
   const rows = (data ?? []) as DatasetRow[]
-  return rows.map((row) => ({
-    id: row.id,
-    name: row.name,
-    createdAt: row.created_at,
-  }))
+  return rows.map(mapDatasetRow)
 }
 
-export async function createDataset(name: string, sourceHash: string): Promise<string> {
+export async function searchDatasets(
+  filters: DatasetSearchFilters,
+  page: number,
+  pageSize: number,
+): Promise<DatasetPage> {
+  const supabase = getSupabaseClient()
+  let query = supabase.from('datasets').select(DATASET_COLUMNS, { count: 'exact' })
+
+  const search = filters.search.trim()
+  if (search) {
+    query = query.ilike('name', `%${escapeLikePattern(search)}%`)
+  }
+  if (filters.fromDate) {
+    query = query.gte('created_at', toDayStartIso(filters.fromDate))
+  }
+  if (filters.toDate) {
+    query = query.lt('created_at', toDayStartIso(filters.toDate, 1))
+  }
+  if (!filters.includeArchived) {
+    query = query.is('archived_at', null)
+  }
+
+  const from = (page - 1) * pageSize
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data ?? []) as DatasetRow[]
+  return {
+    datasets: rows.map(mapDatasetRow),
+    total: count ?? rows.length,
+  }
+}
+
+export async function renameDataset(datasetId: string, name: string): Promise<void> {
+  const supabase = getSupabaseClient()
+  const { error } = await supabase.from('datasets').update({ name: name.trim() }).eq('id', datasetId)
+
+  if (error) {
+    throw error
+  }
+}
+
+export async function setDatasetArchived(datasetId: string, archived: boolean): Promise<void> {
+  const supabase = getSupabaseClient()
+  const { error } = await supabase
+    .from('datasets')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', datasetId)
+
+  if (error) {
+    if (!archived && error.code === '23505') {
+      throw new Error('Ya hay un dataset activo del mismo archivo y dia de trabajo; archivalo antes de restaurar este')
+    }
+    throw error
+  }
+}
+
+export async function deleteDataset(datasetId: string): Promise<void> {
+  const supabase = getSupabaseClient()
+  const { error } = await supabase.from('datasets').delete().eq('id', datasetId)
+
+  if (error) {
+    throw error
+  }
+}
+
+export async function findDatasetBySourceHash(sourceHash: string, workDate: string): Promise<DatasetSummary | null> {
   const supabase = getSupabaseClient()
   const { data, error } = await supabase
     .from('datasets')
-    .insert({ name, source_hash: sourceHash })
-    .select('id')
-    .single()
+    .select(DATASET_COLUMNS)
+    .eq('source_hash', sourceHash)
+    .eq('source_work_date', workDate)
+    .is('archived_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data ?? []) as DatasetRow[]
+  return rows.length > 0 ? mapDatasetRow(rows[0]) : null
+}
+
+export async function createDataset(name: string, sourceHash: string, workDate: string): Promise<DatasetCreationResult> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('create_dataset', {
+    p_name: name,
+    p_source_hash: sourceHash,
+    p_work_date: workDate,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as CreateDatasetRpcRow | undefined
+  if (!row) {
+    throw new Error('No se recibio respuesta al crear el dataset')
+  }
+
+  return {
+    dataset: {
+      id: row.dataset_id,
+      name: row.dataset_name,
+      createdAt: row.created_at,
+      archivedAt: null,
+    },
+    created: row.created,
+  }
+}
+
+export async function listMappingProfiles(): Promise<CsvMappingProfile[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from('csv_mapping_profiles')
+    .select('id,name,mapping,updated_at')
+    .order('updated_at', { ascending: false })
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  const rows = (data ?? []) as CsvMappingProfileRow[]
+  return rows.map(mapMappingProfileRow)
+}
+
+export async function listCategories(): Promise<CategoryDefinition[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from('categories')
+    .select(CATEGORY_COLUMNS)
+    .order('display_order', { ascending: true })
+    .order('code', { ascending: true })
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  const rows = (data ?? []) as CategoryRow[]
+  return rows.map(mapCategoryRow)
+}
+
+export async function saveCategories(categories: CategoryDefinition[]): Promise<CategoryDefinition[]> {
+  const supabase = getSupabaseClient()
+  const payload = categories.map((category) => ({
+    code: category.code.trim(),
+    label: category.label.trim(),
+    display_order: category.displayOrder,
+    default_target: category.defaultTarget,
+    color: category.color,
+    active: category.active,
+  }))
+
+  const { data, error } = await supabase
+    .from('categories')
+    .upsert(payload, { onConflict: 'code' })
+    .select(CATEGORY_COLUMNS)
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data ?? []) as CategoryRow[]
+  return rows.map(mapCategoryRow)
+}
+
+export async function listClassificationRules(): Promise<ClassificationRule[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from('classification_rules')
+    .select(CLASSIFICATION_RULE_COLUMNS)
+    .order('priority', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  const rows = (data ?? []) as ClassificationRuleRow[]
+  return rows.map(mapClassificationRuleRow)
+}
+
+export async function saveClassificationRules(
+  rules: ClassificationRule[],
+  removedRuleIds: string[],
+): Promise<ClassificationRule[]> {
+  const supabase = getSupabaseClient()
+
+  if (removedRuleIds.length > 0) {
+    const { error: deleteError } = await supabase.from('classification_rules').delete().in('id', removedRuleIds)
+    if (deleteError) {
+      throw deleteError
+    }
+  }
+
+  if (rules.length === 0) {
+    return []
+  }
+
+  const payload = rules.map((rule) => ({
+    id: rule.id,
+    name: rule.name.trim(),
+    priority: rule.priority,
+    category: rule.category,
+    tipos: rule.tipos,
+    airport_types: rule.airportTypes,
+    countries: rule.countries,
+    eee: rule.eee,
+    block_time: rule.blockTime,
+    active: rule.active,
+  }))
+
+  const { data, error } = await supabase
+    .from('classification_rules')
+    .upsert(payload, { onConflict: 'id' })
+    .select(CLASSIFICATION_RULE_COLUMNS)
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data ?? []) as ClassificationRuleRow[]
+  return rows.map(mapClassificationRuleRow)
+}
+
+export async function saveMappingProfile(profile: {
+  id: string | null
+  name: string
+  mapping: ColumnMapping
+}): Promise<CsvMappingProfile> {
+  const supabase = getSupabaseClient()
+  const payload = {
+    name: profile.name.trim(),
+    mapping: profile.mapping,
+  }
+
+  const query = profile.id
+    ? supabase.from('csv_mapping_profiles').update(payload).eq('id', profile.id)
+    : supabase.from('csv_mapping_profiles').insert(payload)
+
+  const { data, error } = await query.select('id,name,mapping,updated_at').single()
 
   if (error) {
     throw error
   }
 
-  return data.id as string
+  return mapMappingProfileRow(data as CsvMappingProfileRow)
 }
 
 export async function saveCategoryTargets(datasetId: string, targets: Record<string, number>): Promise<void> {
@@ -246,6 +832,73 @@ export async function saveCategoryTargets(datasetId: string, targets: Record<str
   }
 }
 
+export async function saveTargetRule(datasetId: string, rule: TargetRuleDraft): Promise<TargetRule> {
+  const supabase = getSupabaseClient()
+  const payload = {
+    dataset_id: datasetId,
+    name: rule.name.trim(),
+    kind: rule.kind,
+    weekdays: rule.kind === 'weekday' ? rule.weekdays : [],
+    start_date: rule.kind === 'date_range' ? rule.startDate : null,
+    end_date: rule.kind === 'date_range' ? rule.endDate : null,
+    targets: rule.targets,
+  }
+
+  const query = rule.id
+    ? supabase.from('target_rules').update(payload).eq('id', rule.id)
+    : supabase.from('target_rules').insert(payload)
+
+  const { data, error } = await query.select(TARGET_RULE_COLUMNS).single()
+
+  if (error) {
+    throw error
+  }
+
+  return mapTargetRuleRow(data as TargetRuleRow)
+}
+
+export async function deleteTargetRule(ruleId: string): Promise<void> {
+  const supabase = getSupabaseClient()
+  const { error } = await supabase.from('target_rules').delete().eq('id', ruleId)
+
+  if (error) {
+    throw error
+  }
+}
+
+export async function saveShiftCapacity(datasetId: string, capacity: Record<string, number>): Promise<void> {
+  const supabase = getSupabaseClient()
+  const slots = Object.keys(capacity)
+
+  let deleteQuery = supabase.from('shift_capacity').delete().eq('dataset_id', datasetId)
+  if (slots.length > 0) {
+    deleteQuery = deleteQuery.not('slot_start', 'in', `(${slots.map((slot) => `"${slot}"`).join(',')})`)
+  }
+  const { error: deleteError } = await deleteQuery
+
+  if (deleteError) {
+    throw deleteError
+  }
+
+  if (slots.length === 0) {
+    return
+  }
+
+  const payload = Object.entries(capacity).map(([slotStart, teams]) => ({
+    dataset_id: datasetId,
+    slot_start: slotStart,
+    teams,
+  }))
+
+  const { error } = await supabase.from('shift_capacity').upsert(payload, {
+    onConflict: 'dataset_id,slot_start',
+  })
+
+  if (error) {
+    throw error
+  }
+}
+
 export async function saveDatasetSettings(datasetId: string, workDate: string): Promise<void> {
   const supabase = getSupabaseClient()
   const payload = {
@@ -262,11 +915,20 @@ export async function saveDatasetSettings(datasetId: string, workDate: string):
   }
 }
 
-export async function runAutoAssignment(datasetId: string, workDate: string): Promise<AutoAssignmentResult> {
+export async function runAutoAssignment(
+  datasetId: string,
+  workDate: string,
+  options: AutoAssignmentOptions,
+): Promise<AutoAssignmentResult> {
   const supabase = getSupabaseClient()
   const { data, error } = await supabase.rpc('run_auto_assignment', {
     p_dataset_id: datasetId,
     p_work_date: workDate,
+    p_respect_locked: options.respectLocked,
+    p_from_time: options.fromTime,
+    p_respect_capacity: options.respectCapacity,
+    p_strategy: options.strategy,
+    p_strategy_params: options.strategyParams,
   })
 
   if (error) {
@@ -289,19 +951,73 @@ export async function runAutoAssignment(datasetId: string, workDate: string): Pr
   }
 }
 
+export async function restoreAssignmentRun(runId: string): Promise<AutoAssignmentResult> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('restore_assignment_run', {
+    p_run_id: runId,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as AutoAssignmentRpcRow | undefined
+  if (!row) {
+    throw new Error('No se recibio respuesta de la restauracion')
+  }
+
+  return {
+    runId: row.run_id,
+    seed: row.seed,
+    workDate: row.work_date,
+    updatedFlights: Number(row.updated_flights ?? 0),
+    summary: Array.isArray(row.summary) ? row.summary : [],
+  }
+}
+
+export async function listAssignmentRuns(datasetId: string, workDateIso: string): Promise<AssignmentRun[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from('assignment_runs')
+    .select(ASSIGNMENT_RUN_COLUMNS)
+    .eq('dataset_id', datasetId)
+    .eq('work_date', workDateIso)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  const rows = (data ?? []) as AssignmentRunRow[]
+  return rows.map(mapAssignmentRunRow)
+}
+
+export async function verifyAssignmentRun(runId: string): Promise<AssignmentVerification> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('verify_assignment_run', {
+    p_run_id: runId,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as AssignmentVerificationRow | undefined
+  if (!row) {
+    throw new Error('No se recibio respuesta de la verificacion')
+  }
+
+  return mapAssignmentVerificationRow(row)
+}
+
 export async function insertFlights(datasetId: string, flights: FlightRecord[]): Promise<void> {
   const supabase = getSupabaseClient()
   const payload = flights.map((flight) => ({
     dataset_id: datasetId,
-    flight_key: flight.flightKey,
-    categoria_clasificacion: flight.categoriaClasificacion,
-    tipo: flight.tipo,
-    fecha: flight.fecha,
-    hora: flight.hora,
-    cia: flight.cia,
-    dscia: flight.dscia,
-    cdocia: flight.cdocia,
-    vuelo: flight.vuelo,
+    ...toFlightPayload(flight),
     operated: false,
   }))
 
@@ -315,25 +1031,51 @@ export async function insertFlights(datasetId: string, flights: FlightRecord[]):
   }
 }
 
-export async function loadDataset(datasetId: string): Promise<{
-  flights: FlightRecord[]
-  targets: Record<string, number>
-  workDate: string | null
-  hasSavedConfig: boolean
-}> {
+export async function applyDatasetUpdate(
+  datasetId: string,
+  flights: FlightRecord[],
+  sourceName: string,
+  sourceHash: string,
+): Promise<DatasetUpdateResult> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('apply_dataset_update', {
+    p_dataset_id: datasetId,
+    p_source_name: sourceName,
+    p_source_hash: sourceHash,
+    p_flights: flights.map(toFlightPayload),
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as DatasetUpdateRpcRow | undefined
+  if (!row) {
+    throw new Error('No se recibio respuesta de la actualizacion del dataset')
+  }
+
+  return {
+    updateId: row.update_id,
+    addedFlights: Number(row.added_flights ?? 0),
+    removedFlights: Number(row.removed_flights ?? 0),
+    changedFlights: Number(row.changed_flights ?? 0),
+  }
+}
+
+export async function loadDataset(datasetId: string): Promise<Omit<DatasetSnapshot, 'reversals'>> {
   const supabase = getSupabaseClient()
 
-  const [flightsResponse, targetsResponse, settingsResponse] = await Promise.all([
+  const [flightsResponse, targetsResponse, settingsResponse, capacityResponse, rulesResponse] = await Promise.all([
     supabase
       .from('flights')
-      .select(
-        'id,dataset_id,flight_key,categoria_clasificacion,tipo,fecha,hora,cia,dscia,cdocia,vuelo,operated,operated_at,operated_by_email,service_flag,service_flag_source,service_flag_updated_at,service_flag_updated_by_email,service_flag_run_id',
-      )
+      .select(FLIGHT_COLUMNS)
       .eq('dataset_id', datasetId)
       .order('fecha', { ascending: true })
       .order('hora', { ascending: true }),
     supabase.from('category_targets').select('category,target_percent').eq('dataset_id', datasetId),
     supabase.from('dataset_settings').select('work_date').eq('dataset_id', datasetId).maybeSingle(),
+    supabase.from('shift_capacity').select('slot_start,teams').eq('dataset_id', datasetId),
+    supabase.from('target_rules').select(TARGET_RULE_COLUMNS).eq('dataset_id', datasetId).order('name'),
   ])
 
   if (flightsResponse.error) {
@@ -345,16 +1087,26 @@ export async function loadDataset(datasetId: string): Promise<{
   if (settingsResponse.error && !isMissingTableError(settingsResponse.error)) {
     throw settingsResponse.error
   }
+  if (capacityResponse.error && !isMissingTableError(capacityResponse.error)) {
+    throw capacityResponse.error
+  }
+  if (rulesResponse.error && !isMissingTableError(rulesResponse.error)) {
+    throw rulesResponse.error
+  }
 
   const flightsRows = (flightsResponse.data ?? []) as FlightRow[]
   const targetRows = (targetsResponse.data ?? []) as CategoryTargetRow[]
   const settingsRow = (settingsResponse.data ?? null) as DatasetSettingsRow | null
+  const capacityRows = (capacityResponse.data ?? []) as ShiftCapacityRow[]
+  const ruleRows = (rulesResponse.data ?? []) as TargetRuleRow[]
   const workDate = settingsRow?.work_date ?? null
   const hasSavedConfig = targetRows.length > 0 && Boolean(workDate)
 
   return {
     flights: flightsRows.map(mapFlightRow),
     targets: Object.fromEntries(targetRows.map((row) => [row.category, row.target_percent])),
+    shiftCapacity: Object.fromEntries(capacityRows.map((row) => [row.slot_start, row.teams])),
+    targetRules: ruleRows.map(mapTargetRuleRow),
     workDate,
     hasSavedConfig,
   }
@@ -363,20 +1115,19 @@ export async function loadDataset(datasetId: string): Promise<{
 export async function markFlightOperated(
   flightId: string,
   operatorEmail: string,
+  operatedAt: string = new Date().toISOString(),
 ): Promise<FlightRecord | null> {
   const supabase = getSupabaseClient()
   const { data, error } = await supabase
     .from('flights')
     .update({
       operated: true,
-      operated_at: new Date().toISOString(),
+      operated_at: operatedAt,
       operated_by_email: normalizeEmail(operatorEmail),
     })
     .eq('id', flightId)
     .eq('operated', false)
-    .select(
-      'id,dataset_id,flight_key,categoria_clasificacion,tipo,fecha,hora,cia,dscia,cdocia,vuelo,operated,operated_at,operated_by_email,service_flag,service_flag_source,service_flag_updated_at,service_flag_updated_by_email,service_flag_run_id',
-    )
+    .select(FLIGHT_COLUMNS)
     .maybeSingle()
 
   if (error) {
@@ -390,11 +1141,142 @@ export async function markFlightOperated(
   return mapFlightRow(data as FlightRow)
 }
 
+export async function getFlight(flightId: string): Promise<FlightRecord | null> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.from('flights').select(FLIGHT_COLUMNS).eq('id', flightId).maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data ? mapFlightRow(data as FlightRow) : null
+}
+
+export async function listOperatedReversals(datasetId: string): Promise<OperatedReversal[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from('operated_reversals')
+    .select(OPERATED_REVERSAL_COLUMNS)
+    .eq('dataset_id', datasetId)
+    .order('requested_at', { ascending: false })
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  const rows = (data ?? []) as OperatedReversalRow[]
+  return rows.map(mapOperatedReversalRow)
+}
+
+export async function requestOperatedReversal(flightId: string, reason: string): Promise<OperatedReversal> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('request_operated_reversal', {
+    p_flight_id: flightId,
+    p_reason: reason.trim(),
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return mapOperatedReversalRow(data as OperatedReversalRow)
+}
+
+export async function resolveOperatedReversal(reversalId: string, approve: boolean): Promise<OperatedReversal> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('resolve_operated_reversal', {
+    p_reversal_id: reversalId,
+    p_approve: approve,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return mapOperatedReversalRow(data as OperatedReversalRow)
+}
+
+export async function listFlightEvents(flightId: string): Promise<FlightEvent[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from('flight_events')
+    .select('id,flight_id,event_type,old_values,new_values,actor_email,run_id,created_at')
+    .eq('flight_id', flightId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  const rows = (data ?? []) as FlightEventRow[]
+  return rows.map((row) => ({
+    id: row.id,
+    flightId: row.flight_id,
+    eventType: row.event_type,
+    oldValues: row.old_values ?? {},
+    newValues: row.new_values ?? {},
+    actorEmail: row.actor_email,
+    runId: row.run_id,
+    createdAt: row.created_at,
+  }))
+}
+
+export async function setManualServiceFlag(
+  flightId: string,
+  serviceFlag: ServiceFlag,
+  swapFlightId: string | null,
+): Promise<FlightRecord[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('set_manual_service_flag', {
+    p_flight_id: flightId,
+    p_service_flag: serviceFlag,
+    p_swap_flight_id: swapFlightId,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data ?? []) as FlightRow[]
+  return rows.map(mapFlightRow)
+}
+
+export async function listOperators(): Promise<OperatorAccount[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('list_operators')
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data ?? []) as OperatorRow[]
+  return rows.map((row) => ({ email: row.email, isAdmin: row.is_admin }))
+}
+
+export async function assignFlights(assignments: FlightAssignment[]): Promise<FlightRecord[]> {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc('assign_flights', { p_assignments: assignments })
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data ?? []) as FlightRow[]
+  return rows.map(mapFlightRow)
+}
+
 export async function getDatasetById(datasetId: string): Promise<DatasetSummary | null> {
   const supabase = getSupabaseClient()
   const { data, error } = await supabase
     .from('datasets')
-    .select('id,name,created_at')
+    .select(DATASET_COLUMNS)
     .eq('id', datasetId)
     .maybeSingle()
 
@@ -406,81 +1288,194 @@ export async function getDatasetById(datasetId: string): Promise<DatasetSummary
     return null
   }
 
-  const row = data as DatasetRow
-  return {
-    id: row.id,
-    name: row.name,
-    createdAt: row.created_at,
-  }
+  return mapDatasetRow(data as DatasetRow)
+}
+
+export async function loadDatasetSnapshot(datasetId: string): Promise<DatasetSnapshot> {
+  const [datasetState, reversals] = await Promise.all([loadDataset(datasetId), listOperatedReversals(datasetId)])
+  return { ...datasetState, reversals }
+}
+
+const readPresence = (channel: RealtimeChannel): OperatorPresence[] => {
+  return Object.entries(channel.presenceState<PresencePayload>()).flatMap(([presenceKey, presences]) => {
+    const latest = presences[presences.length - 1]
+    return latest ? [{ presenceKey, email: latest.email, onlineAt: latest.online_at, claim: latest.claim ?? null }] : []
+  })
 }
 
 export function subscribeRealtime(
   datasetId: string,
-  onFlightChange: (flight: FlightRecord) => void,
-  onTargetChange: (targets: Record<string, number>) => void,
-  onSettingsChange: (workDate: string) => void,
-  onStatus: (status: RealtimeStatus) => void,
-): () => void {
-  const supabase = getSupabaseClient()
-  const targetState: Record<string, number> = {}
-
-  const channel = supabase
-    .channel(`dataset-${datasetId}`)
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'flights',
-        filter: `dataset_id=eq.${datasetId}`,
-      },
-      (payload) => {
-        if (!payload.new) {
-          return
-        }
-        onFlightChange(mapFlightRow(payload.new as FlightRow))
-      },
-    )
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'category_targets',
-        filter: `dataset_id=eq.${datasetId}`,
-      },
-      (payload) => {
-        if (!payload.new) {
-          return
-        }
-        const row = payload.new as CategoryTargetRow
-        targetState[row.category] = row.target_percent
-        onTargetChange({ ...targetState })
-      },
-    )
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'dataset_settings',
-        filter: `dataset_id=eq.${datasetId}`,
-      },
-      (payload) => {
-        if (!payload.new) {
-          return
+  operatorEmail: string,
+  onEvent: (event: RealtimeEvent) => void,
+): RealtimeSubscription {
+  const supabase = getSupabaseClient()
+  const filter = `dataset_id=eq.${datasetId}`
+  const presenceKey = crypto.randomUUID()
+  const onlineAt = new Date().toISOString()
+  let channel: RealtimeChannel | null = null
+  let joined = false
+  let claim: FlightClaim | null = null
+  let disposed = false
+  let needsResync = false
+  let resubscribeTimer: ReturnType<typeof setTimeout> | null = null
+
+  const emit = (event: RealtimeEvent): void => {
+    if (!disposed) {
+      onEvent(event)
+    }
+  }
+
+  const resync = async (): Promise<void> => {
+    try {
+      emit({ type: 'snapshot', snapshot: await loadDatasetSnapshot(datasetId) })
+    } catch (snapshotError) {
+      needsResync = true
+      emit({ type: 'snapshot_failed', error: snapshotError })
+    }
+  }
+
+  const trackPresence = (target: RealtimeChannel): void => {
+    const payload: PresencePayload = { email: operatorEmail, online_at: onlineAt, claim }
+    void target.track(payload)
+  }
+
+  const openChannel = (): RealtimeChannel => {
+    const nextChannel = supabase
+      .channel(`dataset-${datasetId}`, { config: { presence: { key: presenceKey } } })
+      .on('presence', { event: 'sync' }, () => {
+        if (nextChannel === channel) {
+          emit({ type: 'presence', operators: readPresence(nextChannel) })
         }
-        const row = payload.new as DatasetSettingsRow
-        if (row.work_date) {
-          onSettingsChange(row.work_date)
+      })
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'flights', filter },
+        (payload: RealtimePostgresChangesPayload<FlightRow>) => {
+          if (payload.eventType !== 'DELETE') {
+            emit({ type: 'flight_upserted', flight: mapFlightRow(payload.new) })
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'category_targets', filter },
+        (payload: RealtimePostgresChangesPayload<CategoryTargetRow>) => {
+          if (payload.eventType !== 'DELETE') {
+            emit({
+              type: 'target_upserted',
+              category: payload.new.category,
+              targetPercent: Number(payload.new.target_percent),
+            })
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'dataset_settings', filter },
+        (payload: RealtimePostgresChangesPayload<DatasetSettingsRow>) => {
+          if (payload.eventType !== 'DELETE' && payload.new.work_date) {
+            emit({ type: 'settings_upserted', workDate: payload.new.work_date })
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'operated_reversals', filter },
+        (payload: RealtimePostgresChangesPayload<OperatedReversalRow>) => {
+          if (payload.eventType !== 'DELETE') {
+            emit({ type: 'reversal_upserted', reversal: mapOperatedReversalRow(payload.new) })
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'flights' },
+        (payload: RealtimePostgresDeletePayload<FlightRow>) => {
+          if (payload.old.id) {
+            emit({ type: 'flight_deleted', flightId: payload.old.id })
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'category_targets' },
+        (payload: RealtimePostgresDeletePayload<CategoryTargetKeyRow>) => {
+          if (payload.old.dataset_id === datasetId && payload.old.category) {
+            emit({ type: 'target_deleted', category: payload.old.category })
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'dataset_settings' },
+        (payload: RealtimePostgresDeletePayload<DatasetSettingsKeyRow>) => {
+          if (payload.old.dataset_id === datasetId) {
+            emit({ type: 'settings_deleted' })
+          }
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'operated_reversals' },
+        (payload: RealtimePostgresDeletePayload<OperatedReversalRow>) => {
+          if (payload.old.id) {
+            emit({ type: 'reversal_deleted', reversalId: payload.old.id })
+          }
+        },
+      )
+
+    nextChannel.subscribe((status) => {
+      if (nextChannel !== channel) {
+        return
+      }
+
+      const realtimeStatus = status as RealtimeStatus
+      emit({ type: 'status', status: realtimeStatus })
+      joined = realtimeStatus === 'SUBSCRIBED'
+
+      if (realtimeStatus === 'SUBSCRIBED') {
+        trackPresence(nextChannel)
+        if (needsResync) {
+          void resync()
         }
-      },
-    )
-    .subscribe((status) => {
-      onStatus(status as RealtimeStatus)
+        needsResync = false
+        return
+      }
+
+      needsResync = true
+      if (realtimeStatus === 'CLOSED' && !disposed && !resubscribeTimer) {
+        resubscribeTimer = setTimeout(() => {
+          resubscribeTimer = null
+          channel = null
+          void supabase.removeChannel(nextChannel).then(() => {
+            if (!disposed) {
+              channel = openChannel()
+            }
+          })
+        }, REALTIME_RESUBSCRIBE_MS)
+      }
     })
 
-  return () => {
-    void supabase.removeChannel(channel)
+    return nextChannel
+  }
+
+  channel = openChannel()
+
+  return {
+    unsubscribe: () => {
+      disposed = true
+      if (resubscribeTimer) {
+        clearTimeout(resubscribeTimer)
+      }
+      if (channel) {
+        void supabase.removeChannel(channel)
+      }
+    },
+    updateClaim: (nextClaim) => {
+      claim = nextClaim
+      if (channel && joined) {
+        trackPresence(channel)
+      }
+    },
   }
 }
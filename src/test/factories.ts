@@ -0,0 +1,59 @@
+import type { FlightRecord, ImportSource } from '../types'
+
+export const buildFlight = (overrides: Partial<FlightRecord> = {}): FlightRecord => {
+  const flight: FlightRecord = {
+    id: overrides.id ?? `flight-${overrides.vuelo ?? '1'}`,
+    datasetId: 'dataset-1',
+    flightKey: '',
+    categoriaClasificacion: '5.6 OTROS VUELOS',
+    categorySource: 'file',
+    tipo: 'Salida',
+    fecha: '10/12/2024',
+    hora: '06:00',
+    cia: 'IB',
+    dscia: 'IBERIA',
+    cdocia: 'IBE',
+    vuelo: '1',
+    avo: '',
+    ast: '',
+    dsmotivo: '',
+    orgNxt: '',
+    prvFin: '',
+    dsapto: 'MADRID',
+    dstpapto: '',
+    cdpais: 'ES',
+    dspais: 'ESPANA',
+    dsaclase: '',
+    operated: false,
+    operatedAt: null,
+    operatedByEmail: null,
+    serviceFlag: null,
+    serviceFlagSource: null,
+    serviceFlagUpdatedAt: null,
+    serviceFlagUpdatedByEmail: null,
+    serviceFlagRunId: null,
+    assignedToEmail: null,
+    assignedAt: null,
+    assignedByEmail: null,
+    ...overrides,
+  }
+  return {
+    ...flight,
+    flightKey:
+      overrides.flightKey ??
+      [flight.fecha, flight.hora, flight.cdocia, flight.vuelo, flight.categoriaClasificacion]
+        .map((part) => part.trim().toUpperCase())
+        .join('|'),
+  }
+}
+
+export const buildCsvSource = (headers: string[], rows: string[][]): ImportSource => ({
+  format: 'csv',
+  headers,
+  rows: rows.map((row) => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? '']))),
+  errors: [],
+  delimiter: ',',
+  encoding: 'utf-8',
+  sheetNames: [],
+  sheetName: null,
+})
@@ -1,11 +1,13 @@
 export type AppMode = 'guest' | 'supabase'
 export type ServiceFlag = 'ATENDER' | 'NO_ATENDER'
+export type CategorySource = 'file' | 'auto' | 'manual'
 
 export interface FlightRecord {
   id: string
   datasetId: string | null
   flightKey: string
   categoriaClasificacion: string
+  categorySource: CategorySource
   tipo: string
   fecha: string
   hora: string
@@ -13,6 +15,16 @@ export interface FlightRecord {
   dscia: string
   cdocia: string
   vuelo: string
+  avo: string
+  ast: string
+  dsmotivo: string
+  orgNxt: string
+  prvFin: string
+  dsapto: string
+  dstpapto: string
+  cdpais: string
+  dspais: string
+  dsaclase: string
   operated: boolean
   operatedAt: string | null
   operatedByEmail: string | null
@@ -21,11 +33,191 @@ export interface FlightRecord {
   serviceFlagUpdatedAt: string | null
   serviceFlagUpdatedByEmail: string | null
   serviceFlagRunId: string | null
+  assignedToEmail: string | null
+  assignedAt: string | null
+  assignedByEmail: string | null
+}
+
+export type CsvIssueProblem =
+  | 'missing_value'
+  | 'invalid_date'
+  | 'invalid_time'
+  | 'unknown_category'
+  | 'auto_classified'
+  | 'unclassified'
+  | 'duplicate_key'
+  | 'parse_error'
+
+export interface CsvValidationIssue {
+  row: number
+  column: string
+  problem: CsvIssueProblem
+  severity: 'error' | 'warning'
+  value: string
+  duplicateOfRow?: number
+}
+
+export interface CsvValidationReport {
+  totalRows: number
+  acceptedRows: number
+  droppedRows: number
+  issues: CsvValidationIssue[]
+}
+
+export interface AutoClassification {
+  flightId: string
+  row: number
+  ruleId: string
+  ruleName: string
+  blockMinutes: number | null
 }
 
 export interface ParsedCsvResult {
   flights: FlightRecord[]
   categories: string[]
+  classifications: AutoClassification[]
+  report: CsvValidationReport
+}
+
+export type ColumnMapping = Record<string, string[]>
+
+export interface CategoryDefinition {
+  code: string
+  label: string
+  displayOrder: number
+  defaultTarget: number
+  color: string
+  active: boolean
+}
+
+export type ClassificationEeeScope = 'any' | 'eee' | 'non_eee'
+export type ClassificationBlockTime = 'any' | 'over_5h' | 'up_to_5h'
+
+export interface ClassificationRule {
+  id: string
+  name: string
+  priority: number
+  category: string
+  tipos: string[]
+  airportTypes: string[]
+  countries: string[]
+  eee: ClassificationEeeScope
+  blockTime: ClassificationBlockTime
+  active: boolean
+}
+
+export interface ClassificationRuleDraft {
+  id: string
+  name: string
+  priority: number
+  category: string
+  tipos: string
+  airportTypes: string
+  countries: string
+  eee: ClassificationEeeScope
+  blockTime: ClassificationBlockTime
+  active: boolean
+}
+
+export type TargetRuleKind = 'weekday' | 'date_range'
+
+export interface TargetRule {
+  id: string
+  datasetId: string
+  name: string
+  kind: TargetRuleKind
+  weekdays: number[]
+  startDate: string | null
+  endDate: string | null
+  targets: Record<string, number>
+  updatedAt: string
+}
+
+export interface TargetRuleDraft {
+  id: string | null
+  name: string
+  kind: TargetRuleKind
+  weekdays: number[]
+  startDate: string
+  endDate: string
+  targets: Record<string, number>
+}
+
+export interface CsvMappingProfile {
+  id: string
+  name: string
+  mapping: ColumnMapping
+  updatedAt: string
+}
+
+export interface ImportSource {
+  format: 'csv' | 'xlsx'
+  headers: string[]
+  rows: Record<string, string>[]
+  errors: Array<{ rowIndex: number; message: string }>
+  delimiter: string | null
+  encoding: string | null
+  sheetNames: string[]
+  sheetName: string | null
+}
+
+export interface CsvPreview {
+  headers: string[]
+  rows: Record<string, string>[]
+}
+
+export interface ImportOptions {
+  autoGuestSeed?: boolean
+  sheetName?: string
+  updateActive?: boolean
+}
+
+export interface SheetChoice {
+  file: File
+  sheetNames: string[]
+  sheetName: string
+  options?: ImportOptions
+}
+
+export interface MappingDraft {
+  file: File
+  source: ImportSource
+  preview: CsvPreview
+  options?: ImportOptions
+  profileId: string | null
+  name: string
+  columns: Record<string, string>
+}
+
+export interface PendingImport {
+  file: File
+  source: ImportSource
+  profile: CsvMappingProfile
+  parsed: ParsedCsvResult
+  options?: ImportOptions
+  categoryOverrides: Record<string, string>
+}
+
+export interface FlightDiff {
+  added: FlightRecord[]
+  removed: FlightRecord[]
+  keptOperated: FlightRecord[]
+  changed: Array<{ before: FlightRecord; after: FlightRecord; fields: Array<keyof FlightRecord> }>
+  unchanged: number
+}
+
+export interface PendingUpdate {
+  file: File
+  source: ImportSource
+  parsed: ParsedCsvResult
+  diff: FlightDiff
+}
+
+export interface DatasetUpdateResult {
+  updateId: string
+  addedFlights: number
+  removedFlights: number
+  changedFlights: number
 }
 
 export interface CategoryProgress {
@@ -39,10 +231,187 @@ export interface CategoryProgress {
   achieved: boolean
 }
 
+export type ForecastStatus = 'achieved' | 'on_track' | 'at_risk' | 'unreachable'
+
+export interface CategoryForecast {
+  category: string
+  minimumRequired: number
+  operated: number
+  pendingFlights: number
+  operatedRate: number | null
+  rateSource: 'category' | 'day' | 'none'
+  projectedOperated: number
+  status: ForecastStatus
+  deadline: string | null
+}
+
+export interface OverrideDraft {
+  flight: FlightRecord
+  serviceFlag: ServiceFlag
+  swapFlightId: string
+}
+
+export interface ServiceFlagOverridePreview {
+  category: string
+  total: number
+  requiredCount: number
+  attendBefore: number
+  attendAfter: number
+  swapCandidates: FlightRecord[]
+  swapFlight: FlightRecord | null
+}
+
+export type OperatedReversalStatus = 'pending' | 'approved' | 'rejected'
+
+export interface OperatedReversal {
+  id: string
+  flightId: string
+  datasetId: string
+  reason: string
+  status: OperatedReversalStatus
+  operatedAt: string
+  operatedByEmail: string
+  requestedAt: string
+  requestedByEmail: string
+  resolvedAt: string | null
+  resolvedByEmail: string | null
+}
+
+export type RealtimeStatus = 'SUBSCRIBED' | 'CLOSED' | 'CHANNEL_ERROR' | 'TIMED_OUT'
+
+export interface DatasetSnapshot {
+  flights: FlightRecord[]
+  targets: Record<string, number>
+  shiftCapacity: Record<string, number>
+  targetRules: TargetRule[]
+  workDate: string | null
+  hasSavedConfig: boolean
+  reversals: OperatedReversal[]
+}
+
+export interface CachedDatasetSnapshot {
+  datasetId: string
+  datasetName: string
+  snapshot: DatasetSnapshot
+  savedAt: string
+}
+
+export interface OperatedOutboxEntry {
+  id: string
+  datasetId: string
+  flightId: string
+  vuelo: string
+  operatorEmail: string
+  operatedAt: string
+  queuedAt: string
+}
+
+export interface OperatedMarkConflict {
+  entry: OperatedOutboxEntry
+  reason: 'already_operated' | 'failed'
+  operatedByEmail: string | null
+  operatedAt: string | null
+  message: string | null
+}
+
+export interface OperatorAccount {
+  email: string
+  isAdmin: boolean
+}
+
+export interface FlightAssignment {
+  flightId: string
+  email: string | null
+}
+
+export interface OperatorBalance {
+  email: string
+  assigned: number
+  operated: number
+  pending: number
+}
+
+export interface FlightClaim {
+  flightId: string
+  operatorEmail: string
+  claimedAt: string
+  expiresAt: string
+}
+
+export interface OperatorPresence {
+  presenceKey: string
+  email: string
+  onlineAt: string
+  claim: FlightClaim | null
+}
+
+export interface RealtimeSubscription {
+  unsubscribe: () => void
+  updateClaim: (claim: FlightClaim | null) => void
+}
+
+export type RealtimeEvent =
+  | { type: 'flight_upserted'; flight: FlightRecord }
+  | { type: 'flight_deleted'; flightId: string }
+  | { type: 'target_upserted'; category: string; targetPercent: number }
+  | { type: 'target_deleted'; category: string }
+  | { type: 'settings_upserted'; workDate: string }
+  | { type: 'settings_deleted' }
+  | { type: 'reversal_upserted'; reversal: OperatedReversal }
+  | { type: 'reversal_deleted'; reversalId: string }
+  | { type: 'snapshot'; snapshot: DatasetSnapshot }
+  | { type: 'snapshot_failed'; error: unknown }
+  | { type: 'presence'; operators: OperatorPresence[] }
+  | { type: 'status'; status: RealtimeStatus }
+
+export type FlightEventType =
+  | 'created'
+  | 'operated'
+  | 'operated_reverted'
+  | 'service_flag'
+  | 'assigned'
+  | 'fields_updated'
+  | 'deleted'
+
+export interface FlightEvent {
+  id: number
+  flightId: string
+  eventType: FlightEventType
+  oldValues: Record<string, unknown>
+  newValues: Record<string, unknown>
+  actorEmail: string | null
+  runId: string | null
+  createdAt: string
+}
+
 export interface DatasetSummary {
   id: string
   name: string
   createdAt: string
+  archivedAt: string | null
+}
+
+export interface DuplicateUpload {
+  fileName: string
+  dataset: DatasetSummary
+  concurrent: boolean
+}
+
+export interface DatasetSearchFilters {
+  search: string
+  fromDate: string
+  toDate: string
+  includeArchived: boolean
+}
+
+export interface DatasetPage {
+  datasets: DatasetSummary[]
+  total: number
+}
+
+export interface DatasetCreationResult {
+  dataset: DatasetSummary
+  created: boolean
 }
 
 export interface AutoAssignmentSummary {
@@ -51,6 +420,93 @@ export interface AutoAssignmentSummary {
   targetPercent: number
   requiredCount: number
   assignedCount: number
+  lockedCount?: number
+  pastCount?: number
+  shortfall?: number
+  blockedSlots?: string[]
+}
+
+export type AssignmentStrategyId = 'uniform' | 'hour_stratified' | 'airline_round_robin' | 'destination_weighted'
+
+export interface AssignmentStrategyParams {
+  bucketMinutes?: number
+  weights?: Record<string, number>
+}
+
+export interface AutoAssignmentOptions {
+  respectLocked: boolean
+  fromTime: string | null
+  respectCapacity: boolean
+  strategy: AssignmentStrategyId
+  strategyParams: AssignmentStrategyParams
+}
+
+export interface AssignmentRunFlag {
+  id: string
+  flightKey: string
+  serviceFlag: ServiceFlag
+}
+
+export interface AssignmentRun {
+  id: string
+  datasetId: string
+  workDate: string
+  seed: string
+  strategy: AssignmentStrategyId
+  strategyParams: AssignmentStrategyParams
+  summary: AutoAssignmentSummary[]
+  updatedFlights: number
+  resultFlags: AssignmentRunFlag[] | null
+  restoredFromRunId: string | null
+  createdAt: string
+  createdByEmail: string | null
+}
+
+export interface AssignmentRunChange {
+  flightId: string
+  flightKey: string
+  before: ServiceFlag | null
+  after: ServiceFlag | null
+}
+
+export interface AssignmentRunRestorePreview {
+  changes: AssignmentRunChange[]
+  keptOperated: number
+}
+
+export type AssignmentVerificationStatus = 'verified' | 'failed'
+
+export interface AssignmentVerificationMismatch {
+  flightKey: string
+  vuelo: string | null
+  expected: ServiceFlag | null
+  actual: ServiceFlag | null
+}
+
+export interface AssignmentVerificationReport {
+  runId: string
+  workDate: string
+  seed: string
+  strategy: AssignmentStrategyId
+  restoredFromRunId?: string | null
+  checkedFlights: number
+  expectedAttend: number
+  matchedFlights: number
+  mismatchedFlights: number
+  supersededFlights: number
+  skippedFlights?: number
+  unexpectedFlights: number
+  mismatches: AssignmentVerificationMismatch[]
+}
+
+export interface AssignmentVerification {
+  id: string
+  runId: string
+  status: AssignmentVerificationStatus
+  report: AssignmentVerificationReport
+  reportDigest: string
+  verifiedByEmail: string
+  verifiedAt: string
 }
 
 export interface AutoAssignmentResult {
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { buildFlight } from '../test/factories'
+import { buildOperatorBalance, planBalancedAssignments } from './assignments'
+
+describe('buildOperatorBalance', () => {
+  it('counts assigned, operated and pending flights per operator, most pending first', () => {
+    const flights = [
+      buildFlight({ vuelo: '1', assignedToEmail: 'ana@example.com', operated: true }),
+      buildFlight({ vuelo: '2', assignedToEmail: 'ana@example.com' }),
+      buildFlight({ vuelo: '3', assignedToEmail: 'luis@example.com' }),
+      buildFlight({ vuelo: '4', assignedToEmail: 'luis@example.com' }),
+      buildFlight({ vuelo: '5', assignedToEmail: 'fuera@example.com' }),
+      buildFlight({ vuelo: '6' }),
+    ]
+
+    expect(buildOperatorBalance(flights, ['ana@example.com', 'luis@example.com', 'marta@example.com'])).toEqual([
+      { email: 'luis@example.com', assigned: 2, operated: 0, pending: 2 },
+      { email: 'ana@example.com', assigned: 2, operated: 1, pending: 1 },
+      { email: 'fuera@example.com', assigned: 1, operated: 0, pending: 1 },
+      { email: 'marta@example.com', assigned: 0, operated: 0, pending: 0 },
+    ])
+  })
+})
+
+describe('planBalancedAssignments', () => {
+  it('hands each flight to the operator with the fewest pending flights', () => {
+    const flights = [buildFlight({ id: 'f1' }), buildFlight({ id: 'f2' }), buildFlight({ id: 'f3' })]
+    const candidates = [
+      { email: 'luis@example.com', assigned: 1, operated: 0, pending: 1 },
+      { email: 'ana@example.com', assigned: 0, operated: 0, pending: 0 },
+    ]
+
+    expect(planBalancedAssignments(flights, candidates)).toEqual([
+      { flightId: 'f1', email: 'ana@example.com' },
+      { flightId: 'f2', email: 'ana@example.com' },
+      { flightId: 'f3', email: 'luis@example.com' },
+    ])
+  })
+
+  it('plans nothing without candidates', () => {
+    expect(planBalancedAssignments([buildFlight()], [])).toEqual([])
+  })
+})
@@ -0,0 +1,39 @@
+import type { FlightAssignment, FlightRecord, OperatorBalance } from '../types'
+
+export function buildOperatorBalance(flights: FlightRecord[], operatorEmails: string[]): OperatorBalance[] {
+  const balances = new Map<string, OperatorBalance>(
+    operatorEmails.map((email) => [email, { email, assigned: 0, operated: 0, pending: 0 }]),
+  )
+
+  for (const flight of flights) {
+    if (!flight.assignedToEmail) {
+      continue
+    }
+    let balance = balances.get(flight.assignedToEmail)
+    if (!balance) {
+      balance = { email: flight.assignedToEmail, assigned: 0, operated: 0, pending: 0 }
+      balances.set(flight.assignedToEmail, balance)
+    }
+    balance.assigned += 1
+    if (flight.operated) {
+      balance.operated += 1
+    } else {
+      balance.pending += 1
+    }
+  }
+
+  return [...balances.values()].sort((a, b) => b.pending - a.pending || a.email.localeCompare(b.email))
+}
+
+export function planBalancedAssignments(flights: FlightRecord[], candidates: OperatorBalance[]): FlightAssignment[] {
+  if (candidates.length === 0) {
+    return []
+  }
+
+  const load = new Map(candidates.map((balance) => [balance.email, balance.pending]))
+  return flights.map((flight) => {
+    const [email, pending] = [...load.entries()].sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))[0]
+    load.set(email, pending + 1)
+    return { flightId: flight.id, email }
+  })
+}
@@ -0,0 +1,278 @@
+import { PGlite } from '@electric-sql/pglite'
+import { readFile } from 'node:fs/promises'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { buildFlight } from '../test/factories'
+import type { AssignmentStrategyId, AssignmentStrategyParams, AutoAssignmentOptions, FlightRecord } from '../types'
+import { decideAutoAssignment, describeAssignmentSummary, requiredAttendCount } from './autoAssignment'
+import { parseCsvTimeToMinutes } from './dates'
+import { ASSIGNMENT_STRATEGIES } from './strategies'
+
+const SCHEMA_FILE = new URL('../../supabase/schema.sql', import.meta.url)
+const SQL_FUNCTIONS = ['parse_flight_minutes', 'flight_shift_slot', 'auto_assignment_plan', 'auto_assignment_decide']
+
+const CATEGORIES = ['5.3 DOMESTICO NO PENINSULAR', '5.6 OTROS VUELOS', 'a charter', 'Z ferry']
+const TARGETS: Record<string, number> = {
+  '5.3 DOMESTICO NO PENINSULAR': 35,
+  '5.6 OTROS VUELOS': 12.5,
+  'a charter': 64.4,
+  'Z ferry': 100,
+}
+const AIRLINES = ['IBE', 'VLG', 'RYR', 'AEA']
+const DESTINATIONS = ['MADRID', 'BARCELONA', 'PALMA', 'TENERIFE', 'MÁLAGA']
+const STRATEGY_PARAMS: Record<AssignmentStrategyId, AssignmentStrategyParams> = {
+  uniform: {},
+  hour_stratified: { bucketMinutes: 90 },
+  airline_round_robin: {},
+  destination_weighted: { weights: { MADRID: 3, PALMA: 0, 'MÁLAGA': 0.5 } },
+}
+const STRATEGY_IDS = Object.keys(ASSIGNMENT_STRATEGIES) as AssignmentStrategyId[]
+
+const extractFunction = (schema: string, name: string): string => {
+  const pattern = new RegExp(`create or replace function public\\.${name}\\([\\s\\S]*?\\n\\$\\$;`, 'g')
+  const definition = [...schema.matchAll(pattern)].at(-1)?.[0]
+  if (!definition) {
+    throw new Error(`No se encuentra la funcion ${name} en schema.sql`)
+  }
+  return definition
+}
+
+const createRandom = (seed: number) => {
+  let state = seed
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0
+    let value = Math.imul(state ^ (state >>> 15), 1 | state)
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value
+    return ((value ^ (value >>> 14)) >>> 0) / 2 ** 32
+  }
+}
+
+const buildDayFlights = (count: number): FlightRecord[] => {
+  const random = createRandom(20261019)
+  const pick = <T,>(values: T[]): T => values[Math.floor(random() * values.length)]
+  return Array.from({ length: count }, (_, index) => {
+    const minutes = 300 + Math.floor(random() * 1140)
+    const source = pick([null, null, 'auto', 'manual'] as const)
+    return buildFlight({
+      id: `00000000-0000-4000-8000-${String(index + 1).padStart(12, '0')}`,
+      vuelo: String(1000 + index),
+      categoriaClasificacion: pick(CATEGORIES),
+      hora: index % 23 === 0 ? '' : `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`,
+      cdocia: pick(AIRLINES),
+      dsapto: pick(DESTINATIONS),
+      operated: random() < 0.2,
+      serviceFlag: source ? pick(['ATENDER', 'NO_ATENDER'] as const) : null,
+      serviceFlagSource: source,
+    })
+  })
+}
+
+const DAY_FLIGHTS = buildDayFlights(90)
+const SHIFT_CAPACITY = Object.fromEntries(
+  ['06:00', '07:30', '09:00', '11:00', '12:30', '15:00', '16:30', '18:00', '20:30', '22:00'].map((slot, index) => [
+    slot,
+    index % 3,
+  ]),
+)
+
+const toSqlFlights = (flights: FlightRecord[]): string =>
+  JSON.stringify(
+    flights.map((flight) => ({
+      id: flight.id,
+      flight_key: flight.flightKey,
+      categoria_clasificacion: flight.categoriaClasificacion,
+      hora: flight.hora,
+      cdocia: flight.cdocia,
+      dsapto: flight.dsapto,
+      service_flag: flight.serviceFlag,
+      service_flag_source: flight.serviceFlagSource,
+      operated: flight.operated,
+      target_percent: TARGETS[flight.categoriaClasificacion],
+    })),
+  )
+
+interface SqlDecisionRow {
+  id: string
+  categoria_clasificacion: string
+  next_flag: string
+  keep_past: boolean
+  keep_manual: boolean
+  required_count: number
+  shortfall: number
+  blocked_slots: string[]
+}
+
+describe('requiredAttendCount', () => {
+  it('rounds up the target share of flights without floating point drift', () => {
+    expect(requiredAttendCount(3, 33.33)).toBe(1)
+    expect(requiredAttendCount(20, 35)).toBe(7)
+    expect(requiredAttendCount(250, 64.4)).toBe(161)
+    expect(requiredAttendCount(4, 100)).toBe(4)
+  })
+})
+
+describe('describeAssignmentSummary', () => {
+  it('mentions locked flights and the capacity shortfall only when present', () => {
+    expect(
+      describeAssignmentSummary({ category: 'a charter', total: 10, targetPercent: 50, requiredCount: 5, assignedCount: 5 }),
+    ).toBe('a charter: 5/10')
+    expect(
+      describeAssignmentSummary({
+        category: 'Z ferry',
+        total: 4,
+        targetPercent: 100,
+        requiredCount: 4,
+        assignedCount: 3,
+        lockedCount: 1,
+        shortfall: 1,
+        blockedSlots: ['06:00'],
+      }),
+    ).toBe('Z ferry: 3/4 (1 fijos), faltan 1 por capacidad en 06:00')
+  })
+})
+
+describe('decideAutoAssignment', () => {
+  it('rejects a cut-off time that is not a valid hour', () => {
+    const options: AutoAssignmentOptions = {
+      respectLocked: false,
+      fromTime: '25:00',
+      respectCapacity: false,
+      strategy: 'uniform',
+      strategyParams: {},
+    }
+
+    expect(() => decideAutoAssignment(DAY_FLIGHTS, () => 50, {}, 'seed', options)).toThrow('Hora de corte no valida')
+  })
+})
+
+describe('guest auto assignment matches the SQL plan', () => {
+  let db: PGlite
+
+  beforeAll(async () => {
+    const schema = await readFile(SCHEMA_FILE, 'utf8')
+    db = new PGlite()
+    for (const name of SQL_FUNCTIONS) {
+      await db.exec(extractFunction(schema, name))
+    }
+  }, 60_000)
+
+  afterAll(async () => {
+    await db?.close()
+  })
+
+  it.each(STRATEGY_IDS.flatMap((strategy) => ['c0ffee42', '9f1b2a7e'].map((seed) => ({ strategy, seed }))))(
+    'ranks every category in the same order as auto_assignment_plan ($strategy, seed $seed)',
+    async ({ strategy, seed }) => {
+      const { rows } = await db.query<{ id: string; categoria_clasificacion: string }>(
+        `select p.id, p.categoria_clasificacion
+         from public.auto_assignment_plan($1::jsonb, false, null, $2, $3, $4::jsonb) p
+         order by p.categoria_clasificacion, p.category_rank`,
+        [toSqlFlights(DAY_FLIGHTS), seed, strategy, JSON.stringify(STRATEGY_PARAMS[strategy])],
+      )
+
+      for (const category of CATEGORIES) {
+        const ranked = ASSIGNMENT_STRATEGIES[strategy].rank(
+          DAY_FLIGHTS.filter((flight) => flight.categoriaClasificacion === category),
+          seed,
+          STRATEGY_PARAMS[strategy],
+        )
+        expect(ranked.map((flight) => flight.id)).toEqual(
+          rows.filter((row) => row.categoria_clasificacion === category).map((row) => row.id),
+        )
+      }
+    },
+  )
+
+  it('gives a contested slot to the first category in code point order, like collate "C"', async () => {
+    const flights = [
+      buildFlight({ id: '00000000-0000-4000-8000-000000000001', vuelo: '1', categoriaClasificacion: 'a charter' }),
+      buildFlight({ id: '00000000-0000-4000-8000-000000000002', vuelo: '2', categoriaClasificacion: 'Z ferry' }),
+    ]
+    const { rows } = await db.query<SqlDecisionRow>(
+      `select d.id, d.next_flag from public.auto_assignment_decide($1::jsonb, $2::jsonb, false, null, 's', 'uniform', '{}', true) d`,
+      [toSqlFlights(flights), JSON.stringify({ '06:00': 1 })],
+    )
+
+    const decision = decideAutoAssignment(flights, (category) => TARGETS[category], { '06:00': 1 }, 's', {
+      respectLocked: false,
+      fromTime: null,
+      respectCapacity: true,
+      strategy: 'uniform',
+      strategyParams: {},
+    })
+
+    expect(Object.fromEntries(decision.nextFlags)).toEqual({
+      '00000000-0000-4000-8000-000000000001': 'NO_ATENDER',
+      '00000000-0000-4000-8000-000000000002': 'ATENDER',
+    })
+    expect(Object.fromEntries(decision.nextFlags)).toEqual(Object.fromEntries(rows.map((row) => [row.id, row.next_flag])))
+  })
+
+  it.each(
+    STRATEGY_IDS.flatMap((strategy) =>
+      [false, true].flatMap((respectLocked) =>
+        [null, '12:00'].flatMap((fromTime) =>
+          [false, true].map((respectCapacity) => ({ strategy, respectLocked, fromTime, respectCapacity })),
+        ),
+      ),
+    ),
+  )(
+    'decides the same flags as auto_assignment_decide ($strategy, locked $respectLocked, from $fromTime, capacity $respectCapacity)',
+    async ({ strategy, respectLocked, fromTime, respectCapacity }) => {
+      const seed = 'c0ffee42'
+      const options: AutoAssignmentOptions = {
+        respectLocked,
+        fromTime,
+        respectCapacity,
+        strategy,
+        strategyParams: STRATEGY_PARAMS[strategy],
+      }
+      const { rows } = await db.query<SqlDecisionRow>(
+        `select d.id, d.categoria_clasificacion, d.next_flag, d.keep_past, d.keep_manual, d.required_count, d.shortfall,
+           d.blocked_slots
+         from public.auto_assignment_decide($1::jsonb, $2::jsonb, $3, $4, $5, $6, $7::jsonb, $8) d`,
+        [
+          toSqlFlights(DAY_FLIGHTS),
+          JSON.stringify(SHIFT_CAPACITY),
+          respectLocked,
+          fromTime ? parseCsvTimeToMinutes(fromTime) : null,
+          seed,
+          strategy,
+          JSON.stringify(STRATEGY_PARAMS[strategy]),
+          respectCapacity,
+        ],
+      )
+
+      const decision = decideAutoAssignment(
+        DAY_FLIGHTS,
+        (category) => TARGETS[category],
+        SHIFT_CAPACITY,
+        seed,
+        options,
+      )
+
+      expect(decision.summary.some((item) => (item.shortfall ?? 0) > 0)).toBe(respectCapacity)
+
+      const updatedRows = rows.filter((row) => !row.keep_past && !row.keep_manual)
+      expect(Object.fromEntries(decision.nextFlags)).toEqual(
+        Object.fromEntries(updatedRows.map((row) => [row.id, row.next_flag])),
+      )
+
+      const sqlByCategory = new Map(rows.map((row) => [row.categoria_clasificacion, row]))
+      expect(
+        decision.summary.map(({ category, requiredCount, shortfall, blockedSlots }) => ({
+          category,
+          requiredCount,
+          shortfall,
+          blockedSlots,
+        })),
+      ).toEqual(
+        [...sqlByCategory.keys()].sort().map((category) => ({
+          category,
+          requiredCount: sqlByCategory.get(category)?.required_count,
+          shortfall: sqlByCategory.get(category)?.shortfall,
+          blockedSlots: sqlByCategory.get(category)?.blocked_slots,
+        })),
+      )
+    },
+  )
+})
@@ -0,0 +1,119 @@
+import type { AutoAssignmentOptions, AutoAssignmentSummary, FlightRecord, ServiceFlag } from '../types'
+import { pickWithShiftCapacity } from './capacity'
+import { parseCsvTimeToMinutes } from './dates'
+import { ASSIGNMENT_STRATEGIES } from './strategies'
+
+export interface AutoAssignmentDecision {
+  nextFlags: Map<string, ServiceFlag>
+  summary: AutoAssignmentSummary[]
+}
+
+export function requiredAttendCount(total: number, targetPercent: number): number {
+  return Math.min(total, Math.ceil((total * Math.round(targetPercent * 100)) / 10_000))
+}
+
+export function decideAutoAssignment(
+  dayFlights: FlightRecord[],
+  targetPercentOf: (category: string) => number,
+  shiftCapacity: Record<string, number>,
+  seed: string,
+  options: AutoAssignmentOptions,
+): AutoAssignmentDecision {
+  const fromMinutes = options.fromTime ? parseCsvTimeToMinutes(options.fromTime) : null
+  if (options.fromTime && fromMinutes === null) {
+    throw new Error('Hora de corte no valida')
+  }
+
+  const isPast = (flight: FlightRecord): boolean => {
+    const flightMinutes = parseCsvTimeToMinutes(flight.hora)
+    return fromMinutes !== null && flightMinutes !== null && flightMinutes < fromMinutes
+  }
+  const isKeptManual = (flight: FlightRecord): boolean =>
+    options.respectLocked && flight.serviceFlagSource === 'manual' && !isPast(flight)
+  const isKeptOperated = (flight: FlightRecord): boolean =>
+    options.respectLocked && flight.operated && flight.serviceFlagSource !== 'manual' && !isPast(flight)
+  const isLocked = (flight: FlightRecord): boolean => isPast(flight) || isKeptManual(flight) || isKeptOperated(flight)
+  const isLockedAttend = (flight: FlightRecord): boolean => {
+    if (isPast(flight)) {
+      return flight.operated
+    }
+    return isKeptManual(flight) ? flight.serviceFlag === 'ATENDER' : isKeptOperated(flight)
+  }
+
+  const byCategory = new Map<string, FlightRecord[]>()
+  for (const flight of dayFlights) {
+    const bucket = byCategory.get(flight.categoriaClasificacion)
+    if (bucket) {
+      bucket.push(flight)
+    } else {
+      byCategory.set(flight.categoriaClasificacion, [flight])
+    }
+  }
+
+  const rankedByCategory = new Map<string, FlightRecord[]>()
+  const remainingByCategory = new Map<string, number>()
+  const lockedAttendFlights: FlightRecord[] = []
+
+  for (const [category, categoryFlights] of byCategory.entries()) {
+    const lockedAttend = categoryFlights.filter(isLockedAttend)
+    const requiredCount = requiredAttendCount(categoryFlights.length, targetPercentOf(category))
+    lockedAttendFlights.push(...lockedAttend)
+    remainingByCategory.set(category, Math.max(0, requiredCount - lockedAttend.length))
+    rankedByCategory.set(
+      category,
+      ASSIGNMENT_STRATEGIES[options.strategy].rank(
+        categoryFlights.filter((flight) => !isLocked(flight)),
+        seed,
+        options.strategyParams,
+      ),
+    )
+  }
+
+  const capacityPick = options.respectCapacity
+    ? pickWithShiftCapacity(rankedByCategory, remainingByCategory, lockedAttendFlights, shiftCapacity)
+    : null
+  const attendIds =
+    capacityPick?.attendIds ??
+    new Set(
+      [...rankedByCategory.entries()].flatMap(([category, rankedFlights]) =>
+        rankedFlights.slice(0, remainingByCategory.get(category) ?? 0).map((flight) => flight.id),
+      ),
+    )
+
+  const nextFlags = new Map<string, ServiceFlag>()
+  for (const flight of dayFlights) {
+    if (isPast(flight) || isKeptManual(flight)) {
+      continue
+    }
+    nextFlags.set(flight.id, isKeptOperated(flight) || attendIds.has(flight.id) ? 'ATENDER' : 'NO_ATENDER')
+  }
+
+  const summary = [...byCategory.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([category, categoryFlights]) => {
+      const targetPercent = targetPercentOf(category)
+      return {
+        category,
+        total: categoryFlights.length,
+        targetPercent,
+        requiredCount: requiredAttendCount(categoryFlights.length, targetPercent),
+        assignedCount: categoryFlights.filter((flight) =>
+          nextFlags.has(flight.id) ? nextFlags.get(flight.id) === 'ATENDER' : isLockedAttend(flight),
+        ).length,
+        lockedCount: categoryFlights.filter(isLocked).length,
+        pastCount: categoryFlights.filter(isPast).length,
+        shortfall: capacityPick?.shortfall.get(category) ?? 0,
+        blockedSlots: capacityPick?.blockedSlots.get(category) ?? [],
+      }
+    })
+
+  return { nextFlags, summary }
+}
+
+export function describeAssignmentSummary(item: AutoAssignmentSummary): string {
+  const lockedLabel = item.lockedCount ? ` (${item.lockedCount} fijos)` : ''
+  const shortfallLabel = item.shortfall
+    ? `, faltan ${item.shortfall} por capacidad en ${item.blockedSlots?.join(', ') || 'sin franjas libres'}`
+    : ''
+  return `${item.category}: ${item.assignedCount}/${item.total}${lockedLabel}${shortfallLabel}`
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { buildFlight } from '../test/factories'
+import { getShiftSlot, listShiftSlots, pickWithShiftCapacity } from './capacity'
+
+describe('getShiftSlot', () => {
+  it('rounds the flight time down to its 30-minute slot', () => {
+    expect(getShiftSlot('6:05')).toBe('06:00')
+    expect(getShiftSlot('06:45:10')).toBe('06:30')
+    expect(getShiftSlot('23:59')).toBe('23:30')
+  })
+
+  it('returns null for times it cannot parse', () => {
+    expect(getShiftSlot('')).toBeNull()
+    expect(getShiftSlot('24:00')).toBeNull()
+  })
+})
+
+describe('listShiftSlots', () => {
+  it('lists the distinct slots of the day in order', () => {
+    const flights = [buildFlight({ hora: '07:10' }), buildFlight({ hora: '06:40' }), buildFlight({ hora: '07:25' })]
+
+    expect(listShiftSlots(flights)).toEqual(['06:30', '07:00'])
+  })
+})
+
+describe('pickWithShiftCapacity', () => {
+  it('spreads picks across the least loaded slots without exceeding capacity', () => {
+    const ranked = [
+      buildFlight({ id: 'a', vuelo: '1', hora: '06:00' }),
+      buildFlight({ id: 'b', vuelo: '2', hora: '06:10' }),
+      buildFlight({ id: 'c', vuelo: '3', hora: '06:40' }),
+    ]
+
+    const pick = pickWithShiftCapacity(
+      new Map([['5.6 OTROS VUELOS', ranked]]),
+      new Map([['5.6 OTROS VUELOS', 2]]),
+      [],
+      { '06:00': 2 },
+    )
+
+    expect([...pick.attendIds]).toEqual(['a', 'c'])
+    expect(pick.shortfall.size).toBe(0)
+  })
+
+  it('counts locked ATENDER flights against their slot and reports the shortfall', () => {
+    const locked = buildFlight({ id: 'locked', vuelo: '9', hora: '06:20', operated: true })
+    const ranked = [buildFlight({ id: 'a', vuelo: '1', hora: '06:00' }), buildFlight({ id: 'b', vuelo: '2', hora: '06:15' })]
+
+    const pick = pickWithShiftCapacity(
+      new Map([['5.6 OTROS VUELOS', ranked]]),
+      new Map([['5.6 OTROS VUELOS', 2]]),
+      [locked],
+      { '06:00': 2 },
+    )
+
+    expect([...pick.attendIds]).toEqual(['a'])
+    expect(pick.shortfall).toEqual(new Map([['5.6 OTROS VUELOS', 1]]))
+    expect(pick.blockedSlots).toEqual(new Map([['5.6 OTROS VUELOS', ['06:00']]]))
+  })
+
+  it('serves the category with the least slack first', () => {
+    const tight = buildFlight({ id: 'tight', vuelo: '1', hora: '06:00', categoriaClasificacion: '5.6 OTROS VUELOS' })
+    const loose = [
+      buildFlight({ id: 'loose-1', vuelo: '2', hora: '06:05', categoriaClasificacion: '5.3 DOMESTICO NO PENINSULAR' }),
+      buildFlight({ id: 'loose-2', vuelo: '3', hora: '07:00', categoriaClasificacion: '5.3 DOMESTICO NO PENINSULAR' }),
+    ]
+
+    const pick = pickWithShiftCapacity(
+      new Map([
+        ['5.3 DOMESTICO NO PENINSULAR', loose],
+        ['5.6 OTROS VUELOS', [tight]],
+      ]),
+      new Map([
+        ['5.3 DOMESTICO NO PENINSULAR', 1],
+        ['5.6 OTROS VUELOS', 1],
+      ]),
+      [],
+      { '06:00': 1 },
+    )
+
+    expect([...pick.attendIds].sort()).toEqual(['loose-2', 'tight'])
+    expect(pick.shortfall.size).toBe(0)
+  })
+})
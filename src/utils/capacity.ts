@@ -0,0 +1,107 @@
+import type { FlightRecord } from '../types'
+import { parseCsvTimeToMinutes } from './dates'
+
+export const SHIFT_SLOT_MINUTES = 30
+
+const padSlotPart = (value: number): string => String(value).padStart(2, '0')
+
+export function getShiftSlot(hora: string): string | null {
+  const minutes = parseCsvTimeToMinutes(hora)
+  if (minutes === null) {
+    return null
+  }
+  const slotStart = Math.floor(minutes / SHIFT_SLOT_MINUTES) * SHIFT_SLOT_MINUTES
+  return `${padSlotPart(Math.floor(slotStart / 60))}:${padSlotPart(slotStart % 60)}`
+}
+
+export function listShiftSlots(flights: FlightRecord[]): string[] {
+  const slots = new Set<string>()
+  for (const flight of flights) {
+    const slot = getShiftSlot(flight.hora)
+    if (slot) {
+      slots.add(slot)
+    }
+  }
+  return [...slots].sort()
+}
+
+export interface ShiftCapacityPick {
+  attendIds: Set<string>
+  shortfall: Map<string, number>
+  blockedSlots: Map<string, string[]>
+}
+
+export function pickWithShiftCapacity(
+  rankedByCategory: Map<string, FlightRecord[]>,
+  remainingByCategory: Map<string, number>,
+  lockedAttendFlights: FlightRecord[],
+  capacity: Record<string, number>,
+): ShiftCapacityPick {
+  const remaining = new Map(remainingByCategory)
+  const usedBySlot = new Map<string, number>()
+  const attendIds = new Set<string>()
+  const slotOf = (flight: FlightRecord): string => getShiftSlot(flight.hora) ?? ''
+  const hasRoom = (slot: string): boolean =>
+    slot === '' || capacity[slot] === undefined || (usedBySlot.get(slot) ?? 0) < capacity[slot]
+
+  for (const flight of lockedAttendFlights) {
+    const slot = slotOf(flight)
+    if (slot !== '') {
+      usedBySlot.set(slot, (usedBySlot.get(slot) ?? 0) + 1)
+    }
+  }
+
+  const eligibleFlights = (category: string): FlightRecord[] =>
+    (rankedByCategory.get(category) ?? []).filter((flight) => !attendIds.has(flight.id) && hasRoom(slotOf(flight)))
+
+  for (;;) {
+    let bestCategory: string | null = null
+    let bestSlack = 0
+    for (const [category, needed] of [...remaining.entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+      const eligibleCount = needed > 0 ? eligibleFlights(category).length : 0
+      if (eligibleCount === 0) {
+        continue
+      }
+      const slack = eligibleCount - needed
+      if (bestCategory === null || slack < bestSlack) {
+        bestCategory = category
+        bestSlack = slack
+      }
+    }
+
+    if (bestCategory === null) {
+      break
+    }
+
+    let bestFlight: FlightRecord | null = null
+    for (const flight of eligibleFlights(bestCategory)) {
+      if (!bestFlight || (usedBySlot.get(slotOf(flight)) ?? 0) < (usedBySlot.get(slotOf(bestFlight)) ?? 0)) {
+        bestFlight = flight
+      }
+    }
+    if (!bestFlight) {
+      break
+    }
+
+    const slot = slotOf(bestFlight)
+    attendIds.add(bestFlight.id)
+    usedBySlot.set(slot, (usedBySlot.get(slot) ?? 0) + 1)
+    remaining.set(bestCategory, (remaining.get(bestCategory) ?? 0) - 1)
+  }
+
+  const shortfall = new Map<string, number>()
+  const blockedSlots = new Map<string, string[]>()
+  for (const [category, needed] of remaining.entries()) {
+    if (needed <= 0) {
+      continue
+    }
+    shortfall.set(category, needed)
+    const slots = (rankedByCategory.get(category) ?? [])
+      .filter((flight) => !attendIds.has(flight.id))
+      .map(slotOf)
+      .filter((slot) => slot !== '')
+    blockedSlots.set(category, [...new Set(slots)].sort())
+  }
+
+  return { attendIds, shortfall, blockedSlots }
+}
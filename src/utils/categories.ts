@@ -0,0 +1,35 @@
+import type { CategoryDefinition } from '../types'
+
+export function sortCategories(categories: string[], catalog: CategoryDefinition[]): string[] {
+  const orderByCode = new Map(catalog.map((category) => [category.code, category.displayOrder]))
+  return [...categories].sort((a, b) => {
+    const aOrder = orderByCode.get(a) ?? Number.POSITIVE_INFINITY
+    const bOrder = orderByCode.get(b) ?? Number.POSITIVE_INFINITY
+    if (aOrder !== bOrder) {
+      return aOrder - bOrder
+    }
+    return a.localeCompare(b)
+  })
+}
+
+export function listActiveCategories(catalog: CategoryDefinition[]): string[] {
+  return sortCategories(
+    catalog.filter((category) => category.active).map((category) => category.code),
+    catalog,
+  )
+}
+
+export function getDefaultTarget(catalog: CategoryDefinition[], code: string): number {
+  return catalog.find((category) => category.code === code)?.defaultTarget ?? 0
+}
+
+export function buildDefaultTargets(catalog: CategoryDefinition[]): Record<string, number> {
+  return Object.fromEntries(
+    catalog.filter((category) => category.active).map((category) => [category.code, category.defaultTarget]),
+  )
+}
+
+export function listUnknownCategories(categories: string[], catalog: CategoryDefinition[]): string[] {
+  const known = new Set(listActiveCategories(catalog))
+  return categories.filter((category) => !known.has(category))
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CLASSIFICATION_RULES } from '../constants'
+import type { ClassificationRule } from '../types'
+import {
+  classifyFlight,
+  describeClassificationRule,
+  isEeeCountry,
+  parseBlockTimeMinutes,
+  parseRuleValues,
+  sortClassificationRules,
+} from './classifier'
+
+const buildRule = (overrides: Partial<ClassificationRule>): ClassificationRule => ({
+  id: 'rule',
+  name: 'Regla',
+  priority: 100,
+  category: '5.6 OTROS VUELOS',
+  tipos: [],
+  airportTypes: [],
+  countries: [],
+  eee: 'any',
+  blockTime: 'any',
+  active: true,
+  ...overrides,
+})
+
+describe('parseBlockTimeMinutes', () => {
+  it('accepts clock times and plain minutes', () => {
+    expect(parseBlockTimeMinutes('5:30')).toBe(330)
+    expect(parseBlockTimeMinutes('2h05')).toBe(125)
+    expect(parseBlockTimeMinutes('95')).toBe(95)
+  })
+
+  it('rejects empty or malformed values', () => {
+    expect(parseBlockTimeMinutes('')).toBeNull()
+    expect(parseBlockTimeMinutes('1:75')).toBeNull()
+    expect(parseBlockTimeMinutes('5 horas')).toBeNull()
+  })
+})
+
+describe('parseRuleValues', () => {
+  it('normalizes, deduplicates and drops empty values', () => {
+    expect(parseRuleValues('inter-canario, Península ,,INTER-CANARIO')).toEqual(['INTER-CANARIO', 'PENINSULA'])
+  })
+})
+
+describe('isEeeCountry', () => {
+  it('recognises EEE members regardless of case', () => {
+    expect(isEeeCountry('es')).toBe(true)
+    expect(isEeeCountry('NO')).toBe(true)
+    expect(isEeeCountry('GB')).toBe(false)
+  })
+})
+
+describe('sortClassificationRules', () => {
+  it('orders by priority and then by name', () => {
+    const rules = [
+      buildRule({ id: 'c', name: 'Beta', priority: 20 }),
+      buildRule({ id: 'b', name: 'Alfa', priority: 20 }),
+      buildRule({ id: 'a', name: 'Zeta', priority: 10 }),
+    ]
+
+    expect(sortClassificationRules(rules).map((rule) => rule.id)).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('classifyFlight', () => {
+  const classify = (flight: { tipo?: string; dstpapto?: string; cdpais?: string }, blockMinutes: number | null) =>
+    classifyFlight({ tipo: 'Salida', dstpapto: '', cdpais: '', ...flight }, blockMinutes, DEFAULT_CLASSIFICATION_RULES)
+      ?.category ?? null
+
+  it('applies the default rules in priority order', () => {
+    expect(classify({ tipo: 'cargo', dstpapto: 'PENINSULAR' }, 400)).toBe('5.6 OTROS VUELOS')
+    expect(classify({ dstpapto: 'Inter-Canario', cdpais: 'ES' }, null)).toBe('5.3 DOMESTICO NO PENINSULAR')
+    expect(classify({ dstpapto: 'PENINSULAR' }, 301)).toBe('5.4 INTERNACIONAL / PENINSULAR >5H')
+    expect(classify({ dstpapto: 'PENINSULAR' }, 300)).toBe('5.5 DOMESTICO PENINSULAR <=5H')
+    expect(classify({ dstpapto: 'PENINSULAR' }, null)).toBe('5.5 DOMESTICO PENINSULAR <=5H')
+    expect(classify({ dstpapto: 'INTERNACIONAL', cdpais: 'US' }, 540)).toBe('5.4 INTERNACIONAL / PENINSULAR >5H')
+  })
+
+  it('returns null when no active rule matches', () => {
+    expect(classify({ dstpapto: 'DESCONOCIDO' }, null)).toBeNull()
+    expect(
+      classifyFlight({ tipo: 'Salida', dstpapto: '', cdpais: 'ES' }, null, [buildRule({ active: false })]),
+    ).toBeNull()
+  })
+
+  it('matches the EEE scope only when the country is known', () => {
+    const rules = [buildRule({ id: 'non-eee', eee: 'non_eee' })]
+
+    expect(classifyFlight({ tipo: 'Salida', dstpapto: '', cdpais: 'GB' }, null, rules)?.id).toBe('non-eee')
+    expect(classifyFlight({ tipo: 'Salida', dstpapto: '', cdpais: 'FR' }, null, rules)).toBeNull()
+    expect(classifyFlight({ tipo: 'Salida', dstpapto: '', cdpais: '' }, null, rules)).toBeNull()
+  })
+})
+
+describe('describeClassificationRule', () => {
+  it('lists the rule conditions or says it matches every flight', () => {
+    expect(describeClassificationRule(DEFAULT_CLASSIFICATION_RULES[2])).toBe('DSTPAPTO PENINSULAR · bloque mas de 5h')
+    expect(describeClassificationRule(buildRule({ countries: ['US'], eee: 'non_eee' }))).toBe(
+      'pais US · pais fuera del eee',
+    )
+    expect(describeClassificationRule(buildRule({}))).toBe('Todos los vuelos')
+  })
+})
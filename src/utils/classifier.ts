@@ -0,0 +1,100 @@
+import { BLOCK_TIME_THRESHOLD_MINUTES, EEE_COUNTRY_CODES } from '../constants'
+import type { ClassificationBlockTime, ClassificationEeeScope, ClassificationRule, FlightRecord } from '../types'
+
+type ClassifiableFlight = Pick<FlightRecord, 'tipo' | 'dstpapto' | 'cdpais'>
+
+export const EEE_SCOPE_LABELS: Record<ClassificationEeeScope, string> = {
+  any: 'Cualquier pais',
+  eee: 'Pais del EEE',
+  non_eee: 'Pais fuera del EEE',
+}
+
+export const BLOCK_TIME_LABELS: Record<ClassificationBlockTime, string> = {
+  any: 'Cualquier duracion',
+  over_5h: 'Mas de 5h',
+  up_to_5h: 'Hasta 5h',
+}
+
+const normalizeValue = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase()
+}
+
+const eeeCountries = new Set(EEE_COUNTRY_CODES)
+
+export function isEeeCountry(countryCode: string): boolean {
+  return eeeCountries.has(normalizeValue(countryCode))
+}
+
+export function parseBlockTimeMinutes(input: string): number | null {
+  const value = input.trim()
+  if (!value) {
+    return null
+  }
+
+  const clockMatch = value.match(/^(\d{1,2})[:hH](\d{2})$/)
+  if (clockMatch) {
+    const minutes = Number(clockMatch[2])
+    return minutes < 60 ? Number(clockMatch[1]) * 60 + minutes : null
+  }
+
+  if (/^\d+$/.test(value)) {
+    return Number(value)
+  }
+
+  return null
+}
+
+export function parseRuleValues(input: string): string[] {
+  return [...new Set(input.split(',').map(normalizeValue).filter(Boolean))]
+}
+
+export function sortClassificationRules(rules: ClassificationRule[]): ClassificationRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name))
+}
+
+const matchesList = (values: string[], value: string): boolean => {
+  return values.length === 0 || values.map(normalizeValue).includes(normalizeValue(value))
+}
+
+const matchesRule = (rule: ClassificationRule, flight: ClassifiableFlight, blockMinutes: number | null): boolean => {
+  if (!matchesList(rule.tipos, flight.tipo) || !matchesList(rule.airportTypes, flight.dstpapto)) {
+    return false
+  }
+  if (!matchesList(rule.countries, flight.cdpais)) {
+    return false
+  }
+  if (rule.eee !== 'any' && (!flight.cdpais || isEeeCountry(flight.cdpais) !== (rule.eee === 'eee'))) {
+    return false
+  }
+  if (rule.blockTime !== 'any') {
+    if (blockMinutes === null) {
+      return false
+    }
+    return (blockMinutes > BLOCK_TIME_THRESHOLD_MINUTES) === (rule.blockTime === 'over_5h')
+  }
+  return true
+}
+
+export function classifyFlight(
+  flight: ClassifiableFlight,
+  blockMinutes: number | null,
+  rules: ClassificationRule[],
+): ClassificationRule | null {
+  const activeRules = sortClassificationRules(rules.filter((rule) => rule.active))
+  return activeRules.find((rule) => matchesRule(rule, flight, blockMinutes)) ?? null
+}
+
+export function describeClassificationRule(rule: ClassificationRule): string {
+  const conditions = [
+    rule.tipos.length > 0 ? `tipo ${rule.tipos.join(', ')}` : '',
+    rule.airportTypes.length > 0 ? `DSTPAPTO ${rule.airportTypes.join(', ')}` : '',
+    rule.countries.length > 0 ? `pais ${rule.countries.join(', ')}` : '',
+    rule.eee !== 'any' ? EEE_SCOPE_LABELS[rule.eee].toLowerCase() : '',
+    rule.blockTime !== 'any' ? `bloque ${BLOCK_TIME_LABELS[rule.blockTime].toLowerCase()}` : '',
+  ].filter(Boolean)
+  return conditions.length > 0 ? conditions.join(' · ') : 'Todos los vuelos'
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+import { buildCsvSource } from '../test/factories'
+import type { CsvMappingProfile } from '../types'
+import {
+  BUILTIN_MAPPING_PROFILE,
+  buildFlightMatchKey,
+  detectMappingProfile,
+  parseFlightRows,
+  resolveColumnMapping,
+  suggestColumnMapping,
+} from './csv'
+
+const BUILTIN_HEADERS = ['CATEGORIA_CLASIFICACION', 'TIPO', 'FECHA', 'HORA', 'CIA', 'DSCIA', 'CDOCIA', 'VUELO']
+
+const row = (overrides: Record<string, string> = {}): string[] => {
+  const values: Record<string, string> = {
+    CATEGORIA_CLASIFICACION: '5.6 OTROS VUELOS',
+    TIPO: 'Salida',
+    FECHA: '10/12/2024',
+    HORA: '06:00',
+    CIA: 'IB',
+    DSCIA: 'IBERIA',
+    CDOCIA: 'IBE',
+    VUELO: '3101',
+    ...overrides,
+  }
+  return BUILTIN_HEADERS.map((header) => values[header])
+}
+
+const AENA_PROFILE: CsvMappingProfile = {
+  id: 'aena',
+  name: 'AENA',
+  mapping: {
+    ...BUILTIN_MAPPING_PROFILE.mapping,
+    tipo: ['MOVIMIENTO'],
+    FECHA: ['DIA'],
+    HORA: ['HORA PROGRAMADA'],
+    VUELO: ['NUM VUELO'],
+  },
+  updatedAt: '2026-10-19T00:00:00.000Z',
+}
+
+describe('resolveColumnMapping', () => {
+  it('matches headers ignoring case, accents and punctuation', () => {
+    const { resolved, missing } = resolveColumnMapping(
+      ['categoria clasificacion', 'Tipo', 'fecha', 'hora', 'Cía', 'ds-cia', 'cdocia', 'vuelo', 'org nxt'],
+      BUILTIN_MAPPING_PROFILE.mapping,
+    )
+
+    expect(missing).toEqual([])
+    expect(resolved['CÍA']).toBe('Cía')
+    expect(resolved.DSCIA).toBe('ds-cia')
+    expect(resolved['ORG/NXT']).toBe('org nxt')
+    expect(resolved.CATEGORIA_CLASIFICACION).toBe('categoria clasificacion')
+  })
+
+  it('uses the first alias present in the file', () => {
+    const { resolved } = resolveColumnMapping([...BUILTIN_HEADERS, 'BLOCK_TIME', 'BLOQUE'], BUILTIN_MAPPING_PROFILE.mapping)
+
+    expect(resolved.TIEMPO_BLOQUE).toBe('BLOQUE')
+  })
+
+  it('lists required fields without a matching header and skips missing optional ones', () => {
+    const { resolved, missing } = resolveColumnMapping(['TIPO', 'FECHA', 'CIA'], BUILTIN_MAPPING_PROFILE.mapping)
+
+    expect(missing).toEqual(['HORA', 'DSCIA', 'CDOCIA', 'VUELO'])
+    expect(resolved).not.toHaveProperty('DSAPTO')
+  })
+})
+
+describe('detectMappingProfile', () => {
+  it('picks the saved profile that resolves every required field', () => {
+    const headers = ['MOVIMIENTO', 'DIA', 'HORA PROGRAMADA', 'CIA', 'DSCIA', 'CDOCIA', 'NUM VUELO']
+
+    expect(detectMappingProfile(headers, [AENA_PROFILE])?.id).toBe('aena')
+  })
+
+  it('falls back to the built-in profile when no saved profile fits', () => {
+    expect(detectMappingProfile(BUILTIN_HEADERS, [AENA_PROFILE])?.id).toBe(BUILTIN_MAPPING_PROFILE.id)
+  })
+
+  it('returns null when no profile resolves the required fields', () => {
+    expect(detectMappingProfile(['FOO', 'BAR'], [AENA_PROFILE])).toBeNull()
+  })
+})
+
+describe('suggestColumnMapping', () => {
+  it('prefers the built-in aliases and fills gaps from saved profiles', () => {
+    const suggestion = suggestColumnMapping(['TIPO', 'DIA', 'HORA', 'NUM VUELO'], [AENA_PROFILE])
+
+    expect(suggestion).toMatchObject({ tipo: 'TIPO', FECHA: 'DIA', HORA: 'HORA', VUELO: 'NUM VUELO' })
+  })
+})
+
+describe('parseFlightRows', () => {
+  it('accepts valid rows and builds their flight key', () => {
+    const parsed = parseFlightRows(buildCsvSource(BUILTIN_HEADERS, [row(), row({ VUELO: '3102', HORA: '07:30' })]))
+
+    expect(parsed.report).toMatchObject({ totalRows: 2, acceptedRows: 2, droppedRows: 0, issues: [] })
+    expect(parsed.flights.map((flight) => flight.flightKey)).toEqual([
+      '10/12/2024|06:00|IBE|3101|5.6 OTROS VUELOS',
+      '10/12/2024|07:30|IBE|3102|5.6 OTROS VUELOS',
+    ])
+    expect(parsed.categories).toEqual(['5.6 OTROS VUELOS'])
+  })
+
+  it('drops rows with missing values, invalid dates or invalid times and reports them by file row', () => {
+    const parsed = parseFlightRows(
+      buildCsvSource(BUILTIN_HEADERS, [
+        row({ DSCIA: '' }),
+        row({ FECHA: '31/02/2024' }),
+        row({ HORA: '25:00' }),
+        row({ VUELO: '3199' }),
+      ]),
+    )
+
+    expect(parsed.report.droppedRows).toBe(3)
+    expect(parsed.report.issues).toEqual([
+      { row: 2, column: 'DSCIA', problem: 'missing_value', severity: 'error', value: '' },
+      { row: 3, column: 'FECHA', problem: 'invalid_date', severity: 'error', value: '31/02/2024' },
+      { row: 4, column: 'HORA', problem: 'invalid_time', severity: 'error', value: '25:00' },
+    ])
+    expect(parsed.flights.map((flight) => flight.vuelo)).toEqual(['3199'])
+  })
+
+  it('reports duplicated flights against the first row that used the key', () => {
+    const parsed = parseFlightRows(buildCsvSource(BUILTIN_HEADERS, [row(), row({ VUELO: '3102' }), row()]))
+
+    expect(parsed.report.acceptedRows).toBe(2)
+    expect(parsed.report.issues).toEqual([
+      expect.objectContaining({ row: 4, problem: 'duplicate_key', duplicateOfRow: 2, severity: 'error' }),
+    ])
+  })
+
+  it('keeps rows with a category outside the catalogue as a warning', () => {
+    const parsed = parseFlightRows(buildCsvSource(BUILTIN_HEADERS, [row({ CATEGORIA_CLASIFICACION: '9.9 NUEVA' })]))
+
+    expect(parsed.report.acceptedRows).toBe(1)
+    expect(parsed.report.issues).toEqual([
+      expect.objectContaining({ problem: 'unknown_category', severity: 'warning', value: '9.9 NUEVA' }),
+    ])
+  })
+
+  it('skips rows the reader could not parse', () => {
+    const source = buildCsvSource(BUILTIN_HEADERS, [row(), row({ VUELO: '3102' })])
+    const parsed = parseFlightRows({ ...source, errors: [{ rowIndex: 1, message: 'Too many fields' }] })
+
+    expect(parsed.report.acceptedRows).toBe(1)
+    expect(parsed.report.issues).toEqual([
+      { row: 3, column: '', problem: 'parse_error', severity: 'error', value: 'Too many fields' },
+    ])
+  })
+
+  it('fails when a required column cannot be resolved', () => {
+    expect(() => parseFlightRows(buildCsvSource(['TIPO', 'FECHA'], [['Salida', '10/12/2024']]))).toThrow(
+      'Falta la columna requerida: HORA',
+    )
+  })
+})
+
+describe('buildFlightMatchKey', () => {
+  it('ignores the category so the same flight matches across file versions', () => {
+    const [first] = parseFlightRows(buildCsvSource(BUILTIN_HEADERS, [row()])).flights
+    const [recategorised] = parseFlightRows(
+      buildCsvSource(BUILTIN_HEADERS, [row({ CATEGORIA_CLASIFICACION: '5.3 DOMESTICO NO PENINSULAR' })]),
+    ).flights
+
+    expect(first.flightKey).not.toBe(recategorised.flightKey)
+    expect(buildFlightMatchKey(first)).toBe(buildFlightMatchKey(recategorised))
+  })
+})
@@ -1,20 +1,50 @@
-import Papa from 'papaparse'
-import { CATEGORY_ORDER } from '../constants'
-import type { FlightRecord, ParsedCsvResult } from '../types'
+import { DEFAULT_CATEGORY_CATALOG, DEFAULT_CLASSIFICATION_RULES, OPTIONAL_FIELDS, REQUIRED_FIELDS } from '../constants'
+import type {
+  AutoClassification,
+  CategoryDefinition,
+  ClassificationRule,
+  ColumnMapping,
+  CsvMappingProfile,
+  CsvValidationIssue,
+  FlightRecord,
+  ImportSource,
+  ParsedCsvResult,
+} from '../types'
+import { listActiveCategories, sortCategories } from './categories'
+import { classifyFlight, parseBlockTimeMinutes } from './classifier'
+import { parseCsvDateToIso, parseCsvTimeToMinutes } from './dates'
 
 type RawCsvRow = Record<string, string>
 
-const HEADER_ALIASES: Record<string, string[]> = {
-  CATEGORIA_CLASIFICACION: ['CATEGORIACLASIFICACION'],
-  tipo: ['TIPO'],
-  FECHA: ['FECHA'],
-  HORA: ['HORA'],
-  'CÍA': ['CIA', 'CA'],
-  DSCIA: ['DSCIA'],
-  CDOCIA: ['CDOCIA'],
-  VUELO: ['VUELO'],
+export const BUILTIN_MAPPING_PROFILE: CsvMappingProfile = {
+  id: 'builtin',
+  name: 'Plantilla por defecto',
+  mapping: {
+    CATEGORIA_CLASIFICACION: ['CATEGORIA_CLASIFICACION'],
+    tipo: ['TIPO'],
+    FECHA: ['FECHA'],
+    HORA: ['HORA'],
+    'CÍA': ['CIA', 'CA'],
+    DSCIA: ['DSCIA'],
+    CDOCIA: ['CDOCIA'],
+    VUELO: ['VUELO'],
+    AVO: ['AVO'],
+    AST: ['AST'],
+    DSMOTIVO: ['DSMOTIVO'],
+    'ORG/NXT': ['ORG/NXT'],
+    'PRV/FIN': ['PRV/FIN'],
+    DSAPTO: ['DSAPTO'],
+    DSTPAPTO: ['DSTPAPTO'],
+    CDPAIS: ['CDPAIS'],
+    DSPAIS: ['DSPAIS'],
+    DSACLASE: ['DSACLASE'],
+    TIEMPO_BLOQUE: ['TIEMPO_BLOQUE', 'BLOQUE', 'BLOCK_TIME'],
+  },
+  updatedAt: '',
 }
 
+const toFileRowNumber = (dataIndex: number): number => dataIndex + 2
+
 const normalizeHeader = (header: string): string => {
   return header
     .normalize('NFD')
@@ -27,57 +57,125 @@ const normalizeCell = (value: unknown): string => {
   return String(value ?? '').trim()
 }
 
-const buildFlightKey = (row: Pick<FlightRecord, 'fecha' | 'hora' | 'cdocia' | 'vuelo' | 'categoriaClasificacion'>): string => {
-  return [row.fecha, row.hora, row.cdocia, row.vuelo, row.categoriaClasificacion]
-    .map((part) => part.trim().toUpperCase())
-    .join('|')
+const buildHeaderLookup = (headers: string[]): Map<string, string> => {
+  const headerLookup = new Map<string, string>()
+  for (const header of headers) {
+    const normalized = normalizeHeader(header)
+    if (normalized && !headerLookup.has(normalized)) {
+      headerLookup.set(normalized, header)
+    }
+  }
+  return headerLookup
+}
+
+const findHeader = (headerLookup: Map<string, string>, aliases: string[] | undefined): string | undefined => {
+  return (aliases ?? []).map((alias) => headerLookup.get(normalizeHeader(alias))).find(Boolean)
 }
 
-const orderCategories = (categories: string[]): string[] => {
-  const indexByCategory = new Map<string, number>(CATEGORY_ORDER.map((category, index) => [category, index]))
-  return [...categories].sort((a, b) => {
-    const aIndex = indexByCategory.get(a) ?? Number.POSITIVE_INFINITY
-    const bIndex = indexByCategory.get(b) ?? Number.POSITIVE_INFINITY
-    if (aIndex !== bIndex) {
-      return aIndex - bIndex
+export function resolveColumnMapping(
+  headers: string[],
+  mapping: ColumnMapping,
+): { resolved: Record<string, string>; missing: string[] } {
+  const headerLookup = buildHeaderLookup(headers)
+  const resolved: Record<string, string> = {}
+  const missing: string[] = []
+
+  for (const field of [...REQUIRED_FIELDS, ...OPTIONAL_FIELDS]) {
+    const foundHeader = findHeader(headerLookup, mapping[field])
+    if (foundHeader) {
+      resolved[field] = foundHeader
+    } else if ((REQUIRED_FIELDS as readonly string[]).includes(field)) {
+      missing.push(field)
     }
-    return a.localeCompare(b)
-  })
+  }
+
+  return { resolved, missing }
 }
 
-export async function parseFlightsCsv(file: File): Promise<ParsedCsvResult> {
-  const text = await file.text()
+export function detectMappingProfile(headers: string[], profiles: CsvMappingProfile[]): CsvMappingProfile | null {
+  let best: { profile: CsvMappingProfile; score: number } | null = null
 
-  const parsed = Papa.parse<RawCsvRow>(text, {
-    header: true,
-    skipEmptyLines: 'greedy',
-  })
+  for (const profile of [...profiles, BUILTIN_MAPPING_PROFILE]) {
+    const { resolved, missing } = resolveColumnMapping(headers, profile.mapping)
+    if (missing.length > 0) {
+      continue
+    }
+    const score = Object.keys(resolved).length
+    if (!best || score > best.score) {
+      best = { profile, score }
+    }
+  }
+
+  return best?.profile ?? null
+}
 
-  if (parsed.errors.length > 0) {
-    const firstError = parsed.errors[0]
-    throw new Error(`CSV invalido (${firstError.message})`)
+export function suggestColumnMapping(headers: string[], profiles: CsvMappingProfile[]): Record<string, string> {
+  const suggestion: Record<string, string> = {}
+  for (const profile of [BUILTIN_MAPPING_PROFILE, ...profiles]) {
+    const { resolved } = resolveColumnMapping(headers, profile.mapping)
+    for (const [field, header] of Object.entries(resolved)) {
+      suggestion[field] ??= header
+    }
   }
+  return suggestion
+}
 
-  const availableHeaders = parsed.meta.fields ?? []
-  const headerLookup = new Map<string, string>()
-  for (const header of availableHeaders) {
-    headerLookup.set(normalizeHeader(header), header)
+const joinKeyParts = (parts: string[]): string => parts.map((part) => part.trim().toUpperCase()).join('|')
+
+const buildFlightKey = (row: Pick<FlightRecord, 'fecha' | 'hora' | 'cdocia' | 'vuelo' | 'categoriaClasificacion'>): string => {
+  return joinKeyParts([row.fecha, row.hora, row.cdocia, row.vuelo, row.categoriaClasificacion])
+}
+
+export const buildFlightMatchKey = (row: Pick<FlightRecord, 'fecha' | 'hora' | 'cdocia' | 'vuelo'>): string => {
+  return joinKeyParts([row.fecha, row.hora, row.cdocia, row.vuelo])
+}
+
+export function parseFlightRows(
+  source: ImportSource,
+  mapping: ColumnMapping = BUILTIN_MAPPING_PROFILE.mapping,
+  catalog: CategoryDefinition[] = DEFAULT_CATEGORY_CATALOG,
+  rules: ClassificationRule[] = DEFAULT_CLASSIFICATION_RULES,
+): ParsedCsvResult {
+  const { resolved: mappedHeaders, missing } = resolveColumnMapping(source.headers, mapping)
+  if (missing.length > 0) {
+    throw new Error(`Falta la columna requerida: ${missing[0]}`)
+  }
+
+  const readOptional = (row: RawCsvRow, key: string): string => {
+    const header = mappedHeaders[key]
+    return header ? normalizeCell(row[header]) : ''
   }
 
-  const mappedHeaders: Record<string, string> = {}
-  for (const [expectedKey, aliases] of Object.entries(HEADER_ALIASES)) {
-    const foundHeader = aliases.map((alias) => headerLookup.get(alias)).find(Boolean)
-    if (!foundHeader) {
-      throw new Error(`Falta la columna requerida: ${expectedKey}`)
+  const issues: CsvValidationIssue[] = []
+  const rowsWithParseErrors = new Set<number>()
+  for (const parseError of source.errors) {
+    const rowIndex = parseError.rowIndex
+    if (rowIndex >= 0) {
+      rowsWithParseErrors.add(rowIndex)
     }
-    mappedHeaders[expectedKey] = foundHeader
+    issues.push({
+      row: rowIndex >= 0 ? toFileRowNumber(rowIndex) : 0,
+      column: '',
+      problem: 'parse_error',
+      severity: 'error',
+      value: parseError.message,
+    })
   }
 
   const flightsByKey = new Map<string, FlightRecord>()
+  const firstRowByKey = new Map<string, number>()
   const categories = new Set<string>()
+  const classifications: AutoClassification[] = []
+  const knownCategories = new Set<string>(listActiveCategories(catalog))
+  let acceptedRows = 0
+
+  for (const [rowIndex, row] of source.rows.entries()) {
+    if (rowsWithParseErrors.has(rowIndex)) {
+      continue
+    }
 
-  for (const row of parsed.data) {
-    const categoriaClasificacion = normalizeCell(row[mappedHeaders.CATEGORIA_CLASIFICACION])
+    const rowNumber = toFileRowNumber(rowIndex)
+    const fileCategory = readOptional(row, 'CATEGORIA_CLASIFICACION')
     const tipo = normalizeCell(row[mappedHeaders.tipo])
     const fecha = normalizeCell(row[mappedHeaders.FECHA])
     const hora = normalizeCell(row[mappedHeaders.HORA])
@@ -86,13 +184,54 @@ export async function parseFlightsCsv(file: File): Promise<ParsedCsvResult> {
     const cdocia = normalizeCell(row[mappedHeaders.CDOCIA])
     const vuelo = normalizeCell(row[mappedHeaders.VUELO])
 
-    if (!categoriaClasificacion || !tipo || !fecha || !hora || !cia || !dscia || !cdocia || !vuelo) {
+    const rowIssues: CsvValidationIssue[] = []
+    const requiredValues: Record<string, string> = {
+      tipo,
+      FECHA: fecha,
+      HORA: hora,
+      'CÍA': cia,
+      DSCIA: dscia,
+      CDOCIA: cdocia,
+      VUELO: vuelo,
+    }
+    for (const field of REQUIRED_FIELDS) {
+      if (!requiredValues[field]) {
+        rowIssues.push({ row: rowNumber, column: field, problem: 'missing_value', severity: 'error', value: '' })
+      }
+    }
+
+    if (fecha && !parseCsvDateToIso(fecha)) {
+      rowIssues.push({ row: rowNumber, column: 'FECHA', problem: 'invalid_date', severity: 'error', value: fecha })
+    }
+
+    if (hora && parseCsvTimeToMinutes(hora) === null) {
+      rowIssues.push({ row: rowNumber, column: 'HORA', problem: 'invalid_time', severity: 'error', value: hora })
+    }
+
+    const dstpapto = readOptional(row, 'DSTPAPTO')
+    const cdpais = readOptional(row, 'CDPAIS')
+    const blockMinutes = parseBlockTimeMinutes(readOptional(row, 'TIEMPO_BLOQUE'))
+    const classification = fileCategory ? null : classifyFlight({ tipo, dstpapto, cdpais }, blockMinutes, rules)
+    if (!fileCategory && !classification) {
+      rowIssues.push({
+        row: rowNumber,
+        column: 'CATEGORIA_CLASIFICACION',
+        problem: 'unclassified',
+        severity: 'error',
+        value: [tipo, dstpapto, cdpais].filter(Boolean).join(' / '),
+      })
+    }
+
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues)
       continue
     }
 
+    const categoriaClasificacion = classification?.category ?? fileCategory
     const baseFlight: Omit<FlightRecord, 'id' | 'flightKey'> = {
       datasetId: null,
       categoriaClasificacion,
+      categorySource: classification ? 'auto' : 'file',
       tipo,
       fecha,
       hora,
@@ -100,6 +239,16 @@ export async function parseFlightsCsv(file: File): Promise<ParsedCsvResult> {
       dscia,
       cdocia,
       vuelo,
+      avo: readOptional(row, 'AVO'),
+      ast: readOptional(row, 'AST'),
+      dsmotivo: readOptional(row, 'DSMOTIVO'),
+      orgNxt: readOptional(row, 'ORG/NXT'),
+      prvFin: readOptional(row, 'PRV/FIN'),
+      dsapto: readOptional(row, 'DSAPTO'),
+      dstpapto,
+      cdpais,
+      dspais: readOptional(row, 'DSPAIS'),
+      dsaclase: readOptional(row, 'DSACLASE'),
       operated: false,
       operatedAt: null,
       operatedByEmail: null,
@@ -108,15 +257,56 @@ export async function parseFlightsCsv(file: File): Promise<ParsedCsvResult> {
       serviceFlagUpdatedAt: null,
       serviceFlagUpdatedByEmail: null,
       serviceFlagRunId: null,
+      assignedToEmail: null,
+      assignedAt: null,
+      assignedByEmail: null,
     }
 
     const flightKey = buildFlightKey(baseFlight)
-    if (flightsByKey.has(flightKey)) {
+    const firstRow = firstRowByKey.get(flightKey)
+    if (firstRow !== undefined) {
+      issues.push({
+        row: rowNumber,
+        column: 'flight_key',
+        problem: 'duplicate_key',
+        severity: 'error',
+        value: flightKey,
+        duplicateOfRow: firstRow,
+      })
       continue
     }
 
+    const flightId = crypto.randomUUID()
+    if (classification) {
+      issues.push({
+        row: rowNumber,
+        column: 'CATEGORIA_CLASIFICACION',
+        problem: 'auto_classified',
+        severity: 'warning',
+        value: categoriaClasificacion,
+      })
+      classifications.push({
+        flightId,
+        row: rowNumber,
+        ruleId: classification.id,
+        ruleName: classification.name,
+        blockMinutes,
+      })
+    } else if (!knownCategories.has(categoriaClasificacion)) {
+      issues.push({
+        row: rowNumber,
+        column: 'CATEGORIA_CLASIFICACION',
+        problem: 'unknown_category',
+        severity: 'warning',
+        value: categoriaClasificacion,
+      })
+    }
+
+    firstRowByKey.set(flightKey, rowNumber)
+    acceptedRows += 1
+
     flightsByKey.set(flightKey, {
-      id: crypto.randomUUID(),
+      id: flightId,
       flightKey,
       ...baseFlight,
     })
@@ -135,8 +325,47 @@ export async function parseFlightsCsv(file: File): Promise<ParsedCsvResult> {
     return a.vuelo.localeCompare(b.vuelo)
   })
 
+  const totalRows = source.rows.length
+  issues.sort((a, b) => a.row - b.row)
+
+  return {
+    flights,
+    categories: sortCategories([...categories], catalog),
+    classifications,
+    report: {
+      totalRows,
+      acceptedRows,
+      droppedRows: totalRows - acceptedRows,
+      issues,
+    },
+  }
+}
+
+export function applyCategoryOverrides(
+  parsed: ParsedCsvResult,
+  overrides: Record<string, string>,
+  catalog: CategoryDefinition[] = DEFAULT_CATEGORY_CATALOG,
+): ParsedCsvResult {
+  const seenKeys = new Set<string>()
+  const flights = parsed.flights.map((flight) => {
+    const category = overrides[flight.id]
+    if (!category || category === flight.categoriaClasificacion) {
+      return flight
+    }
+    const overridden = { ...flight, categoriaClasificacion: category, categorySource: 'manual' as const }
+    return { ...overridden, flightKey: buildFlightKey(overridden) }
+  })
+
+  for (const flight of flights) {
+    if (seenKeys.has(flight.flightKey)) {
+      throw new Error(`La categoria elegida duplica el vuelo ${flight.vuelo} de las ${flight.hora}`)
+    }
+    seenKeys.add(flight.flightKey)
+  }
+
   return {
+    ...parsed,
     flights,
-    categories: orderCategories([...categories]),
+    categories: sortCategories([...new Set(flights.map((flight) => flight.categoriaClasificacion))], catalog),
   }
 }
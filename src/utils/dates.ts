@@ -0,0 +1,74 @@
+const buildIsoDate = (year: string, month: string, day: string): string => {
+  const normalizedYear = year.padStart(4, '0')
+  const normalizedMonth = month.padStart(2, '0')
+  const normalizedDay = day.padStart(2, '0')
+  const iso = `${normalizedYear}-${normalizedMonth}-${normalizedDay}`
+
+  const candidate = new Date(`${iso}T00:00:00Z`)
+  if (Number.isNaN(candidate.getTime())) {
+    return ''
+  }
+
+  if (
+    candidate.getUTCFullYear() !== Number(normalizedYear) ||
+    candidate.getUTCMonth() + 1 !== Number(normalizedMonth) ||
+    candidate.getUTCDate() !== Number(normalizedDay)
+  ) {
+    return ''
+  }
+
+  return iso
+}
+
+export function parseCsvDateToIso(input: string): string {
+  const value = input.trim()
+  if (!value) {
+    return ''
+  }
+
+  const isoMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (isoMatch) {
+    return buildIsoDate(isoMatch[1], isoMatch[2], isoMatch[3])
+  }
+
+  const slashMatch = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (slashMatch) {
+    return buildIsoDate(slashMatch[3], slashMatch[2], slashMatch[1])
+  }
+
+  const dashMatch = value.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/)
+  if (dashMatch) {
+    return buildIsoDate(dashMatch[3], dashMatch[2], dashMatch[1])
+  }
+
+  return ''
+}
+
+export function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value)
+}
+
+export function parseCsvTimeToMinutes(input: string): number | null {
+  const match = input.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/)
+  if (!match) {
+    return null
+  }
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59 || (match[3] !== undefined && Number(match[3]) > 59)) {
+    return null
+  }
+
+  return hours * 60 + minutes
+}
+
+const padTimePart = (value: number): string => String(value).padStart(2, '0')
+
+export function toLocalIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${padTimePart(date.getMonth() + 1)}-${padTimePart(date.getDate())}`
+}
+
+export function toLocalTime(date: Date): string {
+  return `${padTimePart(date.getHours())}:${padTimePart(date.getMinutes())}`
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { buildFlight } from '../test/factories'
+import { applyFlightDiff, diffFlights } from './diff'
+
+const incomingFlight = (overrides: Parameters<typeof buildFlight>[0] = {}) =>
+  buildFlight({ id: `incoming-${overrides.vuelo ?? '1'}`, datasetId: '', ...overrides })
+
+describe('diffFlights', () => {
+  it('splits flights into added, removed, changed and unchanged', () => {
+    const current = [buildFlight({ vuelo: '1' }), buildFlight({ vuelo: '2' }), buildFlight({ vuelo: '3' })]
+    const incoming = [
+      incomingFlight({ vuelo: '1' }),
+      incomingFlight({ vuelo: '2', dsapto: 'BARCELONA' }),
+      incomingFlight({ vuelo: '4' }),
+    ]
+
+    const diff = diffFlights(current, incoming)
+
+    expect(diff.added.map((flight) => flight.vuelo)).toEqual(['4'])
+    expect(diff.removed.map((flight) => flight.vuelo)).toEqual(['3'])
+    expect(diff.changed).toEqual([{ before: current[1], after: incoming[1], fields: ['dsapto'] }])
+    expect(diff.unchanged).toBe(1)
+  })
+
+  it('reports a category change as a modification instead of a removal and an addition', () => {
+    const current = [buildFlight({ vuelo: '1', categoriaClasificacion: '5.6 OTROS VUELOS' })]
+    const incoming = [incomingFlight({ vuelo: '1', categoriaClasificacion: '5.3 DOMESTICO NO PENINSULAR' })]
+
+    const diff = diffFlights(current, incoming)
+
+    expect(diff.added).toEqual([])
+    expect(diff.removed).toEqual([])
+    expect(diff.changed).toEqual([{ before: current[0], after: incoming[0], fields: ['categoriaClasificacion'] }])
+  })
+
+  it('keeps operated flights that are missing from the new file', () => {
+    const current = [buildFlight({ vuelo: '1', operated: true }), buildFlight({ vuelo: '2' })]
+
+    const diff = diffFlights(current, [])
+
+    expect(diff.keptOperated.map((flight) => flight.vuelo)).toEqual(['1'])
+    expect(diff.removed.map((flight) => flight.vuelo)).toEqual(['2'])
+  })
+
+  it('pairs repeated flight numbers one to one when their category changes', () => {
+    const current = [
+      buildFlight({ id: 'a', vuelo: '1', categoriaClasificacion: '5.5 DOMESTICO PENINSULAR <=5H' }),
+      buildFlight({ id: 'b', vuelo: '1', categoriaClasificacion: '5.6 OTROS VUELOS' }),
+    ]
+    const incoming = [
+      incomingFlight({ vuelo: '1', categoriaClasificacion: '5.3 DOMESTICO NO PENINSULAR' }),
+      incomingFlight({ vuelo: '1', categoriaClasificacion: '5.6 OTROS VUELOS' }),
+    ]
+
+    const diff = diffFlights(current, incoming)
+
+    expect(diff.unchanged).toBe(1)
+    expect(diff.changed.map(({ before, fields }) => [before.id, fields])).toEqual([['a', ['categoriaClasificacion']]])
+    expect(diff.added).toEqual([])
+    expect(diff.removed).toEqual([])
+  })
+})
+
+describe('applyFlightDiff', () => {
+  it('updates a recategorised flight in place, keeping its id, operated state and service flag', () => {
+    const current = [
+      buildFlight({
+        id: 'kept',
+        vuelo: '1',
+        operated: true,
+        operatedAt: '2024-12-10T06:10:00.000Z',
+        serviceFlag: 'ATENDER',
+        serviceFlagSource: 'manual',
+      }),
+    ]
+    const incoming = [
+      incomingFlight({ vuelo: '1', categoriaClasificacion: '5.3 DOMESTICO NO PENINSULAR', dsapto: 'TENERIFE' }),
+    ]
+
+    const [updated, ...rest] = applyFlightDiff(current, incoming)
+
+    expect(rest).toEqual([])
+    expect(updated).toMatchObject({
+      id: 'kept',
+      datasetId: 'dataset-1',
+      flightKey: incoming[0].flightKey,
+      categoriaClasificacion: '5.3 DOMESTICO NO PENINSULAR',
+      dsapto: 'TENERIFE',
+      operated: true,
+      operatedAt: '2024-12-10T06:10:00.000Z',
+      serviceFlag: 'ATENDER',
+      serviceFlagSource: 'manual',
+    })
+  })
+
+  it('adds new flights to the dataset and keeps missing operated flights once', () => {
+    const current = [buildFlight({ vuelo: '1', operated: true }), buildFlight({ vuelo: '2' })]
+    const incoming = [incomingFlight({ vuelo: '3' })]
+
+    const result = applyFlightDiff(current, incoming)
+
+    expect(result.map((flight) => [flight.vuelo, flight.datasetId])).toEqual([
+      ['3', 'dataset-1'],
+      ['1', 'dataset-1'],
+    ])
+  })
+})
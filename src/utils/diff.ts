@@ -0,0 +1,110 @@
+import type { FlightDiff, FlightRecord } from '../types'
+import { buildFlightMatchKey } from './csv'
+
+export const FLIGHT_DESCRIPTIVE_FIELDS = [
+  'tipo',
+  'cia',
+  'dscia',
+  'avo',
+  'ast',
+  'dsmotivo',
+  'orgNxt',
+  'prvFin',
+  'dsapto',
+  'dstpapto',
+  'cdpais',
+  'dspais',
+  'dsaclase',
+] as const satisfies ReadonlyArray<keyof FlightRecord>
+
+export type FlightDescriptiveField = (typeof FLIGHT_DESCRIPTIVE_FIELDS)[number]
+
+const FLIGHT_UPDATED_FIELDS = [
+  'categoriaClasificacion',
+  ...FLIGHT_DESCRIPTIVE_FIELDS,
+] as const satisfies ReadonlyArray<keyof FlightRecord>
+
+const byFlightKey = (a: FlightRecord, b: FlightRecord): number =>
+  a.flightKey < b.flightKey ? -1 : a.flightKey > b.flightKey ? 1 : 0
+
+function matchFlights(current: FlightRecord[], incoming: FlightRecord[]): Map<string, FlightRecord> {
+  const currentByKey = new Map(current.map((flight) => [flight.flightKey, flight]))
+  const matches = new Map<string, FlightRecord>()
+  const matchedIds = new Set<string>()
+
+  for (const flight of incoming) {
+    const existing = currentByKey.get(flight.flightKey)
+    if (existing) {
+      matches.set(flight.flightKey, existing)
+      matchedIds.add(existing.id)
+    }
+  }
+
+  const unmatchedByMatchKey = new Map<string, FlightRecord[]>()
+  for (const flight of [...current].sort(byFlightKey)) {
+    if (matchedIds.has(flight.id)) {
+      continue
+    }
+    const matchKey = buildFlightMatchKey(flight)
+    unmatchedByMatchKey.set(matchKey, [...(unmatchedByMatchKey.get(matchKey) ?? []), flight])
+  }
+
+  for (const flight of [...incoming].sort(byFlightKey)) {
+    if (matches.has(flight.flightKey)) {
+      continue
+    }
+    const existing = unmatchedByMatchKey.get(buildFlightMatchKey(flight))?.shift()
+    if (existing) {
+      matches.set(flight.flightKey, existing)
+    }
+  }
+
+  return matches
+}
+
+export function diffFlights(current: FlightRecord[], incoming: FlightRecord[]): FlightDiff {
+  const matches = matchFlights(current, incoming)
+  const matchedIds = new Set([...matches.values()].map((flight) => flight.id))
+
+  const added: FlightRecord[] = []
+  const changed: FlightDiff['changed'] = []
+  let unchanged = 0
+
+  for (const flight of incoming) {
+    const existing = matches.get(flight.flightKey)
+    if (!existing) {
+      added.push(flight)
+      continue
+    }
+
+    const fields = FLIGHT_UPDATED_FIELDS.filter((field) => existing[field] !== flight[field])
+    if (fields.length > 0) {
+      changed.push({ before: existing, after: flight, fields })
+    } else {
+      unchanged += 1
+    }
+  }
+
+  const missing = current.filter((flight) => !matchedIds.has(flight.id))
+  const removed = missing.filter((flight) => !flight.operated)
+  const keptOperated = missing.filter((flight) => flight.operated)
+
+  return { added, removed, keptOperated, changed, unchanged }
+}
+
+export function applyFlightDiff(current: FlightRecord[], incoming: FlightRecord[]): FlightRecord[] {
+  const matches = matchFlights(current, incoming)
+  const matchedIds = new Set([...matches.values()].map((flight) => flight.id))
+  const keptOperated = current.filter((flight) => flight.operated && !matchedIds.has(flight.id))
+
+  const updated = incoming.map((flight) => {
+    const existing = matches.get(flight.flightKey)
+    if (!existing) {
+      return { ...flight, datasetId: current[0]?.datasetId ?? flight.datasetId }
+    }
+
+    const updatedValues = Object.fromEntries(FLIGHT_UPDATED_FIELDS.map((field) => [field, flight[field]]))
+    return { ...existing, ...updatedValues, flightKey: flight.flightKey, categorySource: flight.categorySource }
+  })
+  return [...updated, ...keptOperated]
+}
@@ -0,0 +1,37 @@
+export function escapeCsvCell(value: string | number): string {
+  const raw = String(value)
+  if (raw.includes(',') || raw.includes('"') || raw.includes('\n')) {
+    return `"${raw.replace(/"/g, '""')}"`
+  }
+  return raw
+}
+
+export function toSafeFileToken(value: string): string {
+  const normalized = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase()
+
+  return normalized || 'dataset'
+}
+
+export function downloadBlob(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export function downloadCsvFile(fileName: string, csvContent: string): void {
+  downloadBlob(fileName, new Blob([`\uFEFF${csvContent}`], { type: 'text/csv;charset=utf-8;' }))
+}
+
+export function downloadJsonFile(fileName: string, payload: unknown): void {
+  downloadBlob(fileName, new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json;charset=utf-8;' }))
+}
@@ -0,0 +1,19 @@
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message
+  }
+  return 'Ha ocurrido un error inesperado'
+}
+
+export function formatDateTime(value: string | null): string {
+  if (!value) {
+    return '--'
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '--' : date.toLocaleString('es-ES')
+}
+
+export function formatDatasetDate(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('es-ES')
+}
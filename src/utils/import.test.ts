@@ -0,0 +1,86 @@
+import { readFile } from 'node:fs/promises'
+import { describe, expect, it } from 'vitest'
+import { describeImportSource, readImportSource } from './import'
+
+const XLSX_FIXTURE = new URL('../test/fixtures/flights.xlsx', import.meta.url)
+
+const csvFile = (content: BlobPart, name = 'vuelos.csv'): File => new File([content], name, { type: 'text/csv' })
+
+describe('readImportSource', () => {
+  it('detects the semicolon delimiter and reads the rows by header', async () => {
+    const source = await readImportSource(csvFile('TIPO;FECHA;VUELO\nSalida;10/12/2024;3101\n\nLlegada;10/12/2024;7\n'))
+
+    expect(source).toMatchObject({ format: 'csv', delimiter: ';', encoding: 'utf-8', headers: ['TIPO', 'FECHA', 'VUELO'] })
+    expect(source.rows).toEqual([
+      { TIPO: 'Salida', FECHA: '10/12/2024', VUELO: '3101' },
+      { TIPO: 'Llegada', FECHA: '10/12/2024', VUELO: '7' },
+    ])
+  })
+
+  it('strips the UTF-8 BOM from the first header', async () => {
+    const bom = new Uint8Array([0xef, 0xbb, 0xbf])
+    const body = new TextEncoder().encode('CÍA,VUELO\nIB,3101\n')
+    const source = await readImportSource(csvFile(new Uint8Array([...bom, ...body])))
+
+    expect(source.headers).toEqual(['CÍA', 'VUELO'])
+    expect(source.encoding).toBe('utf-8')
+  })
+
+  it('falls back to Windows-1252 when the file is not valid UTF-8', async () => {
+    // "CÍA;DSAPTO\nIB;MÁLAGA" encoded as Windows-1252.
+    const bytes = new Uint8Array([
+      0x43, 0xcd, 0x41, 0x3b, 0x44, 0x53, 0x41, 0x50, 0x54, 0x4f, 0x0a, 0x49, 0x42, 0x3b, 0x4d, 0xc1, 0x4c, 0x41, 0x47,
+      0x41,
+    ])
+    const source = await readImportSource(csvFile(bytes))
+
+    expect(source.encoding).toBe('windows-1252')
+    expect(source.rows).toEqual([{ 'CÍA': 'IB', DSAPTO: 'MÁLAGA' }])
+  })
+
+  it('reports rows the CSV parser could not split', async () => {
+    const source = await readImportSource(csvFile('TIPO,VUELO\nSalida,3101,extra\n'))
+
+    expect(source.errors).toEqual([expect.objectContaining({ rowIndex: 0 })])
+  })
+
+  it('reads the first sheet of an Excel file by default', async () => {
+    const file = new File([await readFile(XLSX_FIXTURE)], 'vuelos.xlsx')
+    const source = await readImportSource(file)
+
+    expect(source).toMatchObject({ format: 'xlsx', sheetNames: ['Resumen', 'Vuelos'], sheetName: 'Resumen' })
+    expect(source.headers).toEqual(['Informe'])
+  })
+
+  it('reads the chosen sheet, skipping blank rows and formatting dates and times', async () => {
+    const file = new File([await readFile(XLSX_FIXTURE)], 'vuelos.xlsx')
+    const source = await readImportSource(file, { sheetName: 'Vuelos' })
+
+    expect(source.headers).toEqual(['TIPO', 'FECHA', 'HORA', 'CIA', 'DSCIA', 'CDOCIA', 'VUELO'])
+    expect(source.rows).toEqual([
+      { TIPO: 'Salida', FECHA: '10/12/2024', HORA: '06:00', CIA: 'IB', DSCIA: 'IBERIA', CDOCIA: 'IBE', VUELO: '3101' },
+      { TIPO: 'Llegada', FECHA: '10/12/2024', HORA: '13:30', CIA: 'UX', DSCIA: 'AIR EUROPA', CDOCIA: 'AEA', VUELO: '7' },
+    ])
+  })
+
+  it('fails when the chosen sheet does not exist', async () => {
+    const file = new File([await readFile(XLSX_FIXTURE)], 'vuelos.xlsx')
+
+    await expect(readImportSource(file, { sheetName: 'Llegadas' })).rejects.toThrow('No existe la hoja Llegadas en el Excel')
+  })
+})
+
+describe('describeImportSource', () => {
+  it('labels CSV sources by delimiter and encoding', async () => {
+    const source = await readImportSource(csvFile('A\tB\n1\t2\n'))
+
+    expect(describeImportSource(source)).toBe('CSV tabulador, utf-8')
+  })
+
+  it('labels Excel sources by sheet', async () => {
+    const file = new File([await readFile(XLSX_FIXTURE)], 'vuelos.xlsx')
+    const source = await readImportSource(file, { sheetName: 'Vuelos' })
+
+    expect(describeImportSource(source)).toBe('Excel, hoja Vuelos')
+  })
+})
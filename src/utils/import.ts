@@ -0,0 +1,129 @@
+import Papa from 'papaparse'
+import readXlsxFile from 'read-excel-file/browser'
+import type { CsvPreview, ImportSource } from '../types'
+
+type RawCsvRow = Record<string, string>
+
+const PREVIEW_ROWS = 5
+const CSV_DELIMITERS = [',', ';', '\t', '|']
+const UTF8_BOM = [0xef, 0xbb, 0xbf]
+const EXCEL_EPOCH_YEAR = 1900
+
+const isSpreadsheetFile = (file: File): boolean => {
+  return /\.xlsx$/i.test(file.name) || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+const hasUtf8Bom = (bytes: Uint8Array): boolean => {
+  return UTF8_BOM.every((byte, index) => bytes[index] === byte)
+}
+
+const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer)
+  if (hasUtf8Bom(bytes)) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(UTF8_BOM.length)), encoding: 'utf-8' }
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' }
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' }
+  }
+}
+
+const padNumber = (value: number): string => String(value).padStart(2, '0')
+
+const formatSpreadsheetCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  if (value instanceof Date) {
+    const time = `${padNumber(value.getUTCHours())}:${padNumber(value.getUTCMinutes())}`
+    if (value.getUTCFullYear() < EXCEL_EPOCH_YEAR + 1) {
+      return time
+    }
+
+    const date = `${padNumber(value.getUTCDate())}/${padNumber(value.getUTCMonth() + 1)}/${value.getUTCFullYear()}`
+    return value.getUTCHours() === 0 && value.getUTCMinutes() === 0 ? date : `${date} ${time}`
+  }
+
+  return String(value).trim()
+}
+
+const readCsvSource = async (file: File): Promise<ImportSource> => {
+  const { text, encoding } = decodeText(await file.arrayBuffer())
+
+  const parsed = Papa.parse<RawCsvRow>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    delimitersToGuess: CSV_DELIMITERS,
+  })
+
+  return {
+    format: 'csv',
+    headers: (parsed.meta.fields ?? []).filter((header) => header.trim() !== ''),
+    rows: parsed.data,
+    errors: parsed.errors.map((parseError) => ({
+      rowIndex: parseError.row ?? -1,
+      message: parseError.message,
+    })),
+    delimiter: parsed.meta.delimiter,
+    encoding,
+    sheetNames: [],
+    sheetName: null,
+  }
+}
+
+const readSpreadsheetSource = async (file: File, sheetName?: string): Promise<ImportSource> => {
+  const sheets = await readXlsxFile(file)
+  if (sheets.length === 0) {
+    throw new Error('El Excel no contiene hojas')
+  }
+
+  const sheet = sheetName ? sheets.find((item) => item.sheet === sheetName) : sheets[0]
+  if (!sheet) {
+    throw new Error(`No existe la hoja ${sheetName} en el Excel`)
+  }
+
+  const cells = sheet.data.map((row) => row.map(formatSpreadsheetCell))
+  const headerIndex = cells.findIndex((row) => row.some((cell) => cell !== ''))
+  const headers = headerIndex === -1 ? [] : cells[headerIndex]
+
+  const rows = cells
+    .slice(headerIndex + 1)
+    .filter((row) => row.some((cell) => cell !== ''))
+    .map((row) => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ''])))
+
+  return {
+    format: 'xlsx',
+    headers: headers.filter((header) => header !== ''),
+    rows,
+    errors: [],
+    delimiter: null,
+    encoding: null,
+    sheetNames: sheets.map((item) => item.sheet),
+    sheetName: sheet.sheet,
+  }
+}
+
+export async function readImportSource(file: File, options?: { sheetName?: string }): Promise<ImportSource> {
+  if (isSpreadsheetFile(file)) {
+    return readSpreadsheetSource(file, options?.sheetName)
+  }
+  return readCsvSource(file)
+}
+
+export function buildImportPreview(source: ImportSource): CsvPreview {
+  return {
+    headers: source.headers,
+    rows: source.rows.slice(0, PREVIEW_ROWS),
+  }
+}
+
+export function describeImportSource(source: ImportSource): string {
+  if (source.format === 'xlsx') {
+    return `Excel, hoja ${source.sheetName ?? '--'}`
+  }
+  const delimiterLabel = source.delimiter === '\t' ? 'tabulador' : `"${source.delimiter ?? ','}"`
+  return `CSV ${delimiterLabel}, ${source.encoding ?? 'utf-8'}`
+}
@@ -0,0 +1,12 @@
+import { createHash } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { md5Hex } from './md5'
+
+describe('md5Hex', () => {
+  it.each(['', 'abc', '10/12/2024|06:00|IBE|3101|5.6 OTROS VUELOS|c0ffee42', 'MÁLAGA|€', 'x'.repeat(55), 'x'.repeat(64)])(
+    'matches the node digest of %j',
+    (input) => {
+      expect(md5Hex(input)).toBe(createHash('md5').update(input, 'utf8').digest('hex'))
+    },
+  )
+})
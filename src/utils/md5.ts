@@ -0,0 +1,70 @@
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4,
+  11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+const CONSTANTS = Array.from({ length: 64 }, (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 2 ** 32) >>> 0)
+
+const rotateLeft = (value: number, shift: number): number => (value << shift) | (value >>> (32 - shift))
+
+const toHexLittleEndian = (value: number): string => {
+  let hex = ''
+  for (let byte = 0; byte < 4; byte += 1) {
+    hex += ((value >>> (byte * 8)) & 0xff).toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+export function md5Hex(input: string): string {
+  const bytes = new TextEncoder().encode(input)
+  const paddedLength = (((bytes.length + 8) >> 6) + 1) * 64
+  const buffer = new Uint8Array(paddedLength)
+  buffer.set(bytes)
+  buffer[bytes.length] = 0x80
+  const view = new DataView(buffer.buffer)
+  view.setUint32(paddedLength - 8, (bytes.length * 8) >>> 0, true)
+  view.setUint32(paddedLength - 4, Math.floor(bytes.length / 2 ** 29), true)
+
+  let a0 = 0x67452301
+  let b0 = 0xefcdab89
+  let c0 = 0x98badcfe
+  let d0 = 0x10325476
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    let a = a0
+    let b = b0
+    let c = c0
+    let d = d0
+
+    for (let step = 0; step < 64; step += 1) {
+      let mixed: number
+      let wordIndex: number
+      if (step < 16) {
+        mixed = (b & c) | (~b & d)
+        wordIndex = step
+      } else if (step < 32) {
+        mixed = (d & b) | (~d & c)
+        wordIndex = (5 * step + 1) % 16
+      } else if (step < 48) {
+        mixed = b ^ c ^ d
+        wordIndex = (3 * step + 5) % 16
+      } else {
+        mixed = c ^ (b | ~d)
+        wordIndex = (7 * step) % 16
+      }
+
+      const rotated = rotateLeft((a + mixed + CONSTANTS[step] + view.getUint32(offset + wordIndex * 4, true)) | 0, SHIFTS[step])
+      a = d
+      d = c
+      c = b
+      b = (b + rotated) | 0
+    }
+
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+
+  return [a0, b0, c0, d0].map(toHexLittleEndian).join('')
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { buildFlight } from '../test/factories'
+import type { OperatedOutboxEntry } from '../types'
+import { applyOperatedOutbox } from './outbox'
+
+const buildEntry = (flightId: string, operatedAt: string): OperatedOutboxEntry => ({
+  id: `entry-${flightId}`,
+  datasetId: 'dataset-1',
+  flightId,
+  vuelo: flightId,
+  operatorEmail: 'op@example.com',
+  operatedAt,
+  queuedAt: '2026-10-19T08:05:00.000Z',
+})
+
+describe('applyOperatedOutbox', () => {
+  it('marks queued flights as operated with their original timestamp', () => {
+    const flights = [buildFlight({ id: 'f1' }), buildFlight({ id: 'f2' })]
+
+    const result = applyOperatedOutbox(flights, [buildEntry('f1', '2026-10-19T08:00:00.000Z')])
+
+    expect(result[0]).toMatchObject({
+      operated: true,
+      operatedAt: '2026-10-19T08:00:00.000Z',
+      operatedByEmail: 'op@example.com',
+    })
+    expect(result[1]).toBe(flights[1])
+  })
+
+  it('keeps flights that the server already reports as operated', () => {
+    const operated = buildFlight({
+      id: 'f1',
+      operated: true,
+      operatedAt: '2026-10-19T07:55:00.000Z',
+      operatedByEmail: 'other@example.com',
+    })
+
+    expect(applyOperatedOutbox([operated], [buildEntry('f1', '2026-10-19T08:00:00.000Z')])).toEqual([operated])
+  })
+})
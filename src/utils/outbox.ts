@@ -0,0 +1,25 @@
+import type { FlightRecord, OperatedOutboxEntry } from '../types'
+
+export function buildOperatedUpdate(
+  flight: FlightRecord,
+  operatorEmail: string,
+  operatedAt = new Date().toISOString(),
+): FlightRecord {
+  return {
+    ...flight,
+    operated: true,
+    operatedAt,
+    operatedByEmail: operatorEmail,
+  }
+}
+
+export function applyOperatedOutbox(flights: FlightRecord[], outbox: OperatedOutboxEntry[]): FlightRecord[] {
+  if (outbox.length === 0) {
+    return flights
+  }
+  const entriesByFlight = new Map(outbox.map((entry) => [entry.flightId, entry]))
+  return flights.map((flight) => {
+    const entry = entriesByFlight.get(flight.id)
+    return entry && !flight.operated ? buildOperatedUpdate(flight, entry.operatorEmail, entry.operatedAt) : flight
+  })
+}
@@ -0,0 +1,43 @@
+import type { CategoryDefinition, FlightRecord, ServiceFlag, ServiceFlagOverridePreview } from '../types'
+import { getDefaultTarget } from './categories'
+import { parseCsvDateToIso } from './dates'
+
+export function buildOverridePreview(
+  flights: FlightRecord[],
+  flight: FlightRecord,
+  nextFlag: ServiceFlag,
+  targets: Record<string, number>,
+  swapFlightId: string | null,
+  catalog: CategoryDefinition[],
+): ServiceFlagOverridePreview {
+  const dayIso = parseCsvDateToIso(flight.fecha)
+  const categoryFlights = flights.filter(
+    (item) =>
+      item.categoriaClasificacion === flight.categoriaClasificacion && parseCsvDateToIso(item.fecha) === dayIso,
+  )
+
+  const targetPercent = targets[flight.categoriaClasificacion] ?? getDefaultTarget(catalog, flight.categoriaClasificacion)
+  const requiredCount = categoryFlights.length === 0 ? 0 : Math.ceil((categoryFlights.length * targetPercent) / 100)
+  const attendBefore = categoryFlights.filter((item) => item.serviceFlag === 'ATENDER').length
+
+  const swapCandidates = categoryFlights.filter(
+    (item) =>
+      item.id !== flight.id &&
+      !item.operated &&
+      (nextFlag === 'ATENDER' ? item.serviceFlag === 'ATENDER' : item.serviceFlag !== 'ATENDER'),
+  )
+  const swapFlight = swapCandidates.find((item) => item.id === swapFlightId) ?? null
+
+  const flightDelta = (nextFlag === 'ATENDER' ? 1 : 0) - (flight.serviceFlag === 'ATENDER' ? 1 : 0)
+  const swapDelta = swapFlight ? (nextFlag === 'ATENDER' ? -1 : 1) : 0
+
+  return {
+    category: flight.categoriaClasificacion,
+    total: categoryFlights.length,
+    requiredCount,
+    attendBefore,
+    attendAfter: attendBefore + flightDelta + swapDelta,
+    swapCandidates,
+    swapFlight,
+  }
+}
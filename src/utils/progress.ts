@@ -1,11 +1,11 @@
-import { CATEGORY_ORDER, DEFAULT_TARGETS } from '../constants'
-import type { CategoryProgress, FlightRecord } from '../types'
-
-const categorySortIndex = new Map<string, number>(CATEGORY_ORDER.map((category, index) => [category, index]))
+import type { CategoryDefinition, CategoryForecast, CategoryProgress, FlightRecord } from '../types'
+import { getDefaultTarget, sortCategories } from './categories'
+import { parseCsvTimeToMinutes } from './dates'
 
 export function buildCategoryProgress(
   flights: FlightRecord[],
   targets: Record<string, number>,
+  catalog: CategoryDefinition[],
 ): CategoryProgress[] {
   const categories = new Set<string>()
 
@@ -16,38 +16,77 @@ export function buildCategoryProgress(
     categories.add(category)
   }
 
-  return [...categories]
-    .map((category) => {
-      const categoryFlights = flights.filter((flight) => flight.categoriaClasificacion === category)
-      const total = categoryFlights.length
-      const operated = categoryFlights.filter((flight) => flight.operated).length
-      const targetPercent = targets[category] ?? DEFAULT_TARGETS[category] ?? 0
-      const minimumRequired = total === 0 ? 0 : Math.ceil((total * targetPercent) / 100)
-      const remaining = Math.max(0, minimumRequired - operated)
-      const operatedPercent = total === 0 ? 0 : (operated / total) * 100
-
-      return {
-        category,
-        total,
-        operated,
-        targetPercent,
-        minimumRequired,
-        remaining,
-        operatedPercent,
-        achieved: operated >= minimumRequired,
-      }
-    })
-    .sort((a, b) => {
-      const aIndex = categorySortIndex.get(a.category) ?? Number.POSITIVE_INFINITY
-      const bIndex = categorySortIndex.get(b.category) ?? Number.POSITIVE_INFINITY
-      if (aIndex !== bIndex) {
-        return aIndex - bIndex
-      }
-      return a.category.localeCompare(b.category)
-    })
+  return sortCategories([...categories], catalog).map((category) => {
+    const categoryFlights = flights.filter((flight) => flight.categoriaClasificacion === category)
+    const total = categoryFlights.length
+    const operated = categoryFlights.filter((flight) => flight.operated).length
+    const targetPercent = targets[category] ?? getDefaultTarget(catalog, category)
+    const minimumRequired = total === 0 ? 0 : Math.ceil((total * targetPercent) / 100)
+    const remaining = Math.max(0, minimumRequired - operated)
+    const operatedPercent = total === 0 ? 0 : (operated / total) * 100
+
+    return {
+      category,
+      total,
+      operated,
+      targetPercent,
+      minimumRequired,
+      remaining,
+      operatedPercent,
+      achieved: operated >= minimumRequired,
+    }
+  })
+}
+
+const operatedRate = (flights: FlightRecord[]): number | null => {
+  return flights.length === 0 ? null : flights.filter((flight) => flight.operated).length / flights.length
+}
+
+export function buildCategoryForecast(
+  flights: FlightRecord[],
+  progress: CategoryProgress[],
+  nowMinutes: number,
+): CategoryForecast[] {
+  const isPast = (flight: FlightRecord): boolean => {
+    const minutes = parseCsvTimeToMinutes(flight.hora)
+    return minutes !== null && minutes < nowMinutes
+  }
+  const dayRate = operatedRate(flights.filter(isPast))
+
+  return progress.map((item) => {
+    const categoryFlights = flights.filter((flight) => flight.categoriaClasificacion === item.category)
+    const categoryRate = operatedRate(categoryFlights.filter(isPast))
+    const pending = categoryFlights
+      .filter((flight) => !flight.operated && !isPast(flight))
+      .sort((a, b) => (parseCsvTimeToMinutes(a.hora) ?? 0) - (parseCsvTimeToMinutes(b.hora) ?? 0))
+    const rate = categoryRate ?? dayRate
+    const projectedOperated = item.operated + Math.round((rate ?? 1) * pending.length)
+    const needed = item.minimumRequired - item.operated
+
+    let status: CategoryForecast['status'] = 'on_track'
+    if (needed <= 0) {
+      status = 'achieved'
+    } else if (pending.length < needed) {
+      status = 'unreachable'
+    } else if (projectedOperated < item.minimumRequired) {
+      status = 'at_risk'
+    }
+
+    return {
+      category: item.category,
+      minimumRequired: item.minimumRequired,
+      operated: item.operated,
+      pendingFlights: pending.length,
+      operatedRate: rate,
+      rateSource: categoryRate !== null ? 'category' : dayRate !== null ? 'day' : 'none',
+      projectedOperated,
+      status,
+      deadline: needed > 0 && pending.length >= needed ? pending[pending.length - needed].hora : null,
+    }
+  })
 }
 
-export function buildInitialTargets(categories: string[]): Record<string, number> {
-  const entries = categories.map((category) => [category, DEFAULT_TARGETS[category] ?? 0])
+export function buildInitialTargets(categories: string[], catalog: CategoryDefinition[]): Record<string, number> {
+  const entries = categories.map((category) => [category, getDefaultTarget(catalog, category)])
   return Object.fromEntries(entries)
 }
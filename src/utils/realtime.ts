@@ -0,0 +1,61 @@
+import type { FlightRecord, OperatedReversal, RealtimeEvent } from '../types'
+
+type FlightRealtimeEvent = Extract<RealtimeEvent, { type: 'flight_upserted' | 'flight_deleted' }>
+type TargetRealtimeEvent = Extract<RealtimeEvent, { type: 'target_upserted' | 'target_deleted' }>
+type ReversalRealtimeEvent = Extract<RealtimeEvent, { type: 'reversal_upserted' | 'reversal_deleted' }>
+
+const compareFlightSchedule = (a: FlightRecord, b: FlightRecord): number => {
+  return a.fecha.localeCompare(b.fecha) || a.hora.localeCompare(b.hora) || a.vuelo.localeCompare(b.vuelo)
+}
+
+export function applyFlightRealtimeEvent(flights: FlightRecord[], event: FlightRealtimeEvent): FlightRecord[] {
+  if (event.type === 'flight_deleted') {
+    return flights.some((flight) => flight.id === event.flightId)
+      ? flights.filter((flight) => flight.id !== event.flightId)
+      : flights
+  }
+
+  const existingIndex = flights.findIndex((flight) => flight.id === event.flight.id)
+  if (existingIndex !== -1) {
+    const nextFlights = [...flights]
+    nextFlights[existingIndex] = event.flight
+    return nextFlights
+  }
+
+  const insertIndex = flights.findIndex((flight) => compareFlightSchedule(event.flight, flight) < 0)
+  const nextFlights = [...flights]
+  nextFlights.splice(insertIndex === -1 ? flights.length : insertIndex, 0, event.flight)
+  return nextFlights
+}
+
+export function applyTargetRealtimeEvent(
+  targets: Record<string, number>,
+  event: TargetRealtimeEvent,
+): Record<string, number> {
+  if (event.type === 'target_deleted') {
+    const nextTargets = { ...targets }
+    delete nextTargets[event.category]
+    return nextTargets
+  }
+  return { ...targets, [event.category]: event.targetPercent }
+}
+
+export function upsertOperatedReversal(reversals: OperatedReversal[], reversal: OperatedReversal): OperatedReversal[] {
+  const existingIndex = reversals.findIndex((item) => item.id === reversal.id)
+  if (existingIndex === -1) {
+    return [reversal, ...reversals]
+  }
+  const nextReversals = [...reversals]
+  nextReversals[existingIndex] = reversal
+  return nextReversals
+}
+
+export function applyReversalRealtimeEvent(
+  reversals: OperatedReversal[],
+  event: ReversalRealtimeEvent,
+): OperatedReversal[] {
+  if (event.type === 'reversal_deleted') {
+    return reversals.filter((reversal) => reversal.id !== event.reversalId)
+  }
+  return upsertOperatedReversal(reversals, event.reversal)
+}
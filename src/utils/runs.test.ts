@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { buildFlight } from '../test/factories'
+import type { AssignmentRun, AssignmentRunFlag } from '../types'
+import { buildRunRestorePreview, diffAssignmentRuns } from './runs'
+
+const buildRun = (id: string, resultFlags: AssignmentRunFlag[] | null): AssignmentRun => ({
+  id,
+  datasetId: 'dataset-1',
+  workDate: '2024-12-10',
+  seed: 'c0ffee42',
+  strategy: 'uniform',
+  strategyParams: {},
+  summary: [],
+  updatedFlights: resultFlags?.length ?? 0,
+  resultFlags,
+  restoredFromRunId: null,
+  createdAt: '2026-10-19T08:00:00.000Z',
+  createdByEmail: 'admin@example.com',
+})
+
+describe('diffAssignmentRuns', () => {
+  it('lists the flights whose flag differs between two runs, sorted by flight key', () => {
+    const base = buildRun('base', [
+      { id: 'f1', flightKey: 'K1', serviceFlag: 'ATENDER' },
+      { id: 'f2', flightKey: 'K2', serviceFlag: 'NO_ATENDER' },
+      { id: 'f3', flightKey: 'K3', serviceFlag: 'ATENDER' },
+    ])
+    const compare = buildRun('compare', [
+      { id: 'f4', flightKey: 'K0', serviceFlag: 'ATENDER' },
+      { id: 'f2', flightKey: 'K2', serviceFlag: 'NO_ATENDER' },
+      { id: 'f1', flightKey: 'K1', serviceFlag: 'NO_ATENDER' },
+    ])
+
+    expect(diffAssignmentRuns(base, compare)).toEqual([
+      { flightId: 'f4', flightKey: 'K0', before: null, after: 'ATENDER' },
+      { flightId: 'f1', flightKey: 'K1', before: 'ATENDER', after: 'NO_ATENDER' },
+      { flightId: 'f3', flightKey: 'K3', before: 'ATENDER', after: null },
+    ])
+  })
+
+  it('treats runs without stored flags as empty', () => {
+    expect(diffAssignmentRuns(buildRun('a', null), buildRun('b', null))).toEqual([])
+  })
+})
+
+describe('buildRunRestorePreview', () => {
+  it('previews the flag changes and keeps operated flights as they are', () => {
+    const flights = [
+      buildFlight({ id: 'f1', vuelo: '1', serviceFlag: 'NO_ATENDER' }),
+      buildFlight({ id: 'f2', vuelo: '2', serviceFlag: 'ATENDER' }),
+      buildFlight({ id: 'f3', vuelo: '3', serviceFlag: 'ATENDER', operated: true }),
+    ]
+    const run = buildRun('run', [
+      { id: 'f1', flightKey: flights[0].flightKey, serviceFlag: 'ATENDER' },
+      { id: 'f2', flightKey: flights[1].flightKey, serviceFlag: 'ATENDER' },
+      { id: 'f3', flightKey: flights[2].flightKey, serviceFlag: 'NO_ATENDER' },
+      { id: 'gone', flightKey: 'GONE', serviceFlag: 'ATENDER' },
+    ])
+
+    expect(buildRunRestorePreview(run, flights)).toEqual({
+      changes: [{ flightId: 'f1', flightKey: flights[0].flightKey, before: 'NO_ATENDER', after: 'ATENDER' }],
+      keptOperated: 1,
+    })
+  })
+})
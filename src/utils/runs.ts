@@ -0,0 +1,48 @@
+import type { AssignmentRun, AssignmentRunChange, AssignmentRunRestorePreview, FlightRecord } from '../types'
+
+export function diffAssignmentRuns(base: AssignmentRun, compare: AssignmentRun): AssignmentRunChange[] {
+  const baseFlags = new Map((base.resultFlags ?? []).map((flag) => [flag.id, flag]))
+  const compareFlags = new Map((compare.resultFlags ?? []).map((flag) => [flag.id, flag]))
+  const flightIds = new Set([...baseFlags.keys(), ...compareFlags.keys()])
+
+  const changes: AssignmentRunChange[] = []
+  for (const flightId of flightIds) {
+    const before = baseFlags.get(flightId)
+    const after = compareFlags.get(flightId)
+    if (before?.serviceFlag === after?.serviceFlag) {
+      continue
+    }
+    changes.push({
+      flightId,
+      flightKey: after?.flightKey ?? before?.flightKey ?? flightId,
+      before: before?.serviceFlag ?? null,
+      after: after?.serviceFlag ?? null,
+    })
+  }
+
+  return changes.sort((a, b) => a.flightKey.localeCompare(b.flightKey))
+}
+
+export function buildRunRestorePreview(run: AssignmentRun, flights: FlightRecord[]): AssignmentRunRestorePreview {
+  const flightsById = new Map(flights.map((flight) => [flight.id, flight]))
+  const changes: AssignmentRunChange[] = []
+  let keptOperated = 0
+
+  for (const flag of run.resultFlags ?? []) {
+    const flight = flightsById.get(flag.id)
+    if (!flight) {
+      continue
+    }
+    if (flight.operated) {
+      if (flight.serviceFlag !== flag.serviceFlag) {
+        keptOperated += 1
+      }
+      continue
+    }
+    if (flight.serviceFlag !== flag.serviceFlag) {
+      changes.push({ flightId: flight.id, flightKey: flight.flightKey, before: flight.serviceFlag, after: flag.serviceFlag })
+    }
+  }
+
+  return { changes: changes.sort((a, b) => a.flightKey.localeCompare(b.flightKey)), keptOperated }
+}
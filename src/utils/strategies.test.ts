@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest'
+import { parseDestinationWeights } from './strategies'
+
+describe('parseDestinationWeights', () => {
+  it('reads one DSAPTO=peso pair per line, splitting on the last equals sign', () => {
+    expect(parseDestinationWeights('MADRID=3\n  PALMA = 0 \nA=B=1.5\n')).toEqual({ MADRID: 3, PALMA: 0, 'A=B': 1.5 })
+  })
+
+  it('skips lines without a destination or with a negative or non-numeric weight', () => {
+    expect(parseDestinationWeights('MADRID\n=2\nPALMA=-1\nTENERIFE=alto\nMALAGA=2')).toEqual({ MALAGA: 2 })
+  })
+})
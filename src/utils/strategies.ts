@@ -0,0 +1,130 @@
+import type { AssignmentStrategyId, AssignmentStrategyParams, FlightRecord } from '../types'
+import { parseCsvTimeToMinutes } from './dates'
+import { md5Hex } from './md5'
+
+interface AssignmentStrategy {
+  label: string
+  description: string
+  rank: (flights: FlightRecord[], seed: string, params: AssignmentStrategyParams) => FlightRecord[]
+}
+
+export const DEFAULT_BUCKET_MINUTES = 60
+
+const HASH_RANGE = 2 ** 32
+
+const compareCodeUnits = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0)
+
+const seededHash = (seed: string, flight: FlightRecord): string => md5Hex(`${flight.flightKey}|${seed}`)
+
+const seededUniform = (seed: string, flight: FlightRecord): number =>
+  (Number.parseInt(seededHash(seed, flight).slice(0, 8), 16) + 0.5) / HASH_RANGE
+
+const compareBySeed = (seed: string) => {
+  const hashes = new Map<string, string>()
+  const hashOf = (flight: FlightRecord): string => {
+    let hash = hashes.get(flight.flightKey)
+    if (hash === undefined) {
+      hash = seededHash(seed, flight)
+      hashes.set(flight.flightKey, hash)
+    }
+    return hash
+  }
+  return (a: FlightRecord, b: FlightRecord): number =>
+    compareCodeUnits(hashOf(a), hashOf(b)) || compareCodeUnits(a.flightKey, b.flightKey)
+}
+
+const rankByKey = (
+  flights: FlightRecord[],
+  seed: string,
+  keyOf: (flight: FlightRecord) => number,
+): FlightRecord[] => {
+  const keys = new Map(flights.map((flight) => [flight.id, keyOf(flight)]))
+  const bySeed = compareBySeed(seed)
+  return [...flights].sort((a, b) => {
+    const aKey = keys.get(a.id) ?? 0
+    const bKey = keys.get(b.id) ?? 0
+    if (aKey !== bKey) {
+      return aKey < bKey ? -1 : 1
+    }
+    return bySeed(a, b)
+  })
+}
+
+const rankByStratum = (
+  flights: FlightRecord[],
+  seed: string,
+  stratumOf: (flight: FlightRecord) => string,
+  keyOf: (stratumRank: number, stratumSize: number) => number,
+): FlightRecord[] => {
+  const strata = new Map<string, FlightRecord[]>()
+  for (const flight of [...flights].sort(compareBySeed(seed))) {
+    const stratum = stratumOf(flight)
+    const bucket = strata.get(stratum)
+    if (bucket) {
+      bucket.push(flight)
+    } else {
+      strata.set(stratum, [flight])
+    }
+  }
+
+  const keys = new Map<string, number>()
+  for (const stratumFlights of strata.values()) {
+    stratumFlights.forEach((flight, index) => keys.set(flight.id, keyOf(index + 1, stratumFlights.length)))
+  }
+
+  return rankByKey(flights, seed, (flight) => keys.get(flight.id) ?? 0)
+}
+
+export const ASSIGNMENT_STRATEGIES: Record<AssignmentStrategyId, AssignmentStrategy> = {
+  uniform: {
+    label: 'Aleatorio uniforme',
+    description: 'Todos los vuelos de la categoria tienen la misma probabilidad.',
+    rank: (flights, seed) => [...flights].sort(compareBySeed(seed)),
+  },
+  hour_stratified: {
+    label: 'Estratificado por hora',
+    description: 'Reparte los vuelos ATENDER de forma proporcional entre las franjas horarias del dia.',
+    rank: (flights, seed, params) => {
+      const bucketMinutes = Math.max(params.bucketMinutes ?? DEFAULT_BUCKET_MINUTES, 1)
+      return rankByStratum(
+        flights,
+        seed,
+        (flight) => {
+          const minutes = parseCsvTimeToMinutes(flight.hora)
+          return minutes === null ? '' : String(Math.floor(minutes / bucketMinutes))
+        },
+        (stratumRank, stratumSize) => (stratumRank - 0.5) / stratumSize,
+      )
+    },
+  },
+  airline_round_robin: {
+    label: 'Rotacion por aerolinea',
+    description: 'Alterna entre aerolineas (CDOCIA) para que ninguna acumule todos los vuelos ATENDER.',
+    rank: (flights, seed) => rankByStratum(flights, seed, (flight) => flight.cdocia, (stratumRank) => stratumRank),
+  },
+  destination_weighted: {
+    label: 'Ponderado por destino',
+    description: 'Sorteo aleatorio donde cada destino (DSAPTO) pesa segun su factor; sin peso vale 1 y con 0 queda al final.',
+    rank: (flights, seed, params) =>
+      rankByKey(flights, seed, (flight) => {
+        const weight = params.weights?.[flight.dsapto] ?? 1
+        return weight > 0 ? -Math.log(seededUniform(seed, flight)) / weight : Number.POSITIVE_INFINITY
+      }),
+  },
+}
+
+export function parseDestinationWeights(input: string): Record<string, number> {
+  const weights: Record<string, number> = {}
+  for (const line of input.split('\n')) {
+    const separatorIndex = line.lastIndexOf('=')
+    if (separatorIndex === -1) {
+      continue
+    }
+    const destination = line.slice(0, separatorIndex).trim()
+    const weight = Number(line.slice(separatorIndex + 1).trim())
+    if (destination && Number.isFinite(weight) && weight >= 0) {
+      weights[destination] = weight
+    }
+  }
+  return weights
+}
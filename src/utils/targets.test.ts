@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import type { TargetRule } from '../types'
+import { applyTargetRule, clampPercent, describeTargetRule, getIsoWeekday, resolveTargetRule } from './targets'
+
+const buildRule = (overrides: Partial<TargetRule>): TargetRule => ({
+  id: 'rule',
+  datasetId: 'dataset-1',
+  name: 'Regla',
+  kind: 'weekday',
+  weekdays: [],
+  startDate: null,
+  endDate: null,
+  targets: {},
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('clampPercent', () => {
+  it('keeps percentages between 0 and 100 with two decimals', () => {
+    expect(clampPercent(33.3333)).toBe(33.33)
+    expect(clampPercent(-5)).toBe(0)
+    expect(clampPercent(140)).toBe(100)
+    expect(clampPercent(Number.NaN)).toBe(0)
+  })
+})
+
+describe('getIsoWeekday', () => {
+  it('numbers the week from Monday to Sunday', () => {
+    expect(getIsoWeekday('2024-12-09')).toBe(1)
+    expect(getIsoWeekday('2024-12-15')).toBe(7)
+  })
+})
+
+describe('resolveTargetRule', () => {
+  const weekend = buildRule({ id: 'weekend', weekdays: [6, 7] })
+  const december = buildRule({ id: 'december', kind: 'date_range', startDate: '2024-12-01', endDate: '2024-12-31' })
+  const christmas = buildRule({ id: 'christmas', kind: 'date_range', startDate: '2024-12-24', endDate: '2024-12-26' })
+
+  it('prefers the shortest date range over weekday rules', () => {
+    const rules = [weekend, december, christmas]
+
+    expect(resolveTargetRule(rules, '2024-12-25')?.id).toBe('christmas')
+    expect(resolveTargetRule(rules, '2024-12-14')?.id).toBe('december')
+    expect(resolveTargetRule([weekend], '2024-12-14')?.id).toBe('weekend')
+  })
+
+  it('breaks ties with the most recently updated rule', () => {
+    const older = buildRule({ id: 'older', weekdays: [3], updatedAt: '2026-10-01T00:00:00.000Z' })
+    const newer = buildRule({ id: 'newer', weekdays: [3], updatedAt: '2026-10-02T00:00:00.000Z' })
+
+    expect(resolveTargetRule([older, newer], '2024-12-11')?.id).toBe('newer')
+  })
+
+  it('returns null when no rule applies or the date is not ISO', () => {
+    expect(resolveTargetRule([weekend, christmas], '2024-12-11')).toBeNull()
+    expect(resolveTargetRule([weekend], '14/12/2024')).toBeNull()
+  })
+})
+
+describe('applyTargetRule', () => {
+  it('overrides only the categories the rule sets', () => {
+    const rule = buildRule({ targets: { '5.6 OTROS VUELOS': 40 } })
+
+    expect(applyTargetRule({ '5.3 DOMESTICO NO PENINSULAR': 20, '5.6 OTROS VUELOS': 10 }, rule)).toEqual({
+      '5.3 DOMESTICO NO PENINSULAR': 20,
+      '5.6 OTROS VUELOS': 40,
+    })
+  })
+})
+
+describe('describeTargetRule', () => {
+  it('labels weekdays in order and date ranges by their bounds', () => {
+    expect(describeTargetRule(buildRule({ weekdays: [7, 1, 6] }))).toBe('Lun, Sab, Dom')
+    expect(describeTargetRule(buildRule({ kind: 'date_range', startDate: '2024-12-24', endDate: '2024-12-26' }))).toBe(
+      '2024-12-24 a 2024-12-26',
+    )
+    expect(describeTargetRule(buildRule({ kind: 'date_range', startDate: '2024-12-25', endDate: '2024-12-25' }))).toBe(
+      '2024-12-25',
+    )
+  })
+})
@@ -0,0 +1,63 @@
+import type { TargetRule } from '../types'
+import { isIsoDate } from './dates'
+
+export const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mie', 'Jue', 'Vie', 'Sab', 'Dom']
+
+export function clampPercent(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 0
+  }
+  return Math.max(0, Math.min(100, Number(value.toFixed(2))))
+}
+
+export function getIsoWeekday(isoDate: string): number {
+  const day = new Date(`${isoDate}T00:00:00Z`).getUTCDay()
+  return day === 0 ? 7 : day
+}
+
+const rangeLength = (rule: TargetRule): number => {
+  if (!rule.startDate || !rule.endDate) {
+    return Number.POSITIVE_INFINITY
+  }
+  return Date.parse(rule.endDate) - Date.parse(rule.startDate)
+}
+
+export function resolveTargetRule(rules: TargetRule[], workDateIso: string): TargetRule | null {
+  if (!isIsoDate(workDateIso)) {
+    return null
+  }
+
+  const weekday = getIsoWeekday(workDateIso)
+  const matches = rules.filter((rule) =>
+    rule.kind === 'date_range'
+      ? Boolean(rule.startDate && rule.endDate && rule.startDate <= workDateIso && workDateIso <= rule.endDate)
+      : rule.weekdays.includes(weekday),
+  )
+
+  return (
+    matches.sort((a, b) => {
+      if (a.kind !== b.kind) {
+        return a.kind === 'date_range' ? -1 : 1
+      }
+      const lengthDelta = rangeLength(a) - rangeLength(b)
+      if (lengthDelta !== 0 && Number.isFinite(lengthDelta)) {
+        return lengthDelta
+      }
+      return b.updatedAt.localeCompare(a.updatedAt)
+    })[0] ?? null
+  )
+}
+
+export function applyTargetRule(targets: Record<string, number>, rule: TargetRule | null): Record<string, number> {
+  return rule ? { ...targets, ...rule.targets } : targets
+}
+
+export function describeTargetRule(rule: TargetRule): string {
+  if (rule.kind === 'date_range') {
+    return rule.startDate === rule.endDate ? (rule.startDate ?? '') : `${rule.startDate} a ${rule.endDate}`
+  }
+  return [...rule.weekdays]
+    .sort((a, b) => a - b)
+    .map((weekday) => WEEKDAY_LABELS[weekday - 1])
+    .join(', ')
+}
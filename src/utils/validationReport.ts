@@ -0,0 +1,37 @@
+import type { CsvIssueProblem, CsvValidationIssue } from '../types'
+import { escapeCsvCell } from './download'
+
+const CSV_PROBLEM_LABELS: Record<CsvIssueProblem, string> = {
+  missing_value: 'Valor vacio',
+  invalid_date: 'Fecha invalida',
+  invalid_time: 'Hora invalida',
+  unknown_category: 'Categoria desconocida',
+  auto_classified: 'Categoria asignada por regla',
+  unclassified: 'Sin regla de clasificacion',
+  duplicate_key: 'Vuelo duplicado',
+  parse_error: 'Fila ilegible',
+}
+
+export function describeCsvIssue(issue: CsvValidationIssue): string {
+  if (issue.problem === 'duplicate_key' && issue.duplicateOfRow !== undefined) {
+    return `${CSV_PROBLEM_LABELS[issue.problem]} (fila ${issue.duplicateOfRow})`
+  }
+  return CSV_PROBLEM_LABELS[issue.problem]
+}
+
+export function buildValidationReportCsv(issues: CsvValidationIssue[]): string {
+  const headers = ['fila', 'columna', 'problema', 'gravedad', 'valor']
+  const lines = issues.map((issue) => {
+    return [
+      issue.row || '',
+      issue.column,
+      describeCsvIssue(issue),
+      issue.severity === 'error' ? 'descartada' : 'aviso',
+      issue.value,
+    ]
+      .map(escapeCsvCell)
+      .join(',')
+  })
+
+  return [headers.join(','), ...lines].join('\r\n')
+}
@@ -0,0 +1,14 @@
+alter table public.flights
+  add column if not exists avo text not null default '',
+  add column if not exists ast text not null default '',
+  add column if not exists dsmotivo text not null default '',
+  add column if not exists org_nxt text not null default '',
+  add column if not exists prv_fin text not null default '',
+  add column if not exists dsapto text not null default '',
+  add column if not exists dstpapto text not null default '',
+  add column if not exists cdpais text not null default '',
+  add column if not exists dspais text not null default '',
+  add column if not exists dsaclase text not null default '';
+
+create index if not exists flights_dataset_org_nxt_idx
+  on public.flights(dataset_id, org_nxt);
@@ -0,0 +1,42 @@
+create table if not exists public.csv_mapping_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  mapping jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint csv_mapping_profiles_name_unique unique (name),
+  constraint csv_mapping_profiles_mapping_object check (jsonb_typeof(mapping) = 'object')
+);
+
+drop trigger if exists trg_csv_mapping_profiles_touch_updated_at on public.csv_mapping_profiles;
+create trigger trg_csv_mapping_profiles_touch_updated_at
+before update on public.csv_mapping_profiles
+for each row
+execute function public.touch_updated_at();
+
+alter table public.csv_mapping_profiles enable row level security;
+
+drop policy if exists csv_mapping_profiles_select_allowed on public.csv_mapping_profiles;
+create policy csv_mapping_profiles_select_allowed
+on public.csv_mapping_profiles
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists csv_mapping_profiles_insert_allowed on public.csv_mapping_profiles;
+create policy csv_mapping_profiles_insert_allowed
+on public.csv_mapping_profiles
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists csv_mapping_profiles_update_allowed on public.csv_mapping_profiles;
+create policy csv_mapping_profiles_update_allowed
+on public.csv_mapping_profiles
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+grant select, insert, update on public.csv_mapping_profiles to authenticated;
@@ -0,0 +1,50 @@
+alter table public.datasets
+  add column if not exists source_work_date text not null default '';
+
+create index if not exists datasets_source_hash_idx
+  on public.datasets(source_hash, source_work_date);
+
+create or replace function public.create_dataset(
+  p_name text,
+  p_source_hash text,
+  p_work_date text,
+  p_scope_work_date boolean default false
+)
+returns table(dataset_id uuid, dataset_name text, created_at timestamptz, created boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_work_date text := coalesce(p_work_date, '');
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para crear datasets';
+  end if;
+
+  if coalesce(p_source_hash, '') = '' then
+    raise exception 'El dataset necesita el hash del archivo origen';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('dataset_source|' || p_source_hash)::bigint);
+
+  return query
+  select d.id, d.name, d.created_at, false
+  from public.datasets d
+  where d.source_hash = p_source_hash
+    and (not p_scope_work_date or d.source_work_date = v_work_date)
+  order by d.created_at desc
+  limit 1;
+
+  if found then
+    return;
+  end if;
+
+  return query
+  insert into public.datasets as d (name, source_hash, source_work_date, created_by)
+  values (p_name, p_source_hash, v_work_date, auth.uid())
+  returning d.id, d.name, d.created_at, true;
+end;
+$$;
+
+grant execute on function public.create_dataset(text, text, text, boolean) to authenticated;
@@ -0,0 +1,225 @@
+create table if not exists public.operated_reversals (
+  id uuid primary key default gen_random_uuid(),
+  flight_id uuid not null references public.flights(id) on delete cascade,
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  reason text not null,
+  status text not null default 'pending',
+  operated_at timestamptz not null,
+  operated_by_email text not null,
+  requested_at timestamptz not null default timezone('utc', now()),
+  requested_by uuid not null default auth.uid() references auth.users(id),
+  requested_by_email text not null,
+  resolved_at timestamptz,
+  resolved_by_email text,
+  constraint operated_reversals_reason_required check (length(trim(reason)) > 0),
+  constraint operated_reversals_status_valid check (status in ('pending', 'approved', 'rejected'))
+);
+
+create unique index if not exists operated_reversals_pending_idx
+  on public.operated_reversals(flight_id)
+  where status = 'pending';
+
+create index if not exists operated_reversals_dataset_idx
+  on public.operated_reversals(dataset_id, requested_at desc);
+
+create or replace function public.enforce_flight_operated_rules()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.operated = true then
+      if new.operated_at is null then
+        new.operated_at = timezone('utc', now());
+      end if;
+
+      if coalesce(trim(new.operated_by_email), '') = '' then
+        new.operated_by_email = public.current_user_email();
+      end if;
+
+      new.operated_by_email = lower(new.operated_by_email);
+    else
+      new.operated_at = null;
+      new.operated_by_email = null;
+    end if;
+
+    return new;
+  end if;
+
+  if old.operated = true and new.operated = false then
+    if coalesce(current_setting('app.operated_reversal_flight', true), '') <> old.id::text then
+      raise exception 'No se puede desmarcar un vuelo ya operado sin una reversion aprobada';
+    end if;
+
+    new.operated_at = null;
+    new.operated_by_email = null;
+    return new;
+  end if;
+
+  if old.operated = true and new.operated = true then
+    new.operated = true;
+    new.operated_at = old.operated_at;
+    new.operated_by_email = old.operated_by_email;
+    return new;
+  end if;
+
+  if old.operated = false and new.operated = true then
+    if new.operated_at is null then
+      new.operated_at = timezone('utc', now());
+    end if;
+
+    if coalesce(trim(new.operated_by_email), '') = '' then
+      new.operated_by_email = public.current_user_email();
+    end if;
+
+    new.operated_by_email = lower(new.operated_by_email);
+    return new;
+  end if;
+
+  new.operated = false;
+  new.operated_at = null;
+  new.operated_by_email = null;
+  return new;
+end;
+$$;
+
+create or replace function public.request_operated_reversal(p_flight_id uuid, p_reason text)
+returns public.operated_reversals
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_flight public.flights%rowtype;
+  v_reversal public.operated_reversals%rowtype;
+begin
+  if not public.current_user_is_allowed() then
+    raise exception 'Usuario no autorizado para solicitar reversiones';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Indica el motivo de la reversion';
+  end if;
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id
+  for update;
+
+  if not found then
+    raise exception 'Vuelo no encontrado';
+  end if;
+
+  if not v_flight.operated then
+    raise exception 'El vuelo no esta marcado como operado';
+  end if;
+
+  if exists (
+    select 1
+    from public.operated_reversals r
+    where r.flight_id = p_flight_id
+      and r.status = 'pending'
+  ) then
+    raise exception 'Ya hay una solicitud de reversion pendiente para este vuelo';
+  end if;
+
+  insert into public.operated_reversals (
+    flight_id,
+    dataset_id,
+    reason,
+    operated_at,
+    operated_by_email,
+    requested_by,
+    requested_by_email
+  )
+  values (
+    v_flight.id,
+    v_flight.dataset_id,
+    trim(p_reason),
+    v_flight.operated_at,
+    v_flight.operated_by_email,
+    auth.uid(),
+    public.current_user_email()
+  )
+  returning * into v_reversal;
+
+  return v_reversal;
+end;
+$$;
+
+grant execute on function public.request_operated_reversal(uuid, text) to authenticated;
+
+create or replace function public.resolve_operated_reversal(p_reversal_id uuid, p_approve boolean)
+returns public.operated_reversals
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reversal public.operated_reversals%rowtype;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para resolver reversiones';
+  end if;
+
+  select * into v_reversal
+  from public.operated_reversals r
+  where r.id = p_reversal_id
+  for update;
+
+  if not found then
+    raise exception 'Solicitud de reversion no encontrada';
+  end if;
+
+  if v_reversal.status <> 'pending' then
+    raise exception 'La solicitud de reversion ya fue resuelta';
+  end if;
+
+  if p_approve then
+    perform set_config('app.operated_reversal_flight', v_reversal.flight_id::text, true);
+
+    update public.flights
+    set operated = false
+    where id = v_reversal.flight_id;
+
+    perform set_config('app.operated_reversal_flight', '', true);
+  end if;
+
+  update public.operated_reversals
+  set
+    status = case when p_approve then 'approved' else 'rejected' end,
+    resolved_at = timezone('utc', now()),
+    resolved_by_email = public.current_user_email()
+  where id = p_reversal_id
+  returning * into v_reversal;
+
+  return v_reversal;
+end;
+$$;
+
+grant execute on function public.resolve_operated_reversal(uuid, boolean) to authenticated;
+
+alter table public.operated_reversals enable row level security;
+
+drop policy if exists operated_reversals_select_allowed on public.operated_reversals;
+create policy operated_reversals_select_allowed
+on public.operated_reversals
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+grant select on public.operated_reversals to authenticated;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'operated_reversals'
+  ) then
+    alter publication supabase_realtime add table public.operated_reversals;
+  end if;
+end;
+$$;
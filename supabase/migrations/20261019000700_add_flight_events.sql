@@ -0,0 +1,146 @@
+create table if not exists public.flight_events (
+  id bigint generated always as identity primary key,
+  flight_id uuid not null,
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  event_type text not null,
+  old_values jsonb not null default '{}'::jsonb,
+  new_values jsonb not null default '{}'::jsonb,
+  actor_email text,
+  run_id uuid,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint flight_events_type_valid check (
+    event_type in ('created', 'operated', 'operated_reverted', 'service_flag', 'fields_updated', 'deleted')
+  )
+);
+
+create index if not exists flight_events_flight_idx
+  on public.flight_events(flight_id, created_at desc);
+
+create index if not exists flight_events_dataset_idx
+  on public.flight_events(dataset_id, created_at desc);
+
+create or replace function public.log_flight_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text := nullif(public.current_user_email(), '');
+  v_fields text[] := array[
+    'categoria_clasificacion', 'tipo', 'fecha', 'hora', 'cia', 'dscia', 'cdocia', 'vuelo', 'avo', 'ast',
+    'dsmotivo', 'org_nxt', 'prv_fin', 'dsapto', 'dstpapto', 'cdpais', 'dspais', 'dsaclase'
+  ];
+  v_old jsonb;
+  v_new jsonb;
+  v_reversal public.operated_reversals%rowtype;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.flight_events (flight_id, dataset_id, event_type, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'created',
+      jsonb_build_object('flight_key', new.flight_key, 'operated', new.operated, 'service_flag', new.service_flag),
+      v_actor
+    );
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    if not exists (select 1 from public.datasets d where d.id = old.dataset_id) then
+      return old;
+    end if;
+
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, actor_email)
+    values (
+      old.id,
+      old.dataset_id,
+      'deleted',
+      jsonb_build_object('flight_key', old.flight_key, 'operated', old.operated, 'service_flag', old.service_flag),
+      v_actor
+    );
+    return old;
+  end if;
+
+  if old.operated = false and new.operated = true then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'operated',
+      jsonb_build_object('operated', false),
+      jsonb_build_object('operated', true, 'operated_at', new.operated_at, 'operated_by_email', new.operated_by_email),
+      coalesce(v_actor, new.operated_by_email)
+    );
+  elsif old.operated = true and new.operated = false then
+    select * into v_reversal
+    from public.operated_reversals r
+    where r.flight_id = new.id
+      and r.status = 'pending'
+    limit 1;
+
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'operated_reverted',
+      jsonb_build_object('operated', true, 'operated_at', old.operated_at, 'operated_by_email', old.operated_by_email),
+      jsonb_strip_nulls(
+        jsonb_build_object(
+          'operated', false,
+          'reversal_id', v_reversal.id,
+          'reason', v_reversal.reason,
+          'requested_by_email', v_reversal.requested_by_email
+        )
+      ),
+      v_actor
+    );
+  end if;
+
+  if old.service_flag is distinct from new.service_flag
+    or old.service_flag_source is distinct from new.service_flag_source then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email, run_id)
+    values (
+      new.id,
+      new.dataset_id,
+      'service_flag',
+      jsonb_build_object('service_flag', old.service_flag, 'service_flag_source', old.service_flag_source),
+      jsonb_build_object('service_flag', new.service_flag, 'service_flag_source', new.service_flag_source),
+      coalesce(v_actor, new.service_flag_updated_by_email),
+      new.service_flag_run_id
+    );
+  end if;
+
+  select
+    coalesce(jsonb_object_agg(field, to_jsonb(old) -> field), '{}'::jsonb),
+    coalesce(jsonb_object_agg(field, to_jsonb(new) -> field), '{}'::jsonb)
+  into v_old, v_new
+  from unnest(v_fields) as field
+  where (to_jsonb(old) -> field) is distinct from (to_jsonb(new) -> field);
+
+  if v_new <> '{}'::jsonb then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (new.id, new.dataset_id, 'fields_updated', v_old, v_new, v_actor);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_flights_log_events on public.flights;
+create trigger trg_flights_log_events
+after insert or update or delete on public.flights
+for each row
+execute function public.log_flight_events();
+
+alter table public.flight_events enable row level security;
+
+drop policy if exists flight_events_select_allowed on public.flight_events;
+create policy flight_events_select_allowed
+on public.flight_events
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+grant select on public.flight_events to authenticated;
@@ -0,0 +1,84 @@
+create or replace function public.set_manual_service_flag(
+  p_flight_id uuid,
+  p_service_flag text,
+  p_swap_flight_id uuid default null
+)
+returns setof public.flights
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_flight public.flights%rowtype;
+  v_swap public.flights%rowtype;
+  v_work_date date;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para cambiar etiquetas';
+  end if;
+
+  if p_service_flag is null or p_service_flag not in ('ATENDER', 'NO_ATENDER') then
+    raise exception 'Etiqueta no valida';
+  end if;
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id;
+
+  if not found then
+    raise exception 'Vuelo no encontrado';
+  end if;
+
+  v_work_date := public.parse_work_date(v_flight.fecha);
+
+  perform pg_advisory_xact_lock(
+    hashtext('auto_assign|' || v_flight.dataset_id::text || '|' || coalesce(to_char(v_work_date, 'YYYY-MM-DD'), ''))::bigint
+  );
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id
+  for update;
+
+  if v_flight.operated then
+    raise exception 'No se puede cambiar la etiqueta de un vuelo ya operado';
+  end if;
+
+  if p_swap_flight_id is not null then
+    select * into v_swap
+    from public.flights f
+    where f.id = p_swap_flight_id
+    for update;
+
+    if not found
+      or v_swap.id = v_flight.id
+      or v_swap.dataset_id <> v_flight.dataset_id
+      or v_swap.categoria_clasificacion <> v_flight.categoria_clasificacion
+      or public.parse_work_date(v_swap.fecha) is distinct from v_work_date then
+      raise exception 'El vuelo de compensacion debe ser de la misma categoria y dia';
+    end if;
+
+    if v_swap.operated then
+      raise exception 'El vuelo de compensacion ya esta operado';
+    end if;
+  end if;
+
+  return query
+  update public.flights f
+  set
+    service_flag = case
+      when f.id = p_flight_id then p_service_flag
+      when p_service_flag = 'ATENDER' then 'NO_ATENDER'
+      else 'ATENDER'
+    end,
+    service_flag_source = 'manual',
+    service_flag_updated_at = timezone('utc', now()),
+    service_flag_updated_by_email = public.current_user_email(),
+    service_flag_run_id = null
+  where f.id = p_flight_id
+     or f.id = p_swap_flight_id
+  returning f.*;
+end;
+$$;
+
+grant execute on function public.set_manual_service_flag(uuid, text, uuid) to authenticated;
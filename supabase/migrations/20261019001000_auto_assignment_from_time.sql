@@ -0,0 +1,190 @@
+create or replace function public.parse_flight_minutes(p_value text)
+returns integer
+language plpgsql
+immutable
+as $$
+declare
+  v_parts text[];
+begin
+  v_parts := regexp_match(trim(coalesce(p_value, '')), '^(\d{1,2}):(\d{2})(?::\d{2})?$');
+  if v_parts is null or v_parts[1]::integer > 23 or v_parts[2]::integer > 59 then
+    return null;
+  end if;
+
+  return v_parts[1]::integer * 60 + v_parts[2]::integer;
+end;
+$$;
+
+drop function if exists public.run_auto_assignment(uuid, text);
+drop function if exists public.run_auto_assignment(uuid, text, boolean);
+
+create or replace function public.run_auto_assignment(
+  p_dataset_id uuid,
+  p_work_date text,
+  p_respect_locked boolean default false,
+  p_from_time text default null
+)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seed text := encode(gen_random_bytes(8), 'hex');
+  v_run_id uuid := gen_random_uuid();
+  v_work_date date;
+  v_work_date_iso text;
+  v_from_minutes integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para autoasignacion';
+  end if;
+
+  v_work_date := public.parse_work_date(p_work_date);
+  if v_work_date is null then
+    raise exception 'Debes indicar un dia de trabajo valido';
+  end if;
+
+  v_work_date_iso := to_char(v_work_date, 'YYYY-MM-DD');
+
+  if coalesce(trim(p_from_time), '') <> '' then
+    v_from_minutes := public.parse_flight_minutes(p_from_time);
+    if v_from_minutes is null then
+      raise exception 'Hora de corte no valida';
+    end if;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || p_dataset_id::text || '|' || v_work_date_iso)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  return query
+  with flights_base as (
+    select
+      f.id,
+      f.flight_key,
+      f.categoria_clasificacion,
+      f.service_flag,
+      f.service_flag_source,
+      f.operated,
+      coalesce(ct.target_percent, 0)::numeric(5,2) as target_percent,
+      count(*) over (partition by f.categoria_clasificacion) as total_category,
+      coalesce(public.parse_flight_minutes(f.hora) < v_from_minutes, false) as keep_past
+    from public.flights f
+    left join public.category_targets ct
+      on ct.dataset_id = f.dataset_id
+     and ct.category = f.categoria_clasificacion
+    where f.dataset_id = p_dataset_id
+      and public.parse_work_date(f.fecha) = v_work_date
+  ), flights_day as (
+    select
+      fb.*,
+      coalesce(not fb.keep_past and p_respect_locked and fb.service_flag_source = 'manual', false) as keep_manual,
+      coalesce(
+        not fb.keep_past and p_respect_locked and fb.operated and fb.service_flag_source is distinct from 'manual',
+        false
+      ) as keep_operated
+    from flights_base fb
+  ), ranked as (
+    select
+      fd.*,
+      (fd.keep_past or fd.keep_manual or fd.keep_operated) as locked,
+      case
+        when fd.keep_past then fd.operated
+        when fd.keep_manual then fd.service_flag = 'ATENDER'
+        else fd.keep_operated
+      end as locked_attend,
+      row_number() over (
+        partition by fd.categoria_clasificacion, (fd.keep_past or fd.keep_manual or fd.keep_operated)
+        order by md5(fd.flight_key || '|' || v_seed), fd.flight_key
+      ) as category_rank
+    from flights_day fd
+  ), decision as (
+    select
+      r.*,
+      least(r.total_category, ceil(r.total_category * r.target_percent / 100.0)::integer) as required_count,
+      count(*) filter (where r.locked_attend) over (partition by r.categoria_clasificacion) as locked_attend_count
+    from ranked r
+  ), final_flags as (
+    select
+      d.*,
+      case
+        when d.keep_past or d.keep_manual then d.service_flag
+        when d.keep_operated then 'ATENDER'
+        when d.category_rank <= greatest(0, d.required_count - d.locked_attend_count) then 'ATENDER'
+        else 'NO_ATENDER'
+      end as next_flag
+    from decision d
+  ), updated as (
+    update public.flights f
+    set
+      service_flag = ff.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from final_flags ff
+    where f.id = ff.id
+      and not ff.keep_manual
+      and not ff.keep_past
+    returning f.id
+  ), summary_rows as (
+    select
+      ff.categoria_clasificacion as category,
+      max(ff.total_category)::integer as total,
+      max(ff.target_percent)::numeric(5,2) as target_percent,
+      max(ff.required_count)::integer as required_count,
+      (
+        count(*) filter (where ff.next_flag = 'ATENDER' and not ff.keep_past)
+        + count(*) filter (where ff.keep_past and ff.operated)
+      )::integer as assigned_count,
+      count(*) filter (where ff.locked)::integer as locked_count,
+      count(*) filter (where ff.keep_past)::integer as past_count
+    from final_flags ff
+    group by ff.categoria_clasificacion
+  ), summary_json as (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'category', sr.category,
+          'total', sr.total,
+          'targetPercent', sr.target_percent,
+          'requiredCount', sr.required_count,
+          'assignedCount', sr.assigned_count,
+          'lockedCount', sr.locked_count,
+          'pastCount', sr.past_count
+        )
+        order by sr.category
+      ),
+      '[]'::jsonb
+    ) as payload
+    from summary_rows sr
+  ), inserted_run as (
+    insert into public.assignment_runs as ar (
+      id,
+      dataset_id,
+      work_date,
+      seed,
+      summary_json,
+      updated_flights,
+      created_by
+    )
+    select
+      v_run_id,
+      p_dataset_id,
+      v_work_date_iso,
+      v_seed,
+      sj.payload,
+      coalesce((select count(*) from updated), 0),
+      auth.uid()
+    from summary_json sj
+    returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json
+  )
+  select ir.id, ir.seed, ir.work_date, ir.updated_flights, ir.summary_json
+  from inserted_run ir;
+end;
+$$;
+
+grant execute on function public.run_auto_assignment(uuid, text, boolean, text) to authenticated;
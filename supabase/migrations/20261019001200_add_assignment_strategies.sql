@@ -0,0 +1,463 @@
+alter table public.assignment_runs
+  add column if not exists strategy text not null default 'uniform',
+  add column if not exists strategy_params jsonb not null default '{}'::jsonb;
+
+drop function if exists public.auto_assignment_plan(uuid, date, boolean, integer, text);
+
+create or replace function public.auto_assignment_plan(
+  p_dataset_id uuid,
+  p_work_date date,
+  p_respect_locked boolean,
+  p_from_minutes integer,
+  p_seed text,
+  p_strategy text default 'uniform',
+  p_strategy_params jsonb default '{}'::jsonb
+)
+returns table(
+  id uuid,
+  flight_key text,
+  categoria_clasificacion text,
+  shift_slot text,
+  service_flag text,
+  operated boolean,
+  target_percent numeric(5,2),
+  total_category bigint,
+  keep_past boolean,
+  keep_manual boolean,
+  keep_operated boolean,
+  locked boolean,
+  locked_attend boolean,
+  category_rank bigint,
+  required_count integer,
+  locked_attend_count bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  with flights_base as (
+    select
+      f.id,
+      f.flight_key,
+      f.categoria_clasificacion,
+      public.flight_shift_slot(f.hora) as shift_slot,
+      public.parse_flight_minutes(f.hora) as flight_minutes,
+      f.cdocia,
+      f.dsapto,
+      f.service_flag,
+      f.service_flag_source,
+      f.operated,
+      coalesce(ct.target_percent, 0)::numeric(5,2) as target_percent,
+      count(*) over (partition by f.categoria_clasificacion) as total_category,
+      coalesce(public.parse_flight_minutes(f.hora) < p_from_minutes, false) as keep_past
+    from public.flights f
+    left join public.category_targets ct
+      on ct.dataset_id = f.dataset_id
+     and ct.category = f.categoria_clasificacion
+    where f.dataset_id = p_dataset_id
+      and public.parse_work_date(f.fecha) = p_work_date
+  ), flights_day as (
+    select
+      fb.*,
+      coalesce(not fb.keep_past and p_respect_locked and fb.service_flag_source = 'manual', false) as keep_manual,
+      coalesce(
+        not fb.keep_past and p_respect_locked and fb.operated and fb.service_flag_source is distinct from 'manual',
+        false
+      ) as keep_operated
+    from flights_base fb
+  ), seeded as (
+    select
+      fd.*,
+      (fd.keep_past or fd.keep_manual or fd.keep_operated) as locked,
+      md5(fd.flight_key || '|' || p_seed) as seed_hash,
+      case p_strategy
+        when 'hour_stratified' then coalesce(
+          (fd.flight_minutes / greatest(coalesce((p_strategy_params ->> 'bucketMinutes')::integer, 60), 1))::text,
+          ''
+        )
+        when 'airline_round_robin' then coalesce(fd.cdocia, '')
+        else ''
+      end as stratum,
+      coalesce((p_strategy_params -> 'weights' ->> fd.dsapto)::numeric, 1) as destination_weight
+    from flights_day fd
+  ), stratified as (
+    select
+      sd.*,
+      row_number() over (
+        partition by sd.categoria_clasificacion, sd.locked, sd.stratum
+        order by sd.seed_hash, sd.flight_key
+      ) as stratum_rank,
+      count(*) over (partition by sd.categoria_clasificacion, sd.locked, sd.stratum) as stratum_size
+    from seeded sd
+  ), ranked as (
+    select
+      st.*,
+      case
+        when st.keep_past then st.operated
+        when st.keep_manual then st.service_flag = 'ATENDER'
+        else st.keep_operated
+      end as locked_attend,
+      row_number() over (
+        partition by st.categoria_clasificacion, st.locked
+        order by
+          case p_strategy
+            when 'hour_stratified' then (st.stratum_rank - 0.5) / st.stratum_size
+            when 'airline_round_robin' then st.stratum_rank::numeric
+            when 'destination_weighted' then
+              case
+                when st.destination_weight > 0 then
+                  -ln(
+                    (('x' || lpad(substr(st.seed_hash, 1, 8), 16, '0'))::bit(64)::bigint + 0.5) / 4294967296.0
+                  ) / st.destination_weight
+              end
+            else 0
+          end nulls last,
+          st.seed_hash,
+          st.flight_key
+      ) as category_rank
+    from stratified st
+  )
+  select
+    r.id,
+    r.flight_key,
+    r.categoria_clasificacion,
+    r.shift_slot,
+    r.service_flag,
+    r.operated,
+    r.target_percent,
+    r.total_category,
+    r.keep_past,
+    r.keep_manual,
+    r.keep_operated,
+    r.locked,
+    r.locked_attend,
+    r.category_rank,
+    least(r.total_category, ceil(r.total_category * r.target_percent / 100.0)::integer)::integer as required_count,
+    count(*) filter (where r.locked_attend) over (partition by r.categoria_clasificacion) as locked_attend_count
+  from ranked r;
+$$;
+
+drop function if exists public.run_auto_assignment(uuid, text);
+drop function if exists public.run_auto_assignment(uuid, text, boolean);
+drop function if exists public.run_auto_assignment(uuid, text, boolean, text);
+drop function if exists public.run_auto_assignment(uuid, text, boolean, text, boolean);
+
+create or replace function public.run_auto_assignment(
+  p_dataset_id uuid,
+  p_work_date text,
+  p_respect_locked boolean default false,
+  p_from_time text default null,
+  p_respect_capacity boolean default false,
+  p_strategy text default 'uniform',
+  p_strategy_params jsonb default '{}'::jsonb
+)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seed text := encode(gen_random_bytes(8), 'hex');
+  v_run_id uuid := gen_random_uuid();
+  v_work_date date;
+  v_work_date_iso text;
+  v_from_minutes integer;
+  v_capacity jsonb := '{}'::jsonb;
+  v_used jsonb := '{}'::jsonb;
+  v_remaining jsonb := '{}'::jsonb;
+  v_eligible jsonb;
+  v_ids uuid[];
+  v_categories text[];
+  v_slots text[];
+  v_picked boolean[];
+  v_count integer;
+  v_index integer;
+  v_best_index integer;
+  v_best_category text;
+  v_best_slack integer;
+  v_entry record;
+  v_capacity_attend uuid[] := '{}';
+  v_capacity_report jsonb := '{}'::jsonb;
+  v_strategy_params jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para autoasignacion';
+  end if;
+
+  v_work_date := public.parse_work_date(p_work_date);
+  if v_work_date is null then
+    raise exception 'Debes indicar un dia de trabajo valido';
+  end if;
+
+  v_work_date_iso := to_char(v_work_date, 'YYYY-MM-DD');
+
+  if coalesce(trim(p_from_time), '') <> '' then
+    v_from_minutes := public.parse_flight_minutes(p_from_time);
+    if v_from_minutes is null then
+      raise exception 'Hora de corte no valida';
+    end if;
+  end if;
+
+  v_strategy_params := case p_strategy
+    when 'uniform' then '{}'::jsonb
+    when 'hour_stratified' then jsonb_build_object(
+      'bucketMinutes',
+      greatest(coalesce((p_strategy_params ->> 'bucketMinutes')::integer, 60), 1)
+    )
+    when 'airline_round_robin' then '{}'::jsonb
+    when 'destination_weighted' then jsonb_build_object(
+      'weights',
+      coalesce(p_strategy_params -> 'weights', '{}'::jsonb)
+    )
+  end;
+  if v_strategy_params is null then
+    raise exception 'Estrategia de asignacion no valida';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || p_dataset_id::text || '|' || v_work_date_iso)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  if p_respect_capacity then
+    select coalesce(jsonb_object_agg(sc.slot_start, sc.teams), '{}'::jsonb)
+    into v_capacity
+    from public.shift_capacity sc
+    where sc.dataset_id = p_dataset_id;
+
+    select
+      coalesce(jsonb_object_agg(used.shift_slot, used.used_count), '{}'::jsonb)
+    into v_used
+    from (
+      select p.shift_slot, count(*) as used_count
+      from public.auto_assignment_plan(
+      p_dataset_id,
+      v_work_date,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params
+    ) p
+      where p.locked and p.locked_attend and p.shift_slot is not null
+      group by p.shift_slot
+    ) used;
+
+    select
+      coalesce(jsonb_object_agg(needed.category, needed.remaining_count), '{}'::jsonb)
+    into v_remaining
+    from (
+      select p.categoria_clasificacion as category, greatest(0, max(p.required_count) - max(p.locked_attend_count)) as remaining_count
+      from public.auto_assignment_plan(
+      p_dataset_id,
+      v_work_date,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params
+    ) p
+      group by p.categoria_clasificacion
+    ) needed;
+
+    select
+      array_agg(p.id order by p.categoria_clasificacion, p.category_rank),
+      array_agg(p.categoria_clasificacion order by p.categoria_clasificacion, p.category_rank),
+      array_agg(coalesce(p.shift_slot, '') order by p.categoria_clasificacion, p.category_rank)
+    into v_ids, v_categories, v_slots
+    from public.auto_assignment_plan(
+      p_dataset_id,
+      v_work_date,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params
+    ) p
+    where not p.locked;
+
+    v_count := coalesce(array_length(v_ids, 1), 0);
+    v_picked := array_fill(false, array[v_count]);
+
+    loop
+      v_eligible := '{}'::jsonb;
+      for v_index in 1..v_count loop
+        if not v_picked[v_index]
+          and coalesce((v_remaining ->> v_categories[v_index])::integer, 0) > 0
+          and (
+            v_slots[v_index] = ''
+            or not (v_capacity ? v_slots[v_index])
+            or coalesce((v_used ->> v_slots[v_index])::integer, 0) < (v_capacity ->> v_slots[v_index])::integer
+          ) then
+          v_eligible := jsonb_set(
+            v_eligible,
+            array[v_categories[v_index]],
+            to_jsonb(coalesce((v_eligible ->> v_categories[v_index])::integer, 0) + 1)
+          );
+        end if;
+      end loop;
+
+      v_best_category := null;
+      for v_entry in
+        select e.key as category, e.value::integer - (v_remaining ->> e.key)::integer as slack
+        from jsonb_each_text(v_eligible) e
+        order by e.key collate "C"
+      loop
+        if v_best_category is null or v_entry.slack < v_best_slack then
+          v_best_category := v_entry.category;
+          v_best_slack := v_entry.slack;
+        end if;
+      end loop;
+
+      exit when v_best_category is null;
+
+      v_best_index := null;
+      for v_index in 1..v_count loop
+        if v_categories[v_index] = v_best_category
+          and not v_picked[v_index]
+          and (
+            v_slots[v_index] = ''
+            or not (v_capacity ? v_slots[v_index])
+            or coalesce((v_used ->> v_slots[v_index])::integer, 0) < (v_capacity ->> v_slots[v_index])::integer
+          )
+          and (
+            v_best_index is null
+            or coalesce((v_used ->> v_slots[v_index])::integer, 0) < coalesce((v_used ->> v_slots[v_best_index])::integer, 0)
+          ) then
+          v_best_index := v_index;
+        end if;
+      end loop;
+
+      v_picked[v_best_index] := true;
+      v_capacity_attend := v_capacity_attend || v_ids[v_best_index];
+      v_used := jsonb_set(
+        v_used,
+        array[v_slots[v_best_index]],
+        to_jsonb(coalesce((v_used ->> v_slots[v_best_index])::integer, 0) + 1)
+      );
+      v_remaining := jsonb_set(
+        v_remaining,
+        array[v_best_category],
+        to_jsonb((v_remaining ->> v_best_category)::integer - 1)
+      );
+    end loop;
+
+    select coalesce(
+      jsonb_object_agg(
+        r.key,
+        jsonb_build_object(
+          'shortfall', r.value::integer,
+          'blockedSlots', (
+            select coalesce(jsonb_agg(distinct c.slot order by c.slot), '[]'::jsonb)
+            from unnest(v_categories, v_slots, v_picked) as c(category, slot, picked)
+            where c.category = r.key
+              and not c.picked
+              and c.slot <> ''
+          )
+        )
+      ),
+      '{}'::jsonb
+    )
+    into v_capacity_report
+    from jsonb_each_text(v_remaining) r
+    where r.value::integer > 0;
+  end if;
+
+  return query
+  with final_flags as (
+    select
+      p.*,
+      case
+        when p.keep_past or p.keep_manual then p.service_flag
+        when p.keep_operated then 'ATENDER'
+        when p_respect_capacity then case when p.id = any(v_capacity_attend) then 'ATENDER' else 'NO_ATENDER' end
+        when p.category_rank <= greatest(0, p.required_count - p.locked_attend_count) then 'ATENDER'
+        else 'NO_ATENDER'
+      end as next_flag
+    from public.auto_assignment_plan(
+      p_dataset_id,
+      v_work_date,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params
+    ) p
+  ), updated as (
+    update public.flights f
+    set
+      service_flag = ff.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from final_flags ff
+    where f.id = ff.id
+      and not ff.keep_manual
+      and not ff.keep_past
+    returning f.id
+  ), summary_rows as (
+    select
+      ff.categoria_clasificacion as category,
+      max(ff.total_category)::integer as total,
+      max(ff.target_percent)::numeric(5,2) as target_percent,
+      max(ff.required_count)::integer as required_count,
+      (
+        count(*) filter (where ff.next_flag = 'ATENDER' and not ff.keep_past)
+        + count(*) filter (where ff.keep_past and ff.operated)
+      )::integer as assigned_count,
+      count(*) filter (where ff.locked)::integer as locked_count,
+      count(*) filter (where ff.keep_past)::integer as past_count
+    from final_flags ff
+    group by ff.categoria_clasificacion
+  ), summary_json as (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'category', sr.category,
+          'total', sr.total,
+          'targetPercent', sr.target_percent,
+          'requiredCount', sr.required_count,
+          'assignedCount', sr.assigned_count,
+          'lockedCount', sr.locked_count,
+          'pastCount', sr.past_count,
+          'shortfall', coalesce((v_capacity_report -> sr.category ->> 'shortfall')::integer, 0),
+          'blockedSlots', coalesce(v_capacity_report -> sr.category -> 'blockedSlots', '[]'::jsonb)
+        )
+        order by sr.category
+      ),
+      '[]'::jsonb
+    ) as payload
+    from summary_rows sr
+  ), inserted_run as (
+    insert into public.assignment_runs as ar (
+      id,
+      dataset_id,
+      work_date,
+      seed,
+      summary_json,
+      updated_flights,
+      strategy,
+      strategy_params,
+      created_by
+    )
+    select
+      v_run_id,
+      p_dataset_id,
+      v_work_date_iso,
+      v_seed,
+      sj.payload,
+      coalesce((select count(*) from updated), 0),
+      p_strategy,
+      v_strategy_params,
+      auth.uid()
+    from summary_json sj
+    returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json
+  )
+  select ir.id, ir.seed, ir.work_date, ir.updated_flights, ir.summary_json
+  from inserted_run ir;
+end;
+$$;
+
+grant execute on function public.run_auto_assignment(uuid, text, boolean, text, boolean, text, jsonb) to authenticated;
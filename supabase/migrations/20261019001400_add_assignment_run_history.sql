@@ -0,0 +1,226 @@
+alter table public.assignment_runs
+  add column if not exists result_flags jsonb,
+  add column if not exists created_by_email text;
+
+create index if not exists assignment_runs_dataset_day_idx
+  on public.assignment_runs(dataset_id, work_date, created_at desc);
+
+drop function if exists public.run_auto_assignment(uuid, text);
+drop function if exists public.run_auto_assignment(uuid, text, boolean);
+drop function if exists public.run_auto_assignment(uuid, text, boolean, text);
+drop function if exists public.run_auto_assignment(uuid, text, boolean, text, boolean);
+
+create or replace function public.run_auto_assignment(
+  p_dataset_id uuid,
+  p_work_date text,
+  p_respect_locked boolean default false,
+  p_from_time text default null,
+  p_respect_capacity boolean default false,
+  p_strategy text default 'uniform',
+  p_strategy_params jsonb default '{}'::jsonb
+)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seed text := encode(gen_random_bytes(8), 'hex');
+  v_run_id uuid := gen_random_uuid();
+  v_work_date date;
+  v_work_date_iso text;
+  v_from_minutes integer;
+  v_strategy_params jsonb;
+  v_capacity jsonb := '{}'::jsonb;
+  v_flights jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para autoasignacion';
+  end if;
+
+  v_work_date := public.parse_work_date(p_work_date);
+  if v_work_date is null then
+    raise exception 'Debes indicar un dia de trabajo valido';
+  end if;
+
+  v_work_date_iso := to_char(v_work_date, 'YYYY-MM-DD');
+
+  if coalesce(trim(p_from_time), '') <> '' then
+    v_from_minutes := public.parse_flight_minutes(p_from_time);
+    if v_from_minutes is null then
+      raise exception 'Hora de corte no valida';
+    end if;
+  end if;
+
+  v_strategy_params := case p_strategy
+    when 'uniform' then '{}'::jsonb
+    when 'hour_stratified' then jsonb_build_object(
+      'bucketMinutes',
+      greatest(coalesce((p_strategy_params ->> 'bucketMinutes')::integer, 60), 1)
+    )
+    when 'airline_round_robin' then '{}'::jsonb
+    when 'destination_weighted' then jsonb_build_object(
+      'weights',
+      coalesce(p_strategy_params -> 'weights', '{}'::jsonb)
+    )
+  end;
+  if v_strategy_params is null then
+    raise exception 'Estrategia de asignacion no valida';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || p_dataset_id::text || '|' || v_work_date_iso)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  if p_respect_capacity then
+    select coalesce(jsonb_object_agg(sc.slot_start, sc.teams), '{}'::jsonb)
+    into v_capacity
+    from public.shift_capacity sc
+    where sc.dataset_id = p_dataset_id;
+  end if;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', f.id,
+        'flight_key', f.flight_key,
+        'vuelo', f.vuelo,
+        'categoria_clasificacion', f.categoria_clasificacion,
+        'hora', f.hora,
+        'cdocia', f.cdocia,
+        'dsapto', f.dsapto,
+        'service_flag', f.service_flag,
+        'service_flag_source', f.service_flag_source,
+        'operated', f.operated,
+        'target_percent', ct.target_percent
+      )
+      order by f.flight_key
+    ),
+    '[]'::jsonb
+  )
+  into v_flights
+  from public.flights f
+  left join public.category_targets ct
+    on ct.dataset_id = f.dataset_id
+   and ct.category = f.categoria_clasificacion
+  where f.dataset_id = p_dataset_id
+    and public.parse_work_date(f.fecha) = v_work_date;
+
+  return query
+  with final_flags as (
+    select d.*
+    from public.auto_assignment_decide(
+      v_flights,
+      v_capacity,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params,
+      p_respect_capacity
+    ) d
+  ), updated as (
+    update public.flights f
+    set
+      service_flag = ff.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from final_flags ff
+    where f.id = ff.id
+      and not ff.keep_manual
+      and not ff.keep_past
+    returning f.id
+  ), summary_rows as (
+    select
+      ff.categoria_clasificacion as category,
+      max(ff.total_category)::integer as total,
+      max(ff.target_percent)::numeric(5,2) as target_percent,
+      max(ff.required_count)::integer as required_count,
+      (
+        count(*) filter (where ff.next_flag = 'ATENDER' and not ff.keep_past)
+        + count(*) filter (where ff.keep_past and ff.operated)
+      )::integer as assigned_count,
+      count(*) filter (where ff.locked)::integer as locked_count,
+      count(*) filter (where ff.keep_past)::integer as past_count,
+      max(ff.shortfall)::integer as shortfall,
+      (array_agg(ff.blocked_slots))[1] as blocked_slots
+    from final_flags ff
+    group by ff.categoria_clasificacion
+  ), summary_json as (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'category', sr.category,
+          'total', sr.total,
+          'targetPercent', sr.target_percent,
+          'requiredCount', sr.required_count,
+          'assignedCount', sr.assigned_count,
+          'lockedCount', sr.locked_count,
+          'pastCount', sr.past_count,
+          'shortfall', sr.shortfall,
+          'blockedSlots', sr.blocked_slots
+        )
+        order by sr.category
+      ),
+      '[]'::jsonb
+    ) as payload
+    from summary_rows sr
+  ), inserted_run as (
+    insert into public.assignment_runs as ar (
+      id,
+      dataset_id,
+      work_date,
+      seed,
+      summary_json,
+      updated_flights,
+      strategy,
+      strategy_params,
+      options_json,
+      flights_snapshot,
+      result_flags,
+      created_by,
+      created_by_email
+    )
+    select
+      v_run_id,
+      p_dataset_id,
+      v_work_date_iso,
+      v_seed,
+      sj.payload,
+      coalesce((select count(*) from updated), 0),
+      p_strategy,
+      v_strategy_params,
+      jsonb_build_object(
+        'respectLocked', p_respect_locked,
+        'fromTime', nullif(trim(coalesce(p_from_time, '')), ''),
+        'respectCapacity', p_respect_capacity,
+        'shiftCapacity', v_capacity
+      ),
+      v_flights,
+      (
+        select coalesce(
+          jsonb_agg(
+            jsonb_build_object('id', ff.id, 'flightKey', ff.flight_key, 'serviceFlag', ff.next_flag)
+            order by ff.flight_key
+          ),
+          '[]'::jsonb
+        )
+        from final_flags ff
+        where not ff.keep_manual
+          and not ff.keep_past
+      ),
+      auth.uid(),
+      public.current_user_email()
+    from summary_json sj
+    returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json
+  )
+  select ir.id, ir.seed, ir.work_date, ir.updated_flights, ir.summary_json
+  from inserted_run ir;
+end;
+$$;
+
+grant execute on function public.run_auto_assignment(uuid, text, boolean, text, boolean, text, jsonb) to authenticated;
@@ -0,0 +1,139 @@
+alter table public.assignment_runs
+  add column if not exists restored_from_run_id uuid references public.assignment_runs(id) on delete set null;
+
+create or replace function public.restore_assignment_run(p_run_id uuid)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source public.assignment_runs%rowtype;
+  v_run_id uuid := gen_random_uuid();
+  v_result_flags jsonb;
+  v_updated_flights integer;
+  v_summary jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para restaurar ejecuciones';
+  end if;
+
+  select ar.*
+  into v_source
+  from public.assignment_runs ar
+  where ar.id = p_run_id;
+
+  if not found then
+    raise exception 'Ejecucion no encontrada';
+  end if;
+
+  if v_source.result_flags is null then
+    raise exception 'La ejecucion no guarda el detalle de vuelos y no se puede restaurar';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || v_source.dataset_id::text || '|' || v_source.work_date)::bigint);
+
+  with restore_targets as (
+    select f.id, f.flight_key, f.service_flag as previous_flag, rf."serviceFlag" as next_flag
+    from jsonb_to_recordset(v_source.result_flags) as rf(id uuid, "serviceFlag" text)
+    join public.flights f
+      on f.id = rf.id
+     and f.dataset_id = v_source.dataset_id
+    where not f.operated
+      and rf."serviceFlag" in ('ATENDER', 'NO_ATENDER')
+    for update of f
+  ), restored as (
+    update public.flights f
+    set
+      service_flag = rt.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from restore_targets rt
+    where f.id = rt.id
+    returning rt.id, rt.flight_key, rt.previous_flag, rt.next_flag
+  )
+  select
+    coalesce(
+      jsonb_agg(
+        jsonb_build_object('id', r.id, 'flightKey', r.flight_key, 'serviceFlag', r.next_flag)
+        order by r.flight_key
+      ),
+      '[]'::jsonb
+    ),
+    (count(*) filter (where r.previous_flag is distinct from r.next_flag))::integer
+  into v_result_flags, v_updated_flights
+  from restored r;
+
+  with summary_rows as (
+    select
+      f.categoria_clasificacion as category,
+      count(*)::integer as total,
+      coalesce(max(ct.target_percent), 0)::numeric(5,2) as target_percent,
+      count(*) filter (where f.service_flag = 'ATENDER')::integer as assigned_count,
+      count(*) filter (where f.operated)::integer as locked_count
+    from public.flights f
+    left join public.category_targets ct
+      on ct.dataset_id = f.dataset_id
+     and ct.category = f.categoria_clasificacion
+    where f.dataset_id = v_source.dataset_id
+      and public.parse_work_date(f.fecha) = public.parse_work_date(v_source.work_date)
+    group by f.categoria_clasificacion
+  )
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'category', sr.category,
+        'total', sr.total,
+        'targetPercent', sr.target_percent,
+        'requiredCount', least(sr.total, ceil(sr.total * sr.target_percent / 100.0)::integer),
+        'assignedCount', sr.assigned_count,
+        'lockedCount', sr.locked_count,
+        'pastCount', 0
+      )
+      order by sr.category
+    ),
+    '[]'::jsonb
+  )
+  into v_summary
+  from summary_rows sr;
+
+  return query
+  insert into public.assignment_runs as ar (
+    id,
+    dataset_id,
+    work_date,
+    seed,
+    summary_json,
+    updated_flights,
+    strategy,
+    strategy_params,
+    options_json,
+    flights_snapshot,
+    result_flags,
+    restored_from_run_id,
+    created_by,
+    created_by_email
+  )
+  values (
+    v_run_id,
+    v_source.dataset_id,
+    v_source.work_date,
+    v_source.seed,
+    v_summary,
+    v_updated_flights,
+    v_source.strategy,
+    v_source.strategy_params,
+    v_source.options_json,
+    v_source.flights_snapshot,
+    v_result_flags,
+    v_source.id,
+    auth.uid(),
+    public.current_user_email()
+  )
+  returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json;
+end;
+$$;
+
+grant execute on function public.restore_assignment_run(uuid) to authenticated;
@@ -0,0 +1,477 @@
+create or replace function public.target_rule_targets_valid(p_targets jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select jsonb_typeof(p_targets) = 'object'
+    and not exists (
+      select 1
+      from jsonb_each(p_targets) as t(category, value)
+      where jsonb_typeof(t.value) <> 'number'
+         or (t.value #>> '{}')::numeric < 0
+         or (t.value #>> '{}')::numeric > 100
+    );
+$$;
+
+create table if not exists public.target_rules (
+  id uuid primary key default gen_random_uuid(),
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  name text not null,
+  kind text not null,
+  weekdays smallint[] not null default '{}',
+  start_date date,
+  end_date date,
+  targets jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint target_rules_kind_values check (kind in ('weekday', 'date_range')),
+  constraint target_rules_name_present check (trim(name) <> ''),
+  constraint target_rules_weekdays_range check (weekdays <@ array[1, 2, 3, 4, 5, 6, 7]::smallint[]),
+  constraint target_rules_scope check (
+    (kind = 'weekday' and cardinality(weekdays) > 0)
+    or (kind = 'date_range' and start_date is not null and end_date is not null and start_date <= end_date)
+  ),
+  constraint target_rules_targets_range check (public.target_rule_targets_valid(targets))
+);
+
+create index if not exists target_rules_dataset_idx
+  on public.target_rules(dataset_id);
+
+drop trigger if exists trg_target_rules_touch_updated_at on public.target_rules;
+create trigger trg_target_rules_touch_updated_at
+before update on public.target_rules
+for each row
+execute function public.touch_updated_at();
+
+alter table public.target_rules enable row level security;
+
+drop policy if exists target_rules_select_allowed on public.target_rules;
+create policy target_rules_select_allowed
+on public.target_rules
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists target_rules_insert_allowed on public.target_rules;
+create policy target_rules_insert_allowed
+on public.target_rules
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists target_rules_update_allowed on public.target_rules;
+create policy target_rules_update_allowed
+on public.target_rules
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+drop policy if exists target_rules_delete_allowed on public.target_rules;
+create policy target_rules_delete_allowed
+on public.target_rules
+for delete
+to authenticated
+using (public.current_user_is_admin());
+
+grant select, insert, update, delete on public.target_rules to authenticated;
+
+create or replace function public.resolve_target_rule(p_dataset_id uuid, p_work_date date)
+returns setof public.target_rules
+language sql
+stable
+set search_path = public
+as $$
+  select r.*
+  from public.target_rules r
+  where r.dataset_id = p_dataset_id
+    and (
+      (r.kind = 'date_range' and p_work_date between r.start_date and r.end_date)
+      or (r.kind = 'weekday' and extract(isodow from p_work_date)::smallint = any(r.weekdays))
+    )
+  order by (r.kind = 'date_range') desc, (r.end_date - r.start_date) asc nulls last, r.updated_at desc
+  limit 1;
+$$;
+
+create or replace function public.effective_category_targets(p_dataset_id uuid, p_work_date date)
+returns table(category text, target_percent numeric(5,2), rule_id uuid)
+language sql
+stable
+set search_path = public
+as $$
+  with active_rule as (
+    select r.id, r.targets
+    from public.resolve_target_rule(p_dataset_id, p_work_date) r
+  ), categories as (
+    select ct.category
+    from public.category_targets ct
+    where ct.dataset_id = p_dataset_id
+    union
+    select jsonb_object_keys(ar.targets)
+    from active_rule ar
+  )
+  select
+    c.category,
+    coalesce((ar.targets ->> c.category)::numeric, ct.target_percent, 0)::numeric(5,2),
+    ar.id
+  from categories c
+  left join active_rule ar on true
+  left join public.category_targets ct
+    on ct.dataset_id = p_dataset_id
+   and ct.category = c.category;
+$$;
+
+grant execute on function public.resolve_target_rule(uuid, date) to authenticated;
+grant execute on function public.effective_category_targets(uuid, date) to authenticated;
+
+create or replace function public.run_auto_assignment(
+  p_dataset_id uuid,
+  p_work_date text,
+  p_respect_locked boolean default false,
+  p_from_time text default null,
+  p_respect_capacity boolean default false,
+  p_strategy text default 'uniform',
+  p_strategy_params jsonb default '{}'::jsonb
+)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seed text := encode(gen_random_bytes(8), 'hex');
+  v_run_id uuid := gen_random_uuid();
+  v_work_date date;
+  v_work_date_iso text;
+  v_from_minutes integer;
+  v_strategy_params jsonb;
+  v_capacity jsonb := '{}'::jsonb;
+  v_flights jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para autoasignacion';
+  end if;
+
+  v_work_date := public.parse_work_date(p_work_date);
+  if v_work_date is null then
+    raise exception 'Debes indicar un dia de trabajo valido';
+  end if;
+
+  v_work_date_iso := to_char(v_work_date, 'YYYY-MM-DD');
+
+  if coalesce(trim(p_from_time), '') <> '' then
+    v_from_minutes := public.parse_flight_minutes(p_from_time);
+    if v_from_minutes is null then
+      raise exception 'Hora de corte no valida';
+    end if;
+  end if;
+
+  v_strategy_params := case p_strategy
+    when 'uniform' then '{}'::jsonb
+    when 'hour_stratified' then jsonb_build_object(
+      'bucketMinutes',
+      greatest(coalesce((p_strategy_params ->> 'bucketMinutes')::integer, 60), 1)
+    )
+    when 'airline_round_robin' then '{}'::jsonb
+    when 'destination_weighted' then jsonb_build_object(
+      'weights',
+      coalesce(p_strategy_params -> 'weights', '{}'::jsonb)
+    )
+  end;
+  if v_strategy_params is null then
+    raise exception 'Estrategia de asignacion no valida';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || p_dataset_id::text || '|' || v_work_date_iso)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  if p_respect_capacity then
+    select coalesce(jsonb_object_agg(sc.slot_start, sc.teams), '{}'::jsonb)
+    into v_capacity
+    from public.shift_capacity sc
+    where sc.dataset_id = p_dataset_id;
+  end if;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', f.id,
+        'flight_key', f.flight_key,
+        'vuelo', f.vuelo,
+        'categoria_clasificacion', f.categoria_clasificacion,
+        'hora', f.hora,
+        'cdocia', f.cdocia,
+        'dsapto', f.dsapto,
+        'service_flag', f.service_flag,
+        'service_flag_source', f.service_flag_source,
+        'operated', f.operated,
+        'target_percent', ct.target_percent
+      )
+      order by f.flight_key
+    ),
+    '[]'::jsonb
+  )
+  into v_flights
+  from public.flights f
+  left join public.effective_category_targets(p_dataset_id, v_work_date) ct
+    on ct.category = f.categoria_clasificacion
+  where f.dataset_id = p_dataset_id
+    and public.parse_work_date(f.fecha) = v_work_date;
+
+  return query
+  with final_flags as (
+    select d.*
+    from public.auto_assignment_decide(
+      v_flights,
+      v_capacity,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params,
+      p_respect_capacity
+    ) d
+  ), updated as (
+    update public.flights f
+    set
+      service_flag = ff.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from final_flags ff
+    where f.id = ff.id
+      and not ff.keep_manual
+      and not ff.keep_past
+    returning f.id
+  ), summary_rows as (
+    select
+      ff.categoria_clasificacion as category,
+      max(ff.total_category)::integer as total,
+      max(ff.target_percent)::numeric(5,2) as target_percent,
+      max(ff.required_count)::integer as required_count,
+      (
+        count(*) filter (where ff.next_flag = 'ATENDER' and not ff.keep_past)
+        + count(*) filter (where ff.keep_past and ff.operated)
+      )::integer as assigned_count,
+      count(*) filter (where ff.locked)::integer as locked_count,
+      count(*) filter (where ff.keep_past)::integer as past_count,
+      max(ff.shortfall)::integer as shortfall,
+      (array_agg(ff.blocked_slots))[1] as blocked_slots
+    from final_flags ff
+    group by ff.categoria_clasificacion
+  ), summary_json as (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'category', sr.category,
+          'total', sr.total,
+          'targetPercent', sr.target_percent,
+          'requiredCount', sr.required_count,
+          'assignedCount', sr.assigned_count,
+          'lockedCount', sr.locked_count,
+          'pastCount', sr.past_count,
+          'shortfall', sr.shortfall,
+          'blockedSlots', sr.blocked_slots
+        )
+        order by sr.category
+      ),
+      '[]'::jsonb
+    ) as payload
+    from summary_rows sr
+  ), inserted_run as (
+    insert into public.assignment_runs as ar (
+      id,
+      dataset_id,
+      work_date,
+      seed,
+      summary_json,
+      updated_flights,
+      strategy,
+      strategy_params,
+      options_json,
+      flights_snapshot,
+      result_flags,
+      created_by,
+      created_by_email
+    )
+    select
+      v_run_id,
+      p_dataset_id,
+      v_work_date_iso,
+      v_seed,
+      sj.payload,
+      coalesce((select count(*) from updated), 0),
+      p_strategy,
+      v_strategy_params,
+      jsonb_build_object(
+        'respectLocked', p_respect_locked,
+        'fromTime', nullif(trim(coalesce(p_from_time, '')), ''),
+        'respectCapacity', p_respect_capacity,
+        'shiftCapacity', v_capacity,
+        'targetRuleId', (select r.id from public.resolve_target_rule(p_dataset_id, v_work_date) r)
+      ),
+      v_flights,
+      (
+        select coalesce(
+          jsonb_agg(
+            jsonb_build_object('id', ff.id, 'flightKey', ff.flight_key, 'serviceFlag', ff.next_flag)
+            order by ff.flight_key
+          ),
+          '[]'::jsonb
+        )
+        from final_flags ff
+        where not ff.keep_manual
+          and not ff.keep_past
+      ),
+      auth.uid(),
+      public.current_user_email()
+    from summary_json sj
+    returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json
+  )
+  select ir.id, ir.seed, ir.work_date, ir.updated_flights, ir.summary_json
+  from inserted_run ir;
+end;
+$$;
+
+grant execute on function public.run_auto_assignment(uuid, text, boolean, text, boolean, text, jsonb) to authenticated;
+
+create or replace function public.restore_assignment_run(p_run_id uuid)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source public.assignment_runs%rowtype;
+  v_run_id uuid := gen_random_uuid();
+  v_result_flags jsonb;
+  v_updated_flights integer;
+  v_summary jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para restaurar ejecuciones';
+  end if;
+
+  select ar.*
+  into v_source
+  from public.assignment_runs ar
+  where ar.id = p_run_id;
+
+  if not found then
+    raise exception 'Ejecucion no encontrada';
+  end if;
+
+  if v_source.result_flags is null then
+    raise exception 'La ejecucion no guarda el detalle de vuelos y no se puede restaurar';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || v_source.dataset_id::text || '|' || v_source.work_date)::bigint);
+
+  with restore_targets as (
+    select f.id, f.flight_key, f.service_flag as previous_flag, rf."serviceFlag" as next_flag
+    from jsonb_to_recordset(v_source.result_flags) as rf(id uuid, "serviceFlag" text)
+    join public.flights f
+      on f.id = rf.id
+     and f.dataset_id = v_source.dataset_id
+    where not f.operated
+      and rf."serviceFlag" in ('ATENDER', 'NO_ATENDER')
+    for update of f
+  ), restored as (
+    update public.flights f
+    set
+      service_flag = rt.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from restore_targets rt
+    where f.id = rt.id
+    returning rt.id, rt.flight_key, rt.previous_flag, rt.next_flag
+  )
+  select
+    coalesce(
+      jsonb_agg(
+        jsonb_build_object('id', r.id, 'flightKey', r.flight_key, 'serviceFlag', r.next_flag)
+        order by r.flight_key
+      ),
+      '[]'::jsonb
+    ),
+    (count(*) filter (where r.previous_flag is distinct from r.next_flag))::integer
+  into v_result_flags, v_updated_flights
+  from restored r;
+
+  with summary_rows as (
+    select
+      f.categoria_clasificacion as category,
+      count(*)::integer as total,
+      coalesce(max(ct.target_percent), 0)::numeric(5,2) as target_percent,
+      count(*) filter (where f.service_flag = 'ATENDER')::integer as assigned_count,
+      count(*) filter (where f.operated)::integer as locked_count
+    from public.flights f
+    left join public.effective_category_targets(v_source.dataset_id, public.parse_work_date(v_source.work_date)) ct
+      on ct.category = f.categoria_clasificacion
+    where f.dataset_id = v_source.dataset_id
+      and public.parse_work_date(f.fecha) = public.parse_work_date(v_source.work_date)
+    group by f.categoria_clasificacion
+  )
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'category', sr.category,
+        'total', sr.total,
+        'targetPercent', sr.target_percent,
+        'requiredCount', least(sr.total, ceil(sr.total * sr.target_percent / 100.0)::integer),
+        'assignedCount', sr.assigned_count,
+        'lockedCount', sr.locked_count,
+        'pastCount', 0
+      )
+      order by sr.category
+    ),
+    '[]'::jsonb
+  )
+  into v_summary
+  from summary_rows sr;
+
+  return query
+  insert into public.assignment_runs as ar (
+    id,
+    dataset_id,
+    work_date,
+    seed,
+    summary_json,
+    updated_flights,
+    strategy,
+    strategy_params,
+    options_json,
+    flights_snapshot,
+    result_flags,
+    restored_from_run_id,
+    created_by,
+    created_by_email
+  )
+  values (
+    v_run_id,
+    v_source.dataset_id,
+    v_source.work_date,
+    v_source.seed,
+    v_summary,
+    v_updated_flights,
+    v_source.strategy,
+    v_source.strategy_params,
+    v_source.options_json,
+    v_source.flights_snapshot,
+    v_result_flags,
+    v_source.id,
+    auth.uid(),
+    public.current_user_email()
+  )
+  returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json;
+end;
+$$;
+
+grant execute on function public.restore_assignment_run(uuid) to authenticated;
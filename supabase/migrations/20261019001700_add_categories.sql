@@ -0,0 +1,88 @@
+create table if not exists public.categories (
+  code text primary key,
+  label text not null,
+  display_order integer not null default 0,
+  default_target numeric(5,2) not null default 0,
+  color text not null default '#9aa4b2',
+  active boolean not null default true,
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint categories_code_present check (trim(code) <> ''),
+  constraint categories_default_target_range check (default_target >= 0 and default_target <= 100),
+  constraint categories_color_format check (color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+drop trigger if exists trg_categories_touch_updated_at on public.categories;
+create trigger trg_categories_touch_updated_at
+before update on public.categories
+for each row
+execute function public.touch_updated_at();
+
+insert into public.categories (code, label, display_order, default_target, color)
+values
+  ('5.3 DOMESTICO NO PENINSULAR', 'Domestico no peninsular', 1, 74, '#e0a84f'),
+  ('5.4 INTERNACIONAL / PENINSULAR >5H', 'Internacional / peninsular >5h', 2, 54, '#5fa8d3'),
+  ('5.5 DOMESTICO PENINSULAR <=5H', 'Domestico peninsular <=5h', 3, 31, '#7cc47f'),
+  ('5.6 OTROS VUELOS', 'Otros vuelos', 4, 100, '#b48ead')
+on conflict (code) do nothing;
+
+alter table public.categories enable row level security;
+
+drop policy if exists categories_select_allowed on public.categories;
+create policy categories_select_allowed
+on public.categories
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists categories_insert_allowed on public.categories;
+create policy categories_insert_allowed
+on public.categories
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists categories_update_allowed on public.categories;
+create policy categories_update_allowed
+on public.categories
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+grant select, insert, update on public.categories to authenticated;
+
+create or replace function public.effective_category_targets(p_dataset_id uuid, p_work_date date)
+returns table(category text, target_percent numeric(5,2), rule_id uuid)
+language sql
+stable
+set search_path = public
+as $$
+  with active_rule as (
+    select r.id, r.targets
+    from public.resolve_target_rule(p_dataset_id, p_work_date) r
+  ), category_codes as (
+    select ct.category
+    from public.category_targets ct
+    where ct.dataset_id = p_dataset_id
+    union
+    select jsonb_object_keys(ar.targets)
+    from active_rule ar
+    union
+    select cat.code
+    from public.categories cat
+    where cat.active
+  )
+  select
+    c.category,
+    coalesce((ar.targets ->> c.category)::numeric, ct.target_percent, cat.default_target, 0)::numeric(5,2),
+    ar.id
+  from category_codes c
+  left join active_rule ar on true
+  left join public.category_targets ct
+    on ct.dataset_id = p_dataset_id
+   and ct.category = c.category
+  left join public.categories cat
+    on cat.code = c.category
+   and cat.active;
+$$;
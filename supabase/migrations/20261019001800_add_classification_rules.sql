@@ -0,0 +1,356 @@
+alter table public.flights
+  add column if not exists categoria_source text not null default 'file';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'flights_categoria_source_values'
+  ) then
+    alter table public.flights
+      add constraint flights_categoria_source_values check (categoria_source in ('file', 'auto', 'manual'));
+  end if;
+end;
+$$;
+
+create table if not exists public.classification_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  priority integer not null default 0,
+  category text not null references public.categories(code) on update cascade,
+  tipos text[] not null default '{}',
+  airport_types text[] not null default '{}',
+  countries text[] not null default '{}',
+  eee text not null default 'any',
+  block_time text not null default 'any',
+  active boolean not null default true,
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint classification_rules_name_present check (trim(name) <> ''),
+  constraint classification_rules_eee_values check (eee in ('any', 'eee', 'non_eee')),
+  constraint classification_rules_block_time_values check (block_time in ('any', 'over_5h', 'up_to_5h'))
+);
+
+drop trigger if exists trg_classification_rules_touch_updated_at on public.classification_rules;
+create trigger trg_classification_rules_touch_updated_at
+before update on public.classification_rules
+for each row
+execute function public.touch_updated_at();
+
+insert into public.classification_rules (id, name, priority, category, tipos, airport_types, countries, block_time)
+values
+  (
+    '5c1a0000-0000-4000-8000-000000000010',
+    'Carga y otros',
+    10,
+    '5.6 OTROS VUELOS',
+    '{CARGO,OTROS}',
+    '{}',
+    '{}',
+    'any'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000020',
+    'Islas, Ceuta y Melilla',
+    20,
+    '5.3 DOMESTICO NO PENINSULAR',
+    '{}',
+    '{INTER-BALEAR,INTER-CANARIO,CEUTA,MELILLA}',
+    '{ES}',
+    'any'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000030',
+    'Peninsular de mas de 5h',
+    30,
+    '5.4 INTERNACIONAL / PENINSULAR >5H',
+    '{}',
+    '{PENINSULAR}',
+    '{}',
+    'over_5h'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000040',
+    'Peninsular',
+    40,
+    '5.5 DOMESTICO PENINSULAR <=5H',
+    '{}',
+    '{PENINSULAR}',
+    '{}',
+    'any'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000050',
+    'Internacional',
+    50,
+    '5.4 INTERNACIONAL / PENINSULAR >5H',
+    '{}',
+    '{ESPACIO ECONOMICO EUROPEO,INTERNACIONAL}',
+    '{}',
+    'any'
+  )
+on conflict (id) do nothing;
+
+alter table public.classification_rules enable row level security;
+
+drop policy if exists classification_rules_select_allowed on public.classification_rules;
+create policy classification_rules_select_allowed
+on public.classification_rules
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists classification_rules_insert_allowed on public.classification_rules;
+create policy classification_rules_insert_allowed
+on public.classification_rules
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists classification_rules_update_allowed on public.classification_rules;
+create policy classification_rules_update_allowed
+on public.classification_rules
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+drop policy if exists classification_rules_delete_allowed on public.classification_rules;
+create policy classification_rules_delete_allowed
+on public.classification_rules
+for delete
+to authenticated
+using (public.current_user_is_admin());
+
+grant select, insert, update, delete on public.classification_rules to authenticated;
+
+drop function if exists public.flight_payload_rows(jsonb);
+
+create or replace function public.flight_payload_rows(p_flights jsonb)
+returns table(
+  flight_key text,
+  categoria_clasificacion text,
+  categoria_source text,
+  tipo text,
+  fecha text,
+  hora text,
+  cia text,
+  dscia text,
+  cdocia text,
+  vuelo text,
+  avo text,
+  ast text,
+  dsmotivo text,
+  org_nxt text,
+  prv_fin text,
+  dsapto text,
+  dstpapto text,
+  cdpais text,
+  dspais text,
+  dsaclase text
+)
+language sql
+immutable
+as $$
+  select
+    x.flight_key,
+    x.categoria_clasificacion,
+    coalesce(x.categoria_source, 'file'),
+    x.tipo,
+    x.fecha,
+    x.hora,
+    x.cia,
+    x.dscia,
+    x.cdocia,
+    x.vuelo,
+    coalesce(x.avo, ''),
+    coalesce(x.ast, ''),
+    coalesce(x.dsmotivo, ''),
+    coalesce(x.org_nxt, ''),
+    coalesce(x.prv_fin, ''),
+    coalesce(x.dsapto, ''),
+    coalesce(x.dstpapto, ''),
+    coalesce(x.cdpais, ''),
+    coalesce(x.dspais, ''),
+    coalesce(x.dsaclase, '')
+  from jsonb_to_recordset(p_flights) as x(
+    flight_key text,
+    categoria_clasificacion text,
+    categoria_source text,
+    tipo text,
+    fecha text,
+    hora text,
+    cia text,
+    dscia text,
+    cdocia text,
+    vuelo text,
+    avo text,
+    ast text,
+    dsmotivo text,
+    org_nxt text,
+    prv_fin text,
+    dsapto text,
+    dstpapto text,
+    cdpais text,
+    dspais text,
+    dsaclase text
+  );
+$$;
+
+create or replace function public.apply_dataset_update(
+  p_dataset_id uuid,
+  p_source_name text,
+  p_source_hash text,
+  p_flights jsonb
+)
+returns table(update_id uuid, added_flights integer, removed_flights integer, changed_flights integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_update_id uuid := gen_random_uuid();
+  v_removed text[];
+  v_changed text[];
+  v_added text[];
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para actualizar datasets';
+  end if;
+
+  if jsonb_typeof(p_flights) is distinct from 'array' or jsonb_array_length(p_flights) = 0 then
+    raise exception 'La actualizacion no contiene vuelos';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('dataset_update|' || p_dataset_id::text)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  with removed_rows as (
+    delete from public.flights f
+    where f.dataset_id = p_dataset_id
+      and not exists (
+        select 1 from public.flight_payload_rows(p_flights) i where i.flight_key = f.flight_key
+      )
+    returning f.flight_key
+  )
+  select coalesce(array_agg(rr.flight_key), '{}') into v_removed from removed_rows rr;
+
+  with changed_rows as (
+    update public.flights f
+    set
+      tipo = i.tipo,
+      cia = i.cia,
+      dscia = i.dscia,
+      avo = i.avo,
+      ast = i.ast,
+      dsmotivo = i.dsmotivo,
+      org_nxt = i.org_nxt,
+      prv_fin = i.prv_fin,
+      dsapto = i.dsapto,
+      dstpapto = i.dstpapto,
+      cdpais = i.cdpais,
+      dspais = i.dspais,
+      dsaclase = i.dsaclase
+    from public.flight_payload_rows(p_flights) i
+    where f.dataset_id = p_dataset_id
+      and f.flight_key = i.flight_key
+      and (f.tipo, f.cia, f.dscia, f.avo, f.ast, f.dsmotivo, f.org_nxt, f.prv_fin, f.dsapto, f.dstpapto, f.cdpais, f.dspais, f.dsaclase)
+        is distinct from
+        (i.tipo, i.cia, i.dscia, i.avo, i.ast, i.dsmotivo, i.org_nxt, i.prv_fin, i.dsapto, i.dstpapto, i.cdpais, i.dspais, i.dsaclase)
+    returning f.flight_key
+  )
+  select coalesce(array_agg(cr.flight_key), '{}') into v_changed from changed_rows cr;
+
+  with added_rows as (
+    insert into public.flights (
+      dataset_id,
+      flight_key,
+      categoria_clasificacion,
+      categoria_source,
+      tipo,
+      fecha,
+      hora,
+      cia,
+      dscia,
+      cdocia,
+      vuelo,
+      avo,
+      ast,
+      dsmotivo,
+      org_nxt,
+      prv_fin,
+      dsapto,
+      dstpapto,
+      cdpais,
+      dspais,
+      dsaclase,
+      operated
+    )
+    select
+      p_dataset_id,
+      i.flight_key,
+      i.categoria_clasificacion,
+      i.categoria_source,
+      i.tipo,
+      i.fecha,
+      i.hora,
+      i.cia,
+      i.dscia,
+      i.cdocia,
+      i.vuelo,
+      i.avo,
+      i.ast,
+      i.dsmotivo,
+      i.org_nxt,
+      i.prv_fin,
+      i.dsapto,
+      i.dstpapto,
+      i.cdpais,
+      i.dspais,
+      i.dsaclase,
+      false
+    from public.flight_payload_rows(p_flights) i
+    where not exists (
+      select 1 from public.flights f where f.dataset_id = p_dataset_id and f.flight_key = i.flight_key
+    )
+    returning flight_key
+  )
+  select coalesce(array_agg(ar.flight_key), '{}') into v_added from added_rows ar;
+
+  insert into public.dataset_updates (
+    id,
+    dataset_id,
+    source_name,
+    source_hash,
+    added_flights,
+    removed_flights,
+    changed_flights,
+    diff_json,
+    applied_by,
+    applied_by_email
+  )
+  values (
+    v_update_id,
+    p_dataset_id,
+    coalesce(nullif(trim(p_source_name), ''), 'sin nombre'),
+    coalesce(p_source_hash, ''),
+    coalesce(array_length(v_added, 1), 0),
+    coalesce(array_length(v_removed, 1), 0),
+    coalesce(array_length(v_changed, 1), 0),
+    jsonb_build_object('added', to_jsonb(v_added), 'removed', to_jsonb(v_removed), 'changed', to_jsonb(v_changed)),
+    auth.uid(),
+    public.current_user_email()
+  );
+
+  return query
+  select
+    v_update_id,
+    coalesce(array_length(v_added, 1), 0),
+    coalesce(array_length(v_removed, 1), 0),
+    coalesce(array_length(v_changed, 1), 0);
+end;
+$$;
+
+grant execute on function public.apply_dataset_update(uuid, text, text, jsonb) to authenticated;
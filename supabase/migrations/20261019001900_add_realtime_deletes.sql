@@ -0,0 +1,4 @@
+alter table public.flights replica identity full;
+alter table public.category_targets replica identity full;
+alter table public.dataset_settings replica identity full;
+alter table public.operated_reversals replica identity full;
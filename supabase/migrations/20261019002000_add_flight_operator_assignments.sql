@@ -0,0 +1,216 @@
+alter table public.flights
+  add column if not exists assigned_to_email text references public.allowed_emails(email) on delete set null,
+  add column if not exists assigned_at timestamptz,
+  add column if not exists assigned_by_email text;
+
+create index if not exists flights_dataset_assigned_idx
+  on public.flights(dataset_id, assigned_to_email);
+
+create or replace function public.clear_unattended_assignment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.service_flag is distinct from 'ATENDER' and not new.operated then
+    new.assigned_to_email = null;
+    new.assigned_at = null;
+    new.assigned_by_email = null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_flights_clear_assignment on public.flights;
+create trigger trg_flights_clear_assignment
+before update of service_flag on public.flights
+for each row
+execute function public.clear_unattended_assignment();
+
+alter table public.flight_events
+  drop constraint if exists flight_events_type_valid;
+
+alter table public.flight_events
+  add constraint flight_events_type_valid check (
+    event_type in ('created', 'operated', 'operated_reverted', 'service_flag', 'assigned', 'fields_updated', 'deleted')
+  );
+
+create or replace function public.log_flight_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text := nullif(public.current_user_email(), '');
+  v_fields text[] := array[
+    'categoria_clasificacion', 'tipo', 'fecha', 'hora', 'cia', 'dscia', 'cdocia', 'vuelo', 'avo', 'ast',
+    'dsmotivo', 'org_nxt', 'prv_fin', 'dsapto', 'dstpapto', 'cdpais', 'dspais', 'dsaclase'
+  ];
+  v_old jsonb;
+  v_new jsonb;
+  v_reversal public.operated_reversals%rowtype;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.flight_events (flight_id, dataset_id, event_type, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'created',
+      jsonb_build_object('flight_key', new.flight_key, 'operated', new.operated, 'service_flag', new.service_flag),
+      v_actor
+    );
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    if not exists (select 1 from public.datasets d where d.id = old.dataset_id) then
+      return old;
+    end if;
+
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, actor_email)
+    values (
+      old.id,
+      old.dataset_id,
+      'deleted',
+      jsonb_build_object('flight_key', old.flight_key, 'operated', old.operated, 'service_flag', old.service_flag),
+      v_actor
+    );
+    return old;
+  end if;
+
+  if old.operated = false and new.operated = true then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'operated',
+      jsonb_build_object('operated', false),
+      jsonb_build_object('operated', true, 'operated_at', new.operated_at, 'operated_by_email', new.operated_by_email),
+      coalesce(v_actor, new.operated_by_email)
+    );
+  elsif old.operated = true and new.operated = false then
+    select * into v_reversal
+    from public.operated_reversals r
+    where r.flight_id = new.id
+      and r.status = 'pending'
+    limit 1;
+
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'operated_reverted',
+      jsonb_build_object('operated', true, 'operated_at', old.operated_at, 'operated_by_email', old.operated_by_email),
+      jsonb_strip_nulls(
+        jsonb_build_object(
+          'operated', false,
+          'reversal_id', v_reversal.id,
+          'reason', v_reversal.reason,
+          'requested_by_email', v_reversal.requested_by_email
+        )
+      ),
+      v_actor
+    );
+  end if;
+
+  if old.service_flag is distinct from new.service_flag
+    or old.service_flag_source is distinct from new.service_flag_source then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email, run_id)
+    values (
+      new.id,
+      new.dataset_id,
+      'service_flag',
+      jsonb_build_object('service_flag', old.service_flag, 'service_flag_source', old.service_flag_source),
+      jsonb_build_object('service_flag', new.service_flag, 'service_flag_source', new.service_flag_source),
+      coalesce(v_actor, new.service_flag_updated_by_email),
+      new.service_flag_run_id
+    );
+  end if;
+
+  if old.assigned_to_email is distinct from new.assigned_to_email then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'assigned',
+      jsonb_build_object('assigned_to_email', old.assigned_to_email),
+      jsonb_build_object('assigned_to_email', new.assigned_to_email),
+      coalesce(v_actor, new.assigned_by_email)
+    );
+  end if;
+
+  select
+    coalesce(jsonb_object_agg(field, to_jsonb(old) -> field), '{}'::jsonb),
+    coalesce(jsonb_object_agg(field, to_jsonb(new) -> field), '{}'::jsonb)
+  into v_old, v_new
+  from unnest(v_fields) as field
+  where (to_jsonb(old) -> field) is distinct from (to_jsonb(new) -> field);
+
+  if v_new <> '{}'::jsonb then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (new.id, new.dataset_id, 'fields_updated', v_old, v_new, v_actor);
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.list_operators()
+returns table(email text, is_admin boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select ae.email, ae.is_admin
+  from public.allowed_emails ae
+  where ae.active = true
+    and public.current_user_is_allowed()
+  order by ae.email;
+$$;
+
+create or replace function public.assign_flights(p_assignments jsonb)
+returns setof public.flights
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para asignar vuelos';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+    where a.email is not null
+      and not public.is_email_allowed(a.email)
+  ) then
+    raise exception 'El operador no esta autorizado';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+    join public.flights f
+      on f.id = a."flightId"
+    where a.email is not null
+      and (f.operated or f.service_flag is distinct from 'ATENDER')
+  ) then
+    raise exception 'Solo se pueden asignar vuelos ATENDER pendientes de operar';
+  end if;
+
+  return query
+  update public.flights f
+  set
+    assigned_to_email = lower(trim(a.email)),
+    assigned_at = case when a.email is null then null else timezone('utc', now()) end,
+    assigned_by_email = case when a.email is null then null else public.current_user_email() end
+  from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+  where f.id = a."flightId"
+  returning f.*;
+end;
+$$;
+
+grant execute on function public.list_operators() to authenticated;
+grant execute on function public.assign_flights(jsonb) to authenticated;
@@ -0,0 +1,174 @@
+create or replace function public.apply_dataset_update(
+  p_dataset_id uuid,
+  p_source_name text,
+  p_source_hash text,
+  p_flights jsonb
+)
+returns table(update_id uuid, added_flights integer, removed_flights integer, changed_flights integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_update_id uuid := gen_random_uuid();
+  v_removed text[];
+  v_kept_operated text[];
+  v_changed text[];
+  v_added text[];
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para actualizar datasets';
+  end if;
+
+  if jsonb_typeof(p_flights) is distinct from 'array' or jsonb_array_length(p_flights) = 0 then
+    raise exception 'La actualizacion no contiene vuelos';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('dataset_update|' || p_dataset_id::text)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  select coalesce(array_agg(f.flight_key order by f.flight_key), '{}')
+  into v_kept_operated
+  from public.flights f
+  where f.dataset_id = p_dataset_id
+    and f.operated
+    and not exists (
+      select 1 from public.flight_payload_rows(p_flights) i where i.flight_key = f.flight_key
+    );
+
+  with removed_rows as (
+    delete from public.flights f
+    where f.dataset_id = p_dataset_id
+      and not f.operated
+      and not exists (
+        select 1 from public.flight_payload_rows(p_flights) i where i.flight_key = f.flight_key
+      )
+    returning f.flight_key
+  )
+  select coalesce(array_agg(rr.flight_key), '{}') into v_removed from removed_rows rr;
+
+  with changed_rows as (
+    update public.flights f
+    set
+      tipo = i.tipo,
+      cia = i.cia,
+      dscia = i.dscia,
+      avo = i.avo,
+      ast = i.ast,
+      dsmotivo = i.dsmotivo,
+      org_nxt = i.org_nxt,
+      prv_fin = i.prv_fin,
+      dsapto = i.dsapto,
+      dstpapto = i.dstpapto,
+      cdpais = i.cdpais,
+      dspais = i.dspais,
+      dsaclase = i.dsaclase
+    from public.flight_payload_rows(p_flights) i
+    where f.dataset_id = p_dataset_id
+      and f.flight_key = i.flight_key
+      and (f.tipo, f.cia, f.dscia, f.avo, f.ast, f.dsmotivo, f.org_nxt, f.prv_fin, f.dsapto, f.dstpapto, f.cdpais, f.dspais, f.dsaclase)
+        is distinct from
+        (i.tipo, i.cia, i.dscia, i.avo, i.ast, i.dsmotivo, i.org_nxt, i.prv_fin, i.dsapto, i.dstpapto, i.cdpais, i.dspais, i.dsaclase)
+    returning f.flight_key
+  )
+  select coalesce(array_agg(cr.flight_key), '{}') into v_changed from changed_rows cr;
+
+  with added_rows as (
+    insert into public.flights (
+      dataset_id,
+      flight_key,
+      categoria_clasificacion,
+      categoria_source,
+      tipo,
+      fecha,
+      hora,
+      cia,
+      dscia,
+      cdocia,
+      vuelo,
+      avo,
+      ast,
+      dsmotivo,
+      org_nxt,
+      prv_fin,
+      dsapto,
+      dstpapto,
+      cdpais,
+      dspais,
+      dsaclase,
+      operated
+    )
+    select
+      p_dataset_id,
+      i.flight_key,
+      i.categoria_clasificacion,
+      i.categoria_source,
+      i.tipo,
+      i.fecha,
+      i.hora,
+      i.cia,
+      i.dscia,
+      i.cdocia,
+      i.vuelo,
+      i.avo,
+      i.ast,
+      i.dsmotivo,
+      i.org_nxt,
+      i.prv_fin,
+      i.dsapto,
+      i.dstpapto,
+      i.cdpais,
+      i.dspais,
+      i.dsaclase,
+      false
+    from public.flight_payload_rows(p_flights) i
+    where not exists (
+      select 1 from public.flights f where f.dataset_id = p_dataset_id and f.flight_key = i.flight_key
+    )
+    returning flight_key
+  )
+  select coalesce(array_agg(ar.flight_key), '{}') into v_added from added_rows ar;
+
+  insert into public.dataset_updates (
+    id,
+    dataset_id,
+    source_name,
+    source_hash,
+    added_flights,
+    removed_flights,
+    changed_flights,
+    diff_json,
+    applied_by,
+    applied_by_email
+  )
+  values (
+    v_update_id,
+    p_dataset_id,
+    coalesce(nullif(trim(p_source_name), ''), 'sin nombre'),
+    coalesce(p_source_hash, ''),
+    coalesce(array_length(v_added, 1), 0),
+    coalesce(array_length(v_removed, 1), 0),
+    coalesce(array_length(v_changed, 1), 0),
+    jsonb_build_object(
+      'added', to_jsonb(v_added),
+      'removed', to_jsonb(v_removed),
+      'changed', to_jsonb(v_changed),
+      'keptOperated', to_jsonb(v_kept_operated)
+    ),
+    auth.uid(),
+    public.current_user_email()
+  );
+
+  return query
+  select
+    v_update_id,
+    coalesce(array_length(v_added, 1), 0),
+    coalesce(array_length(v_removed, 1), 0),
+    coalesce(array_length(v_changed, 1), 0);
+end;
+$$;
+
+grant execute on function public.apply_dataset_update(uuid, text, text, jsonb) to authenticated;
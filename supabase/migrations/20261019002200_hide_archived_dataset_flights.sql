@@ -0,0 +1,39 @@
+drop policy if exists flights_select_allowed on public.flights;
+create policy flights_select_allowed
+on public.flights
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flights.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists flights_update_allowed on public.flights;
+create policy flights_update_allowed
+on public.flights
+for update
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and operated = false
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flights.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+)
+with check (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flights.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
@@ -0,0 +1,487 @@
+create or replace function public.enforce_flight_service_flag_rules()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (
+    old.service_flag,
+    old.service_flag_source,
+    old.service_flag_updated_at,
+    old.service_flag_updated_by_email,
+    old.service_flag_run_id
+  ) is distinct from (
+    new.service_flag,
+    new.service_flag_source,
+    new.service_flag_updated_at,
+    new.service_flag_updated_by_email,
+    new.service_flag_run_id
+  )
+    and coalesce(current_setting('app.service_flag_change', true), '') <> 'on' then
+    raise exception 'Solo un administrador puede cambiar la etiqueta de servicio de un vuelo';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_flights_enforce_service_flag on public.flights;
+create trigger trg_flights_enforce_service_flag
+before update on public.flights
+for each row
+execute function public.enforce_flight_service_flag_rules();
+
+create or replace function public.run_auto_assignment(
+  p_dataset_id uuid,
+  p_work_date text,
+  p_respect_locked boolean default false,
+  p_from_time text default null,
+  p_respect_capacity boolean default false,
+  p_strategy text default 'uniform',
+  p_strategy_params jsonb default '{}'::jsonb
+)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seed text := encode(gen_random_bytes(8), 'hex');
+  v_run_id uuid := gen_random_uuid();
+  v_work_date date;
+  v_work_date_iso text;
+  v_from_minutes integer;
+  v_strategy_params jsonb;
+  v_capacity jsonb := '{}'::jsonb;
+  v_flights jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para autoasignacion';
+  end if;
+
+  v_work_date := public.parse_work_date(p_work_date);
+  if v_work_date is null then
+    raise exception 'Debes indicar un dia de trabajo valido';
+  end if;
+
+  v_work_date_iso := to_char(v_work_date, 'YYYY-MM-DD');
+
+  if coalesce(trim(p_from_time), '') <> '' then
+    v_from_minutes := public.parse_flight_minutes(p_from_time);
+    if v_from_minutes is null then
+      raise exception 'Hora de corte no valida';
+    end if;
+  end if;
+
+  v_strategy_params := case p_strategy
+    when 'uniform' then '{}'::jsonb
+    when 'hour_stratified' then jsonb_build_object(
+      'bucketMinutes',
+      greatest(coalesce((p_strategy_params ->> 'bucketMinutes')::integer, 60), 1)
+    )
+    when 'airline_round_robin' then '{}'::jsonb
+    when 'destination_weighted' then jsonb_build_object(
+      'weights',
+      coalesce(p_strategy_params -> 'weights', '{}'::jsonb)
+    )
+  end;
+  if v_strategy_params is null then
+    raise exception 'Estrategia de asignacion no valida';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || p_dataset_id::text || '|' || v_work_date_iso)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  if p_respect_capacity then
+    select coalesce(jsonb_object_agg(sc.slot_start, sc.teams), '{}'::jsonb)
+    into v_capacity
+    from public.shift_capacity sc
+    where sc.dataset_id = p_dataset_id;
+  end if;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', f.id,
+        'flight_key', f.flight_key,
+        'vuelo', f.vuelo,
+        'categoria_clasificacion', f.categoria_clasificacion,
+        'hora', f.hora,
+        'cdocia', f.cdocia,
+        'dsapto', f.dsapto,
+        'service_flag', f.service_flag,
+        'service_flag_source', f.service_flag_source,
+        'operated', f.operated,
+        'target_percent', ct.target_percent
+      )
+      order by f.flight_key
+    ),
+    '[]'::jsonb
+  )
+  into v_flights
+  from public.flights f
+  left join public.effective_category_targets(p_dataset_id, v_work_date) ct
+    on ct.category = f.categoria_clasificacion
+  where f.dataset_id = p_dataset_id
+    and public.parse_work_date(f.fecha) = v_work_date;
+
+  perform set_config('app.service_flag_change', 'on', true);
+
+  return query
+  with final_flags as (
+    select d.*
+    from public.auto_assignment_decide(
+      v_flights,
+      v_capacity,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params,
+      p_respect_capacity
+    ) d
+  ), updated as (
+    update public.flights f
+    set
+      service_flag = ff.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from final_flags ff
+    where f.id = ff.id
+      and not ff.keep_manual
+      and not ff.keep_past
+    returning f.id
+  ), summary_rows as (
+    select
+      ff.categoria_clasificacion as category,
+      max(ff.total_category)::integer as total,
+      max(ff.target_percent)::numeric(5,2) as target_percent,
+      max(ff.required_count)::integer as required_count,
+      (
+        count(*) filter (where ff.next_flag = 'ATENDER' and not ff.keep_past)
+        + count(*) filter (where ff.keep_past and ff.operated)
+      )::integer as assigned_count,
+      count(*) filter (where ff.locked)::integer as locked_count,
+      count(*) filter (where ff.keep_past)::integer as past_count,
+      max(ff.shortfall)::integer as shortfall,
+      (array_agg(ff.blocked_slots))[1] as blocked_slots
+    from final_flags ff
+    group by ff.categoria_clasificacion
+  ), summary_json as (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'category', sr.category,
+          'total', sr.total,
+          'targetPercent', sr.target_percent,
+          'requiredCount', sr.required_count,
+          'assignedCount', sr.assigned_count,
+          'lockedCount', sr.locked_count,
+          'pastCount', sr.past_count,
+          'shortfall', sr.shortfall,
+          'blockedSlots', sr.blocked_slots
+        )
+        order by sr.category
+      ),
+      '[]'::jsonb
+    ) as payload
+    from summary_rows sr
+  ), inserted_run as (
+    insert into public.assignment_runs as ar (
+      id,
+      dataset_id,
+      work_date,
+      seed,
+      summary_json,
+      updated_flights,
+      strategy,
+      strategy_params,
+      options_json,
+      flights_snapshot,
+      result_flags,
+      created_by,
+      created_by_email
+    )
+    select
+      v_run_id,
+      p_dataset_id,
+      v_work_date_iso,
+      v_seed,
+      sj.payload,
+      coalesce((select count(*) from updated), 0),
+      p_strategy,
+      v_strategy_params,
+      jsonb_build_object(
+        'respectLocked', p_respect_locked,
+        'fromTime', nullif(trim(coalesce(p_from_time, '')), ''),
+        'respectCapacity', p_respect_capacity,
+        'shiftCapacity', v_capacity,
+        'targetRuleId', (select r.id from public.resolve_target_rule(p_dataset_id, v_work_date) r)
+      ),
+      v_flights,
+      (
+        select coalesce(
+          jsonb_agg(
+            jsonb_build_object('id', ff.id, 'flightKey', ff.flight_key, 'serviceFlag', ff.next_flag)
+            order by ff.flight_key
+          ),
+          '[]'::jsonb
+        )
+        from final_flags ff
+        where not ff.keep_manual
+          and not ff.keep_past
+      ),
+      auth.uid(),
+      public.current_user_email()
+    from summary_json sj
+    returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json
+  )
+  select ir.id, ir.seed, ir.work_date, ir.updated_flights, ir.summary_json
+  from inserted_run ir;
+
+  perform set_config('app.service_flag_change', '', true);
+end;
+$$;
+
+grant execute on function public.run_auto_assignment(uuid, text, boolean, text, boolean, text, jsonb) to authenticated;
+
+create or replace function public.restore_assignment_run(p_run_id uuid)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source public.assignment_runs%rowtype;
+  v_run_id uuid := gen_random_uuid();
+  v_result_flags jsonb;
+  v_updated_flights integer;
+  v_summary jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para restaurar ejecuciones';
+  end if;
+
+  select ar.*
+  into v_source
+  from public.assignment_runs ar
+  where ar.id = p_run_id;
+
+  if not found then
+    raise exception 'Ejecucion no encontrada';
+  end if;
+
+  if v_source.result_flags is null then
+    raise exception 'La ejecucion no guarda el detalle de vuelos y no se puede restaurar';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || v_source.dataset_id::text || '|' || v_source.work_date)::bigint);
+
+  perform set_config('app.service_flag_change', 'on', true);
+
+  with restore_targets as (
+    select f.id, f.flight_key, f.service_flag as previous_flag, rf."serviceFlag" as next_flag
+    from jsonb_to_recordset(v_source.result_flags) as rf(id uuid, "serviceFlag" text)
+    join public.flights f
+      on f.id = rf.id
+     and f.dataset_id = v_source.dataset_id
+    where not f.operated
+      and rf."serviceFlag" in ('ATENDER', 'NO_ATENDER')
+    for update of f
+  ), restored as (
+    update public.flights f
+    set
+      service_flag = rt.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from restore_targets rt
+    where f.id = rt.id
+    returning rt.id, rt.flight_key, rt.previous_flag, rt.next_flag
+  )
+  select
+    coalesce(
+      jsonb_agg(
+        jsonb_build_object('id', r.id, 'flightKey', r.flight_key, 'serviceFlag', r.next_flag)
+        order by r.flight_key
+      ),
+      '[]'::jsonb
+    ),
+    (count(*) filter (where r.previous_flag is distinct from r.next_flag))::integer
+  into v_result_flags, v_updated_flights
+  from restored r;
+
+  perform set_config('app.service_flag_change', '', true);
+
+  with summary_rows as (
+    select
+      f.categoria_clasificacion as category,
+      count(*)::integer as total,
+      coalesce(max(ct.target_percent), 0)::numeric(5,2) as target_percent,
+      count(*) filter (where f.service_flag = 'ATENDER')::integer as assigned_count,
+      count(*) filter (where f.operated)::integer as locked_count
+    from public.flights f
+    left join public.effective_category_targets(v_source.dataset_id, public.parse_work_date(v_source.work_date)) ct
+      on ct.category = f.categoria_clasificacion
+    where f.dataset_id = v_source.dataset_id
+      and public.parse_work_date(f.fecha) = public.parse_work_date(v_source.work_date)
+    group by f.categoria_clasificacion
+  )
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'category', sr.category,
+        'total', sr.total,
+        'targetPercent', sr.target_percent,
+        'requiredCount', least(sr.total, ceil(sr.total * sr.target_percent / 100.0)::integer),
+        'assignedCount', sr.assigned_count,
+        'lockedCount', sr.locked_count,
+        'pastCount', 0
+      )
+      order by sr.category
+    ),
+    '[]'::jsonb
+  )
+  into v_summary
+  from summary_rows sr;
+
+  return query
+  insert into public.assignment_runs as ar (
+    id,
+    dataset_id,
+    work_date,
+    seed,
+    summary_json,
+    updated_flights,
+    strategy,
+    strategy_params,
+    options_json,
+    flights_snapshot,
+    result_flags,
+    restored_from_run_id,
+    created_by,
+    created_by_email
+  )
+  values (
+    v_run_id,
+    v_source.dataset_id,
+    v_source.work_date,
+    v_source.seed,
+    v_summary,
+    v_updated_flights,
+    v_source.strategy,
+    v_source.strategy_params,
+    v_source.options_json,
+    v_source.flights_snapshot,
+    v_result_flags,
+    v_source.id,
+    auth.uid(),
+    public.current_user_email()
+  )
+  returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json;
+end;
+$$;
+
+grant execute on function public.restore_assignment_run(uuid) to authenticated;
+
+create or replace function public.set_manual_service_flag(
+  p_flight_id uuid,
+  p_service_flag text,
+  p_swap_flight_id uuid default null
+)
+returns setof public.flights
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_flight public.flights%rowtype;
+  v_swap public.flights%rowtype;
+  v_work_date date;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para cambiar etiquetas';
+  end if;
+
+  if p_service_flag is null or p_service_flag not in ('ATENDER', 'NO_ATENDER') then
+    raise exception 'Etiqueta no valida';
+  end if;
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id;
+
+  if not found then
+    raise exception 'Vuelo no encontrado';
+  end if;
+
+  v_work_date := public.parse_work_date(v_flight.fecha);
+
+  perform pg_advisory_xact_lock(
+    hashtext('auto_assign|' || v_flight.dataset_id::text || '|' || coalesce(to_char(v_work_date, 'YYYY-MM-DD'), ''))::bigint
+  );
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id
+  for update;
+
+  if not found then
+    raise exception 'Vuelo no encontrado';
+  end if;
+
+  if v_flight.operated then
+    raise exception 'No se puede cambiar la etiqueta de un vuelo ya operado';
+  end if;
+
+  if p_swap_flight_id is not null then
+    select * into v_swap
+    from public.flights f
+    where f.id = p_swap_flight_id
+    for update;
+
+    if not found
+      or v_swap.id = v_flight.id
+      or v_swap.dataset_id <> v_flight.dataset_id
+      or v_swap.categoria_clasificacion <> v_flight.categoria_clasificacion
+      or public.parse_work_date(v_swap.fecha) is distinct from v_work_date then
+      raise exception 'El vuelo de compensacion debe ser de la misma categoria y dia';
+    end if;
+
+    if v_swap.operated then
+      raise exception 'El vuelo de compensacion ya esta operado';
+    end if;
+
+    if (coalesce(v_swap.service_flag, '') = 'ATENDER') <> (p_service_flag = 'ATENDER') then
+      raise exception 'El vuelo de compensacion ha cambiado de etiqueta, vuelve a elegirlo';
+    end if;
+  end if;
+
+  perform set_config('app.service_flag_change', 'on', true);
+
+  return query
+  update public.flights f
+  set
+    service_flag = case
+      when f.id = p_flight_id then p_service_flag
+      when p_service_flag = 'ATENDER' then 'NO_ATENDER'
+      else 'ATENDER'
+    end,
+    service_flag_source = 'manual',
+    service_flag_updated_at = timezone('utc', now()),
+    service_flag_updated_by_email = public.current_user_email(),
+    service_flag_run_id = null
+  where f.id = p_flight_id
+     or f.id = p_swap_flight_id
+  returning f.*;
+
+  perform set_config('app.service_flag_change', '', true);
+end;
+$$;
+
+grant execute on function public.set_manual_service_flag(uuid, text, uuid) to authenticated;
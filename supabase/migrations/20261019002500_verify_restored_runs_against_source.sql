@@ -0,0 +1,153 @@
+create or replace function public.verify_assignment_run(p_run_id uuid)
+returns setof public.assignment_run_verifications
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.assignment_runs%rowtype;
+  v_source public.assignment_runs%rowtype;
+  v_report jsonb;
+  v_status text;
+  v_verification public.assignment_run_verifications%rowtype;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para verificar ejecuciones';
+  end if;
+
+  select * into v_run
+  from public.assignment_runs ar
+  where ar.id = p_run_id;
+
+  if not found then
+    raise exception 'Ejecucion no encontrada';
+  end if;
+
+  if v_run.restored_from_run_id is null and v_run.flights_snapshot is null then
+    raise exception 'La ejecucion no guarda snapshot de vuelos y no se puede reproducir';
+  end if;
+
+  if v_run.restored_from_run_id is not null then
+    select * into v_source
+    from public.assignment_runs ar
+    where ar.id = v_run.restored_from_run_id;
+
+    if v_run.result_flags is null or v_source.result_flags is null then
+      raise exception 'La restauracion no guarda el detalle de vuelos y no se puede verificar';
+    end if;
+  end if;
+
+  with expected as (
+    select
+      d.id,
+      d.flight_key,
+      snapshot.vuelo,
+      d.service_flag as snapshot_flag,
+      d.next_flag
+    from public.auto_assignment_decide(
+      v_run.flights_snapshot,
+      coalesce(v_run.options_json -> 'shiftCapacity', '{}'::jsonb),
+      coalesce((v_run.options_json ->> 'respectLocked')::boolean, false),
+      public.parse_flight_minutes(v_run.options_json ->> 'fromTime'),
+      v_run.seed,
+      v_run.strategy,
+      v_run.strategy_params,
+      coalesce((v_run.options_json ->> 'respectCapacity')::boolean, false)
+    ) d
+    left join jsonb_to_recordset(v_run.flights_snapshot) as snapshot(id uuid, vuelo text)
+      on snapshot.id = d.id
+    where v_run.restored_from_run_id is null
+      and not d.keep_manual
+      and not d.keep_past
+    union all
+    select
+      sf.id,
+      sf."flightKey",
+      f.vuelo,
+      rf."serviceFlag",
+      sf."serviceFlag"
+    from jsonb_to_recordset(coalesce(v_source.result_flags, '[]'::jsonb)) as sf(id uuid, "flightKey" text, "serviceFlag" text)
+    left join jsonb_to_recordset(coalesce(v_run.result_flags, '[]'::jsonb)) as rf(id uuid, "serviceFlag" text)
+      on rf.id = sf.id
+    left join public.flights f on f.id = sf.id
+    where v_run.restored_from_run_id is not null
+  ), compared as (
+    select
+      e.*,
+      f.service_flag_run_id is not distinct from p_run_id as current_from_run,
+      v_run.restored_from_run_id is not null
+        and e.snapshot_flag is null
+        and (f.id is null or f.operated) as skipped,
+      case
+        when f.service_flag_run_id is not distinct from p_run_id then f.service_flag
+        else coalesce(ev.service_flag, e.snapshot_flag)
+      end as written_flag
+    from expected e
+    left join public.flights f on f.id = e.id
+    left join lateral (
+      select fe.new_values ->> 'service_flag' as service_flag
+      from public.flight_events fe
+      where fe.flight_id = e.id
+        and fe.run_id = p_run_id
+        and fe.event_type = 'service_flag'
+      order by fe.id desc
+      limit 1
+    ) ev on true
+  )
+  select jsonb_build_object(
+    'runId', p_run_id,
+    'datasetId', v_run.dataset_id,
+    'workDate', v_run.work_date,
+    'seed', v_run.seed,
+    'strategy', v_run.strategy,
+    'strategyParams', v_run.strategy_params,
+    'options', v_run.options_json,
+    'runCreatedAt', v_run.created_at,
+    'restoredFromRunId', v_run.restored_from_run_id,
+    'checkedFlights', count(*) filter (where not c.skipped),
+    'expectedAttend', count(*) filter (where c.next_flag = 'ATENDER' and not c.skipped),
+    'matchedFlights', count(*) filter (where c.written_flag is not distinct from c.next_flag and not c.skipped),
+    'mismatchedFlights', count(*) filter (where c.written_flag is distinct from c.next_flag and not c.skipped),
+    'supersededFlights', count(*) filter (where not c.current_from_run and not c.skipped),
+    'skippedFlights', count(*) filter (where c.skipped),
+    'unexpectedFlights', (
+      select count(*)
+      from public.flights f
+      where f.service_flag_run_id = p_run_id
+        and not exists (select 1 from expected e where e.id = f.id)
+    ) + (
+      select count(*)
+      from jsonb_to_recordset(coalesce(v_run.result_flags, '[]'::jsonb)) as rf(id uuid)
+      where v_run.restored_from_run_id is not null
+        and not exists (select 1 from expected e where e.id = rf.id)
+    ),
+    'mismatches', coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'flightKey', c.flight_key,
+          'vuelo', c.vuelo,
+          'expected', c.next_flag,
+          'actual', c.written_flag
+        )
+        order by c.flight_key
+      ) filter (where c.written_flag is distinct from c.next_flag and not c.skipped),
+      '[]'::jsonb
+    )
+  )
+  into v_report
+  from compared c;
+
+  v_status := case
+    when (v_report ->> 'mismatchedFlights')::integer = 0 and (v_report ->> 'unexpectedFlights')::integer = 0 then 'verified'
+    else 'failed'
+  end;
+
+  insert into public.assignment_run_verifications as arv (run_id, status, report, report_digest, verified_by_email)
+  values (p_run_id, v_status, v_report, encode(digest(v_report::text, 'sha256'), 'hex'), public.current_user_email())
+  returning arv.* into v_verification;
+
+  return next v_verification;
+end;
+$$;
+
+grant execute on function public.verify_assignment_run(uuid) to authenticated;
@@ -0,0 +1,78 @@
+drop trigger if exists trg_flights_clear_assignment on public.flights;
+drop function if exists public.clear_unattended_assignment();
+
+create or replace function public.enforce_flight_assignment_rules()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (old.assigned_to_email, old.assigned_at, old.assigned_by_email)
+    is distinct from (new.assigned_to_email, new.assigned_at, new.assigned_by_email)
+    and coalesce(current_setting('app.flight_assignment', true), '') <> 'on'
+    and pg_trigger_depth() <= 1 then
+    raise exception 'Solo un administrador puede asignar vuelos a operadores';
+  end if;
+
+  if new.service_flag is distinct from 'ATENDER' and not new.operated then
+    new.assigned_to_email = null;
+    new.assigned_at = null;
+    new.assigned_by_email = null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_flights_enforce_assignment on public.flights;
+create trigger trg_flights_enforce_assignment
+before update on public.flights
+for each row
+execute function public.enforce_flight_assignment_rules();
+
+create or replace function public.assign_flights(p_assignments jsonb)
+returns setof public.flights
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para asignar vuelos';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+    where a.email is not null
+      and not public.is_email_allowed(a.email)
+  ) then
+    raise exception 'El operador no esta autorizado';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+    join public.flights f
+      on f.id = a."flightId"
+    where a.email is not null
+      and (f.operated or f.service_flag is distinct from 'ATENDER')
+  ) then
+    raise exception 'Solo se pueden asignar vuelos ATENDER pendientes de operar';
+  end if;
+
+  perform set_config('app.flight_assignment', 'on', true);
+
+  return query
+  update public.flights f
+  set
+    assigned_to_email = lower(trim(a.email)),
+    assigned_at = case when a.email is null then null else timezone('utc', now()) end,
+    assigned_by_email = case when a.email is null then null else public.current_user_email() end
+  from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+  where f.id = a."flightId"
+  returning f.*;
+
+  perform set_config('app.flight_assignment', '', true);
+end;
+$$;
+
+grant execute on function public.assign_flights(jsonb) to authenticated;
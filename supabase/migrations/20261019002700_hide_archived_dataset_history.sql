@@ -0,0 +1,75 @@
+drop policy if exists assignment_runs_select_allowed on public.assignment_runs;
+create policy assignment_runs_select_allowed
+on public.assignment_runs
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = assignment_runs.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists assignment_run_verifications_select_allowed on public.assignment_run_verifications;
+create policy assignment_run_verifications_select_allowed
+on public.assignment_run_verifications
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.assignment_runs ar
+    join public.datasets d on d.id = ar.dataset_id
+    where ar.id = assignment_run_verifications.run_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists dataset_updates_select_allowed on public.dataset_updates;
+create policy dataset_updates_select_allowed
+on public.dataset_updates
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = dataset_updates.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists operated_reversals_select_allowed on public.operated_reversals;
+create policy operated_reversals_select_allowed
+on public.operated_reversals
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = operated_reversals.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists flight_events_select_allowed on public.flight_events;
+create policy flight_events_select_allowed
+on public.flight_events
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flight_events.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
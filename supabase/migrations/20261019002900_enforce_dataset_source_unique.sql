@@ -0,0 +1,61 @@
+with ranked as (
+  select
+    d.id,
+    row_number() over (partition by d.source_hash, d.source_work_date order by d.created_at desc) as position
+  from public.datasets d
+  where d.archived_at is null
+)
+update public.datasets d
+set archived_at = timezone('utc', now())
+from ranked r
+where r.id = d.id
+  and r.position > 1;
+
+drop index if exists public.datasets_source_hash_idx;
+
+create unique index if not exists datasets_active_source_idx
+  on public.datasets(source_hash, source_work_date)
+  where archived_at is null;
+
+drop function if exists public.create_dataset(text, text, text, boolean);
+
+create or replace function public.create_dataset(
+  p_name text,
+  p_source_hash text,
+  p_work_date text
+)
+returns table(dataset_id uuid, dataset_name text, created_at timestamptz, created boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_work_date text := coalesce(p_work_date, '');
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para crear datasets';
+  end if;
+
+  if coalesce(p_source_hash, '') = '' then
+    raise exception 'El dataset necesita el hash del archivo origen';
+  end if;
+
+  return query
+  insert into public.datasets as d (name, source_hash, source_work_date, created_by)
+  values (p_name, p_source_hash, v_work_date, auth.uid())
+  on conflict (source_hash, source_work_date) where archived_at is null do nothing
+  returning d.id, d.name, d.created_at, true;
+
+  if found then
+    return;
+  end if;
+
+  return query
+  select d.id, d.name, d.created_at, false
+  from public.datasets d
+  where d.source_hash = p_source_hash
+    and d.source_work_date = v_work_date
+    and d.archived_at is null;
+end;
+$$;
+grant execute on function public.create_dataset(text, text, text) to authenticated;
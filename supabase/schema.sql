@@ -82,10 +82,25 @@ create table if not exists public.datasets (
   id uuid primary key default gen_random_uuid(),
   name text not null,
   source_hash text not null,
+  source_work_date text not null default '',
+  archived_at timestamptz,
   created_at timestamptz not null default timezone('utc', now()),
   created_by uuid not null default auth.uid() references auth.users(id)
 );
 
+alter table public.datasets
+  add column if not exists source_work_date text not null default '',
+  add column if not exists archived_at timestamptz;
+
+drop index if exists public.datasets_source_hash_idx;
+
+create unique index if not exists datasets_active_source_idx
+  on public.datasets(source_hash, source_work_date)
+  where archived_at is null;
+
+create index if not exists datasets_created_at_idx
+  on public.datasets(created_at desc);
+
 create table if not exists public.category_targets (
   dataset_id uuid not null references public.datasets(id) on delete cascade,
   category text not null,
@@ -102,6 +117,112 @@ before update on public.category_targets
 for each row
 execute function public.touch_updated_at();
 
+create table if not exists public.categories (
+  code text primary key,
+  label text not null,
+  display_order integer not null default 0,
+  default_target numeric(5,2) not null default 0,
+  color text not null default '#9aa4b2',
+  active boolean not null default true,
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint categories_code_present check (trim(code) <> ''),
+  constraint categories_default_target_range check (default_target >= 0 and default_target <= 100),
+  constraint categories_color_format check (color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+drop trigger if exists trg_categories_touch_updated_at on public.categories;
+create trigger trg_categories_touch_updated_at
+before update on public.categories
+for each row
+execute function public.touch_updated_at();
+
+insert into public.categories (code, label, display_order, default_target, color)
+values
+  ('5.3 DOMESTICO NO PENINSULAR', 'Domestico no peninsular', 1, 74, '#e0a84f'),
+  ('5.4 INTERNACIONAL / PENINSULAR >5H', 'Internacional / peninsular >5h', 2, 54, '#5fa8d3'),
+  ('5.5 DOMESTICO PENINSULAR <=5H', 'Domestico peninsular <=5h', 3, 31, '#7cc47f'),
+  ('5.6 OTROS VUELOS', 'Otros vuelos', 4, 100, '#b48ead')
+on conflict (code) do nothing;
+
+create table if not exists public.classification_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  priority integer not null default 0,
+  category text not null references public.categories(code) on update cascade,
+  tipos text[] not null default '{}',
+  airport_types text[] not null default '{}',
+  countries text[] not null default '{}',
+  eee text not null default 'any',
+  block_time text not null default 'any',
+  active boolean not null default true,
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint classification_rules_name_present check (trim(name) <> ''),
+  constraint classification_rules_eee_values check (eee in ('any', 'eee', 'non_eee')),
+  constraint classification_rules_block_time_values check (block_time in ('any', 'over_5h', 'up_to_5h'))
+);
+
+drop trigger if exists trg_classification_rules_touch_updated_at on public.classification_rules;
+create trigger trg_classification_rules_touch_updated_at
+before update on public.classification_rules
+for each row
+execute function public.touch_updated_at();
+
+insert into public.classification_rules (id, name, priority, category, tipos, airport_types, countries, block_time)
+values
+  (
+    '5c1a0000-0000-4000-8000-000000000010',
+    'Carga y otros',
+    10,
+    '5.6 OTROS VUELOS',
+    '{CARGO,OTROS}',
+    '{}',
+    '{}',
+    'any'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000020',
+    'Islas, Ceuta y Melilla',
+    20,
+    '5.3 DOMESTICO NO PENINSULAR',
+    '{}',
+    '{INTER-BALEAR,INTER-CANARIO,CEUTA,MELILLA}',
+    '{ES}',
+    'any'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000030',
+    'Peninsular de mas de 5h',
+    30,
+    '5.4 INTERNACIONAL / PENINSULAR >5H',
+    '{}',
+    '{PENINSULAR}',
+    '{}',
+    'over_5h'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000040',
+    'Peninsular',
+    40,
+    '5.5 DOMESTICO PENINSULAR <=5H',
+    '{}',
+    '{PENINSULAR}',
+    '{}',
+    'any'
+  ),
+  (
+    '5c1a0000-0000-4000-8000-000000000050',
+    'Internacional',
+    50,
+    '5.4 INTERNACIONAL / PENINSULAR >5H',
+    '{}',
+    '{ESPACIO ECONOMICO EUROPEO,INTERNACIONAL}',
+    '{}',
+    'any'
+  )
+on conflict (id) do nothing;
+
 create table if not exists public.dataset_settings (
   dataset_id uuid primary key references public.datasets(id) on delete cascade,
   work_date text not null,
@@ -116,21 +237,135 @@ create table if not exists public.assignment_runs (
   seed text not null,
   summary_json jsonb not null default '[]'::jsonb,
   updated_flights integer not null default 0,
+  strategy text not null default 'uniform',
+  strategy_params jsonb not null default '{}'::jsonb,
+  options_json jsonb not null default '{}'::jsonb,
+  flights_snapshot jsonb,
+  result_flags jsonb,
+  restored_from_run_id uuid references public.assignment_runs(id) on delete set null,
   created_at timestamptz not null default timezone('utc', now()),
-  created_by uuid not null default auth.uid() references auth.users(id)
+  created_by uuid not null default auth.uid() references auth.users(id),
+  created_by_email text
+);
+
+alter table public.assignment_runs
+  add column if not exists strategy text not null default 'uniform',
+  add column if not exists strategy_params jsonb not null default '{}'::jsonb,
+  add column if not exists options_json jsonb not null default '{}'::jsonb,
+  add column if not exists flights_snapshot jsonb,
+  add column if not exists result_flags jsonb,
+  add column if not exists restored_from_run_id uuid references public.assignment_runs(id) on delete set null,
+  add column if not exists created_by_email text;
+
+create index if not exists assignment_runs_dataset_day_idx
+  on public.assignment_runs(dataset_id, work_date, created_at desc);
+
+create table if not exists public.assignment_run_verifications (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.assignment_runs(id) on delete cascade,
+  status text not null,
+  report jsonb not null,
+  report_digest text not null,
+  verified_by_email text not null,
+  verified_at timestamptz not null default timezone('utc', now()),
+  constraint assignment_run_verifications_status_values check (status in ('verified', 'failed'))
 );
 
+create index if not exists assignment_run_verifications_run_idx
+  on public.assignment_run_verifications(run_id, verified_at desc);
+
 drop trigger if exists trg_dataset_settings_touch_updated_at on public.dataset_settings;
 create trigger trg_dataset_settings_touch_updated_at
 before update on public.dataset_settings
 for each row
 execute function public.touch_updated_at();
 
+create table if not exists public.shift_capacity (
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  slot_start text not null,
+  teams integer not null,
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  primary key (dataset_id, slot_start),
+  constraint shift_capacity_slot_format check (slot_start ~ '^([01]\d|2[0-3]):(00|30)$'),
+  constraint shift_capacity_teams_range check (teams >= 0)
+);
+
+drop trigger if exists trg_shift_capacity_touch_updated_at on public.shift_capacity;
+create trigger trg_shift_capacity_touch_updated_at
+before update on public.shift_capacity
+for each row
+execute function public.touch_updated_at();
+
+create or replace function public.target_rule_targets_valid(p_targets jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select jsonb_typeof(p_targets) = 'object'
+    and not exists (
+      select 1
+      from jsonb_each(p_targets) as t(category, value)
+      where jsonb_typeof(t.value) <> 'number'
+         or (t.value #>> '{}')::numeric < 0
+         or (t.value #>> '{}')::numeric > 100
+    );
+$$;
+
+create table if not exists public.target_rules (
+  id uuid primary key default gen_random_uuid(),
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  name text not null,
+  kind text not null,
+  weekdays smallint[] not null default '{}',
+  start_date date,
+  end_date date,
+  targets jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint target_rules_kind_values check (kind in ('weekday', 'date_range')),
+  constraint target_rules_name_present check (trim(name) <> ''),
+  constraint target_rules_weekdays_range check (weekdays <@ array[1, 2, 3, 4, 5, 6, 7]::smallint[]),
+  constraint target_rules_scope check (
+    (kind = 'weekday' and cardinality(weekdays) > 0)
+    or (kind = 'date_range' and start_date is not null and end_date is not null and start_date <= end_date)
+  ),
+  constraint target_rules_targets_range check (public.target_rule_targets_valid(targets))
+);
+
+create index if not exists target_rules_dataset_idx
+  on public.target_rules(dataset_id);
+
+drop trigger if exists trg_target_rules_touch_updated_at on public.target_rules;
+create trigger trg_target_rules_touch_updated_at
+before update on public.target_rules
+for each row
+execute function public.touch_updated_at();
+
+create table if not exists public.csv_mapping_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  mapping jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  updated_by uuid default auth.uid() references auth.users(id),
+  constraint csv_mapping_profiles_name_unique unique (name),
+  constraint csv_mapping_profiles_mapping_object check (jsonb_typeof(mapping) = 'object')
+);
+
+drop trigger if exists trg_csv_mapping_profiles_touch_updated_at on public.csv_mapping_profiles;
+create trigger trg_csv_mapping_profiles_touch_updated_at
+before update on public.csv_mapping_profiles
+for each row
+execute function public.touch_updated_at();
+
 create table if not exists public.flights (
   id uuid primary key default gen_random_uuid(),
   dataset_id uuid not null references public.datasets(id) on delete cascade,
   flight_key text not null,
   categoria_clasificacion text not null,
+  categoria_source text not null default 'file',
   tipo text not null,
   fecha text not null,
   hora text not null,
@@ -138,6 +373,16 @@ create table if not exists public.flights (
   dscia text not null,
   cdocia text not null,
   vuelo text not null,
+  avo text not null default '',
+  ast text not null default '',
+  dsmotivo text not null default '',
+  org_nxt text not null default '',
+  prv_fin text not null default '',
+  dsapto text not null default '',
+  dstpapto text not null default '',
+  cdpais text not null default '',
+  dspais text not null default '',
+  dsaclase text not null default '',
   operated boolean not null default false,
   operated_at timestamptz,
   operated_by_email text,
@@ -146,6 +391,9 @@ create table if not exists public.flights (
   service_flag_updated_at timestamptz,
   service_flag_updated_by_email text,
   service_flag_run_id uuid,
+  assigned_to_email text references public.allowed_emails(email) on delete set null,
+  assigned_at timestamptz,
+  assigned_by_email text,
   created_at timestamptz not null default timezone('utc', now()),
   constraint flights_unique_per_dataset unique (dataset_id, flight_key),
   constraint flights_operated_metadata check (
@@ -162,6 +410,26 @@ alter table public.flights
   add column if not exists service_flag_updated_by_email text,
   add column if not exists service_flag_run_id uuid;
 
+alter table public.flights
+  add column if not exists avo text not null default '',
+  add column if not exists ast text not null default '',
+  add column if not exists dsmotivo text not null default '',
+  add column if not exists org_nxt text not null default '',
+  add column if not exists prv_fin text not null default '',
+  add column if not exists dsapto text not null default '',
+  add column if not exists dstpapto text not null default '',
+  add column if not exists cdpais text not null default '',
+  add column if not exists dspais text not null default '',
+  add column if not exists dsaclase text not null default '';
+
+alter table public.flights
+  add column if not exists categoria_source text not null default 'file';
+
+alter table public.flights
+  add column if not exists assigned_to_email text references public.allowed_emails(email) on delete set null,
+  add column if not exists assigned_at timestamptz,
+  add column if not exists assigned_by_email text;
+
 do $$
 begin
   if not exists (
@@ -177,6 +445,13 @@ begin
     alter table public.flights
       add constraint flights_service_flag_source_values check (service_flag_source is null or service_flag_source in ('auto', 'manual'));
   end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'flights_categoria_source_values'
+  ) then
+    alter table public.flights
+      add constraint flights_categoria_source_values check (categoria_source in ('file', 'auto', 'manual'));
+  end if;
 end;
 $$;
 
@@ -192,6 +467,12 @@ create index if not exists flights_dataset_date_idx
 create index if not exists flights_dataset_service_flag_idx
   on public.flights(dataset_id, service_flag);
 
+create index if not exists flights_dataset_org_nxt_idx
+  on public.flights(dataset_id, org_nxt);
+
+create index if not exists flights_dataset_assigned_idx
+  on public.flights(dataset_id, assigned_to_email);
+
 create or replace function public.enforce_flight_operated_rules()
 returns trigger
 language plpgsql
@@ -217,7 +498,13 @@ begin
   end if;
 
   if old.operated = true and new.operated = false then
-    raise exception 'No se puede desmarcar un vuelo ya operado';
+    if coalesce(current_setting('app.operated_reversal_flight', true), '') <> old.id::text then
+      raise exception 'No se puede desmarcar un vuelo ya operado sin una reversion aprobada';
+    end if;
+
+    new.operated_at = null;
+    new.operated_by_email = null;
+    return new;
   end if;
 
   if old.operated = true and new.operated = true then
@@ -253,196 +540,1877 @@ before insert or update on public.flights
 for each row
 execute function public.enforce_flight_operated_rules();
 
-create or replace function public.parse_work_date(p_value text)
-returns date
+drop trigger if exists trg_flights_clear_assignment on public.flights;
+drop function if exists public.clear_unattended_assignment();
+
+create or replace function public.enforce_flight_assignment_rules()
+returns trigger
 language plpgsql
-immutable
+as $$
+begin
+  if (old.assigned_to_email, old.assigned_at, old.assigned_by_email)
+    is distinct from (new.assigned_to_email, new.assigned_at, new.assigned_by_email)
+    and coalesce(current_setting('app.flight_assignment', true), '') <> 'on'
+    and pg_trigger_depth() <= 1 then
+    raise exception 'Solo un administrador puede asignar vuelos a operadores';
+  end if;
+
+  if new.service_flag is distinct from 'ATENDER' and not new.operated then
+    new.assigned_to_email = null;
+    new.assigned_at = null;
+    new.assigned_by_email = null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_flights_enforce_assignment on public.flights;
+create trigger trg_flights_enforce_assignment
+before update on public.flights
+for each row
+execute function public.enforce_flight_assignment_rules();
+
+create or replace function public.enforce_flight_service_flag_rules()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (
+    old.service_flag,
+    old.service_flag_source,
+    old.service_flag_updated_at,
+    old.service_flag_updated_by_email,
+    old.service_flag_run_id
+  ) is distinct from (
+    new.service_flag,
+    new.service_flag_source,
+    new.service_flag_updated_at,
+    new.service_flag_updated_by_email,
+    new.service_flag_run_id
+  )
+    and coalesce(current_setting('app.service_flag_change', true), '') <> 'on' then
+    raise exception 'Solo un administrador puede cambiar la etiqueta de servicio de un vuelo';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_flights_enforce_service_flag on public.flights;
+create trigger trg_flights_enforce_service_flag
+before update on public.flights
+for each row
+execute function public.enforce_flight_service_flag_rules();
+
+create table if not exists public.operated_reversals (
+  id uuid primary key default gen_random_uuid(),
+  flight_id uuid not null references public.flights(id) on delete cascade,
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  reason text not null,
+  status text not null default 'pending',
+  operated_at timestamptz not null,
+  operated_by_email text not null,
+  requested_at timestamptz not null default timezone('utc', now()),
+  requested_by uuid not null default auth.uid() references auth.users(id),
+  requested_by_email text not null,
+  resolved_at timestamptz,
+  resolved_by_email text,
+  constraint operated_reversals_reason_required check (length(trim(reason)) > 0),
+  constraint operated_reversals_status_valid check (status in ('pending', 'approved', 'rejected'))
+);
+
+create unique index if not exists operated_reversals_pending_idx
+  on public.operated_reversals(flight_id)
+  where status = 'pending';
+
+create index if not exists operated_reversals_dataset_idx
+  on public.operated_reversals(dataset_id, requested_at desc);
+
+create table if not exists public.flight_events (
+  id bigint generated always as identity primary key,
+  flight_id uuid not null,
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  event_type text not null,
+  old_values jsonb not null default '{}'::jsonb,
+  new_values jsonb not null default '{}'::jsonb,
+  actor_email text,
+  run_id uuid,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint flight_events_type_valid check (
+    event_type in ('created', 'operated', 'operated_reverted', 'service_flag', 'assigned', 'fields_updated', 'deleted')
+  )
+);
+
+create index if not exists flight_events_flight_idx
+  on public.flight_events(flight_id, created_at desc);
+
+create index if not exists flight_events_dataset_idx
+  on public.flight_events(dataset_id, created_at desc);
+
+create or replace function public.log_flight_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
 as $$
 declare
-  v_value text := trim(coalesce(p_value, ''));
-  v_parts text[];
-  v_date date;
-  v_normalized text;
+  v_actor text := nullif(public.current_user_email(), '');
+  v_fields text[] := array[
+    'categoria_clasificacion', 'tipo', 'fecha', 'hora', 'cia', 'dscia', 'cdocia', 'vuelo', 'avo', 'ast',
+    'dsmotivo', 'org_nxt', 'prv_fin', 'dsapto', 'dstpapto', 'cdpais', 'dspais', 'dsaclase'
+  ];
+  v_old jsonb;
+  v_new jsonb;
+  v_reversal public.operated_reversals%rowtype;
 begin
-  if v_value = '' then
-    return null;
+  if tg_op = 'INSERT' then
+    insert into public.flight_events (flight_id, dataset_id, event_type, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'created',
+      jsonb_build_object('flight_key', new.flight_key, 'operated', new.operated, 'service_flag', new.service_flag),
+      v_actor
+    );
+    return new;
   end if;
 
-  if v_value ~ '^\d{4}-\d{2}-\d{2}$' then
-    v_date := to_date(v_value, 'YYYY-MM-DD');
-    if to_char(v_date, 'YYYY-MM-DD') = v_value then
-      return v_date;
+  if tg_op = 'DELETE' then
+    if not exists (select 1 from public.datasets d where d.id = old.dataset_id) then
+      return old;
     end if;
-    return null;
+
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, actor_email)
+    values (
+      old.id,
+      old.dataset_id,
+      'deleted',
+      jsonb_build_object('flight_key', old.flight_key, 'operated', old.operated, 'service_flag', old.service_flag),
+      v_actor
+    );
+    return old;
   end if;
 
-  if v_value ~ '^\d{1,2}/\d{1,2}/\d{4}$' then
-    v_parts := regexp_split_to_array(v_value, '/');
-    v_normalized := lpad(v_parts[1], 2, '0') || '/' || lpad(v_parts[2], 2, '0') || '/' || v_parts[3];
-    v_date := to_date(v_normalized, 'DD/MM/YYYY');
-    if to_char(v_date, 'DD/MM/YYYY') = v_normalized then
-      return v_date;
-    end if;
-    return null;
+  if old.operated = false and new.operated = true then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'operated',
+      jsonb_build_object('operated', false),
+      jsonb_build_object('operated', true, 'operated_at', new.operated_at, 'operated_by_email', new.operated_by_email),
+      coalesce(v_actor, new.operated_by_email)
+    );
+  elsif old.operated = true and new.operated = false then
+    select * into v_reversal
+    from public.operated_reversals r
+    where r.flight_id = new.id
+      and r.status = 'pending'
+    limit 1;
+
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'operated_reverted',
+      jsonb_build_object('operated', true, 'operated_at', old.operated_at, 'operated_by_email', old.operated_by_email),
+      jsonb_strip_nulls(
+        jsonb_build_object(
+          'operated', false,
+          'reversal_id', v_reversal.id,
+          'reason', v_reversal.reason,
+          'requested_by_email', v_reversal.requested_by_email
+        )
+      ),
+      v_actor
+    );
   end if;
 
-  if v_value ~ '^\d{1,2}-\d{1,2}-\d{4}$' then
-    v_parts := regexp_split_to_array(v_value, '-');
-    v_normalized := lpad(v_parts[1], 2, '0') || '-' || lpad(v_parts[2], 2, '0') || '-' || v_parts[3];
-    v_date := to_date(v_normalized, 'DD-MM-YYYY');
-    if to_char(v_date, 'DD-MM-YYYY') = v_normalized then
-      return v_date;
-    end if;
-    return null;
+  if old.service_flag is distinct from new.service_flag
+    or old.service_flag_source is distinct from new.service_flag_source then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email, run_id)
+    values (
+      new.id,
+      new.dataset_id,
+      'service_flag',
+      jsonb_build_object('service_flag', old.service_flag, 'service_flag_source', old.service_flag_source),
+      jsonb_build_object('service_flag', new.service_flag, 'service_flag_source', new.service_flag_source),
+      coalesce(v_actor, new.service_flag_updated_by_email),
+      new.service_flag_run_id
+    );
   end if;
 
-  return null;
+  if old.assigned_to_email is distinct from new.assigned_to_email then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (
+      new.id,
+      new.dataset_id,
+      'assigned',
+      jsonb_build_object('assigned_to_email', old.assigned_to_email),
+      jsonb_build_object('assigned_to_email', new.assigned_to_email),
+      coalesce(v_actor, new.assigned_by_email)
+    );
+  end if;
+
+  select
+    coalesce(jsonb_object_agg(field, to_jsonb(old) -> field), '{}'::jsonb),
+    coalesce(jsonb_object_agg(field, to_jsonb(new) -> field), '{}'::jsonb)
+  into v_old, v_new
+  from unnest(v_fields) as field
+  where (to_jsonb(old) -> field) is distinct from (to_jsonb(new) -> field);
+
+  if v_new <> '{}'::jsonb then
+    insert into public.flight_events (flight_id, dataset_id, event_type, old_values, new_values, actor_email)
+    values (new.id, new.dataset_id, 'fields_updated', v_old, v_new, v_actor);
+  end if;
+
+  return new;
 end;
 $$;
 
-create or replace function public.run_auto_assignment(p_dataset_id uuid, p_work_date text)
-returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+drop trigger if exists trg_flights_log_events on public.flights;
+create trigger trg_flights_log_events
+after insert or update or delete on public.flights
+for each row
+execute function public.log_flight_events();
+
+create table if not exists public.dataset_updates (
+  id uuid primary key default gen_random_uuid(),
+  dataset_id uuid not null references public.datasets(id) on delete cascade,
+  source_name text not null,
+  source_hash text not null,
+  added_flights integer not null default 0,
+  removed_flights integer not null default 0,
+  changed_flights integer not null default 0,
+  diff_json jsonb not null default '{}'::jsonb,
+  applied_at timestamptz not null default timezone('utc', now()),
+  applied_by uuid not null default auth.uid() references auth.users(id),
+  applied_by_email text not null
+);
+
+create index if not exists dataset_updates_dataset_idx
+  on public.dataset_updates(dataset_id, applied_at desc);
+
+drop function if exists public.flight_payload_rows(jsonb);
+
+create or replace function public.flight_payload_rows(p_flights jsonb)
+returns table(
+  flight_key text,
+  categoria_clasificacion text,
+  categoria_source text,
+  tipo text,
+  fecha text,
+  hora text,
+  cia text,
+  dscia text,
+  cdocia text,
+  vuelo text,
+  avo text,
+  ast text,
+  dsmotivo text,
+  org_nxt text,
+  prv_fin text,
+  dsapto text,
+  dstpapto text,
+  cdpais text,
+  dspais text,
+  dsaclase text
+)
+language sql
+immutable
+as $$
+  select
+    x.flight_key,
+    x.categoria_clasificacion,
+    coalesce(x.categoria_source, 'file'),
+    x.tipo,
+    x.fecha,
+    x.hora,
+    x.cia,
+    x.dscia,
+    x.cdocia,
+    x.vuelo,
+    coalesce(x.avo, ''),
+    coalesce(x.ast, ''),
+    coalesce(x.dsmotivo, ''),
+    coalesce(x.org_nxt, ''),
+    coalesce(x.prv_fin, ''),
+    coalesce(x.dsapto, ''),
+    coalesce(x.dstpapto, ''),
+    coalesce(x.cdpais, ''),
+    coalesce(x.dspais, ''),
+    coalesce(x.dsaclase, '')
+  from jsonb_to_recordset(p_flights) as x(
+    flight_key text,
+    categoria_clasificacion text,
+    categoria_source text,
+    tipo text,
+    fecha text,
+    hora text,
+    cia text,
+    dscia text,
+    cdocia text,
+    vuelo text,
+    avo text,
+    ast text,
+    dsmotivo text,
+    org_nxt text,
+    prv_fin text,
+    dsapto text,
+    dstpapto text,
+    cdpais text,
+    dspais text,
+    dsaclase text
+  );
+$$;
+
+create or replace function public.apply_dataset_update(
+  p_dataset_id uuid,
+  p_source_name text,
+  p_source_hash text,
+  p_flights jsonb
+)
+returns table(update_id uuid, added_flights integer, removed_flights integer, changed_flights integer)
 language plpgsql
 security definer
 set search_path = public
 as $$
 declare
-  v_seed text := encode(gen_random_bytes(8), 'hex');
-  v_run_id uuid := gen_random_uuid();
-  v_work_date date;
-  v_work_date_iso text;
+  v_update_id uuid := gen_random_uuid();
+  v_matched_ids uuid[];
+  v_matched_keys text[];
+  v_removed text[];
+  v_kept_operated text[];
+  v_changed text[];
+  v_added text[];
 begin
   if not public.current_user_is_admin() then
-    raise exception 'Usuario no autorizado para autoasignacion';
+    raise exception 'Usuario no autorizado para actualizar datasets';
   end if;
 
-  v_work_date := public.parse_work_date(p_work_date);
-  if v_work_date is null then
-    raise exception 'Debes indicar un dia de trabajo valido';
+  if jsonb_typeof(p_flights) is distinct from 'array' or jsonb_array_length(p_flights) = 0 then
+    raise exception 'La actualizacion no contiene vuelos';
   end if;
 
-  v_work_date_iso := to_char(v_work_date, 'YYYY-MM-DD');
-
-  perform pg_advisory_xact_lock(hashtext('auto_assign|' || p_dataset_id::text || '|' || v_work_date_iso)::bigint);
+  perform pg_advisory_xact_lock(hashtext('dataset_update|' || p_dataset_id::text)::bigint);
 
   if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
     raise exception 'Dataset no encontrado';
   end if;
 
-  return query
-  with flights_day as (
+  with incoming as (
+    select
+      i.flight_key,
+      upper(trim(i.fecha)) || '|' || upper(trim(i.hora)) || '|' || upper(trim(i.cdocia)) || '|' || upper(trim(i.vuelo))
+        as match_key
+    from public.flight_payload_rows(p_flights) i
+  ), existing as (
     select
       f.id,
-      f.categoria_clasificacion,
-      coalesce(ct.target_percent, 0)::numeric(5,2) as target_percent,
-      count(*) over (partition by f.categoria_clasificacion) as total_category,
-      row_number() over (
-        partition by f.categoria_clasificacion
-        order by md5(f.flight_key || '|' || v_seed), f.flight_key
-      ) as category_rank
+      f.flight_key,
+      upper(trim(f.fecha)) || '|' || upper(trim(f.hora)) || '|' || upper(trim(f.cdocia)) || '|' || upper(trim(f.vuelo))
+        as match_key
     from public.flights f
-    left join public.category_targets ct
-      on ct.dataset_id = f.dataset_id
-     and ct.category = f.categoria_clasificacion
     where f.dataset_id = p_dataset_id
-      and public.parse_work_date(f.fecha) = v_work_date
-  ), decision as (
+  ), exact_matches as (
+    select e.id, e.flight_key
+    from existing e
+    join incoming i on i.flight_key = e.flight_key
+  ), loose_existing as (
     select
-      fd.id,
-      fd.categoria_clasificacion,
-      fd.target_percent,
-      fd.total_category,
-      least(fd.total_category, ceil(fd.total_category * fd.target_percent / 100.0)::integer) as required_count,
-      fd.category_rank
-    from flights_day fd
-  ), updated as (
+      e.id,
+      e.match_key,
+      row_number() over (partition by e.match_key order by e.flight_key collate "C") as position
+    from existing e
+    where not exists (select 1 from exact_matches em where em.id = e.id)
+  ), loose_incoming as (
+    select
+      i.flight_key,
+      i.match_key,
+      row_number() over (partition by i.match_key order by i.flight_key collate "C") as position
+    from incoming i
+    where not exists (select 1 from exact_matches em where em.flight_key = i.flight_key)
+  ), matches as (
+    select em.id, em.flight_key from exact_matches em
+    union all
+    select le.id, li.flight_key
+    from loose_existing le
+    join loose_incoming li
+      on li.match_key = le.match_key
+     and li.position = le.position
+  )
+  select coalesce(array_agg(m.id), '{}'), coalesce(array_agg(m.flight_key), '{}')
+  into v_matched_ids, v_matched_keys
+  from matches m;
+
+  select coalesce(array_agg(f.flight_key order by f.flight_key), '{}')
+  into v_kept_operated
+  from public.flights f
+  where f.dataset_id = p_dataset_id
+    and f.operated
+    and not (f.id = any(v_matched_ids));
+
+  with removed_rows as (
+    delete from public.flights f
+    where f.dataset_id = p_dataset_id
+      and not f.operated
+      and not (f.id = any(v_matched_ids))
+    returning f.flight_key
+  )
+  select coalesce(array_agg(rr.flight_key), '{}') into v_removed from removed_rows rr;
+
+  with changed_rows as (
     update public.flights f
     set
-      service_flag = case when d.category_rank <= d.required_count then 'ATENDER' else 'NO_ATENDER' end,
-      service_flag_source = 'auto',
-      service_flag_updated_at = timezone('utc', now()),
-      service_flag_updated_by_email = public.current_user_email(),
-      service_flag_run_id = v_run_id
-    from decision d
-    where f.id = d.id
-    returning
-      d.categoria_clasificacion as category,
-      d.total_category as total,
-      d.target_percent,
-      d.required_count,
-      case when d.category_rank <= d.required_count then 1 else 0 end as assigned_attend
-  ), summary_rows as (
-    select
-      u.category,
-      max(u.total)::integer as total,
-      max(u.target_percent)::numeric(5,2) as target_percent,
-      max(u.required_count)::integer as required_count,
-      sum(u.assigned_attend)::integer as assigned_count
-    from updated u
-    group by u.category
-  ), summary_json as (
-    select coalesce(
-      jsonb_agg(
-        jsonb_build_object(
-          'category', sr.category,
-          'total', sr.total,
-          'targetPercent', sr.target_percent,
-          'requiredCount', sr.required_count,
-          'assignedCount', sr.assigned_count
-        )
-        order by sr.category
-      ),
-      '[]'::jsonb
-    ) as payload
-    from summary_rows sr
-  ), inserted_run as (
-    insert into public.assignment_runs (
-      id,
+      flight_key = i.flight_key,
+      categoria_clasificacion = i.categoria_clasificacion,
+      categoria_source = i.categoria_source,
+      tipo = i.tipo,
+      cia = i.cia,
+      dscia = i.dscia,
+      avo = i.avo,
+      ast = i.ast,
+      dsmotivo = i.dsmotivo,
+      org_nxt = i.org_nxt,
+      prv_fin = i.prv_fin,
+      dsapto = i.dsapto,
+      dstpapto = i.dstpapto,
+      cdpais = i.cdpais,
+      dspais = i.dspais,
+      dsaclase = i.dsaclase
+    from unnest(v_matched_ids, v_matched_keys) as m(id, flight_key)
+    join public.flight_payload_rows(p_flights) i on i.flight_key = m.flight_key
+    where f.id = m.id
+      and (
+        f.categoria_clasificacion, f.tipo, f.cia, f.dscia, f.avo, f.ast, f.dsmotivo, f.org_nxt, f.prv_fin,
+        f.dsapto, f.dstpapto, f.cdpais, f.dspais, f.dsaclase
+      ) is distinct from (
+        i.categoria_clasificacion, i.tipo, i.cia, i.dscia, i.avo, i.ast, i.dsmotivo, i.org_nxt, i.prv_fin,
+        i.dsapto, i.dstpapto, i.cdpais, i.dspais, i.dsaclase
+      )
+    returning f.flight_key
+  )
+  select coalesce(array_agg(cr.flight_key), '{}') into v_changed from changed_rows cr;
+
+  with added_rows as (
+    insert into public.flights (
       dataset_id,
-      work_date,
-      seed,
-      summary_json,
-      updated_flights,
-      created_by
+      flight_key,
+      categoria_clasificacion,
+      categoria_source,
+      tipo,
+      fecha,
+      hora,
+      cia,
+      dscia,
+      cdocia,
+      vuelo,
+      avo,
+      ast,
+      dsmotivo,
+      org_nxt,
+      prv_fin,
+      dsapto,
+      dstpapto,
+      cdpais,
+      dspais,
+      dsaclase,
+      operated
     )
     select
-      v_run_id,
       p_dataset_id,
-      v_work_date_iso,
-      v_seed,
-      sj.payload,
-      coalesce((select count(*) from updated), 0),
-      auth.uid()
-    from summary_json sj
-    returning id, seed, work_date, updated_flights, summary_json
+      i.flight_key,
+      i.categoria_clasificacion,
+      i.categoria_source,
+      i.tipo,
+      i.fecha,
+      i.hora,
+      i.cia,
+      i.dscia,
+      i.cdocia,
+      i.vuelo,
+      i.avo,
+      i.ast,
+      i.dsmotivo,
+      i.org_nxt,
+      i.prv_fin,
+      i.dsapto,
+      i.dstpapto,
+      i.cdpais,
+      i.dspais,
+      i.dsaclase,
+      false
+    from public.flight_payload_rows(p_flights) i
+    where not (i.flight_key = any(v_matched_keys))
+    returning flight_key
   )
-  select ir.id, ir.seed, ir.work_date, ir.updated_flights, ir.summary_json
-  from inserted_run ir;
+  select coalesce(array_agg(ar.flight_key), '{}') into v_added from added_rows ar;
+
+  insert into public.dataset_updates (
+    id,
+    dataset_id,
+    source_name,
+    source_hash,
+    added_flights,
+    removed_flights,
+    changed_flights,
+    diff_json,
+    applied_by,
+    applied_by_email
+  )
+  values (
+    v_update_id,
+    p_dataset_id,
+    coalesce(nullif(trim(p_source_name), ''), 'sin nombre'),
+    coalesce(p_source_hash, ''),
+    coalesce(array_length(v_added, 1), 0),
+    coalesce(array_length(v_removed, 1), 0),
+    coalesce(array_length(v_changed, 1), 0),
+    jsonb_build_object(
+      'added', to_jsonb(v_added),
+      'removed', to_jsonb(v_removed),
+      'changed', to_jsonb(v_changed),
+      'keptOperated', to_jsonb(v_kept_operated)
+    ),
+    auth.uid(),
+    public.current_user_email()
+  );
+
+  return query
+  select
+    v_update_id,
+    coalesce(array_length(v_added, 1), 0),
+    coalesce(array_length(v_removed, 1), 0),
+    coalesce(array_length(v_changed, 1), 0);
 end;
 $$;
 
-grant execute on function public.run_auto_assignment(uuid, text) to authenticated;
+grant execute on function public.apply_dataset_update(uuid, text, text, jsonb) to authenticated;
 
-alter table public.allowed_emails enable row level security;
-alter table public.datasets enable row level security;
-alter table public.category_targets enable row level security;
-alter table public.dataset_settings enable row level security;
-alter table public.assignment_runs enable row level security;
-alter table public.flights enable row level security;
+drop function if exists public.create_dataset(text, text, text, boolean);
 
-drop policy if exists datasets_select_allowed on public.datasets;
+create or replace function public.create_dataset(
+  p_name text,
+  p_source_hash text,
+  p_work_date text
+)
+returns table(dataset_id uuid, dataset_name text, created_at timestamptz, created boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_work_date text := coalesce(p_work_date, '');
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para crear datasets';
+  end if;
+
+  if coalesce(p_source_hash, '') = '' then
+    raise exception 'El dataset necesita el hash del archivo origen';
+  end if;
+
+  return query
+  insert into public.datasets as d (name, source_hash, source_work_date, created_by)
+  values (p_name, p_source_hash, v_work_date, auth.uid())
+  on conflict (source_hash, source_work_date) where archived_at is null do nothing
+  returning d.id, d.name, d.created_at, true;
+
+  if found then
+    return;
+  end if;
+
+  return query
+  select d.id, d.name, d.created_at, false
+  from public.datasets d
+  where d.source_hash = p_source_hash
+    and d.source_work_date = v_work_date
+    and d.archived_at is null;
+end;
+$$;
+grant execute on function public.create_dataset(text, text, text) to authenticated;
+
+create or replace function public.request_operated_reversal(p_flight_id uuid, p_reason text)
+returns public.operated_reversals
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_flight public.flights%rowtype;
+  v_reversal public.operated_reversals%rowtype;
+begin
+  if not public.current_user_is_allowed() then
+    raise exception 'Usuario no autorizado para solicitar reversiones';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Indica el motivo de la reversion';
+  end if;
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id
+  for update;
+
+  if not found then
+    raise exception 'Vuelo no encontrado';
+  end if;
+
+  if not v_flight.operated then
+    raise exception 'El vuelo no esta marcado como operado';
+  end if;
+
+  if exists (
+    select 1
+    from public.operated_reversals r
+    where r.flight_id = p_flight_id
+      and r.status = 'pending'
+  ) then
+    raise exception 'Ya hay una solicitud de reversion pendiente para este vuelo';
+  end if;
+
+  insert into public.operated_reversals (
+    flight_id,
+    dataset_id,
+    reason,
+    operated_at,
+    operated_by_email,
+    requested_by,
+    requested_by_email
+  )
+  values (
+    v_flight.id,
+    v_flight.dataset_id,
+    trim(p_reason),
+    v_flight.operated_at,
+    v_flight.operated_by_email,
+    auth.uid(),
+    public.current_user_email()
+  )
+  returning * into v_reversal;
+
+  return v_reversal;
+end;
+$$;
+
+grant execute on function public.request_operated_reversal(uuid, text) to authenticated;
+
+create or replace function public.resolve_operated_reversal(p_reversal_id uuid, p_approve boolean)
+returns public.operated_reversals
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reversal public.operated_reversals%rowtype;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para resolver reversiones';
+  end if;
+
+  select * into v_reversal
+  from public.operated_reversals r
+  where r.id = p_reversal_id
+  for update;
+
+  if not found then
+    raise exception 'Solicitud de reversion no encontrada';
+  end if;
+
+  if v_reversal.status <> 'pending' then
+    raise exception 'La solicitud de reversion ya fue resuelta';
+  end if;
+
+  if p_approve then
+    perform set_config('app.operated_reversal_flight', v_reversal.flight_id::text, true);
+
+    update public.flights
+    set operated = false
+    where id = v_reversal.flight_id;
+
+    perform set_config('app.operated_reversal_flight', '', true);
+  end if;
+
+  update public.operated_reversals
+  set
+    status = case when p_approve then 'approved' else 'rejected' end,
+    resolved_at = timezone('utc', now()),
+    resolved_by_email = public.current_user_email()
+  where id = p_reversal_id
+  returning * into v_reversal;
+
+  return v_reversal;
+end;
+$$;
+
+grant execute on function public.resolve_operated_reversal(uuid, boolean) to authenticated;
+
+create or replace function public.parse_work_date(p_value text)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_value text := trim(coalesce(p_value, ''));
+  v_parts text[];
+  v_date date;
+  v_normalized text;
+begin
+  if v_value = '' then
+    return null;
+  end if;
+
+  if v_value ~ '^\d{4}-\d{2}-\d{2}$' then
+    v_date := to_date(v_value, 'YYYY-MM-DD');
+    if to_char(v_date, 'YYYY-MM-DD') = v_value then
+      return v_date;
+    end if;
+    return null;
+  end if;
+
+  if v_value ~ '^\d{1,2}/\d{1,2}/\d{4}$' then
+    v_parts := regexp_split_to_array(v_value, '/');
+    v_normalized := lpad(v_parts[1], 2, '0') || '/' || lpad(v_parts[2], 2, '0') || '/' || v_parts[3];
+    v_date := to_date(v_normalized, 'DD/MM/YYYY');
+    if to_char(v_date, 'DD/MM/YYYY') = v_normalized then
+      return v_date;
+    end if;
+    return null;
+  end if;
+
+  if v_value ~ '^\d{1,2}-\d{1,2}-\d{4}$' then
+    v_parts := regexp_split_to_array(v_value, '-');
+    v_normalized := lpad(v_parts[1], 2, '0') || '-' || lpad(v_parts[2], 2, '0') || '-' || v_parts[3];
+    v_date := to_date(v_normalized, 'DD-MM-YYYY');
+    if to_char(v_date, 'DD-MM-YYYY') = v_normalized then
+      return v_date;
+    end if;
+    return null;
+  end if;
+
+  return null;
+end;
+$$;
+
+create or replace function public.parse_flight_minutes(p_value text)
+returns integer
+language plpgsql
+immutable
+as $$
+declare
+  v_parts text[];
+begin
+  v_parts := regexp_match(trim(coalesce(p_value, '')), '^(\d{1,2}):(\d{2})(?::\d{2})?$');
+  if v_parts is null or v_parts[1]::integer > 23 or v_parts[2]::integer > 59 then
+    return null;
+  end if;
+
+  return v_parts[1]::integer * 60 + v_parts[2]::integer;
+end;
+$$;
+
+create or replace function public.flight_shift_slot(p_value text)
+returns text
+language sql
+immutable
+as $$
+  select lpad((m / 30 * 30 / 60)::text, 2, '0') || ':' || lpad((m / 30 * 30 % 60)::text, 2, '0')
+  from (select public.parse_flight_minutes(p_value) as m) parsed
+  where m is not null;
+$$;
+
+drop function if exists public.auto_assignment_plan(uuid, date, boolean, integer, text);
+drop function if exists public.auto_assignment_plan(uuid, date, boolean, integer, text, text, jsonb);
+
+create or replace function public.resolve_target_rule(p_dataset_id uuid, p_work_date date)
+returns setof public.target_rules
+language sql
+stable
+set search_path = public
+as $$
+  select r.*
+  from public.target_rules r
+  where r.dataset_id = p_dataset_id
+    and (
+      (r.kind = 'date_range' and p_work_date between r.start_date and r.end_date)
+      or (r.kind = 'weekday' and extract(isodow from p_work_date)::smallint = any(r.weekdays))
+    )
+  order by (r.kind = 'date_range') desc, (r.end_date - r.start_date) asc nulls last, r.updated_at desc
+  limit 1;
+$$;
+
+create or replace function public.effective_category_targets(p_dataset_id uuid, p_work_date date)
+returns table(category text, target_percent numeric(5,2), rule_id uuid)
+language sql
+stable
+set search_path = public
+as $$
+  with active_rule as (
+    select r.id, r.targets
+    from public.resolve_target_rule(p_dataset_id, p_work_date) r
+  ), category_codes as (
+    select ct.category
+    from public.category_targets ct
+    where ct.dataset_id = p_dataset_id
+    union
+    select jsonb_object_keys(ar.targets)
+    from active_rule ar
+    union
+    select cat.code
+    from public.categories cat
+    where cat.active
+  )
+  select
+    c.category,
+    coalesce((ar.targets ->> c.category)::numeric, ct.target_percent, cat.default_target, 0)::numeric(5,2),
+    ar.id
+  from category_codes c
+  left join active_rule ar on true
+  left join public.category_targets ct
+    on ct.dataset_id = p_dataset_id
+   and ct.category = c.category
+  left join public.categories cat
+    on cat.code = c.category
+   and cat.active;
+$$;
+
+grant execute on function public.resolve_target_rule(uuid, date) to authenticated;
+grant execute on function public.effective_category_targets(uuid, date) to authenticated;
+
+create or replace function public.auto_assignment_plan(
+  p_flights jsonb,
+  p_respect_locked boolean,
+  p_from_minutes integer,
+  p_seed text,
+  p_strategy text,
+  p_strategy_params jsonb
+)
+returns table(
+  id uuid,
+  flight_key text,
+  categoria_clasificacion text,
+  shift_slot text,
+  service_flag text,
+  operated boolean,
+  target_percent numeric(5,2),
+  total_category bigint,
+  keep_past boolean,
+  keep_manual boolean,
+  keep_operated boolean,
+  locked boolean,
+  locked_attend boolean,
+  category_rank bigint,
+  required_count integer,
+  locked_attend_count bigint
+)
+language sql
+immutable
+set search_path = public
+as $$
+  with flights_base as (
+    select
+      f.id,
+      f.flight_key,
+      f.categoria_clasificacion,
+      public.flight_shift_slot(f.hora) as shift_slot,
+      public.parse_flight_minutes(f.hora) as flight_minutes,
+      f.cdocia,
+      f.dsapto,
+      f.service_flag,
+      f.service_flag_source,
+      f.operated,
+      coalesce(f.target_percent, 0)::numeric(5,2) as target_percent,
+      count(*) over (partition by f.categoria_clasificacion) as total_category,
+      coalesce(public.parse_flight_minutes(f.hora) < p_from_minutes, false) as keep_past
+    from jsonb_to_recordset(p_flights) as f(
+      id uuid,
+      flight_key text,
+      categoria_clasificacion text,
+      hora text,
+      cdocia text,
+      dsapto text,
+      service_flag text,
+      service_flag_source text,
+      operated boolean,
+      target_percent numeric
+    )
+  ), flights_day as (
+    select
+      fb.*,
+      coalesce(not fb.keep_past and p_respect_locked and fb.service_flag_source = 'manual', false) as keep_manual,
+      coalesce(
+        not fb.keep_past and p_respect_locked and fb.operated and fb.service_flag_source is distinct from 'manual',
+        false
+      ) as keep_operated
+    from flights_base fb
+  ), seeded as (
+    select
+      fd.*,
+      (fd.keep_past or fd.keep_manual or fd.keep_operated) as locked,
+      md5(fd.flight_key || '|' || p_seed) as seed_hash,
+      case p_strategy
+        when 'hour_stratified' then coalesce(
+          (fd.flight_minutes / greatest(coalesce((p_strategy_params ->> 'bucketMinutes')::integer, 60), 1))::text,
+          ''
+        )
+        when 'airline_round_robin' then coalesce(fd.cdocia, '')
+        else ''
+      end as stratum,
+      coalesce((p_strategy_params -> 'weights' ->> fd.dsapto)::numeric, 1) as destination_weight
+    from flights_day fd
+  ), stratified as (
+    select
+      sd.*,
+      row_number() over (
+        partition by sd.categoria_clasificacion, sd.locked, sd.stratum
+        order by sd.seed_hash, sd.flight_key
+      ) as stratum_rank,
+      count(*) over (partition by sd.categoria_clasificacion, sd.locked, sd.stratum) as stratum_size
+    from seeded sd
+  ), ranked as (
+    select
+      st.*,
+      case
+        when st.keep_past then st.operated
+        when st.keep_manual then st.service_flag = 'ATENDER'
+        else st.keep_operated
+      end as locked_attend,
+      row_number() over (
+        partition by st.categoria_clasificacion, st.locked
+        order by
+          case p_strategy
+            when 'hour_stratified' then (st.stratum_rank - 0.5) / st.stratum_size
+            when 'airline_round_robin' then st.stratum_rank::numeric
+            when 'destination_weighted' then
+              case
+                when st.destination_weight > 0 then
+                  -ln(
+                    (('x' || lpad(substr(st.seed_hash, 1, 8), 16, '0'))::bit(64)::bigint + 0.5) / 4294967296.0
+                  ) / st.destination_weight
+              end
+            else 0
+          end nulls last,
+          st.seed_hash,
+          st.flight_key
+      ) as category_rank
+    from stratified st
+  )
+  select
+    r.id,
+    r.flight_key,
+    r.categoria_clasificacion,
+    r.shift_slot,
+    r.service_flag,
+    r.operated,
+    r.target_percent,
+    r.total_category,
+    r.keep_past,
+    r.keep_manual,
+    r.keep_operated,
+    r.locked,
+    r.locked_attend,
+    r.category_rank,
+    least(r.total_category, ceil(r.total_category * r.target_percent / 100.0)::integer)::integer as required_count,
+    count(*) filter (where r.locked_attend) over (partition by r.categoria_clasificacion) as locked_attend_count
+  from ranked r;
+$$;
+
+create or replace function public.auto_assignment_decide(
+  p_flights jsonb,
+  p_capacity jsonb,
+  p_respect_locked boolean,
+  p_from_minutes integer,
+  p_seed text,
+  p_strategy text,
+  p_strategy_params jsonb,
+  p_respect_capacity boolean
+)
+returns table(
+  id uuid,
+  flight_key text,
+  categoria_clasificacion text,
+  service_flag text,
+  operated boolean,
+  target_percent numeric(5,2),
+  total_category bigint,
+  required_count integer,
+  keep_past boolean,
+  keep_manual boolean,
+  locked boolean,
+  next_flag text,
+  shortfall integer,
+  blocked_slots jsonb
+)
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_used jsonb := '{}'::jsonb;
+  v_remaining jsonb := '{}'::jsonb;
+  v_eligible jsonb;
+  v_ids uuid[];
+  v_categories text[];
+  v_slots text[];
+  v_picked boolean[];
+  v_count integer;
+  v_index integer;
+  v_best_index integer;
+  v_best_category text;
+  v_best_slack integer;
+  v_entry record;
+  v_capacity_attend uuid[] := '{}';
+  v_capacity_report jsonb := '{}'::jsonb;
+begin
+  if p_respect_capacity then
+    select
+      coalesce(jsonb_object_agg(used.shift_slot, used.used_count), '{}'::jsonb)
+    into v_used
+    from (
+      select p.shift_slot, count(*) as used_count
+      from public.auto_assignment_plan(p_flights, p_respect_locked, p_from_minutes, p_seed, p_strategy, p_strategy_params) p
+      where p.locked and p.locked_attend and p.shift_slot is not null
+      group by p.shift_slot
+    ) used;
+
+    select
+      coalesce(jsonb_object_agg(needed.category, needed.remaining_count), '{}'::jsonb)
+    into v_remaining
+    from (
+      select p.categoria_clasificacion as category, greatest(0, max(p.required_count) - max(p.locked_attend_count)) as remaining_count
+      from public.auto_assignment_plan(p_flights, p_respect_locked, p_from_minutes, p_seed, p_strategy, p_strategy_params) p
+      group by p.categoria_clasificacion
+    ) needed;
+
+    select
+      array_agg(p.id order by p.categoria_clasificacion, p.category_rank),
+      array_agg(p.categoria_clasificacion order by p.categoria_clasificacion, p.category_rank),
+      array_agg(coalesce(p.shift_slot, '') order by p.categoria_clasificacion, p.category_rank)
+    into v_ids, v_categories, v_slots
+    from public.auto_assignment_plan(p_flights, p_respect_locked, p_from_minutes, p_seed, p_strategy, p_strategy_params) p
+    where not p.locked;
+
+    v_count := coalesce(array_length(v_ids, 1), 0);
+    v_picked := array_fill(false, array[v_count]);
+
+    loop
+      v_eligible := '{}'::jsonb;
+      for v_index in 1..v_count loop
+        if not v_picked[v_index]
+          and coalesce((v_remaining ->> v_categories[v_index])::integer, 0) > 0
+          and (
+            v_slots[v_index] = ''
+            or not (p_capacity ? v_slots[v_index])
+            or coalesce((v_used ->> v_slots[v_index])::integer, 0) < (p_capacity ->> v_slots[v_index])::integer
+          ) then
+          v_eligible := jsonb_set(
+            v_eligible,
+            array[v_categories[v_index]],
+            to_jsonb(coalesce((v_eligible ->> v_categories[v_index])::integer, 0) + 1)
+          );
+        end if;
+      end loop;
+
+      v_best_category := null;
+      for v_entry in
+        select e.key as category, e.value::integer - (v_remaining ->> e.key)::integer as slack
+        from jsonb_each_text(v_eligible) e
+        order by e.key collate "C"
+      loop
+        if v_best_category is null or v_entry.slack < v_best_slack then
+          v_best_category := v_entry.category;
+          v_best_slack := v_entry.slack;
+        end if;
+      end loop;
+
+      exit when v_best_category is null;
+
+      v_best_index := null;
+      for v_index in 1..v_count loop
+        if v_categories[v_index] = v_best_category
+          and not v_picked[v_index]
+          and (
+            v_slots[v_index] = ''
+            or not (p_capacity ? v_slots[v_index])
+            or coalesce((v_used ->> v_slots[v_index])::integer, 0) < (p_capacity ->> v_slots[v_index])::integer
+          )
+          and (
+            v_best_index is null
+            or coalesce((v_used ->> v_slots[v_index])::integer, 0) < coalesce((v_used ->> v_slots[v_best_index])::integer, 0)
+          ) then
+          v_best_index := v_index;
+        end if;
+      end loop;
+
+      v_picked[v_best_index] := true;
+      v_capacity_attend := v_capacity_attend || v_ids[v_best_index];
+      v_used := jsonb_set(
+        v_used,
+        array[v_slots[v_best_index]],
+        to_jsonb(coalesce((v_used ->> v_slots[v_best_index])::integer, 0) + 1)
+      );
+      v_remaining := jsonb_set(
+        v_remaining,
+        array[v_best_category],
+        to_jsonb((v_remaining ->> v_best_category)::integer - 1)
+      );
+    end loop;
+
+    select coalesce(
+      jsonb_object_agg(
+        r.key,
+        jsonb_build_object(
+          'shortfall', r.value::integer,
+          'blockedSlots', (
+            select coalesce(jsonb_agg(distinct c.slot order by c.slot), '[]'::jsonb)
+            from unnest(v_categories, v_slots, v_picked) as c(category, slot, picked)
+            where c.category = r.key
+              and not c.picked
+              and c.slot <> ''
+          )
+        )
+      ),
+      '{}'::jsonb
+    )
+    into v_capacity_report
+    from jsonb_each_text(v_remaining) r
+    where r.value::integer > 0;
+  end if;
+
+  return query
+  select
+    p.id,
+    p.flight_key,
+    p.categoria_clasificacion,
+    p.service_flag,
+    p.operated,
+    p.target_percent,
+    p.total_category,
+    p.required_count,
+    p.keep_past,
+    p.keep_manual,
+    p.locked,
+    case
+      when p.keep_past or p.keep_manual then p.service_flag
+      when p.keep_operated then 'ATENDER'
+      when p_respect_capacity then case when p.id = any(v_capacity_attend) then 'ATENDER' else 'NO_ATENDER' end
+      when p.category_rank <= greatest(0, p.required_count - p.locked_attend_count) then 'ATENDER'
+      else 'NO_ATENDER'
+    end,
+    coalesce((v_capacity_report -> p.categoria_clasificacion ->> 'shortfall')::integer, 0),
+    coalesce(v_capacity_report -> p.categoria_clasificacion -> 'blockedSlots', '[]'::jsonb)
+  from public.auto_assignment_plan(p_flights, p_respect_locked, p_from_minutes, p_seed, p_strategy, p_strategy_params) p;
+end;
+$$;
+
+drop function if exists public.run_auto_assignment(uuid, text);
+drop function if exists public.run_auto_assignment(uuid, text, boolean);
+drop function if exists public.run_auto_assignment(uuid, text, boolean, text);
+drop function if exists public.run_auto_assignment(uuid, text, boolean, text, boolean);
+
+create or replace function public.run_auto_assignment(
+  p_dataset_id uuid,
+  p_work_date text,
+  p_respect_locked boolean default false,
+  p_from_time text default null,
+  p_respect_capacity boolean default false,
+  p_strategy text default 'uniform',
+  p_strategy_params jsonb default '{}'::jsonb
+)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seed text := encode(gen_random_bytes(8), 'hex');
+  v_run_id uuid := gen_random_uuid();
+  v_work_date date;
+  v_work_date_iso text;
+  v_from_minutes integer;
+  v_strategy_params jsonb;
+  v_capacity jsonb := '{}'::jsonb;
+  v_flights jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para autoasignacion';
+  end if;
+
+  v_work_date := public.parse_work_date(p_work_date);
+  if v_work_date is null then
+    raise exception 'Debes indicar un dia de trabajo valido';
+  end if;
+
+  v_work_date_iso := to_char(v_work_date, 'YYYY-MM-DD');
+
+  if coalesce(trim(p_from_time), '') <> '' then
+    v_from_minutes := public.parse_flight_minutes(p_from_time);
+    if v_from_minutes is null then
+      raise exception 'Hora de corte no valida';
+    end if;
+  end if;
+
+  v_strategy_params := case p_strategy
+    when 'uniform' then '{}'::jsonb
+    when 'hour_stratified' then jsonb_build_object(
+      'bucketMinutes',
+      greatest(coalesce((p_strategy_params ->> 'bucketMinutes')::integer, 60), 1)
+    )
+    when 'airline_round_robin' then '{}'::jsonb
+    when 'destination_weighted' then jsonb_build_object(
+      'weights',
+      coalesce(p_strategy_params -> 'weights', '{}'::jsonb)
+    )
+  end;
+  if v_strategy_params is null then
+    raise exception 'Estrategia de asignacion no valida';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || p_dataset_id::text || '|' || v_work_date_iso)::bigint);
+
+  if not exists (select 1 from public.datasets d where d.id = p_dataset_id) then
+    raise exception 'Dataset no encontrado';
+  end if;
+
+  if p_respect_capacity then
+    select coalesce(jsonb_object_agg(sc.slot_start, sc.teams), '{}'::jsonb)
+    into v_capacity
+    from public.shift_capacity sc
+    where sc.dataset_id = p_dataset_id;
+  end if;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', f.id,
+        'flight_key', f.flight_key,
+        'vuelo', f.vuelo,
+        'categoria_clasificacion', f.categoria_clasificacion,
+        'hora', f.hora,
+        'cdocia', f.cdocia,
+        'dsapto', f.dsapto,
+        'service_flag', f.service_flag,
+        'service_flag_source', f.service_flag_source,
+        'operated', f.operated,
+        'target_percent', ct.target_percent
+      )
+      order by f.flight_key
+    ),
+    '[]'::jsonb
+  )
+  into v_flights
+  from public.flights f
+  left join public.effective_category_targets(p_dataset_id, v_work_date) ct
+    on ct.category = f.categoria_clasificacion
+  where f.dataset_id = p_dataset_id
+    and public.parse_work_date(f.fecha) = v_work_date;
+
+  perform set_config('app.service_flag_change', 'on', true);
+
+  return query
+  with final_flags as (
+    select d.*
+    from public.auto_assignment_decide(
+      v_flights,
+      v_capacity,
+      p_respect_locked,
+      v_from_minutes,
+      v_seed,
+      p_strategy,
+      v_strategy_params,
+      p_respect_capacity
+    ) d
+  ), updated as (
+    update public.flights f
+    set
+      service_flag = ff.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from final_flags ff
+    where f.id = ff.id
+      and not ff.keep_manual
+      and not ff.keep_past
+    returning f.id
+  ), summary_rows as (
+    select
+      ff.categoria_clasificacion as category,
+      max(ff.total_category)::integer as total,
+      max(ff.target_percent)::numeric(5,2) as target_percent,
+      max(ff.required_count)::integer as required_count,
+      (
+        count(*) filter (where ff.next_flag = 'ATENDER' and not ff.keep_past)
+        + count(*) filter (where ff.keep_past and ff.operated)
+      )::integer as assigned_count,
+      count(*) filter (where ff.locked)::integer as locked_count,
+      count(*) filter (where ff.keep_past)::integer as past_count,
+      max(ff.shortfall)::integer as shortfall,
+      (array_agg(ff.blocked_slots))[1] as blocked_slots
+    from final_flags ff
+    group by ff.categoria_clasificacion
+  ), summary_json as (
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'category', sr.category,
+          'total', sr.total,
+          'targetPercent', sr.target_percent,
+          'requiredCount', sr.required_count,
+          'assignedCount', sr.assigned_count,
+          'lockedCount', sr.locked_count,
+          'pastCount', sr.past_count,
+          'shortfall', sr.shortfall,
+          'blockedSlots', sr.blocked_slots
+        )
+        order by sr.category
+      ),
+      '[]'::jsonb
+    ) as payload
+    from summary_rows sr
+  ), inserted_run as (
+    insert into public.assignment_runs as ar (
+      id,
+      dataset_id,
+      work_date,
+      seed,
+      summary_json,
+      updated_flights,
+      strategy,
+      strategy_params,
+      options_json,
+      flights_snapshot,
+      result_flags,
+      created_by,
+      created_by_email
+    )
+    select
+      v_run_id,
+      p_dataset_id,
+      v_work_date_iso,
+      v_seed,
+      sj.payload,
+      coalesce((select count(*) from updated), 0),
+      p_strategy,
+      v_strategy_params,
+      jsonb_build_object(
+        'respectLocked', p_respect_locked,
+        'fromTime', nullif(trim(coalesce(p_from_time, '')), ''),
+        'respectCapacity', p_respect_capacity,
+        'shiftCapacity', v_capacity,
+        'targetRuleId', (select r.id from public.resolve_target_rule(p_dataset_id, v_work_date) r)
+      ),
+      v_flights,
+      (
+        select coalesce(
+          jsonb_agg(
+            jsonb_build_object('id', ff.id, 'flightKey', ff.flight_key, 'serviceFlag', ff.next_flag)
+            order by ff.flight_key
+          ),
+          '[]'::jsonb
+        )
+        from final_flags ff
+        where not ff.keep_manual
+          and not ff.keep_past
+      ),
+      auth.uid(),
+      public.current_user_email()
+    from summary_json sj
+    returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json
+  )
+  select ir.id, ir.seed, ir.work_date, ir.updated_flights, ir.summary_json
+  from inserted_run ir;
+
+  perform set_config('app.service_flag_change', '', true);
+end;
+$$;
+
+grant execute on function public.run_auto_assignment(uuid, text, boolean, text, boolean, text, jsonb) to authenticated;
+
+create or replace function public.verify_assignment_run(p_run_id uuid)
+returns setof public.assignment_run_verifications
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.assignment_runs%rowtype;
+  v_source public.assignment_runs%rowtype;
+  v_report jsonb;
+  v_status text;
+  v_verification public.assignment_run_verifications%rowtype;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para verificar ejecuciones';
+  end if;
+
+  select * into v_run
+  from public.assignment_runs ar
+  where ar.id = p_run_id;
+
+  if not found then
+    raise exception 'Ejecucion no encontrada';
+  end if;
+
+  if v_run.restored_from_run_id is null and v_run.flights_snapshot is null then
+    raise exception 'La ejecucion no guarda snapshot de vuelos y no se puede reproducir';
+  end if;
+
+  if v_run.restored_from_run_id is not null then
+    select * into v_source
+    from public.assignment_runs ar
+    where ar.id = v_run.restored_from_run_id;
+
+    if v_run.result_flags is null or v_source.result_flags is null then
+      raise exception 'La restauracion no guarda el detalle de vuelos y no se puede verificar';
+    end if;
+  end if;
+
+  with expected as (
+    select
+      d.id,
+      d.flight_key,
+      snapshot.vuelo,
+      d.service_flag as snapshot_flag,
+      d.next_flag
+    from public.auto_assignment_decide(
+      v_run.flights_snapshot,
+      coalesce(v_run.options_json -> 'shiftCapacity', '{}'::jsonb),
+      coalesce((v_run.options_json ->> 'respectLocked')::boolean, false),
+      public.parse_flight_minutes(v_run.options_json ->> 'fromTime'),
+      v_run.seed,
+      v_run.strategy,
+      v_run.strategy_params,
+      coalesce((v_run.options_json ->> 'respectCapacity')::boolean, false)
+    ) d
+    left join jsonb_to_recordset(v_run.flights_snapshot) as snapshot(id uuid, vuelo text)
+      on snapshot.id = d.id
+    where v_run.restored_from_run_id is null
+      and not d.keep_manual
+      and not d.keep_past
+    union all
+    select
+      sf.id,
+      sf."flightKey",
+      f.vuelo,
+      rf."serviceFlag",
+      sf."serviceFlag"
+    from jsonb_to_recordset(coalesce(v_source.result_flags, '[]'::jsonb)) as sf(id uuid, "flightKey" text, "serviceFlag" text)
+    left join jsonb_to_recordset(coalesce(v_run.result_flags, '[]'::jsonb)) as rf(id uuid, "serviceFlag" text)
+      on rf.id = sf.id
+    left join public.flights f on f.id = sf.id
+    where v_run.restored_from_run_id is not null
+  ), compared as (
+    select
+      e.*,
+      f.service_flag_run_id is not distinct from p_run_id as current_from_run,
+      v_run.restored_from_run_id is not null
+        and e.snapshot_flag is null
+        and (f.id is null or f.operated) as skipped,
+      case
+        when f.service_flag_run_id is not distinct from p_run_id then f.service_flag
+        else coalesce(ev.service_flag, e.snapshot_flag)
+      end as written_flag
+    from expected e
+    left join public.flights f on f.id = e.id
+    left join lateral (
+      select fe.new_values ->> 'service_flag' as service_flag
+      from public.flight_events fe
+      where fe.flight_id = e.id
+        and fe.run_id = p_run_id
+        and fe.event_type = 'service_flag'
+      order by fe.id desc
+      limit 1
+    ) ev on true
+  )
+  select jsonb_build_object(
+    'runId', p_run_id,
+    'datasetId', v_run.dataset_id,
+    'workDate', v_run.work_date,
+    'seed', v_run.seed,
+    'strategy', v_run.strategy,
+    'strategyParams', v_run.strategy_params,
+    'options', v_run.options_json,
+    'runCreatedAt', v_run.created_at,
+    'restoredFromRunId', v_run.restored_from_run_id,
+    'checkedFlights', count(*) filter (where not c.skipped),
+    'expectedAttend', count(*) filter (where c.next_flag = 'ATENDER' and not c.skipped),
+    'matchedFlights', count(*) filter (where c.written_flag is not distinct from c.next_flag and not c.skipped),
+    'mismatchedFlights', count(*) filter (where c.written_flag is distinct from c.next_flag and not c.skipped),
+    'supersededFlights', count(*) filter (where not c.current_from_run and not c.skipped),
+    'skippedFlights', count(*) filter (where c.skipped),
+    'unexpectedFlights', (
+      select count(*)
+      from public.flights f
+      where f.service_flag_run_id = p_run_id
+        and not exists (select 1 from expected e where e.id = f.id)
+    ) + (
+      select count(*)
+      from jsonb_to_recordset(coalesce(v_run.result_flags, '[]'::jsonb)) as rf(id uuid)
+      where v_run.restored_from_run_id is not null
+        and not exists (select 1 from expected e where e.id = rf.id)
+    ),
+    'mismatches', coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'flightKey', c.flight_key,
+          'vuelo', c.vuelo,
+          'expected', c.next_flag,
+          'actual', c.written_flag
+        )
+        order by c.flight_key
+      ) filter (where c.written_flag is distinct from c.next_flag and not c.skipped),
+      '[]'::jsonb
+    )
+  )
+  into v_report
+  from compared c;
+
+  v_status := case
+    when (v_report ->> 'mismatchedFlights')::integer = 0 and (v_report ->> 'unexpectedFlights')::integer = 0 then 'verified'
+    else 'failed'
+  end;
+
+  insert into public.assignment_run_verifications as arv (run_id, status, report, report_digest, verified_by_email)
+  values (p_run_id, v_status, v_report, encode(digest(v_report::text, 'sha256'), 'hex'), public.current_user_email())
+  returning arv.* into v_verification;
+
+  return next v_verification;
+end;
+$$;
+
+grant execute on function public.verify_assignment_run(uuid) to authenticated;
+
+create or replace function public.restore_assignment_run(p_run_id uuid)
+returns table(run_id uuid, seed text, work_date text, updated_flights integer, summary jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source public.assignment_runs%rowtype;
+  v_run_id uuid := gen_random_uuid();
+  v_result_flags jsonb;
+  v_updated_flights integer;
+  v_summary jsonb;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para restaurar ejecuciones';
+  end if;
+
+  select ar.*
+  into v_source
+  from public.assignment_runs ar
+  where ar.id = p_run_id;
+
+  if not found then
+    raise exception 'Ejecucion no encontrada';
+  end if;
+
+  if v_source.result_flags is null then
+    raise exception 'La ejecucion no guarda el detalle de vuelos y no se puede restaurar';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('auto_assign|' || v_source.dataset_id::text || '|' || v_source.work_date)::bigint);
+
+  perform set_config('app.service_flag_change', 'on', true);
+
+  with restore_targets as (
+    select f.id, f.flight_key, f.service_flag as previous_flag, rf."serviceFlag" as next_flag
+    from jsonb_to_recordset(v_source.result_flags) as rf(id uuid, "serviceFlag" text)
+    join public.flights f
+      on f.id = rf.id
+     and f.dataset_id = v_source.dataset_id
+    where not f.operated
+      and rf."serviceFlag" in ('ATENDER', 'NO_ATENDER')
+    for update of f
+  ), restored as (
+    update public.flights f
+    set
+      service_flag = rt.next_flag,
+      service_flag_source = 'auto',
+      service_flag_updated_at = timezone('utc', now()),
+      service_flag_updated_by_email = public.current_user_email(),
+      service_flag_run_id = v_run_id
+    from restore_targets rt
+    where f.id = rt.id
+    returning rt.id, rt.flight_key, rt.previous_flag, rt.next_flag
+  )
+  select
+    coalesce(
+      jsonb_agg(
+        jsonb_build_object('id', r.id, 'flightKey', r.flight_key, 'serviceFlag', r.next_flag)
+        order by r.flight_key
+      ),
+      '[]'::jsonb
+    ),
+    (count(*) filter (where r.previous_flag is distinct from r.next_flag))::integer
+  into v_result_flags, v_updated_flights
+  from restored r;
+
+  perform set_config('app.service_flag_change', '', true);
+
+  with summary_rows as (
+    select
+      f.categoria_clasificacion as category,
+      count(*)::integer as total,
+      coalesce(max(ct.target_percent), 0)::numeric(5,2) as target_percent,
+      count(*) filter (where f.service_flag = 'ATENDER')::integer as assigned_count,
+      count(*) filter (where f.operated)::integer as locked_count
+    from public.flights f
+    left join public.effective_category_targets(v_source.dataset_id, public.parse_work_date(v_source.work_date)) ct
+      on ct.category = f.categoria_clasificacion
+    where f.dataset_id = v_source.dataset_id
+      and public.parse_work_date(f.fecha) = public.parse_work_date(v_source.work_date)
+    group by f.categoria_clasificacion
+  )
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'category', sr.category,
+        'total', sr.total,
+        'targetPercent', sr.target_percent,
+        'requiredCount', least(sr.total, ceil(sr.total * sr.target_percent / 100.0)::integer),
+        'assignedCount', sr.assigned_count,
+        'lockedCount', sr.locked_count,
+        'pastCount', 0
+      )
+      order by sr.category
+    ),
+    '[]'::jsonb
+  )
+  into v_summary
+  from summary_rows sr;
+
+  return query
+  insert into public.assignment_runs as ar (
+    id,
+    dataset_id,
+    work_date,
+    seed,
+    summary_json,
+    updated_flights,
+    strategy,
+    strategy_params,
+    options_json,
+    flights_snapshot,
+    result_flags,
+    restored_from_run_id,
+    created_by,
+    created_by_email
+  )
+  values (
+    v_run_id,
+    v_source.dataset_id,
+    v_source.work_date,
+    v_source.seed,
+    v_summary,
+    v_updated_flights,
+    v_source.strategy,
+    v_source.strategy_params,
+    v_source.options_json,
+    v_source.flights_snapshot,
+    v_result_flags,
+    v_source.id,
+    auth.uid(),
+    public.current_user_email()
+  )
+  returning ar.id, ar.seed, ar.work_date, ar.updated_flights, ar.summary_json;
+end;
+$$;
+
+grant execute on function public.restore_assignment_run(uuid) to authenticated;
+
+create or replace function public.set_manual_service_flag(
+  p_flight_id uuid,
+  p_service_flag text,
+  p_swap_flight_id uuid default null
+)
+returns setof public.flights
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_flight public.flights%rowtype;
+  v_swap public.flights%rowtype;
+  v_work_date date;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para cambiar etiquetas';
+  end if;
+
+  if p_service_flag is null or p_service_flag not in ('ATENDER', 'NO_ATENDER') then
+    raise exception 'Etiqueta no valida';
+  end if;
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id;
+
+  if not found then
+    raise exception 'Vuelo no encontrado';
+  end if;
+
+  v_work_date := public.parse_work_date(v_flight.fecha);
+
+  perform pg_advisory_xact_lock(
+    hashtext('auto_assign|' || v_flight.dataset_id::text || '|' || coalesce(to_char(v_work_date, 'YYYY-MM-DD'), ''))::bigint
+  );
+
+  select * into v_flight
+  from public.flights f
+  where f.id = p_flight_id
+  for update;
+
+  if not found then
+    raise exception 'Vuelo no encontrado';
+  end if;
+
+  if v_flight.operated then
+    raise exception 'No se puede cambiar la etiqueta de un vuelo ya operado';
+  end if;
+
+  if p_swap_flight_id is not null then
+    select * into v_swap
+    from public.flights f
+    where f.id = p_swap_flight_id
+    for update;
+
+    if not found
+      or v_swap.id = v_flight.id
+      or v_swap.dataset_id <> v_flight.dataset_id
+      or v_swap.categoria_clasificacion <> v_flight.categoria_clasificacion
+      or public.parse_work_date(v_swap.fecha) is distinct from v_work_date then
+      raise exception 'El vuelo de compensacion debe ser de la misma categoria y dia';
+    end if;
+
+    if v_swap.operated then
+      raise exception 'El vuelo de compensacion ya esta operado';
+    end if;
+
+    if (coalesce(v_swap.service_flag, '') = 'ATENDER') <> (p_service_flag = 'ATENDER') then
+      raise exception 'El vuelo de compensacion ha cambiado de etiqueta, vuelve a elegirlo';
+    end if;
+  end if;
+
+  perform set_config('app.service_flag_change', 'on', true);
+
+  return query
+  update public.flights f
+  set
+    service_flag = case
+      when f.id = p_flight_id then p_service_flag
+      when p_service_flag = 'ATENDER' then 'NO_ATENDER'
+      else 'ATENDER'
+    end,
+    service_flag_source = 'manual',
+    service_flag_updated_at = timezone('utc', now()),
+    service_flag_updated_by_email = public.current_user_email(),
+    service_flag_run_id = null
+  where f.id = p_flight_id
+     or f.id = p_swap_flight_id
+  returning f.*;
+
+  perform set_config('app.service_flag_change', '', true);
+end;
+$$;
+
+grant execute on function public.set_manual_service_flag(uuid, text, uuid) to authenticated;
+
+create or replace function public.list_operators()
+returns table(email text, is_admin boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select ae.email, ae.is_admin
+  from public.allowed_emails ae
+  where ae.active = true
+    and public.current_user_is_allowed()
+  order by ae.email;
+$$;
+
+create or replace function public.assign_flights(p_assignments jsonb)
+returns setof public.flights
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Usuario no autorizado para asignar vuelos';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+    where a.email is not null
+      and not public.is_email_allowed(a.email)
+  ) then
+    raise exception 'El operador no esta autorizado';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+    join public.flights f
+      on f.id = a."flightId"
+    where a.email is not null
+      and (f.operated or f.service_flag is distinct from 'ATENDER')
+  ) then
+    raise exception 'Solo se pueden asignar vuelos ATENDER pendientes de operar';
+  end if;
+
+  perform set_config('app.flight_assignment', 'on', true);
+
+  return query
+  update public.flights f
+  set
+    assigned_to_email = lower(trim(a.email)),
+    assigned_at = case when a.email is null then null else timezone('utc', now()) end,
+    assigned_by_email = case when a.email is null then null else public.current_user_email() end
+  from jsonb_to_recordset(coalesce(p_assignments, '[]'::jsonb)) as a("flightId" uuid, email text)
+  where f.id = a."flightId"
+  returning f.*;
+
+  perform set_config('app.flight_assignment', '', true);
+end;
+$$;
+
+grant execute on function public.list_operators() to authenticated;
+grant execute on function public.assign_flights(jsonb) to authenticated;
+
+alter table public.allowed_emails enable row level security;
+alter table public.datasets enable row level security;
+alter table public.category_targets enable row level security;
+alter table public.categories enable row level security;
+alter table public.classification_rules enable row level security;
+alter table public.dataset_settings enable row level security;
+alter table public.shift_capacity enable row level security;
+alter table public.target_rules enable row level security;
+alter table public.assignment_runs enable row level security;
+alter table public.assignment_run_verifications enable row level security;
+alter table public.flights enable row level security;
+alter table public.csv_mapping_profiles enable row level security;
+alter table public.dataset_updates enable row level security;
+alter table public.operated_reversals enable row level security;
+alter table public.flight_events enable row level security;
+
+drop policy if exists datasets_select_allowed on public.datasets;
 create policy datasets_select_allowed
 on public.datasets
 for select
 to authenticated
-using (public.current_user_is_allowed());
+using (public.current_user_is_admin() or (public.current_user_is_allowed() and archived_at is null));
 
 drop policy if exists datasets_insert_allowed on public.datasets;
 create policy datasets_insert_allowed
 on public.datasets
 for insert
 to authenticated
-using (public.current_user_is_admin())
 with check (public.current_user_is_admin() and created_by = auth.uid());
 
 drop policy if exists datasets_update_allowed on public.datasets;
@@ -453,6 +2421,13 @@ to authenticated
 using (public.current_user_is_admin())
 with check (public.current_user_is_admin());
 
+drop policy if exists datasets_delete_allowed on public.datasets;
+create policy datasets_delete_allowed
+on public.datasets
+for delete
+to authenticated
+using (public.current_user_is_admin());
+
 drop policy if exists category_targets_select_allowed on public.category_targets;
 create policy category_targets_select_allowed
 on public.category_targets
@@ -475,6 +2450,115 @@ to authenticated
 using (public.current_user_is_admin())
 with check (public.current_user_is_admin());
 
+drop policy if exists shift_capacity_select_allowed on public.shift_capacity;
+create policy shift_capacity_select_allowed
+on public.shift_capacity
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists shift_capacity_insert_allowed on public.shift_capacity;
+create policy shift_capacity_insert_allowed
+on public.shift_capacity
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists shift_capacity_update_allowed on public.shift_capacity;
+create policy shift_capacity_update_allowed
+on public.shift_capacity
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+drop policy if exists shift_capacity_delete_allowed on public.shift_capacity;
+create policy shift_capacity_delete_allowed
+on public.shift_capacity
+for delete
+to authenticated
+using (public.current_user_is_admin());
+
+drop policy if exists categories_select_allowed on public.categories;
+create policy categories_select_allowed
+on public.categories
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists categories_insert_allowed on public.categories;
+create policy categories_insert_allowed
+on public.categories
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists categories_update_allowed on public.categories;
+create policy categories_update_allowed
+on public.categories
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+drop policy if exists classification_rules_select_allowed on public.classification_rules;
+create policy classification_rules_select_allowed
+on public.classification_rules
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists classification_rules_insert_allowed on public.classification_rules;
+create policy classification_rules_insert_allowed
+on public.classification_rules
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists classification_rules_update_allowed on public.classification_rules;
+create policy classification_rules_update_allowed
+on public.classification_rules
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+drop policy if exists classification_rules_delete_allowed on public.classification_rules;
+create policy classification_rules_delete_allowed
+on public.classification_rules
+for delete
+to authenticated
+using (public.current_user_is_admin());
+
+drop policy if exists target_rules_select_allowed on public.target_rules;
+create policy target_rules_select_allowed
+on public.target_rules
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists target_rules_insert_allowed on public.target_rules;
+create policy target_rules_insert_allowed
+on public.target_rules
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists target_rules_update_allowed on public.target_rules;
+create policy target_rules_update_allowed
+on public.target_rules
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+drop policy if exists target_rules_delete_allowed on public.target_rules;
+create policy target_rules_delete_allowed
+on public.target_rules
+for delete
+to authenticated
+using (public.current_user_is_admin());
+
 drop policy if exists dataset_settings_select_allowed on public.dataset_settings;
 create policy dataset_settings_select_allowed
 on public.dataset_settings
@@ -502,7 +2586,15 @@ create policy assignment_runs_select_allowed
 on public.assignment_runs
 for select
 to authenticated
-using (public.current_user_is_allowed());
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = assignment_runs.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
 
 drop policy if exists assignment_runs_insert_allowed on public.assignment_runs;
 create policy assignment_runs_insert_allowed
@@ -511,12 +2603,36 @@ for insert
 to authenticated
 with check (public.current_user_is_allowed());
 
+drop policy if exists assignment_run_verifications_select_allowed on public.assignment_run_verifications;
+create policy assignment_run_verifications_select_allowed
+on public.assignment_run_verifications
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.assignment_runs ar
+    join public.datasets d on d.id = ar.dataset_id
+    where ar.id = assignment_run_verifications.run_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
 drop policy if exists flights_select_allowed on public.flights;
 create policy flights_select_allowed
 on public.flights
 for select
 to authenticated
-using (public.current_user_is_allowed());
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flights.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
 
 drop policy if exists flights_insert_allowed on public.flights;
 create policy flights_insert_allowed
@@ -530,19 +2646,117 @@ create policy flights_update_allowed
 on public.flights
 for update
 to authenticated
-using (public.current_user_is_allowed() and operated = false)
-with check (public.current_user_is_allowed());
+using (
+  public.current_user_is_allowed()
+  and operated = false
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flights.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+)
+with check (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flights.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists csv_mapping_profiles_select_allowed on public.csv_mapping_profiles;
+create policy csv_mapping_profiles_select_allowed
+on public.csv_mapping_profiles
+for select
+to authenticated
+using (public.current_user_is_allowed());
+
+drop policy if exists csv_mapping_profiles_insert_allowed on public.csv_mapping_profiles;
+create policy csv_mapping_profiles_insert_allowed
+on public.csv_mapping_profiles
+for insert
+to authenticated
+with check (public.current_user_is_admin());
+
+drop policy if exists csv_mapping_profiles_update_allowed on public.csv_mapping_profiles;
+create policy csv_mapping_profiles_update_allowed
+on public.csv_mapping_profiles
+for update
+to authenticated
+using (public.current_user_is_admin())
+with check (public.current_user_is_admin());
+
+drop policy if exists dataset_updates_select_allowed on public.dataset_updates;
+create policy dataset_updates_select_allowed
+on public.dataset_updates
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = dataset_updates.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists operated_reversals_select_allowed on public.operated_reversals;
+create policy operated_reversals_select_allowed
+on public.operated_reversals
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = operated_reversals.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
+
+drop policy if exists flight_events_select_allowed on public.flight_events;
+create policy flight_events_select_allowed
+on public.flight_events
+for select
+to authenticated
+using (
+  public.current_user_is_allowed()
+  and exists (
+    select 1
+    from public.datasets d
+    where d.id = flight_events.dataset_id
+      and (d.archived_at is null or public.current_user_is_admin())
+  )
+);
 
 grant usage on schema public to anon, authenticated;
-grant select, insert, update on public.datasets to authenticated;
+grant select, insert, update, delete on public.datasets to authenticated;
 grant select, insert, update on public.category_targets to authenticated;
+grant select, insert, update on public.categories to authenticated;
+grant select, insert, update, delete on public.classification_rules to authenticated;
 grant select, insert, update on public.dataset_settings to authenticated;
+grant select, insert, update, delete on public.shift_capacity to authenticated;
+grant select, insert, update, delete on public.target_rules to authenticated;
 grant select, insert on public.assignment_runs to authenticated;
+grant select on public.assignment_run_verifications to authenticated;
 grant select, insert, update on public.flights to authenticated;
+grant select, insert, update on public.csv_mapping_profiles to authenticated;
+grant select on public.dataset_updates to authenticated;
+grant select on public.operated_reversals to authenticated;
+grant select on public.flight_events to authenticated;
 
 revoke all on public.allowed_emails from anon;
 revoke all on public.allowed_emails from authenticated;
 
+alter table public.flights replica identity full;
+alter table public.category_targets replica identity full;
+alter table public.dataset_settings replica identity full;
+alter table public.operated_reversals replica identity full;
+
 do $$
 begin
   if not exists (
@@ -574,5 +2788,15 @@ begin
   ) then
     alter publication supabase_realtime add table public.dataset_settings;
   end if;
+
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'operated_reversals'
+  ) then
+    alter publication supabase_realtime add table public.operated_reversals;
+  end if;
 end;
 $$;